@@ -0,0 +1,466 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { Button } from '@/components/ui/Button';
+import { LoadingScreen } from '@/components/LoadingScreen';
+import { useToast } from '@/hooks/useToastCompat';
+import { hasPermission } from '@/lib/constants/roles';
+import { getEventCategoryLabel } from '@/lib/constants/eventCategories';
+import type { AnalyticsSummary, AttendanceBreakdown, EventTurnout } from '@/lib/types';
+import { CHAPTER } from '@/lib/chapter';
+
+/**
+ * Recent events shown in the per-event chart
+ */
+const RECENT_EVENTS_SHOWN = 30;
+
+/**
+ * Format a ratio as a percentage
+ */
+function formatPercent(ratio: number | null): string {
+  return ratio === null ? '—' : `${Math.round(ratio * 100)}%`;
+}
+
+/**
+ * Format an ISO date for display
+ */
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * Stat Card
+ */
+function StatCard({ label, value, detail }: { label: string; value: string | number; detail?: string }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-5">
+      <p className="text-sm font-medium text-gray-500 dark:text-gray-400">{label}</p>
+      <p className="text-3xl font-bold text-gray-900 dark:text-white mt-1">{value}</p>
+      {detail && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{detail}</p>}
+    </div>
+  );
+}
+
+/**
+ * Section Card
+ */
+function Section({ title, description, children }: { title: string; description?: string; children: React.ReactNode }) {
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-6">
+      <h2 className="text-xl font-bold text-gray-900 dark:text-white">{title}</h2>
+      {description && <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{description}</p>}
+      {children}
+    </section>
+  );
+}
+
+/**
+ * Stacked new/returning bar chart
+ */
+function NewReturningChart({ bars }: { bars: { key: string; label: string; title: string; newCount: number; returningCount: number }[] }) {
+  const max = Math.max(1, ...bars.map((bar) => bar.newCount + bar.returningCount));
+  
+  if (bars.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No attendance recorded yet.</p>;
+  }
+  
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-48 overflow-x-auto custom-scrollbar">
+        {bars.map((bar) => (
+          <div
+            key={bar.key}
+            title={`${bar.title}: ${bar.newCount} new, ${bar.returningCount} returning`}
+            className="flex-1 min-w-[12px] h-full flex flex-col justify-end"
+          >
+            <div
+              className="bg-red-600 dark:bg-red-500 rounded-t"
+              style={{ height: `${(bar.returningCount / max) * 100}%` }}
+            />
+            <div
+              className="bg-blue-400 dark:bg-blue-500"
+              style={{ height: `${(bar.newCount / max) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-1">
+        {bars.map((bar) => (
+          <div key={bar.key} className="flex-1 min-w-[12px] text-[10px] text-center text-gray-500 dark:text-gray-400 truncate">
+            {bar.label}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-4 mt-3 text-xs text-gray-600 dark:text-gray-400">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-blue-400 dark:bg-blue-500" /> New</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-red-600 dark:bg-red-500" /> Returning</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Horizontal bars for a profile field breakdown
+ */
+function BreakdownBars({ rows }: { rows: AttendanceBreakdown[] }) {
+  const max = Math.max(1, ...rows.map((row) => row.attendances));
+  
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No members yet.</p>;
+  }
+  
+  return (
+    <div className="space-y-3">
+      {rows.map((row) => (
+        <div key={row.value || 'unspecified'}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-gray-900 dark:text-white truncate">{row.label}</span>
+            <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap ml-2">
+              {row.attendances} check-ins · {row.activeMembers}/{row.members} active
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-700">
+            <div className="h-2 rounded-full bg-red-600 dark:bg-red-500" style={{ width: `${(row.attendances / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Admin Event Analytics Page
+ * 
+ * Features:
+ * - Attendance per event and per month, split into new and returning members
+ * - Retention cohorts by first-event month
+ * - Breakdowns by major and university level
+ * - RSVP no-show rate and top events by turnout
+ * - Served from precomputed aggregates, with a manual refresh
+ * - Redirects users without analytics:view
+ */
+export default function AdminAnalyticsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const toast = useToast();
+  
+  const [analytics, setAnalytics] = useState<AnalyticsSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  
+  // Redirect users without analytics access
+  useEffect(() => {
+    if (authLoading) {
+      return;
+    }
+    
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+    
+    if (!hasPermission(user, 'analytics:view')) {
+      router.push('/');
+      return;
+    }
+  }, [user, authLoading, router]);
+  
+  // Fetch the analytics, or recompute them first when refreshing
+  const fetchAnalytics = useCallback(async (rebuild = false) => {
+    const { auth } = await import('@/lib/firebase/config');
+    const currentUser = auth.currentUser;
+    
+    if (!currentUser) {
+      throw new Error('User not authenticated');
+    }
+    
+    const idToken = await currentUser.getIdToken();
+    
+    const response = await fetch(rebuild ? '/api/admin/analytics/rebuild' : '/api/admin/analytics', {
+      method: rebuild ? 'POST' : 'GET',
+      headers: {
+        'Authorization': `Bearer ${idToken}`,
+      },
+    });
+    
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error?.message || 'Failed to fetch analytics');
+    }
+    
+    const data = await response.json();
+    setAnalytics(data.data);
+  }, []);
+  
+  useEffect(() => {
+    if (!user || !hasPermission(user, 'analytics:view')) {
+      return;
+    }
+    
+    setLoading(true);
+    setError(null);
+    
+    fetchAnalytics()
+      .catch((err: any) => {
+        console.error('Error fetching analytics:', err);
+        setError(err.message || 'Failed to load analytics. Please try again.');
+      })
+      .finally(() => setLoading(false));
+  }, [user, fetchAnalytics]);
+  
+  // Recompute the aggregates now
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    
+    try {
+      await fetchAnalytics(true);
+      toast.showSuccess('Analytics refreshed');
+    } catch (err: any) {
+      console.error('Error refreshing analytics:', err);
+      toast.showError(err.message || 'Failed to refresh analytics');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+  
+  // Show loading while checking auth
+  if (authLoading) {
+    return <LoadingScreen message="Loading..." />;
+  }
+  
+  // Don't render anything without analytics access (redirect will happen via useEffect)
+  if (!user || !hasPermission(user, 'analytics:view')) {
+    return null;
+  }
+  
+  const recentEvents: EventTurnout[] = analytics?.events.slice(-RECENT_EVENTS_SHOWN) ?? [];
+  const cohortMonths = Math.max(0, ...(analytics?.cohorts ?? []).map((cohort) => cohort.retained.length));
+  
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 font-sans transition-colors duration-200">
+      {/* Floating Navbar */}
+      <nav className="fixed top-0 left-0 right-0 z-50 py-3">
+        <div className="mx-auto max-w-4xl">
+          <div className="mx-auto w-fit rounded-full px-8 py-3 bg-white/10 dark:bg-gray-800/30 backdrop-blur-[20px] backdrop-saturate-[180%] border border-white/20 dark:border-gray-700/30 shadow-[0_8px_32px_rgba(0,0,0,0.1),inset_0_1px_0_rgba(255,255,255,0.3)]">
+            <div className="flex items-center justify-between min-w-[300px] gap-6">
+              <Link href="/" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
+                <img src="https://static.mlh.io/brand-assets/logo/official/mlh-logo-color.png" alt="MLH Logo" className="h-6 w-auto" />
+                <div className="h-7 w-px bg-gray-400"></div>
+                <img src={CHAPTER.branding.logoUrl} alt={`${CHAPTER.school.abbreviation} Logo`} className="h-6 w-auto" />
+              </Link>
+              <div className="flex items-center gap-4">
+                <Link href="/admin/events">
+                  <Button variant="ghost" size="sm">
+                    Events
+                  </Button>
+                </Link>
+                {hasPermission(user, 'users:view') && (
+                  <Link href="/admin/users">
+                    <Button variant="ghost" size="sm">
+                      Users
+                    </Button>
+                  </Link>
+                )}
+                <ThemeToggle />
+              </div>
+            </div>
+          </div>
+        </div>
+      </nav>
+      
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-28 pb-12">
+        {/* Header Section */}
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">Event Analytics</h1>
+            <p className="text-gray-600 dark:text-gray-300">
+              {analytics
+                ? `Updated ${new Date(analytics.generatedAt).toLocaleString()}`
+                : 'Attendance, retention and turnout across past events'}
+            </p>
+          </div>
+          <Button variant="outline" onClick={handleRefresh} disabled={refreshing || loading}>
+            {refreshing ? 'Refreshing...' : 'Refresh Now'}
+          </Button>
+        </div>
+        
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+        
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+            <p className="mt-4 text-gray-600 dark:text-gray-400">Loading analytics...</p>
+          </div>
+        ) : analytics && (
+          <div className="space-y-6">
+            {/* Totals */}
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+              <StatCard
+                label="Members"
+                value={analytics.totals.members}
+                detail={`${analytics.totals.alumni} alumni · ${analytics.totals.inactive} inactive`}
+              />
+              <StatCard
+                label="Active Members"
+                value={analytics.totals.activeMembers}
+                detail="Attended at least one event"
+              />
+              <StatCard label="Events Held" value={analytics.totals.events} />
+              <StatCard
+                label="Total Check-ins"
+                value={analytics.totals.attendances}
+                detail={`${analytics.totals.averageAttendance} per event`}
+              />
+              <StatCard
+                label="No-show Rate"
+                value={formatPercent(analytics.noShow.rate)}
+                detail={analytics.noShow.rsvps > 0
+                  ? `${analytics.noShow.noShows} of ${analytics.noShow.rsvps} RSVPs across ${analytics.noShow.events} events`
+                  : 'No RSVPs yet'}
+              />
+            </div>
+            
+            {/* Attendance Over Time */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Section title="Attendance by Month" description="Unique attendees each month, new vs returning">
+                <NewReturningChart
+                  bars={analytics.monthly.map((month) => ({
+                    key: month.month,
+                    label: month.label.replace(/ \d{2}(\d{2})$/, " '$1"),
+                    title: `${month.label} (${month.events} events, ${month.attendances} check-ins)`,
+                    newCount: month.newAttendees,
+                    returningCount: month.returningAttendees,
+                  }))}
+                />
+              </Section>
+              <Section
+                title="Attendance by Event"
+                description={`Turnout at the last ${Math.min(RECENT_EVENTS_SHOWN, analytics.events.length)} events, new vs returning`}
+              >
+                <NewReturningChart
+                  bars={recentEvents.map((event) => ({
+                    key: event.eventId,
+                    label: new Date(event.startTime).toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' }),
+                    title: `${event.name} (${formatDate(event.startTime)})`,
+                    newCount: event.newAttendees,
+                    returningCount: event.returningAttendees,
+                  }))}
+                />
+              </Section>
+            </div>
+            
+            {/* Retention Cohorts */}
+            <Section
+              title="Retention Cohorts"
+              description="Share of each first-event cohort attending again in the months after"
+            >
+              {analytics.cohorts.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No attendance recorded yet.</p>
+              ) : (
+                <div className="overflow-x-auto custom-scrollbar">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr>
+                        <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Cohort</th>
+                        <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Members</th>
+                        {Array.from({ length: cohortMonths }, (_, i) => (
+                          <th key={i} className="px-2 py-2 text-center text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                            M{i}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.cohorts.map((cohort) => (
+                        <tr key={cohort.month}>
+                          <td className="px-2 py-1 text-gray-900 dark:text-white whitespace-nowrap">{cohort.label}</td>
+                          <td className="px-2 py-1 text-right text-gray-600 dark:text-gray-400">{cohort.size}</td>
+                          {Array.from({ length: cohortMonths }, (_, i) => {
+                            const retained = cohort.retained[i];
+                            const ratio = retained === undefined || cohort.size === 0 ? null : retained / cohort.size;
+                            
+                            return (
+                              <td key={i} className="px-1 py-1">
+                                {ratio !== null && (
+                                  <div
+                                    title={`${retained} of ${cohort.size}`}
+                                    className={`rounded text-center text-xs py-1 ${ratio >= 0.5 ? 'text-white' : 'text-gray-900 dark:text-white'}`}
+                                    style={{ backgroundColor: `rgba(220, 38, 38, ${0.08 + ratio * 0.82})` }}
+                                  >
+                                    {formatPercent(ratio)}
+                                  </div>
+                                )}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Section>
+            
+            {/* Breakdowns */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Section title="By Major" description="Check-ins and active members per major">
+                <BreakdownBars rows={analytics.byMajor} />
+              </Section>
+              <Section title="By University Level" description="Check-ins and active members per level">
+                <BreakdownBars rows={analytics.byLevel} />
+              </Section>
+            </div>
+            
+            {/* Top Events */}
+            <Section title="Top Events" description="Highest turnout across all past events">
+              {analytics.topEvents.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No events held yet.</p>
+              ) : (
+                <div className="overflow-x-auto custom-scrollbar">
+                  <table className="w-full">
+                    <thead className="border-b border-gray-200 dark:border-gray-700">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Event</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Date</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Attendees</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">New</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">No-shows</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {analytics.topEvents.map((event) => (
+                        <tr key={event.eventId}>
+                          <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">
+                            {event.name}
+                            <div className="text-xs text-gray-500 dark:text-gray-400">{getEventCategoryLabel(event.category)}</div>
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">{formatDate(event.startTime)}</td>
+                          <td className="px-4 py-2 text-sm text-right font-semibold text-gray-900 dark:text-white">{event.attendees}</td>
+                          <td className="px-4 py-2 text-sm text-right text-gray-600 dark:text-gray-400">{event.newAttendees}</td>
+                          <td className="px-4 py-2 text-sm text-right text-gray-600 dark:text-gray-400">
+                            {event.rsvps > 0 ? `${event.noShows} of ${event.rsvps}` : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Section>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
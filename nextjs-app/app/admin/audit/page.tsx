@@ -0,0 +1,453 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { Button } from '@/components/ui/Button';
+import { LoadingScreen } from '@/components/LoadingScreen';
+import { useToast } from '@/hooks/useToastCompat';
+import { hasPermission, getRoleLabel } from '@/lib/constants/roles';
+import { AUDIT_ACTIONS, getAuditActionLabel } from '@/lib/constants/auditActions';
+import type { AuditAction, AuditChange, AuditRequestMeta, AuditTarget, Role } from '@/lib/types';
+import { CHAPTER } from '@/lib/chapter';
+
+interface AuditLogRow {
+  id: string;
+  actorId: string;
+  actorEmail: string;
+  actorRoles: Role[];
+  action: AuditAction;
+  target: AuditTarget;
+  changes: AuditChange[];
+  reason?: string;
+  context?: Record<string, string | number | boolean>;
+  request: AuditRequestMeta;
+  createdAt: string;
+}
+
+interface AuditFilters {
+  actor: string;
+  action: AuditAction | '';
+  target: string;
+  start: string;
+  end: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { actor: '', action: '', target: '', start: '', end: '' };
+
+/**
+ * Build the audit log query string for a set of filters
+ * Dates are whole days in the admin's timezone; the end day is inclusive.
+ */
+function buildQuery(filters: AuditFilters, extra: Record<string, string> = {}): string {
+  const params = new URLSearchParams(extra);
+  
+  if (filters.actor.trim()) params.set('actor', filters.actor.trim());
+  if (filters.action) params.set('action', filters.action);
+  if (filters.target.trim()) params.set('target', filters.target.trim());
+  if (filters.start) params.set('start', new Date(`${filters.start}T00:00:00`).toISOString());
+  if (filters.end) {
+    const end = new Date(`${filters.end}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    params.set('end', end.toISOString());
+  }
+  
+  return params.toString();
+}
+
+/**
+ * Format a changed value for display
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+  
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Admin Audit Log Page
+ * 
+ * Features:
+ * - Lists privileged admin actions, newest first
+ * - Filtering by actor, action, target and date range
+ * - Field-level before/after changes for each entry
+ * - CSV export of every entry matching the filters
+ * - Redirects users without audit:view
+ */
+export default function AdminAuditLogPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const toast = useToast();
+  
+  const [entries, setEntries] = useState<AuditLogRow[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filterInput, setFilterInput] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  
+  // Redirect users without audit access
+  useEffect(() => {
+    if (authLoading) {
+      return;
+    }
+    
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+    
+    if (!hasPermission(user, 'audit:view')) {
+      router.push('/');
+      return;
+    }
+  }, [user, authLoading, router]);
+  
+  // Fetch a page of entries, appending when a cursor is given
+  const fetchEntries = useCallback(async (cursor?: string) => {
+    const { auth } = await import('@/lib/firebase/config');
+    const currentUser = auth.currentUser;
+    
+    if (!currentUser) {
+      throw new Error('User not authenticated');
+    }
+    
+    const idToken = await currentUser.getIdToken();
+    
+    const response = await fetch(`/api/admin/audit-log?${buildQuery(filters, cursor ? { cursor } : {})}`, {
+      headers: {
+        'Authorization': `Bearer ${idToken}`,
+      },
+    });
+    
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error?.message || 'Failed to fetch audit log');
+    }
+    
+    const data = await response.json();
+    setEntries((previous) => cursor ? [...previous, ...data.data.entries] : data.data.entries);
+    setNextCursor(data.data.nextCursor);
+  }, [filters]);
+  
+  // Reload from the first page whenever the applied filters change
+  useEffect(() => {
+    if (!user || !hasPermission(user, 'audit:view')) {
+      return;
+    }
+    
+    setLoading(true);
+    setError(null);
+    
+    fetchEntries()
+      .catch((err: any) => {
+        console.error('Error fetching audit log:', err);
+        setError(err.message || 'Failed to load audit log. Please try again.');
+      })
+      .finally(() => setLoading(false));
+  }, [user, fetchEntries]);
+  
+  // Load the next page
+  const handleLoadMore = async () => {
+    if (!nextCursor) {
+      return;
+    }
+    
+    setLoadingMore(true);
+    
+    try {
+      await fetchEntries(nextCursor);
+    } catch (err: any) {
+      console.error('Error loading more audit entries:', err);
+      toast.showError(err.message || 'Failed to load more entries');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+  
+  // Download every entry matching the applied filters
+  const handleExport = async () => {
+    setExporting(true);
+    
+    try {
+      const { auth } = await import('@/lib/firebase/config');
+      const currentUser = auth.currentUser;
+      
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+      
+      const idToken = await currentUser.getIdToken();
+      
+      const response = await fetch(`/api/admin/audit-log?${buildQuery(filters, { format: 'csv' })}`, {
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+      
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to export audit log');
+      }
+      
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('Error exporting audit log:', err);
+      toast.showError(err.message || 'Failed to export audit log');
+    } finally {
+      setExporting(false);
+    }
+  };
+  
+  // Show loading while checking auth
+  if (authLoading) {
+    return <LoadingScreen message="Loading..." />;
+  }
+  
+  // Don't render anything without audit access (redirect will happen via useEffect)
+  if (!user || !hasPermission(user, 'audit:view')) {
+    return null;
+  }
+  
+  const inputClassName = 'w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-red-500';
+  
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 font-sans transition-colors duration-200">
+      {/* Floating Navbar */}
+      <nav className="fixed top-0 left-0 right-0 z-50 py-3">
+        <div className="mx-auto max-w-4xl">
+          <div className="mx-auto w-fit rounded-full px-8 py-3 bg-white/10 dark:bg-gray-800/30 backdrop-blur-[20px] backdrop-saturate-[180%] border border-white/20 dark:border-gray-700/30 shadow-[0_8px_32px_rgba(0,0,0,0.1),inset_0_1px_0_rgba(255,255,255,0.3)]">
+            <div className="flex items-center justify-between min-w-[300px] gap-6">
+              <Link href="/" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
+                <img src="https://static.mlh.io/brand-assets/logo/official/mlh-logo-color.png" alt="MLH Logo" className="h-6 w-auto" />
+                <div className="h-7 w-px bg-gray-400"></div>
+                <img src={CHAPTER.branding.logoUrl} alt={`${CHAPTER.school.abbreviation} Logo`} className="h-6 w-auto" />
+              </Link>
+              <div className="flex items-center gap-4">
+                <Link href="/admin/events">
+                  <Button variant="ghost" size="sm">
+                    Events
+                  </Button>
+                </Link>
+                {hasPermission(user, 'users:view') && (
+                  <Link href="/admin/users">
+                    <Button variant="ghost" size="sm">
+                      Users
+                    </Button>
+                  </Link>
+                )}
+                <ThemeToggle />
+              </div>
+            </div>
+          </div>
+        </div>
+      </nav>
+      
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-28 pb-12">
+        {/* Header Section */}
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">Audit Log</h1>
+            <p className="text-gray-600 dark:text-gray-300">
+              Every privileged admin action, with who did it and what changed
+            </p>
+          </div>
+          <Button variant="outline" onClick={handleExport} disabled={exporting}>
+            {exporting ? 'Exporting...' : 'Export CSV'}
+          </Button>
+        </div>
+        
+        {/* Filter Section */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setFilters(filterInput);
+          }}
+          className="mb-6 bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-4"
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Actor</label>
+              <input
+                type="text"
+                value={filterInput.actor}
+                onChange={(e) => setFilterInput({ ...filterInput, actor: e.target.value })}
+                placeholder="Email or UID"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Action</label>
+              <select
+                value={filterInput.action}
+                onChange={(e) => setFilterInput({ ...filterInput, action: e.target.value as AuditAction | '' })}
+                className={inputClassName}
+              >
+                <option value="">All actions</option>
+                {AUDIT_ACTIONS.map((action) => (
+                  <option key={action.value} value={action.value}>
+                    {action.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Target</label>
+              <input
+                type="text"
+                value={filterInput.target}
+                onChange={(e) => setFilterInput({ ...filterInput, target: e.target.value })}
+                placeholder="Event ID, user email or UID"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+              <input
+                type="date"
+                value={filterInput.start}
+                onChange={(e) => setFilterInput({ ...filterInput, start: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+              <input
+                type="date"
+                value={filterInput.end}
+                onChange={(e) => setFilterInput({ ...filterInput, end: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div className="mt-4 flex gap-2 justify-end">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setFilterInput(EMPTY_FILTERS);
+                setFilters(EMPTY_FILTERS);
+              }}
+            >
+              Clear
+            </Button>
+            <Button type="submit" size="sm">
+              Apply Filters
+            </Button>
+          </div>
+        </form>
+        
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+        
+        {/* Audit Table */}
+        {loading ? (
+          <div className="text-center py-16 text-gray-600 dark:text-gray-300">Loading audit log...</div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-16">
+            <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+              No Entries
+            </h3>
+            <p className="text-gray-600 dark:text-gray-300">
+              No admin actions match these filters.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Time</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Actor</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Action</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Target</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Changes</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Request</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {entries.map((entry) => (
+                      <tr key={entry.id} className="align-top hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <div className="text-gray-900 dark:text-white">{entry.actorEmail || entry.actorId}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {entry.actorRoles.map(getRoleLabel).join(', ') || 'No roles'}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className="px-3 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
+                            {getAuditActionLabel(entry.action)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <div className="text-gray-900 dark:text-white">{entry.target.label || entry.target.id}</div>
+                          <div className="text-xs font-mono text-gray-500 dark:text-gray-400">
+                            {entry.target.type}: {entry.target.id}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400 max-w-md">
+                          {entry.changes.length === 0 && !entry.reason && !entry.context && '—'}
+                          {entry.changes.map((change) => (
+                            <div key={change.field} className="break-words">
+                              <span className="font-medium text-gray-900 dark:text-white">{change.field}</span>:{' '}
+                              <span className="line-through">{formatValue(change.before)}</span>
+                              {' → '}
+                              <span>{formatValue(change.after)}</span>
+                            </div>
+                          ))}
+                          {entry.context && Object.entries(entry.context).map(([key, value]) => (
+                            <div key={key} className="text-xs">
+                              {key}: {String(value)}
+                            </div>
+                          ))}
+                          {entry.reason && (
+                            <div className="mt-1 text-xs italic">Reason: {entry.reason}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-xs font-mono text-gray-500 dark:text-gray-400">
+                          <div>{entry.request.method} {entry.request.path}</div>
+                          <div>{entry.request.ip || '—'}</div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+            
+            {nextCursor && (
+              <div className="mt-6 flex justify-center">
+                <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                  {loadingMore ? 'Loading...' : 'Load More'}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { Button } from '@/components/ui/Button';
+import { LoadingScreen } from '@/components/LoadingScreen';
+import { CheckInScanner } from '@/components/CheckInScanner';
+import { hasAnyRole, hasEventPermission } from '@/lib/constants/roles';
+import { CHAPTER } from '@/lib/chapter';
+
+interface CheckInEvent {
+  id: string;
+  name: string;
+  startTime: string;
+}
+
+interface CheckInLogEntry {
+  id: number;
+  success: boolean;
+  message: string;
+  at: Date;
+}
+
+/**
+ * Admin Check-In Scanner Page
+ * 
+ * Features:
+ * - Select an ongoing event to check members in to
+ * - Scan member QR badges with the device camera
+ * - Records attendance server-side through the same path as manual attendance
+ * - Shows a running log of scan results
+ * - Redirects non-admin users
+ */
+export default function AdminCheckInPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  
+  const [events, setEvents] = useState<CheckInEvent[]>([]);
+  const [selectedEventId, setSelectedEventId] = useState<string>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [scanLog, setScanLog] = useState<CheckInLogEntry[]>([]);
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (authLoading) {
+      return;
+    }
+    
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+    
+    if (!hasAnyRole(user)) {
+      router.push('/');
+      return;
+    }
+  }, [user, authLoading, router]);
+
+  // Fetch events that have started and not ended
+  useEffect(() => {
+    if (!user || !hasAnyRole(user)) {
+      return;
+    }
+
+    const fetchEvents = async () => {
+      try {
+        const { auth } = await import('@/lib/firebase/config');
+        const currentUser = auth.currentUser;
+        
+        if (!currentUser) {
+          throw new Error('User not authenticated');
+        }
+        
+        const idToken = await currentUser.getIdToken();
+        
+        const response = await fetch('/api/events?status=upcoming,active', {
+          headers: {
+            'Authorization': `Bearer ${idToken}`,
+          },
+        });
+        
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error?.message || 'Failed to fetch events');
+        }
+        
+        const data = await response.json();
+        const now = Date.now();
+        const startedEvents: CheckInEvent[] = data.data
+          .filter((event: any) => new Date(event.startTime).getTime() <= now)
+          // Hosts only see the events they can run check-in for
+          .filter((event: any) => hasEventPermission(user, 'events:check-in', event))
+          .map((event: any) => ({
+            id: event.id,
+            name: event.name,
+            startTime: event.startTime,
+          }));
+        
+        setEvents(startedEvents);
+        if (startedEvents.length === 1) {
+          setSelectedEventId(startedEvents[0].id);
+        }
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching events:', err);
+        setError(err.message || 'Failed to load events. Please try again.');
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [user]);
+
+  // Submit a scanned badge for the selected event
+  const handleScan = async (token: string) => {
+    if (!selectedEventId) return;
+    
+    let entry: Omit<CheckInLogEntry, 'id'>;
+    
+    try {
+      const { auth } = await import('@/lib/firebase/config');
+      const currentUser = auth.currentUser;
+      
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+      
+      const idToken = await currentUser.getIdToken();
+      
+      const response = await fetch(`/api/admin/events/${selectedEventId}/check-in`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ token }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to check in member');
+      }
+
+      entry = {
+        success: true,
+        message: `${data.data.displayName} checked in`,
+        at: new Date(),
+      };
+    } catch (err: any) {
+      console.error('Error checking in member:', err);
+      entry = {
+        success: false,
+        message: err.message || 'Failed to check in member',
+        at: new Date(),
+      };
+    }
+    
+    setScanLog((prev) => [{ id: Date.now(), ...entry }, ...prev].slice(0, 20));
+  };
+
+  // Show loading while checking auth
+  if (authLoading || loading) {
+    return <LoadingScreen message="Loading..." />;
+  }
+
+  // Don't render anything if user is not logged in or not admin (redirect will happen via useEffect)
+  if (!user || !hasAnyRole(user)) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 font-sans transition-colors duration-200">
+      {/* Floating Navbar */}
+      <nav className="fixed top-0 left-0 right-0 z-50 py-3">
+        <div className="mx-auto max-w-4xl">
+          <div className="mx-auto w-fit rounded-full px-8 py-3 bg-white/10 dark:bg-gray-800/30 backdrop-blur-[20px] backdrop-saturate-[180%] border border-white/20 dark:border-gray-700/30 shadow-[0_8px_32px_rgba(0,0,0,0.1),inset_0_1px_0_rgba(255,255,255,0.3)]">
+            <div className="flex items-center justify-between min-w-[300px] gap-6">
+              <Link href="/" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
+                <img src="https://static.mlh.io/brand-assets/logo/official/mlh-logo-color.png" alt="MLH Logo" className="h-6 w-auto" />
+                <div className="h-7 w-px bg-gray-400"></div>
+                <img src={CHAPTER.branding.logoUrl} alt={`${CHAPTER.school.abbreviation} Logo`} className="h-6 w-auto" />
+              </Link>
+              <div className="flex items-center gap-4">
+                <Link href="/admin/events">
+                  <Button variant="ghost" size="sm">
+                    Events
+                  </Button>
+                </Link>
+                <ThemeToggle />
+              </div>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 pt-28 pb-12">
+        {/* Header Section */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">Badge Check-In</h1>
+          <p className="text-gray-600 dark:text-gray-300">
+            Scan member QR badges to record attendance
+          </p>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {/* Event Selection */}
+        <div className="mb-6 bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-4">
+          <label htmlFor="check-in-event" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Event
+          </label>
+          {events.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              No ongoing events. Check-in is available once an event has started.
+            </p>
+          ) : (
+            <select
+              id="check-in-event"
+              value={selectedEventId}
+              onChange={(e) => setSelectedEventId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            >
+              <option value="">Select an event…</option>
+              {events.map((event) => (
+                <option key={event.id} value={event.id}>
+                  {event.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {/* Scanner */}
+        {selectedEventId && (
+          <div className="mb-6 bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-4">
+            <CheckInScanner key={selectedEventId} onScan={handleScan} />
+          </div>
+        )}
+
+        {/* Scan Log */}
+        {scanLog.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Recent Scans</h2>
+            <ul className="space-y-2">
+              {scanLog.map((entry) => (
+                <li
+                  key={entry.id}
+                  className={`flex items-center justify-between p-3 rounded-md border ${
+                    entry.success
+                      ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800 dark:text-green-200'
+                      : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-200'
+                  }`}
+                >
+                  <span className="text-sm font-medium">{entry.message}</span>
+                  <span className="text-xs opacity-75">{entry.at.toLocaleTimeString()}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -10,8 +10,12 @@ import { LoadingScreen } from '@/components/LoadingScreen';
 import { EventCard } from '@/components/EventCard';
 import { EventCreateForm } from '@/components/EventCreateForm';
 import { EventEditForm } from '@/components/EventEditForm';
+import { EventAttendeesModal } from '@/components/EventAttendeesModal';
+import { AttendanceImportModal } from '@/components/AttendanceImportModal';
 import { useToast } from '@/hooks/useToastCompat';
-import type { Event, EventStatus } from '@/lib/types';
+import { hasAnyRole, hasEventPermission, hasPermission } from '@/lib/constants/roles';
+import type { CalendarSyncStatus, CurrentAttendanceCode, Event, EventStatus, GenerateCodeOptions } from '@/lib/types';
+import { CHAPTER } from '@/lib/chapter';
 
 /**
  * Admin Events Page
@@ -19,7 +23,9 @@ import type { Event, EventStatus } from '@/lib/types';
  * Features:
  * - Displays all events using real-time listeners
  * - Filtering and sorting by status
- * - Admin controls for each event
+ * - Admin controls for each event, limited to what the user's roles and
+ *   event host grants allow
+ * - Calendar invitation sync status per event, with manual retry
  * - Redirects non-admin users to unauthorized page
  */
 export default function AdminEventsPage() {
@@ -37,6 +43,9 @@ export default function AdminEventsPage() {
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
   const [showCodeModal, setShowCodeModal] = useState(false);
   const [generatedCode, setGeneratedCode] = useState<string>('');
+  const [attendeesEvent, setAttendeesEvent] = useState<Event | null>(null);
+  const [importEvent, setImportEvent] = useState<Event | null>(null);
+  const [calendarSync, setCalendarSync] = useState<Record<string, CalendarSyncStatus>>({});
 
   // Redirect non-admin users
   useEffect(() => {
@@ -49,7 +58,7 @@ export default function AdminEventsPage() {
       return;
     }
     
-    if (!user.isAdmin) {
+    if (!hasAnyRole(user)) {
       router.push('/');
       return;
     }
@@ -104,6 +113,8 @@ export default function AdminEventsPage() {
       
       setEvents(fetchedEvents);
       setLoading(false);
+      
+      await fetchCalendarSync(idToken);
     } catch (err: any) {
       console.error('Error fetching events:', err);
       setError(err.message || 'Failed to load events. Please try again.');
@@ -111,9 +122,31 @@ export default function AdminEventsPage() {
     }
   };
 
+  // Fetch calendar invitation sync status (failures only affect the status display)
+  const fetchCalendarSync = async (idToken: string) => {
+    try {
+      const response = await fetch('/api/admin/events/calendar-sync', {
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+      
+      if (!response.ok) {
+        return;
+      }
+      
+      const data = await response.json();
+      const statuses: CalendarSyncStatus[] = data.data;
+      
+      setCalendarSync(Object.fromEntries(statuses.map((status) => [status.eventId, status])));
+    } catch (err) {
+      console.error('Error fetching calendar sync status:', err);
+    }
+  };
+
   // Fetch all events using API route with polling
   useEffect(() => {
-    if (!user || !user.isAdmin) {
+    if (!user || !hasAnyRole(user)) {
       return;
     }
 
@@ -142,7 +175,7 @@ export default function AdminEventsPage() {
   }, [events, statusFilter]);
 
   // Handle generate attendance code
-  const handleGenerateCode = async (eventId: string) => {
+  const handleGenerateCode = async (eventId: string, options?: GenerateCodeOptions) => {
     try {
       const { auth } = await import('@/lib/firebase/config');
       const currentUser = auth.currentUser;
@@ -156,8 +189,10 @@ export default function AdminEventsPage() {
       const response = await fetch(`/api/admin/events/${eventId}/generate-code`, {
         method: 'POST',
         headers: {
+          'Content-Type': 'application/json',
           'Authorization': `Bearer ${idToken}`,
         },
+        body: JSON.stringify(options ?? {}),
       });
 
       const data = await response.json();
@@ -166,6 +201,13 @@ export default function AdminEventsPage() {
         throw new Error(data.error?.message || 'Failed to generate attendance code');
       }
 
+      if (data.data.mode === 'rotating') {
+        // Rotating codes are shown live on the event card
+        toast.showSuccess('Rotating attendance code enabled! Reveal it on the event card.');
+        await fetchEvents();
+        return;
+      }
+
       setGeneratedCode(data.data.code);
       setShowCodeModal(true);
       toast.showSuccess('Attendance code generated successfully!');
@@ -175,6 +217,32 @@ export default function AdminEventsPage() {
     }
   };
 
+  // Fetch the live rotating attendance code for an event
+  const handleFetchCurrentCode = async (eventId: string): Promise<CurrentAttendanceCode> => {
+    const { auth } = await import('@/lib/firebase/config');
+    const currentUser = auth.currentUser;
+    
+    if (!currentUser) {
+      throw new Error('User not authenticated');
+    }
+    
+    const idToken = await currentUser.getIdToken();
+    
+    const response = await fetch(`/api/admin/events/${eventId}/current-code`, {
+      headers: {
+        'Authorization': `Bearer ${idToken}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to get current attendance code');
+    }
+
+    return data.data;
+  };
+
   // Handle toggle attendance code
   const handleToggleCode = async (eventId: string, active: boolean) => {
     try {
@@ -209,6 +277,42 @@ export default function AdminEventsPage() {
     }
   };
 
+  // Download the RSVP list for an event as CSV
+  const handleExportRsvps = async (event: Event) => {
+    try {
+      const { auth } = await import('@/lib/firebase/config');
+      const currentUser = auth.currentUser;
+      
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+      
+      const idToken = await currentUser.getIdToken();
+      
+      const response = await fetch(`/api/admin/events/${event.id}/rsvps?format=csv`, {
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to export RSVPs');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${event.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-rsvps.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Error exporting RSVPs:', error);
+      toast.showError(error.message || 'Failed to export RSVPs');
+    }
+  };
+
   // Handle edit event
   const handleEdit = (event: Event) => {
     setEditingEvent(event);
@@ -293,13 +397,47 @@ export default function AdminEventsPage() {
     }
   };
 
+  // Handle retrying an event's calendar invitation sync
+  const handleRetryCalendarSync = async (eventId: string) => {
+    try {
+      const { auth } = await import('@/lib/firebase/config');
+      const currentUser = auth.currentUser;
+      
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+      
+      const idToken = await currentUser.getIdToken();
+      
+      const response = await fetch(`/api/admin/events/${eventId}/calendar-sync`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to sync calendar invitations');
+      }
+
+      toast.showSuccess('Calendar invitations synced');
+      
+      await fetchCalendarSync(idToken);
+    } catch (error: any) {
+      console.error('Error retrying calendar sync:', error);
+      toast.showError(error.message || 'Failed to sync calendar invitations');
+    }
+  };
+
   // Show loading while checking auth
   if (authLoading || loading) {
     return <LoadingScreen message="Loading..." />;
   }
 
   // Don't render anything if user is not logged in or not admin (redirect will happen via useEffect)
-  if (!user || !user.isAdmin) {
+  if (!user || !hasAnyRole(user)) {
     return null;
   }
 
@@ -313,14 +451,21 @@ export default function AdminEventsPage() {
               <Link href="/" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
                 <img src="https://static.mlh.io/brand-assets/logo/official/mlh-logo-color.png" alt="MLH Logo" className="h-6 w-auto" />
                 <div className="h-7 w-px bg-gray-400"></div>
-                <img src="https://www.ttu.edu/traditions/images/DoubleT.gif" alt="TTU Logo" className="h-6 w-auto" />
+                <img src={CHAPTER.branding.logoUrl} alt={`${CHAPTER.school.abbreviation} Logo`} className="h-6 w-auto" />
               </Link>
               <div className="flex items-center gap-4">
-                <Link href="/admin/users">
+                <Link href="/admin/events/check-in">
                   <Button variant="ghost" size="sm">
-                    Users
+                    Check-In
                   </Button>
                 </Link>
+                {hasPermission(user, 'users:view') && (
+                  <Link href="/admin/users">
+                    <Button variant="ghost" size="sm">
+                      Users
+                    </Button>
+                  </Link>
+                )}
                 <Link href="/profile">
                   <Button variant="ghost" size="sm">
                     Profile
@@ -345,17 +490,30 @@ export default function AdminEventsPage() {
               </p>
             </div>
             
-            {/* Create Event Button */}
-            <Button
-              onClick={() => setShowCreateModal(true)}
-              variant="default"
-              size="default"
-            >
-              <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-              </svg>
-              Create Event
-            </Button>
+            <div className="flex flex-col sm:flex-row gap-3">
+              {/* Analytics Link */}
+              {hasPermission(user, 'analytics:view') && (
+                <Link href="/admin/analytics">
+                  <Button variant="outline" size="default" className="w-full">
+                    View Analytics
+                  </Button>
+                </Link>
+              )}
+              
+              {/* Create Event Button */}
+              {hasPermission(user, 'events:create') && (
+                <Button
+                  onClick={() => setShowCreateModal(true)}
+                  variant="default"
+                  size="default"
+                >
+                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                  Create Event
+                </Button>
+              )}
+            </div>
           </div>
         </div>
 
@@ -409,19 +567,30 @@ export default function AdminEventsPage() {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredEvents.map((event) => (
-              <EventCard
-                key={event.id}
-                event={event}
-                isAdmin={true}
-                userAttended={false}
-                onGenerateCode={() => handleGenerateCode(event.id)}
-                onToggleCode={(active) => handleToggleCode(event.id, active)}
-                onEdit={() => handleEdit(event)}
-                onDelete={() => handleDelete(event.id)}
-                onEndEvent={() => handleEndEvent(event.id)}
-              />
-            ))}
+            {filteredEvents.map((event) => {
+              // Only offer the actions the API would allow for this event
+              const canCheckIn = hasEventPermission(user, 'events:check-in', event);
+              
+              return (
+                <EventCard
+                  key={event.id}
+                  event={event}
+                  isAdmin={true}
+                  userAttended={false}
+                  onGenerateCode={canCheckIn ? (options) => handleGenerateCode(event.id, options) : undefined}
+                  onFetchCurrentCode={canCheckIn ? () => handleFetchCurrentCode(event.id) : undefined}
+                  onToggleCode={canCheckIn ? (active) => handleToggleCode(event.id, active) : undefined}
+                  onEdit={hasEventPermission(user, 'events:edit', event) ? () => handleEdit(event) : undefined}
+                  onDelete={hasPermission(user, 'events:delete') ? () => handleDelete(event.id) : undefined}
+                  onEndEvent={canCheckIn ? () => handleEndEvent(event.id) : undefined}
+                  onExportRsvps={canCheckIn ? () => handleExportRsvps(event) : undefined}
+                  onViewAttendees={canCheckIn ? () => setAttendeesEvent(event) : undefined}
+                  onImportAttendance={hasPermission(user, 'points:adjust') ? () => setImportEvent(event) : undefined}
+                  calendarSync={calendarSync[event.id]}
+                  onRetryCalendarSync={hasEventPermission(user, 'events:edit', event) ? () => handleRetryCalendarSync(event.id) : undefined}
+                />
+              );
+            })}
           </div>
         )}
       </main>
@@ -455,6 +624,25 @@ export default function AdminEventsPage() {
         />
       )}
 
+      {/* Attendees Modal */}
+      {attendeesEvent && (
+        <EventAttendeesModal
+          event={attendeesEvent}
+          canRevoke={hasPermission(user, 'points:adjust')}
+          onClose={() => setAttendeesEvent(null)}
+          onRevoked={fetchEvents}
+        />
+      )}
+
+      {/* Attendance Import Modal */}
+      {importEvent && (
+        <AttendanceImportModal
+          event={importEvent}
+          onClose={() => setImportEvent(null)}
+          onImported={fetchEvents}
+        />
+      )}
+
       {/* Code Display Modal */}
       {showCodeModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,244 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { Button } from '@/components/ui/Button';
+import { LoadingScreen } from '@/components/LoadingScreen';
+import { useToast } from '@/hooks/useToastCompat';
+import { hasPermission } from '@/lib/constants/roles';
+import { EXPORT_TYPES } from '@/lib/constants/exports';
+import type { ExportFormat, ExportType } from '@/lib/types';
+import { CHAPTER } from '@/lib/chapter';
+
+type ExportDefinition = (typeof EXPORT_TYPES)[number];
+
+/**
+ * Build the export query string
+ * Dates are whole days in the admin's timezone; the end day is inclusive.
+ */
+function buildQuery(format: ExportFormat, columns: string[], start: string, end: string): string {
+  const params = new URLSearchParams({ format, columns: columns.join(',') });
+  
+  if (start) params.set('start', new Date(`${start}T00:00:00`).toISOString());
+  if (end) {
+    const endDate = new Date(`${end}T00:00:00`);
+    endDate.setDate(endDate.getDate() + 1);
+    params.set('end', endDate.toISOString());
+  }
+  
+  return params.toString();
+}
+
+/**
+ * Export Card
+ * Column selection, date range and format for a single export.
+ */
+function ExportCard({ definition }: { definition: ExportDefinition }) {
+  const toast = useToast();
+  const [columns, setColumns] = useState<string[]>(
+    definition.columns.filter((column) => column.default).map((column) => column.key)
+  );
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [downloading, setDownloading] = useState(false);
+  
+  // Toggle a column, keeping the definition's column order
+  const toggleColumn = (key: string) => {
+    const selected = columns.includes(key) ? columns.filter((column) => column !== key) : [...columns, key];
+    setColumns(definition.columns.map((column) => column.key).filter((column) => selected.includes(column)));
+  };
+  
+  // Download the export
+  const handleDownload = async () => {
+    setDownloading(true);
+    
+    try {
+      const { auth } = await import('@/lib/firebase/config');
+      const currentUser = auth.currentUser;
+      
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+      
+      const idToken = await currentUser.getIdToken();
+      
+      const response = await fetch(`/api/admin/exports/${definition.value}?${buildQuery(format, columns, start, end)}`, {
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+      
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to download export');
+      }
+      
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${definition.value}-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('Error downloading export:', err);
+      toast.showError(err.message || 'Failed to download export');
+    } finally {
+      setDownloading(false);
+    }
+  };
+  
+  const inputClassName = 'w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-red-500';
+  
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-6">
+      <h2 className="text-xl font-bold text-gray-900 dark:text-white">{definition.label}</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{definition.description}</p>
+      
+      {/* Columns */}
+      <fieldset className="mb-4">
+        <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Columns</legend>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+          {definition.columns.map((column) => (
+            <label key={column.key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={columns.includes(column.key)}
+                onChange={() => toggleColumn(column.key)}
+                className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+              />
+              {column.label}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+      
+      {/* Date Range and Format */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {definition.dateFilter} from
+          </label>
+          <input type="date" value={start} onChange={(e) => setStart(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+          <input type="date" value={end} onChange={(e) => setEnd(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Format</label>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className={inputClassName}
+          >
+            <option value="csv">CSV</option>
+            <option value="xlsx">Excel (XLSX)</option>
+          </select>
+        </div>
+      </div>
+      
+      <div className="flex justify-end">
+        <Button onClick={handleDownload} disabled={downloading || columns.length === 0}>
+          {downloading ? 'Preparing...' : 'Download'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Admin Data Exports Page
+ * 
+ * Features:
+ * - Member roster, attendance matrix, points history and semester participation exports
+ * - Column selection and date-range filters for each export
+ * - CSV or XLSX download, streamed by the server
+ * - Redirects users without members:export
+ */
+export default function AdminExportsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  
+  // Redirect users without export access
+  useEffect(() => {
+    if (authLoading) {
+      return;
+    }
+    
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+    
+    if (!hasPermission(user, 'members:export')) {
+      router.push('/');
+      return;
+    }
+  }, [user, authLoading, router]);
+  
+  // Show loading while checking auth
+  if (authLoading) {
+    return <LoadingScreen message="Loading..." />;
+  }
+  
+  // Don't render anything without export access (redirect will happen via useEffect)
+  if (!user || !hasPermission(user, 'members:export')) {
+    return null;
+  }
+  
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 font-sans transition-colors duration-200">
+      {/* Floating Navbar */}
+      <nav className="fixed top-0 left-0 right-0 z-50 py-3">
+        <div className="mx-auto max-w-4xl">
+          <div className="mx-auto w-fit rounded-full px-8 py-3 bg-white/10 dark:bg-gray-800/30 backdrop-blur-[20px] backdrop-saturate-[180%] border border-white/20 dark:border-gray-700/30 shadow-[0_8px_32px_rgba(0,0,0,0.1),inset_0_1px_0_rgba(255,255,255,0.3)]">
+            <div className="flex items-center justify-between min-w-[300px] gap-6">
+              <Link href="/" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
+                <img src="https://static.mlh.io/brand-assets/logo/official/mlh-logo-color.png" alt="MLH Logo" className="h-6 w-auto" />
+                <div className="h-7 w-px bg-gray-400"></div>
+                <img src={CHAPTER.branding.logoUrl} alt={`${CHAPTER.school.abbreviation} Logo`} className="h-6 w-auto" />
+              </Link>
+              <div className="flex items-center gap-4">
+                <Link href="/admin/events">
+                  <Button variant="ghost" size="sm">
+                    Events
+                  </Button>
+                </Link>
+                {hasPermission(user, 'users:view') && (
+                  <Link href="/admin/users">
+                    <Button variant="ghost" size="sm">
+                      Users
+                    </Button>
+                  </Link>
+                )}
+                <ThemeToggle />
+              </div>
+            </div>
+          </div>
+        </div>
+      </nav>
+      
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-28 pb-12">
+        {/* Header Section */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">Data Exports</h1>
+          <p className="text-gray-600 dark:text-gray-300">
+            Download member, attendance and points data as CSV or Excel
+          </p>
+        </div>
+        
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {EXPORT_TYPES.map((definition) => (
+            <ExportCard key={definition.value as ExportType} definition={definition} />
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
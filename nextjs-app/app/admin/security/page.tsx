@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { Button } from '@/components/ui/Button';
+import { LoadingScreen } from '@/components/LoadingScreen';
+import { hasPermission } from '@/lib/constants/roles';
+import { CHAPTER } from '@/lib/chapter';
+
+interface SuspiciousActivityRow {
+  id: string;
+  type: 'submission_burst' | 'lockout';
+  policy: string;
+  subject: 'user' | 'ip';
+  userId?: string;
+  ip?: string;
+  count: number;
+  windowMs: number;
+  lockedUntil: string | null;
+  createdAt: string;
+}
+
+/**
+ * Admin Security Page
+ * 
+ * Features:
+ * - Lists suspicious submission bursts and lockouts from rate limiting
+ * - Filtering by activity type
+ * - Redirects non-admin users
+ */
+export default function AdminSecurityPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  
+  const [activity, setActivity] = useState<SuspiciousActivityRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<'all' | 'submission_burst' | 'lockout'>('all');
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (authLoading) {
+      return;
+    }
+    
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+    
+    if (!hasPermission(user, 'security:view')) {
+      router.push('/');
+      return;
+    }
+  }, [user, authLoading, router]);
+
+  // Fetch suspicious activity
+  useEffect(() => {
+    if (!user || !hasPermission(user, 'security:view')) {
+      return;
+    }
+
+    const fetchActivity = async () => {
+      try {
+        const { auth } = await import('@/lib/firebase/config');
+        const currentUser = auth.currentUser;
+        
+        if (!currentUser) {
+          throw new Error('User not authenticated');
+        }
+        
+        const idToken = await currentUser.getIdToken();
+        
+        const response = await fetch('/api/admin/security/suspicious-activity', {
+          headers: {
+            'Authorization': `Bearer ${idToken}`,
+          },
+        });
+        
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error?.message || 'Failed to fetch suspicious activity');
+        }
+        
+        const data = await response.json();
+        setActivity(data.data);
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching suspicious activity:', err);
+        setError(err.message || 'Failed to load suspicious activity. Please try again.');
+        setLoading(false);
+      }
+    };
+
+    fetchActivity();
+    
+    // Poll for updates every 30 seconds
+    const pollInterval = setInterval(fetchActivity, 30000);
+    
+    return () => clearInterval(pollInterval);
+  }, [user]);
+
+  const filteredActivity = typeFilter === 'all'
+    ? activity
+    : activity.filter((entry) => entry.type === typeFilter);
+
+  // Show loading while checking auth
+  if (authLoading || loading) {
+    return <LoadingScreen message="Loading..." />;
+  }
+
+  // Don't render anything if user is not logged in or not admin (redirect will happen via useEffect)
+  if (!user || !hasPermission(user, 'security:view')) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 font-sans transition-colors duration-200">
+      {/* Floating Navbar */}
+      <nav className="fixed top-0 left-0 right-0 z-50 py-3">
+        <div className="mx-auto max-w-4xl">
+          <div className="mx-auto w-fit rounded-full px-8 py-3 bg-white/10 dark:bg-gray-800/30 backdrop-blur-[20px] backdrop-saturate-[180%] border border-white/20 dark:border-gray-700/30 shadow-[0_8px_32px_rgba(0,0,0,0.1),inset_0_1px_0_rgba(255,255,255,0.3)]">
+            <div className="flex items-center justify-between min-w-[300px] gap-6">
+              <Link href="/" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
+                <img src="https://static.mlh.io/brand-assets/logo/official/mlh-logo-color.png" alt="MLH Logo" className="h-6 w-auto" />
+                <div className="h-7 w-px bg-gray-400"></div>
+                <img src={CHAPTER.branding.logoUrl} alt={`${CHAPTER.school.abbreviation} Logo`} className="h-6 w-auto" />
+              </Link>
+              <div className="flex items-center gap-4">
+                <Link href="/admin/events">
+                  <Button variant="ghost" size="sm">
+                    Events
+                  </Button>
+                </Link>
+                <Link href="/admin/users">
+                  <Button variant="ghost" size="sm">
+                    Users
+                  </Button>
+                </Link>
+                <ThemeToggle />
+              </div>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-28 pb-12">
+        {/* Header Section */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">Security</h1>
+          <p className="text-gray-600 dark:text-gray-300">
+            Suspicious submission bursts and lockouts from rate limiting
+          </p>
+        </div>
+
+        {/* Filter Section */}
+        <div className="mb-6 bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-4">
+          <div className="flex items-center gap-4">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Filter by Type:
+            </label>
+            <div className="flex gap-2 flex-wrap">
+              {([
+                ['all', 'All'],
+                ['submission_burst', 'Bursts'],
+                ['lockout', 'Lockouts'],
+              ] as const).map(([type, label]) => (
+                <button
+                  key={type}
+                  onClick={() => setTypeFilter(type)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    typeFilter === type
+                      ? 'bg-red-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {/* Activity Table */}
+        {filteredActivity.length === 0 ? (
+          <div className="text-center py-16">
+            <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+              No Suspicious Activity
+            </h3>
+            <p className="text-gray-600 dark:text-gray-300">
+              Bursts and lockouts will show up here when they happen.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Time</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Type</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Policy</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">User</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">IP</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Count</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Locked Until</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {filteredActivity.map((entry) => (
+                    <tr key={entry.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                          entry.type === 'lockout'
+                            ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                            : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+                        }`}>
+                          {entry.type === 'lockout' ? 'Lockout' : 'Burst'} ({entry.subject})
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {entry.policy}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-600 dark:text-gray-400">
+                        {entry.userId || '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-600 dark:text-gray-400">
+                        {entry.ip || '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {entry.count} in {Math.round(entry.windowMs / 60000)} min
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {entry.lockedUntil ? new Date(entry.lockedUntil).toLocaleString() : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { Button } from '@/components/ui/Button';
+import { LoadingScreen } from '@/components/LoadingScreen';
+import { hasPermission } from '@/lib/constants/roles';
+import { CHAPTER } from '@/lib/chapter';
+import type { CronJobName, CronTrigger, JobRunStatus } from '@/lib/types';
+
+interface JobRunRow {
+  id: string;
+  name: CronJobName;
+  trigger: CronTrigger;
+  status: JobRunStatus;
+  counts: Record<string, number | boolean>;
+  error: string | null;
+  durationMs: number;
+  startedAt: string;
+  finishedAt: string;
+}
+
+const JOB_LABELS: Record<CronJobName, string> = {
+  'events.lifecycle': 'Event Lifecycle',
+  'accounts.cleanup': 'Account Cleanup',
+  'jobs.worker': 'Job Worker',
+};
+
+const TRIGGER_LABELS: Record<CronTrigger, string> = {
+  'vercel-cron': 'Vercel Cron',
+  bearer: 'Bearer secret',
+  signed: 'Signed token',
+  cli: 'CLI',
+  local: 'Local',
+};
+
+const STATUS_STYLES: Record<JobRunStatus, string> = {
+  succeeded: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  skipped: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+};
+
+/**
+ * Format a run duration for display
+ */
+function formatDuration(durationMs: number): string {
+  return durationMs < 1000 ? `${durationMs} ms` : `${(durationMs / 1000).toFixed(1)} s`;
+}
+
+/**
+ * Admin System Page
+ * 
+ * Features:
+ * - Latest run of each scheduled job (lifecycle, cleanup, job worker)
+ * - Job history with trigger, status, duration, counts and errors
+ * - Filtering by job
+ * - Redirects users without system:view
+ */
+export default function AdminSystemPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  
+  const [runs, setRuns] = useState<JobRunRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [jobFilter, setJobFilter] = useState<'all' | CronJobName>('all');
+
+  // Redirect users without access
+  useEffect(() => {
+    if (authLoading) {
+      return;
+    }
+    
+    if (!user) {
+      router.push('/login');
+      return;
+    }
+    
+    if (!hasPermission(user, 'system:view')) {
+      router.push('/');
+      return;
+    }
+  }, [user, authLoading, router]);
+
+  // Fetch job history
+  useEffect(() => {
+    if (!user || !hasPermission(user, 'system:view')) {
+      return;
+    }
+
+    const fetchRuns = async () => {
+      try {
+        const { auth } = await import('@/lib/firebase/config');
+        const currentUser = auth.currentUser;
+        
+        if (!currentUser) {
+          throw new Error('User not authenticated');
+        }
+        
+        const idToken = await currentUser.getIdToken();
+        
+        const response = await fetch('/api/admin/system/job-runs?limit=200', {
+          headers: {
+            'Authorization': `Bearer ${idToken}`,
+          },
+        });
+        
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error?.message || 'Failed to fetch job history');
+        }
+        
+        const data = await response.json();
+        setRuns(data.data);
+        setError(null);
+        setLoading(false);
+      } catch (err: any) {
+        console.error('Error fetching job history:', err);
+        setError(err.message || 'Failed to load job history. Please try again.');
+        setLoading(false);
+      }
+    };
+
+    fetchRuns();
+    
+    // Poll for updates every 30 seconds
+    const pollInterval = setInterval(fetchRuns, 30000);
+    
+    return () => clearInterval(pollInterval);
+  }, [user]);
+
+  const filteredRuns = jobFilter === 'all'
+    ? runs
+    : runs.filter((run) => run.name === jobFilter);
+
+  // Show loading while checking auth
+  if (authLoading || loading) {
+    return <LoadingScreen message="Loading..." />;
+  }
+
+  // Don't render anything if user lacks access (redirect will happen via useEffect)
+  if (!user || !hasPermission(user, 'system:view')) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 font-sans transition-colors duration-200">
+      {/* Floating Navbar */}
+      <nav className="fixed top-0 left-0 right-0 z-50 py-3">
+        <div className="mx-auto max-w-4xl">
+          <div className="mx-auto w-fit rounded-full px-8 py-3 bg-white/10 dark:bg-gray-800/30 backdrop-blur-[20px] backdrop-saturate-[180%] border border-white/20 dark:border-gray-700/30 shadow-[0_8px_32px_rgba(0,0,0,0.1),inset_0_1px_0_rgba(255,255,255,0.3)]">
+            <div className="flex items-center justify-between min-w-[300px] gap-6">
+              <Link href="/" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
+                <img src="https://static.mlh.io/brand-assets/logo/official/mlh-logo-color.png" alt="MLH Logo" className="h-6 w-auto" />
+                <div className="h-7 w-px bg-gray-400"></div>
+                <img src={CHAPTER.branding.logoUrl} alt={`${CHAPTER.school.abbreviation} Logo`} className="h-6 w-auto" />
+              </Link>
+              <div className="flex items-center gap-4">
+                <Link href="/admin/events">
+                  <Button variant="ghost" size="sm">
+                    Events
+                  </Button>
+                </Link>
+                <Link href="/admin/users">
+                  <Button variant="ghost" size="sm">
+                    Users
+                  </Button>
+                </Link>
+                <ThemeToggle />
+              </div>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-28 pb-12">
+        {/* Header Section */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">System</h1>
+          <p className="text-gray-600 dark:text-gray-300">
+            Scheduled job runs with their counts, duration and errors
+          </p>
+        </div>
+
+        {/* Latest Runs */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          {(Object.keys(JOB_LABELS) as CronJobName[]).map((name) => {
+            const latest = runs.find((run) => run.name === name);
+            const lastSuccess = runs.find((run) => run.name === name && run.status === 'succeeded');
+            
+            return (
+              <div key={name} className="bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{JOB_LABELS[name]}</h2>
+                  {latest && (
+                    <span className={`px-3 py-1 rounded-full text-xs font-semibold ${STATUS_STYLES[latest.status]}`}>
+                      {latest.status}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Last run: {latest ? new Date(latest.startedAt).toLocaleString() : 'Never'}
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Last success: {lastSuccess ? new Date(lastSuccess.startedAt).toLocaleString() : '—'}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Filter Section */}
+        <div className="mb-6 bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-4">
+          <div className="flex items-center gap-4">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Filter by Job:
+            </label>
+            <div className="flex gap-2 flex-wrap">
+              {([['all', 'All'], ...Object.entries(JOB_LABELS)] as ['all' | CronJobName, string][]).map(([name, label]) => (
+                <button
+                  key={name}
+                  onClick={() => setJobFilter(name)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    jobFilter === name
+                      ? 'bg-red-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {/* Job History Table */}
+        {filteredRuns.length === 0 ? (
+          <div className="text-center py-16">
+            <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+              No Job Runs Yet
+            </h3>
+            <p className="text-gray-600 dark:text-gray-300">
+              Runs will show up here once cron calls the scheduled endpoints.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Started</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Job</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Trigger</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Duration</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Counts</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Error</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {filteredRuns.map((run) => (
+                    <tr key={run.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {new Date(run.startedAt).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {JOB_LABELS[run.name] ?? run.name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {TRIGGER_LABELS[run.trigger] ?? run.trigger}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-3 py-1 rounded-full text-xs font-semibold ${STATUS_STYLES[run.status]}`}>
+                          {run.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {formatDuration(run.durationMs)}
+                      </td>
+                      <td className="px-6 py-4 text-xs font-mono text-gray-600 dark:text-gray-400">
+                        {Object.keys(run.counts).length === 0
+                          ? '—'
+                          : Object.entries(run.counts).map(([key, value]) => (
+                            <div key={key}>{key}: {String(value)}</div>
+                          ))}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-red-700 dark:text-red-300 max-w-xs break-words">
+                        {run.error || '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -8,13 +8,15 @@ import { ThemeToggle } from '@/components/ThemeToggle';
 import { Button } from '@/components/ui/Button';
 import { LoadingScreen } from '@/components/LoadingScreen';
 import { useToast } from '@/hooks/useToastCompat';
+import { hasPermission } from '@/lib/constants/roles';
 import type { User } from '@/lib/types';
+import { CHAPTER } from '@/lib/chapter';
 
 /**
  * Admin Users Page
  * 
  * Features:
- * - Displays all TTU verified users
+ * - Displays all school-email verified users
  * - Search functionality
  * - User details view with attendance history
  * - Manual point adjustment
@@ -45,15 +47,15 @@ export default function AdminUsersPage() {
       return;
     }
     
-    if (!user.isAdmin) {
+    if (!hasPermission(user, 'users:view')) {
       router.push('/');
       return;
     }
   }, [user, authLoading, router]);
 
-  // Fetch all TTU verified users
+  // Fetch all school-email verified users
   useEffect(() => {
-    if (!user || !user.isAdmin) {
+    if (!user || !hasPermission(user, 'users:view')) {
       return;
     }
 
@@ -148,7 +150,7 @@ export default function AdminUsersPage() {
   }
 
   // Don't render anything if user is not logged in or not admin (redirect will happen via useEffect)
-  if (!user || !user.isAdmin) {
+  if (!user || !hasPermission(user, 'users:view')) {
     return null;
   }
 
@@ -162,7 +164,7 @@ export default function AdminUsersPage() {
               <Link href="/" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
                 <img src="https://static.mlh.io/brand-assets/logo/official/mlh-logo-color.png" alt="MLH Logo" className="h-6 w-auto" />
                 <div className="h-7 w-px bg-gray-400"></div>
-                <img src="https://www.ttu.edu/traditions/images/DoubleT.gif" alt="TTU Logo" className="h-6 w-auto" />
+                <img src={CHAPTER.branding.logoUrl} alt={`${CHAPTER.school.abbreviation} Logo`} className="h-6 w-auto" />
               </Link>
               <div className="flex items-center gap-4">
                 <Link href="/admin/events">
@@ -190,7 +192,7 @@ export default function AdminUsersPage() {
             <div>
               <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-2">User Management</h1>
               <p className="text-gray-600 dark:text-gray-300">
-                Manage TTU verified users and their attendance
+                Manage {CHAPTER.school.abbreviation} verified users and their attendance
               </p>
             </div>
           </div>
@@ -248,7 +250,7 @@ export default function AdminUsersPage() {
             <p className="text-gray-600 dark:text-gray-300 mb-6">
               {searchQuery 
                 ? 'No users match your search criteria. Try a different search term.'
-                : 'No TTU verified users found.'}
+                : `No ${CHAPTER.school.abbreviation} verified users found.`}
             </p>
           </div>
         ) : (
@@ -322,6 +324,7 @@ export default function AdminUsersPage() {
       {showDetailsModal && selectedUser && (
         <UserDetailsModal
           user={selectedUser}
+          canAdjustPoints={hasPermission(user, 'points:adjust')}
           onClose={() => {
             setShowDetailsModal(false);
             setSelectedUser(null);
@@ -341,17 +344,20 @@ export default function AdminUsersPage() {
 // User Details Modal Component
 interface UserDetailsModalProps {
   user: User;
+  canAdjustPoints: boolean;      // Show the add points and attendance forms
   onClose: () => void;
   onUpdate: () => void;
 }
 
-function UserDetailsModal({ user, onClose, onUpdate }: UserDetailsModalProps) {
+function UserDetailsModal({ user, canAdjustPoints, onClose, onUpdate }: UserDetailsModalProps) {
   const toast = useToast();
   const [loading, setLoading] = useState(false);
   const [points, setPoints] = useState('');
   const [reason, setReason] = useState('');
   const [eventId, setEventId] = useState('');
   const [events, setEvents] = useState<any[]>([]);
+  const [revokingEventId, setRevokingEventId] = useState<string | null>(null);
+  const [revokeReason, setRevokeReason] = useState('');
 
   // Fetch events for manual attendance
   useEffect(() => {
@@ -484,6 +490,54 @@ function UserDetailsModal({ user, onClose, onUpdate }: UserDetailsModalProps) {
     }
   };
 
+  // Handle revoke attendance
+  const handleRevokeAttendance = async (revokedEventId: string) => {
+    if (!revokeReason.trim()) {
+      toast.showError('Please enter a reason');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { auth } = await import('@/lib/firebase/config');
+      const currentUser = auth.currentUser;
+      
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+      
+      const idToken = await currentUser.getIdToken();
+      
+      const response = await fetch(`/api/admin/users/${user.uid}/revoke-attendance`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({
+          eventId: revokedEventId,
+          reason: revokeReason.trim(),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to revoke attendance');
+      }
+
+      toast.showSuccess(`Attendance revoked (−${data.data.pointsReversed} pts)`);
+      setRevokingEventId(null);
+      setRevokeReason('');
+      onUpdate();
+    } catch (error: any) {
+      console.error('Error revoking attendance:', error);
+      toast.showError(error.message || 'Failed to revoke attendance');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto my-auto custom-scrollbar">
@@ -557,94 +611,138 @@ function UserDetailsModal({ user, onClose, onUpdate }: UserDetailsModalProps) {
                           {event.eventDate?.toDate?.()?.toLocaleDateString() || 'N/A'}
                         </p>
                       </div>
-                      <div className="text-right">
+                      <div className="text-right space-y-2">
                         <p className="text-sm font-semibold text-red-600 dark:text-red-400">
                           +{event.pointsEarned} pts
                         </p>
+                        {canAdjustPoints && revokingEventId !== event.eventId && (
+                          <button
+                            onClick={() => {
+                              setRevokingEventId(event.eventId);
+                              setRevokeReason('');
+                            }}
+                            className="text-sm font-medium text-red-600 dark:text-red-400 hover:underline"
+                          >
+                            Revoke
+                          </button>
+                        )}
                       </div>
                     </div>
+                    {revokingEventId === event.eventId && (
+                      <div className="mt-4 space-y-3">
+                        <input
+                          type="text"
+                          value={revokeReason}
+                          onChange={(e) => setRevokeReason(e.target.value)}
+                          placeholder="Reason for revoking (e.g. credited for the wrong event)"
+                          className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                        />
+                        <div className="flex gap-2 justify-end">
+                          <Button
+                            onClick={() => setRevokingEventId(null)}
+                            disabled={loading}
+                            variant="ghost"
+                            size="sm"
+                          >
+                            Cancel
+                          </Button>
+                          <Button
+                            onClick={() => handleRevokeAttendance(event.eventId)}
+                            disabled={loading || !revokeReason.trim()}
+                            variant="destructive"
+                            size="sm"
+                          >
+                            {loading ? 'Revoking...' : `Revoke and remove ${event.pointsEarned} pts`}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
             )}
           </div>
 
-          {/* Add Points Form */}
-          <div>
-            <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
-              Add Points
-            </h3>
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Points (can be negative)
-                </label>
-                <input
-                  type="number"
-                  value={points}
-                  onChange={(e) => setPoints(e.target.value)}
-                  placeholder="Enter points"
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
-                />
-              </div>
+          {canAdjustPoints && (
+            <>
+              {/* Add Points Form */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Reason
-                </label>
-                <input
-                  type="text"
-                  value={reason}
-                  onChange={(e) => setReason(e.target.value)}
-                  placeholder="Enter reason for adjustment"
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
-                />
+                <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
+                  Add Points
+                </h3>
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Points (can be negative)
+                    </label>
+                    <input
+                      type="number"
+                      value={points}
+                      onChange={(e) => setPoints(e.target.value)}
+                      placeholder="Enter points"
+                      className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Reason
+                    </label>
+                    <input
+                      type="text"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="Enter reason for adjustment"
+                      className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    />
+                  </div>
+                  <Button
+                    onClick={handleAddPoints}
+                    disabled={loading || !points || !reason}
+                    variant="default"
+                    size="default"
+                    className="w-full"
+                  >
+                    {loading ? 'Adding...' : 'Add Points'}
+                  </Button>
+                </div>
               </div>
-              <Button
-                onClick={handleAddPoints}
-                disabled={loading || !points || !reason}
-                variant="default"
-                size="default"
-                className="w-full"
-              >
-                {loading ? 'Adding...' : 'Add Points'}
-              </Button>
-            </div>
-          </div>
 
-          {/* Add Attendance Form */}
-          <div className="pb-2">
-            <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
-              Manually Add Attendance
-            </h3>
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Select Event
-                </label>
-                <select
-                  value={eventId}
-                  onChange={(e) => setEventId(e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
-                >
-                  <option value="">Select an event...</option>
-                  {events.map((event) => (
-                    <option key={event.id} value={event.id}>
-                      {event.name}
-                    </option>
-                  ))}
-                </select>
+              {/* Add Attendance Form */}
+              <div className="pb-2">
+                <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
+                  Manually Add Attendance
+                </h3>
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Select Event
+                    </label>
+                    <select
+                      value={eventId}
+                      onChange={(e) => setEventId(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    >
+                      <option value="">Select an event...</option>
+                      {events.map((event) => (
+                        <option key={event.id} value={event.id}>
+                          {event.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <Button
+                    onClick={handleAddAttendance}
+                    disabled={loading || !eventId}
+                    variant="default"
+                    size="default"
+                    className="w-full"
+                  >
+                    {loading ? 'Adding...' : 'Add Attendance'}
+                  </Button>
+                </div>
               </div>
-              <Button
-                onClick={handleAddAttendance}
-                disabled={loading || !eventId}
-                variant="default"
-                size="default"
-                className="w-full"
-              >
-                {loading ? 'Adding...' : 'Add Attendance'}
-              </Button>
-            </div>
-          </div>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import {
+  getAnalytics,
+  rebuildAnalyticsIfStale,
+  MANUAL_ANALYTICS_REBUILD_INTERVAL_MS,
+} from '@/lib/services/analytics.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
+
+/**
+ * POST /api/admin/analytics/rebuild
+ * Recompute the event analytics now (requires analytics:view)
+ * 
+ * The lifecycle job also rebuilds them hourly. On-demand rebuilds scan every
+ * event and user, so they run at most once per MANUAL_ANALYTICS_REBUILD_INTERVAL_MS
+ * across all callers.
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: AnalyticsSummary;
+ * }
+ * 
+ * Returns 429 if the analytics were rebuilt too recently.
+ */
+export async function POST(request: NextRequest) {
+  // Verify the caller holds analytics:view
+  const authResult = await requirePermission(request, 'analytics:view');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const rebuilt = await rebuildAnalyticsIfStale(MANUAL_ANALYTICS_REBUILD_INTERVAL_MS);
+    
+    if (!rebuilt) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'REBUILD_TOO_SOON',
+            message: `Analytics were refreshed less than ${MANUAL_ANALYTICS_REBUILD_INTERVAL_MS / 60000} minutes ago`,
+          },
+        },
+        { status: 429 }
+      );
+    }
+    
+    const analytics = await getAnalytics();
+    
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'analytics.rebuild',
+      target: { type: 'system', id: 'analytics' },
+      context: { generatedAt: analytics.generatedAt },
+    });
+    
+    return NextResponse.json({
+      success: true,
+      data: analytics,
+    });
+  } catch (error: any) {
+    console.error('Error rebuilding analytics:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'REBUILD_ANALYTICS_ERROR',
+          message: error.message || 'Failed to rebuild analytics',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { getAnalytics } from '@/lib/services/analytics.service';
+
+/**
+ * GET /api/admin/analytics
+ * Get the precomputed event analytics (requires analytics:view)
+ * 
+ * Served from the aggregate document the lifecycle job rebuilds hourly.
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: AnalyticsSummary;
+ * }
+ */
+export async function GET(request: NextRequest) {
+  // Verify the caller holds analytics:view
+  const authResult = await requirePermission(request, 'analytics:view');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const analytics = await getAnalytics();
+    
+    return NextResponse.json({
+      success: true,
+      data: analytics,
+    });
+  } catch (error: any) {
+    console.error('Error fetching analytics:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'FETCH_ANALYTICS_ERROR',
+          message: error.message || 'Failed to fetch analytics',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,245 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import {
+  getAuditLog,
+  MAX_AUDIT_PAGE_SIZE,
+  type AuditLogRecord,
+} from '@/lib/services/audit.service';
+import { findUserIdByEmail } from '@/lib/services/user.service';
+import { isAuditAction } from '@/lib/constants/auditActions';
+import { toCsv } from '@/lib/csv';
+import type { AuditLogFilter } from '@/lib/types';
+
+/**
+ * Most entries included in a single CSV export
+ */
+const MAX_EXPORT_ENTRIES = 5000;
+
+/**
+ * Convert an entry's Timestamp to an ISO string for JSON serialization
+ */
+function serializeEntry(entry: AuditLogRecord) {
+  return {
+    ...entry,
+    createdAt: entry.createdAt?.toDate?.()?.toISOString() || null,
+  };
+}
+
+/**
+ * Render audit log entries as CSV
+ */
+function entriesToCsv(entries: AuditLogRecord[]): string {
+  const header = [
+    'Time',
+    'Actor',
+    'Actor ID',
+    'Roles',
+    'Action',
+    'Target Type',
+    'Target ID',
+    'Target',
+    'Changes',
+    'Reason',
+    'Context',
+    'Method',
+    'Path',
+    'IP',
+    'User Agent',
+  ];
+  const rows = entries.map((entry) => [
+    entry.createdAt?.toDate?.()?.toISOString() || '',
+    entry.actorEmail,
+    entry.actorId,
+    entry.actorRoles.join(' '),
+    entry.action,
+    entry.target.type,
+    entry.target.id,
+    entry.target.label || '',
+    entry.changes
+      .map((change) => `${change.field}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`)
+      .join('; '),
+    entry.reason || '',
+    entry.context ? JSON.stringify(entry.context) : '',
+    entry.request.method,
+    entry.request.path,
+    entry.request.ip || '',
+    entry.request.userAgent || '',
+  ]);
+  
+  return toCsv(header, rows);
+}
+
+/**
+ * Parse a date query parameter, returning null when invalid
+ */
+function parseDateParam(value: string | null): Date | null | undefined {
+  if (!value) {
+    return undefined;
+  }
+  
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Wrap CSV content in a download response
+ */
+function csvResponse(csv: string): NextResponse {
+  return new NextResponse(csv, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+/**
+ * GET /api/admin/audit-log
+ * Get audit log entries, newest first (requires audit:view)
+ * 
+ * Query parameters:
+ * - actor: admin email or UID (optional)
+ * - action: AuditAction (optional)
+ * - target: target ID, or a user's email (optional)
+ * - start: ISO date, inclusive (optional)
+ * - end: ISO date, exclusive (optional)
+ * - limit: page size (optional, default 50, max 200)
+ * - cursor: nextCursor from the previous page (optional)
+ * - format: 'json' | 'csv' (optional, default 'json'; csv exports every matching entry)
+ * 
+ * Response (json):
+ * {
+ *   success: true;
+ *   data: {
+ *     entries: AuditLogEntry[];
+ *     nextCursor: string | null;
+ *   };
+ * }
+ * 
+ * Response (csv): text/csv attachment
+ */
+export async function GET(request: NextRequest) {
+  // Verify the caller holds audit:view
+  const authResult = await requirePermission(request, 'audit:view');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const { searchParams } = new URL(request.url);
+    const filter: AuditLogFilter = {};
+    
+    const action = searchParams.get('action');
+    if (action) {
+      if (!isAuditAction(action)) {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: `Unknown action: ${action}`,
+            },
+          },
+          { status: 400 }
+        );
+      }
+      
+      filter.action = action;
+    }
+    
+    const start = parseDateParam(searchParams.get('start'));
+    const end = parseDateParam(searchParams.get('end'));
+    if (start === null || end === null) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid date format for start or end',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    filter.start = start;
+    filter.end = end;
+    
+    // Emails are resolved to UIDs; an unknown email matches nothing
+    const isCsv = searchParams.get('format') === 'csv';
+    const emptyPage = { entries: [] as AuditLogRecord[], nextCursor: null };
+    
+    for (const [param, key] of [['actor', 'actorId'], ['target', 'targetId']] as const) {
+      const value = searchParams.get(param)?.trim();
+      if (!value) {
+        continue;
+      }
+      
+      if (value.includes('@')) {
+        const userId = await findUserIdByEmail(value);
+        
+        if (!userId) {
+          return isCsv
+            ? csvResponse(entriesToCsv([]))
+            : NextResponse.json({ success: true, data: emptyPage });
+        }
+        
+        filter[key] = userId;
+      } else {
+        filter[key] = value;
+      }
+    }
+    
+    if (isCsv) {
+      const entries: AuditLogRecord[] = [];
+      let cursor: string | undefined;
+      
+      do {
+        const page = await getAuditLog(filter, { limit: MAX_AUDIT_PAGE_SIZE, cursor });
+        entries.push(...page.entries);
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor && entries.length < MAX_EXPORT_ENTRIES);
+      
+      return csvResponse(entriesToCsv(entries.slice(0, MAX_EXPORT_ENTRIES)));
+    }
+    
+    const limitParam = searchParams.get('limit');
+    const page = await getAuditLog(filter, {
+      limit: limitParam ? parseInt(limitParam, 10) || undefined : undefined,
+      cursor: searchParams.get('cursor') || undefined,
+    });
+    
+    return NextResponse.json({
+      success: true,
+      data: {
+        entries: page.entries.map(serializeEntry),
+        nextCursor: page.nextCursor,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error getting audit log:', error);
+    
+    if (error.message === 'Invalid cursor') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid cursor',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'GET_AUDIT_LOG_ERROR',
+          message: error.message || 'Failed to get audit log',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireEventPermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { getAttendees } from '@/lib/services/attendance.service';
+
+/**
+ * GET /api/admin/events/[id]/attendees
+ * Get the attendees of an event (requires events:check-in or event host)
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: {
+ *     userId: string;
+ *     displayName: string;
+ *     email: string;
+ *     pointsEarned: number;
+ *     attendedAt: string | null;
+ *   }[];
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  
+  // Verify the caller holds events:check-in for this event (by role or as a host)
+  const authResult = await requireEventPermission(request, id, 'events:check-in');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const attendees = await getAttendees(id);
+    
+    // Points and time come from the attendee's own record of the event
+    const entries = attendees.map((attendee) => {
+      const attendedEvent = attendee.attendedEvents.find((entry) => entry.eventId === id);
+      
+      return {
+        userId: attendee.uid,
+        displayName: attendee.displayName,
+        email: attendee.email,
+        pointsEarned: attendedEvent?.pointsEarned ?? 0,
+        attendedAt: attendedEvent?.attendedAt?.toDate?.()?.toISOString() || null,
+      };
+    });
+    
+    entries.sort((a, b) => a.displayName.localeCompare(b.displayName));
+    
+    return NextResponse.json({
+      success: true,
+      data: entries,
+    });
+  } catch (error: any) {
+    console.error('Error getting attendees:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'GET_ATTENDEES_ERROR',
+          message: error.message || 'Failed to get attendees',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
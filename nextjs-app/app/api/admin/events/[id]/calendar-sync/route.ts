@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireEventPermission, createErrorResponse } from '@/lib/middleware/auth';
+import { retryCalendarSync } from '@/lib/services/calendarSync.service';
+import { runJobNow } from '@/lib/jobs/worker';
+import { recordAuditEvent } from '@/lib/services/audit.service';
+
+/**
+ * POST /api/admin/events/[id]/calendar-sync
+ * Retry an event's pending or failed calendar invitation sync now
+ * Requires events:edit or hosting the event
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   synced: boolean;               // False if it failed again and was queued for retry
+ * }
+ * 
+ * Anything still failing afterwards is retried by the job queue.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: eventId } = await params;
+  
+  // Verify the caller holds events:edit for this event (by role or as a host)
+  const authResult = await requireEventPermission(request, eventId, 'events:edit');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+
+  try {
+    const jobId = await retryCalendarSync(eventId);
+    const job = await runJobNow(jobId);
+
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'event.calendar-sync',
+      target: { type: 'event', id: eventId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      synced: job.status === 'succeeded',
+    });
+  } catch (error: any) {
+    console.error('Error retrying calendar sync:', error);
+    
+    if (error.message === 'Nothing to sync') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'NOTHING_TO_SYNC',
+            message: 'Calendar invitations for this event are already up to date',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'CALENDAR_SYNC_ERROR',
+          message: error.message || 'Failed to sync calendar invitations',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
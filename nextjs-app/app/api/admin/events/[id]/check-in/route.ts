@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireEventPermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { checkInWithToken } from '@/lib/services/checkIn.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
+
+/**
+ * POST /api/admin/events/[id]/check-in
+ * Check a member in by their scanned QR badge (requires events:check-in or event host)
+ * 
+ * Request body:
+ * {
+ *   token: string; // Signed check-in token read from the member's QR code
+ * }
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: {
+ *     userId: string;
+ *     displayName: string;
+ *   };
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  
+  // Verify the caller holds events:check-in for this event (by role or as a host)
+  const authResult = await requireEventPermission(request, id, 'events:check-in');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const body = await request.json();
+    
+    // Validate required fields
+    if (!body.token || typeof body.token !== 'string') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing or invalid field: token (must be a string)',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    // Verify token and record attendance
+    const result = await checkInWithToken(id, body.token, authResult.userId!);
+    
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'attendance.check-in',
+      target: { type: 'user', id: result.userId, label: result.displayName },
+      context: { eventId: id },
+    });
+    
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error('Error checking in member:', error);
+    
+    // Handle specific errors
+    if (error.message === 'Invalid check-in token') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_CHECK_IN_TOKEN',
+            message: 'Invalid check-in QR code',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (error.message === 'Check-in token expired') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'CHECK_IN_TOKEN_EXPIRED',
+            message: 'Check-in QR code has expired. Ask the member to refresh their badge.',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (error.message === 'Event not found') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'EVENT_NOT_FOUND',
+            message: 'Event not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+    
+    if (error.message === 'User not found') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+    
+    if (error.message === 'User has already attended this event') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'ALREADY_ATTENDED',
+            message: 'User has already attended this event',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (error.message === 'Hosts cannot be checked in to events they host') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'HOST_CHECK_IN',
+            message: 'Hosts cannot be checked in to events they host',
+          },
+        },
+        { status: 403 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'CHECK_IN_ERROR',
+          message: error.message || 'Failed to check in member',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
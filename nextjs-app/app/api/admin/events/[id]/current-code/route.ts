@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireEventPermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { getCurrentAttendanceCode } from '@/lib/services/event.service';
+
+/**
+ * GET /api/admin/events/[id]/current-code
+ * Get the live rotating attendance code for an event (requires events:check-in or event host)
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: {
+ *     code: string;
+ *     expiresAt: string (ISO date);
+ *     rotationSeconds: number;
+ *   };
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  
+  // Verify the caller holds events:check-in for this event (by role or as a host)
+  const authResult = await requireEventPermission(request, id, 'events:check-in');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const currentCode = await getCurrentAttendanceCode(id);
+    
+    return NextResponse.json(
+      {
+        success: true,
+        data: currentCode,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error: any) {
+    console.error('Error getting current attendance code:', error);
+    
+    // Handle specific errors
+    if (error.message === 'Event not found') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'EVENT_NOT_FOUND',
+            message: 'Event not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+    
+    if (error.message === 'Event does not use a rotating code') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'NOT_ROTATING_CODE',
+            message: 'Event does not use a rotating attendance code',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'GET_CURRENT_CODE_ERROR',
+          message: error.message || 'Failed to get current attendance code',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,31 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin, createErrorResponse } from '@/lib/middleware/auth';
+import { requireEventPermission, createErrorResponse } from '@/lib/middleware/auth';
 import { endEvent } from '@/lib/services/event.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
 
 /**
  * POST /api/admin/events/[id]/end
  * Manually end an event
  * 
  * Sets endTime to current time and marks event as completed
- * Requires admin authentication
+ * Requires events:check-in or hosting the event
  */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  // Verify admin authentication
-  const authResult = await requireAdmin(request);
+  const { id: eventId } = await params;
+  
+  // Verify the caller holds events:check-in for this event (by role or as a host)
+  const authResult = await requireEventPermission(request, eventId, 'events:check-in');
   
   if (!authResult.success) {
     return createErrorResponse(authResult);
   }
 
   try {
-    const { id: eventId } = await params;
-
     // End the event
     await endEvent(eventId);
 
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'event.end',
+      target: { type: 'event', id: eventId },
+      after: { status: 'completed' },
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Event ended successfully',
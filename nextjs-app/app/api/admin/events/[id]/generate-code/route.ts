@@ -1,17 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/middleware/auth';
+import { requireEventPermission } from '@/lib/middleware/auth';
 import { createErrorResponse } from '@/lib/middleware/auth';
-import { generateAttendanceCode } from '@/lib/services/event.service';
+import {
+  generateAttendanceCode,
+  MIN_CODE_ROTATION_SECONDS,
+  MAX_CODE_ROTATION_SECONDS,
+} from '@/lib/services/event.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
+import type { GenerateCodeOptions } from '@/lib/types';
 
 /**
  * POST /api/admin/events/[id]/generate-code
- * Generate attendance code for an event (admin only, after start time)
+ * Generate attendance code for an event (requires events:check-in or event host, after start time)
+ * 
+ * Request body (optional):
+ * {
+ *   mode?: 'static' | 'rotating';  // default: 'static'
+ *   rotationSeconds?: number;      // rotating mode only (default: 30)
+ * }
  * 
  * Response:
  * {
  *   success: true;
  *   data: {
  *     code: string;
+ *     mode: 'static' | 'rotating';
  *   };
  * }
  */
@@ -19,23 +32,52 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  // Verify admin authentication
-  const authResult = await requireAdmin(request);
+  const { id } = await params;
+  
+  // Verify the caller holds events:check-in for this event (by role or as a host)
+  const authResult = await requireEventPermission(request, id, 'events:check-in');
   
   if (!authResult.success) {
     return createErrorResponse(authResult);
   }
   
   try {
-    const { id } = await params;
+    // Body is optional for backwards compatibility (static code)
+    const body = await request.json().catch(() => ({}));
+    
+    if (body.mode !== undefined && body.mode !== 'static' && body.mode !== 'rotating') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: "Invalid mode: must be 'static' or 'rotating'",
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    const options: GenerateCodeOptions = {
+      mode: body.mode ?? 'static',
+      rotationSeconds: body.rotationSeconds,
+    };
     
     // Generate attendance code (service will check if event has started)
-    const code = await generateAttendanceCode(id);
+    const code = await generateAttendanceCode(id, options);
+    
+    // The code itself never goes into the log
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'event.generate-code',
+      target: { type: 'event', id },
+      after: { codeActive: true },
+      context: { mode: options.mode ?? 'static' },
+    });
     
     return NextResponse.json({
       success: true,
       data: {
         code,
+        mode: options.mode,
       },
     });
   } catch (error: any) {
@@ -66,6 +108,18 @@ export async function POST(
       );
     }
     
+    if (error.message === 'Invalid rotation period') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Invalid rotationSeconds: must be an integer between ${MIN_CODE_ROTATION_SECONDS} and ${MAX_CODE_ROTATION_SECONDS}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
     if (error.message === 'Failed to generate unique code') {
       return NextResponse.json(
         {
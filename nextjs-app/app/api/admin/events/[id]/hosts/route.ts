@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { getEvent, setEventHosts } from '@/lib/services/event.service';
+import { getUser } from '@/lib/services/user.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
+import { hasAnyRole } from '@/lib/constants/roles';
+
+/**
+ * PUT /api/admin/events/[id]/hosts
+ * Replace the hosts of an event (requires events:assign-hosts)
+ * 
+ * Hosts may edit the event and run its check-in without a role granting
+ * those permissions globally. Every host must already hold an admin role
+ * (usually event-host) so they can reach the admin pages.
+ * 
+ * Request body:
+ * {
+ *   hostIds: string[]; // UIDs of the event's hosts (empty removes all)
+ * }
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: { hostIds: string[] };
+ * }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Verify the caller holds events:assign-hosts
+  const authResult = await requirePermission(request, 'events:assign-hosts');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    
+    // Validate hostIds field
+    if (
+      !Array.isArray(body.hostIds) ||
+      !body.hostIds.every((hostId: unknown) => typeof hostId === 'string' && hostId.length > 0)
+    ) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing or invalid field: hostIds (must be an array of user IDs)',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    const hostIds: string[] = Array.from(new Set(body.hostIds));
+    
+    // Every host must exist and be able to open the admin area
+    for (const hostId of hostIds) {
+      const host = await getUser(hostId);
+      
+      if (!host || !hasAnyRole(host)) {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'INVALID_HOST',
+              message: `User ${hostId} does not exist or has no admin role`,
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
+    
+    const before = await getEvent(id);
+    
+    await setEventHosts(id, hostIds);
+    
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'event.set-hosts',
+      target: { type: 'event', id, label: before?.name },
+      before: { hostIds: before?.hostIds ?? [] },
+      after: { hostIds },
+    });
+    
+    return NextResponse.json({
+      success: true,
+      data: { hostIds },
+    });
+  } catch (error: any) {
+    console.error('Error setting event hosts:', error);
+    
+    if (error.message === 'Event not found') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'EVENT_NOT_FOUND',
+            message: 'Event not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'SET_HOSTS_ERROR',
+          message: error.message || 'Failed to set event hosts',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
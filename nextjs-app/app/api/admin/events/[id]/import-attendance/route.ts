@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { importAttendance } from '@/lib/services/attendanceImport.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
+
+/**
+ * Largest upload accepted, in characters
+ */
+const MAX_CSV_LENGTH = 1_000_000;
+
+/**
+ * POST /api/admin/events/[id]/import-attendance
+ * Credit attendance from a sign-in sheet CSV (requires points:adjust)
+ * 
+ * Rows are matched to members by TTU email, R-number, or Google email.
+ * Send dryRun: true to preview the matches before committing.
+ * 
+ * Request body:
+ * {
+ *   csv: string;       // CSV file content
+ *   dryRun?: boolean;  // Preview only (default: true)
+ * }
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: AttendanceImportReport;
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Verify the caller holds points:adjust
+  const authResult = await requirePermission(request, 'points:adjust');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    
+    // Validate required fields
+    if (!body.csv || typeof body.csv !== 'string') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing or invalid field: csv (must be a string)',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (body.csv.length > MAX_CSV_LENGTH) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'The file is too large to import',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    const dryRun = body.dryRun !== false;
+    
+    const report = await importAttendance(id, body.csv, {
+      dryRun,
+      adminUid: authResult.userId!,
+    });
+    
+    if (!dryRun) {
+      await recordAuditEvent(request, authResult.user!, {
+        action: 'attendance.import',
+        target: { type: 'event', id, label: report.eventName },
+        context: {
+          rows: report.rows.length,
+          added: report.counts.added,
+          alreadyAttended: report.counts['already-attended'],
+          duplicates: report.counts.duplicate,
+          unknown: report.counts.unknown + report.counts.invalid,
+          failed: report.counts.failed,
+        },
+      });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error: any) {
+    console.error('Error importing attendance:', error);
+    
+    // Handle specific errors
+    if (error.message === 'Event not found') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'EVENT_NOT_FOUND',
+            message: 'Event not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+    
+    if (error.message === 'The file has no rows to import' || error.message?.startsWith('The file has more than')) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_FILE',
+            message: error.message,
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'IMPORT_ATTENDANCE_ERROR',
+          message: error.message || 'Failed to import attendance',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
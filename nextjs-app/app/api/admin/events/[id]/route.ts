@@ -1,12 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/middleware/auth';
+import { requireEventPermission, requirePermission } from '@/lib/middleware/auth';
 import { createErrorResponse } from '@/lib/middleware/auth';
-import { updateEvent, deleteEvent, getEvent } from '@/lib/services/event.service';
+import { updateEventSeries, deleteEvent, getEvent, hostsSeriesEdit } from '@/lib/services/event.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
+import { isEventCategory } from '@/lib/constants/eventCategories';
+import { canSetEventPoints, hasPermission } from '@/lib/constants/roles';
+import type { SeriesEditScope } from '@/lib/types';
 import { Timestamp } from 'firebase-admin/firestore';
 
 /**
  * PUT /api/admin/events/[id]
- * Update an event (admin only, before start time)
+ * Update an event (requires events:edit or event host, before start time)
+ * Changing pointsValue also requires points:adjust or events:edit, and a host
+ * editing following or all occurrences must host the series and each of them.
  * 
  * Request body:
  * {
@@ -16,6 +22,9 @@ import { Timestamp } from 'firebase-admin/firestore';
  *   endTime?: string (ISO date);
  *   location?: string;
  *   pointsValue?: number;
+ *   category?: 'general' | 'workshop' | 'social' | 'hackathon';
+ *   capacity?: number | null; (null removes the RSVP limit)
+ *   scope?: 'this' | 'following' | 'all'; (recurring events only, default 'this')
  * }
  * 
  * Response:
@@ -27,15 +36,16 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  // Verify admin authentication
-  const authResult = await requireAdmin(request);
+  const { id } = await params;
+  
+  // Verify the caller holds events:edit for this event (by role or as a host)
+  const authResult = await requireEventPermission(request, id, 'events:edit');
   
   if (!authResult.success) {
     return createErrorResponse(authResult);
   }
   
   try {
-    const { id } = await params;
     const body = await request.json();
     
     // Prepare updates
@@ -68,6 +78,39 @@ export async function PUT(
       updates.pointsValue = body.pointsValue;
     }
     
+    if (body.category !== undefined) {
+      if (!isEventCategory(body.category)) {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid category',
+            },
+          },
+          { status: 400 }
+        );
+      }
+      updates.category = body.category;
+    }
+    
+    if (body.capacity !== undefined) {
+      if (
+        body.capacity !== null &&
+        (typeof body.capacity !== 'number' || !Number.isInteger(body.capacity) || body.capacity < 1)
+      ) {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid capacity: must be a positive whole number or null',
+            },
+          },
+          { status: 400 }
+        );
+      }
+      updates.capacity = body.capacity;
+    }
+    
     if (body.startTime !== undefined) {
       const startTime = new Date(body.startTime);
       if (isNaN(startTime.getTime())) {
@@ -100,8 +143,67 @@ export async function PUT(
       updates.endTime = Timestamp.fromDate(endTime);
     }
     
+    const scope: SeriesEditScope = body.scope ?? 'this';
+    
+    if (!['this', 'following', 'all'].includes(scope)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: "Invalid scope: must be 'this', 'following', or 'all'",
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    // Hosts are granted access per occurrence, so series edits need all of them
+    if (
+      scope !== 'this' &&
+      !hasPermission(authResult.user, 'events:edit') &&
+      !(await hostsSeriesEdit(id, authResult.userId!, scope))
+    ) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You must host the series and every affected occurrence to edit them together',
+          },
+        },
+        { status: 403 }
+      );
+    }
+    
+    const before = await getEvent(id);
+    
+    // Hosts can't change what their events are worth
+    if (
+      updates.pointsValue !== undefined &&
+      updates.pointsValue !== before?.pointsValue &&
+      !canSetEventPoints(authResult.user)
+    ) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only points managers can change an event\'s points value',
+          },
+        },
+        { status: 403 }
+      );
+    }
+    
     // Update event (service will check if event has started)
-    await updateEvent(id, updates);
+    await updateEventSeries(id, updates, scope);
+    
+    const after = await getEvent(id);
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'event.update',
+      target: { type: 'event', id, label: after?.name ?? before?.name },
+      before,
+      after,
+      context: scope !== 'this' ? { scope } : undefined,
+    });
     
     return NextResponse.json({
       success: true,
@@ -122,6 +224,18 @@ export async function PUT(
       );
     }
     
+    if (error.message === 'Event is not part of a series') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'NOT_IN_SERIES',
+            message: 'Event is not part of a recurring series',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
     if (error.message === 'Cannot edit started event') {
       return NextResponse.json(
         {
@@ -148,7 +262,7 @@ export async function PUT(
 
 /**
  * DELETE /api/admin/events/[id]
- * Delete an event (admin only)
+ * Delete an event (requires events:delete)
  * 
  * Response:
  * {
@@ -159,8 +273,8 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  // Verify admin authentication
-  const authResult = await requireAdmin(request);
+  // Verify the caller holds events:delete
+  const authResult = await requirePermission(request, 'events:delete');
   
   if (!authResult.success) {
     return createErrorResponse(authResult);
@@ -169,9 +283,17 @@ export async function DELETE(
   try {
     const { id } = await params;
     
+    const before = await getEvent(id);
+    
     // Delete event
     await deleteEvent(id);
     
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'event.delete',
+      target: { type: 'event', id, label: before?.name },
+      before,
+    });
+    
     return NextResponse.json({
       success: true,
     });
@@ -205,7 +327,7 @@ export async function DELETE(
 
 /**
  * GET /api/admin/events/[id]
- * Get a single event (admin only)
+ * Get a single event (requires events:view)
  * 
  * Response:
  * {
@@ -217,8 +339,8 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  // Verify admin authentication
-  const authResult = await requireAdmin(request);
+  // Verify the caller holds events:view
+  const authResult = await requirePermission(request, 'events:view');
   
   if (!authResult.success) {
     return createErrorResponse(authResult);
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireEventPermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { getRsvpList } from '@/lib/services/rsvp.service';
+import { toCsv } from '@/lib/csv';
+import type { RsvpListEntry } from '@/lib/types';
+
+/**
+ * Render the RSVP list as CSV
+ */
+function rsvpsToCsv(entries: RsvpListEntry[]): string {
+  const header = ['Status', 'Position', 'Name', 'Email', 'TTU Email', 'Attended', 'User ID'];
+  const rows = entries.map((entry) => [
+    entry.status,
+    entry.position,
+    entry.displayName,
+    entry.email,
+    entry.ttuEmail || '',
+    entry.attended ? 'yes' : 'no',
+    entry.userId,
+  ]);
+  
+  return toCsv(header, rows);
+}
+
+/**
+ * GET /api/admin/events/[id]/rsvps
+ * Get the RSVP list and waitlist for an event (requires events:check-in or event host)
+ * 
+ * Query parameters:
+ * - format: 'json' | 'csv' (optional, default 'json')
+ * 
+ * Response (json):
+ * {
+ *   success: true;
+ *   data: RsvpListEntry[];
+ * }
+ * 
+ * Response (csv): text/csv attachment
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  
+  // Verify the caller holds events:check-in for this event (by role or as a host)
+  const authResult = await requireEventPermission(request, id, 'events:check-in');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const { searchParams } = new URL(request.url);
+    
+    const entries = await getRsvpList(id);
+    
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(rsvpsToCsv(entries), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="rsvps-${id}.csv"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: entries,
+    });
+  } catch (error: any) {
+    console.error('Error getting RSVP list:', error);
+    
+    if (error.message === 'Event not found') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'EVENT_NOT_FOUND',
+            message: 'Event not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'GET_RSVPS_ERROR',
+          message: error.message || 'Failed to get RSVP list',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
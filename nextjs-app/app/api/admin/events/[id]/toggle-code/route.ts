@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/middleware/auth';
+import { requireEventPermission } from '@/lib/middleware/auth';
 import { createErrorResponse } from '@/lib/middleware/auth';
 import { toggleAttendanceCode } from '@/lib/services/event.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
 
 /**
  * POST /api/admin/events/[id]/toggle-code
- * Toggle attendance code active status (admin only)
+ * Toggle attendance code active status (requires events:check-in or event host)
  * 
  * Request body:
  * {
@@ -21,15 +22,16 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  // Verify admin authentication
-  const authResult = await requireAdmin(request);
+  const { id } = await params;
+  
+  // Verify the caller holds events:check-in for this event (by role or as a host)
+  const authResult = await requireEventPermission(request, id, 'events:check-in');
   
   if (!authResult.success) {
     return createErrorResponse(authResult);
   }
   
   try {
-    const { id } = await params;
     const body = await request.json();
     
     // Validate active field
@@ -48,6 +50,12 @@ export async function POST(
     // Toggle attendance code
     await toggleAttendanceCode(id, body.active);
     
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'event.toggle-code',
+      target: { type: 'event', id },
+      after: { codeActive: body.active },
+    });
+    
     return NextResponse.json({
       success: true,
     });
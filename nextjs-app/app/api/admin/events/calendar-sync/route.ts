@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { getCalendarSyncStatuses } from '@/lib/services/calendarSync.service';
+
+/**
+ * GET /api/admin/events/calendar-sync
+ * Get calendar invitation sync status for events (requires events:view)
+ * 
+ * Only events that have invitations or a queued change are included.
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: CalendarSyncStatus[];
+ * }
+ */
+export async function GET(request: NextRequest) {
+  // Verify the caller holds events:view
+  const authResult = await requirePermission(request, 'events:view');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const statuses = await getCalendarSyncStatuses();
+    
+    return NextResponse.json({
+      success: true,
+      data: statuses,
+    });
+  } catch (error: any) {
+    console.error('Error getting calendar sync statuses:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'CALENDAR_SYNC_ERROR',
+          message: error.message || 'Failed to get calendar sync status',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
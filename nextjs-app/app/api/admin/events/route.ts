@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/middleware/auth';
+import { requirePermission } from '@/lib/middleware/auth';
 import { createErrorResponse } from '@/lib/middleware/auth';
 import { createEvent } from '@/lib/services/event.service';
-// import { sendCalendarInvitation } from '@/lib/services/calendar.service';
-// import { getTTUVerifiedUsers } from '@/lib/services/user.service';
-import type { CreateEventInput } from '@/lib/types';
+import { recordAuditEvent } from '@/lib/services/audit.service';
+import { isCalendarConfigured } from '@/lib/services/calendar.service';
+import { queueCalendarSync } from '@/lib/services/calendarSync.service';
+import { isEventCategory } from '@/lib/constants/eventCategories';
+import { canSetEventPoints, DEFAULT_EVENT_POINTS, hasPermission } from '@/lib/constants/roles';
+import type { CreateEventInput, RecurrenceRule } from '@/lib/types';
 
 /**
  * POST /api/admin/events
- * Create a new event (admin only)
+ * Create a new event (requires events:create)
  * 
  * Request body:
  * {
@@ -18,18 +21,34 @@ import type { CreateEventInput } from '@/lib/types';
  *   endTime: string (ISO date);
  *   location: string;
  *   pointsValue: number;
+ *   category?: 'general' | 'workshop' | 'social' | 'hackathon'; (default 'general')
+ *   capacity?: number | null; (max confirmed RSVPs, omit for unlimited)
+ *   recurrence?: {
+ *     frequency: 'weekly' | 'biweekly' | 'monthly';
+ *     until?: string (ISO date);  // Either until or count is required
+ *     count?: number;
+ *     skipDates?: string[];       // YYYY-MM-DD
+ *   };
  * }
  * 
+ * When recurrence is set, the event becomes the first occurrence of a series
+ * and data is that first occurrence.
+ * 
+ * Event hosts (no global events:edit) are granted host access to the events
+ * they create, and can only create them at DEFAULT_EVENT_POINTS.
+ * 
  * Response:
  * {
  *   success: true;
  *   data: Event;
- *   calendar?: CalendarResult;
  * }
+ * 
+ * When a calendar provider is configured, invitations are queued and
+ * sent by a calendar.sync background job.
  */
 export async function POST(request: NextRequest) {
-  // Verify admin authentication
-  const authResult = await requireAdmin(request);
+  // Verify the caller holds events:create
+  const authResult = await requirePermission(request, 'events:create');
   
   if (!authResult.success) {
     return createErrorResponse(authResult);
@@ -75,6 +94,47 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Hosts can't choose what their own events are worth
+    if (body.pointsValue !== DEFAULT_EVENT_POINTS && !canSetEventPoints(authResult.user)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: `Only points managers can set a points value other than ${DEFAULT_EVENT_POINTS}`,
+          },
+        },
+        { status: 403 }
+      );
+    }
+    
+    if (body.category !== undefined && !isEventCategory(body.category)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid category',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (
+      body.capacity !== undefined &&
+      body.capacity !== null &&
+      (typeof body.capacity !== 'number' || !Number.isInteger(body.capacity) || body.capacity < 1)
+    ) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid capacity: must be a positive whole number or null',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
     // Parse start date
     const startTime = new Date(body.startTime);
     
@@ -90,6 +150,34 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Parse recurrence (detailed validation happens in the service)
+    let recurrence: RecurrenceRule | undefined;
+    
+    if (body.recurrence) {
+      if (
+        body.recurrence.skipDates !== undefined &&
+        (!Array.isArray(body.recurrence.skipDates) ||
+          !body.recurrence.skipDates.every((date: unknown) => typeof date === 'string'))
+      ) {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid recurrence: skipDates must be an array of strings',
+            },
+          },
+          { status: 400 }
+        );
+      }
+      
+      recurrence = {
+        frequency: body.recurrence.frequency,
+        until: body.recurrence.until ? new Date(body.recurrence.until) : undefined,
+        count: body.recurrence.count ?? undefined,
+        skipDates: body.recurrence.skipDates,
+      };
+    }
+    
     // Create event input
     const eventInput: CreateEventInput = {
       name: body.name,
@@ -97,33 +185,53 @@ export async function POST(request: NextRequest) {
       startTime,
       location: body.location,
       pointsValue: body.pointsValue,
+      category: body.category,
+      capacity: body.capacity ?? null,
+      // Creators who can't edit every event host their own so they can keep managing it
+      hostIds: hasPermission(authResult.user, 'events:edit') ? [] : [authResult.userId!],
+      recurrence,
     };
     
     // Create event
     const event = await createEvent(eventInput, authResult.userId!);
     
-    // Send calendar invitations (non-blocking) - COMMENTED OUT FOR TESTING
-    // let calendarResult;
-    // try {
-    //   const ttuUsers = await getTTUVerifiedUsers();
-    //   const emails = ttuUsers.map(user => user.email);
-    //   
-    //   if (emails.length > 0) {
-    //     calendarResult = await sendCalendarInvitation(event, emails);
-    //   }
-    // } catch (calendarError) {
-    //   console.error('Error sending calendar invitations:', calendarError);
-    //   // Don't fail the request if calendar sending fails
-    // }
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'event.create',
+      target: { type: 'event', id: event.id, label: event.name },
+      after: event,
+      context: recurrence ? { recurrence: recurrence.frequency } : undefined,
+    });
+    
+    // Queue calendar invitations when a provider is configured; the
+    // job queue sends them and retries failures
+    if (isCalendarConfigured()) {
+      try {
+        await queueCalendarSync(event.id, 'create');
+      } catch (calendarError) {
+        console.error('Error queueing calendar invitations:', calendarError);
+        // Don't fail the request if calendar queueing fails
+      }
+    }
     
     return NextResponse.json({
       success: true,
       data: event,
-      // calendar: calendarResult,
     });
   } catch (error: any) {
     console.error('Error creating event:', error);
     
+    if (error.message?.startsWith('Invalid recurrence')) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
     return NextResponse.json(
       {
         error: {
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { createExport } from '@/lib/services/export.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
+import { getExportDefinition, isExportType } from '@/lib/constants/exports';
+import { createCsvStream } from '@/lib/csv';
+import { createXlsxStream } from '@/lib/xlsx';
+import type { ExportFormat } from '@/lib/types';
+
+/**
+ * Parse an optional ISO date query parameter
+ * 
+ * @returns The date, undefined if absent, or null if invalid
+ */
+function parseDateParam(value: string | null): Date | null | undefined {
+  if (!value) {
+    return undefined;
+  }
+  
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET /api/admin/exports/[type]
+ * Download a member data export (requires members:export)
+ * 
+ * The file is streamed as rows are read, so large exports start
+ * downloading immediately.
+ * 
+ * Path parameters:
+ * - type: 'roster' | 'attendance' | 'points' | 'participation'
+ * 
+ * Query parameters:
+ * - format: 'csv' | 'xlsx' (optional, default 'csv')
+ * - columns: comma-separated column keys (optional, default columns if omitted)
+ * - start: ISO date, inclusive (optional)
+ * - end: ISO date, exclusive (optional)
+ * 
+ * Response: CSV or XLSX file attachment
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string }> }
+) {
+  // Verify the caller holds members:export
+  const authResult = await requirePermission(request, 'members:export');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const { type } = await params;
+    const { searchParams } = new URL(request.url);
+    
+    if (!isExportType(type)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'EXPORT_NOT_FOUND',
+            message: `Unknown export: ${type}`,
+          },
+        },
+        { status: 404 }
+      );
+    }
+    
+    const format = (searchParams.get('format') || 'csv') as ExportFormat;
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid format: must be csv or xlsx',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    const startDate = parseDateParam(searchParams.get('start'));
+    const endDate = parseDateParam(searchParams.get('end'));
+    
+    if (startDate === null || endDate === null) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid start or end date',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (startDate && endDate && startDate >= endDate) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Start date must be before end date',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    const columns = (searchParams.get('columns') || '')
+      .split(',')
+      .map((column) => column.trim())
+      .filter(Boolean);
+    
+    const table = await createExport(type, { columns, startDate, endDate });
+    
+    const context: Record<string, string | number> = { format, columns: table.header.length };
+    if (startDate) {
+      context.start = startDate.toISOString();
+    }
+    if (endDate) {
+      context.end = endDate.toISOString();
+    }
+    
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'data.export',
+      target: { type: 'system', id: type, label: getExportDefinition(type).label },
+      context,
+    });
+    
+    const fileName = `${type}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const body = format === 'xlsx'
+      ? createXlsxStream(table.sheetName, table.header, table.rows)
+      : createCsvStream(table.header, table.rows);
+    
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'xlsx'
+          ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+          : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error creating export:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'EXPORT_ERROR',
+          message: error.message || 'Failed to create export',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { archiveSeason, resolveLeaderboardWindow } from '@/lib/services/leaderboard.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
+import type { LeaderboardWindow, SeasonScope } from '@/lib/types';
+import type { MonthKey } from '@/lib/major-league';
+
+const SEASON_SCOPES: SeasonScope[] = ['semester', 'academic-year', 'major-league'];
+
+/**
+ * POST /api/admin/leaderboard/archives
+ * Freeze and archive a finished season's standings now (requires points:reconcile)
+ * 
+ * Seasons are also archived automatically by the lifecycle job once they end.
+ * 
+ * Request body:
+ * {
+ *   scope: 'semester' | 'academic-year' | 'major-league';
+ *   date?: string (ISO date);  // Any date in the semester/academic year
+ *   month?: string;            // Major League month, e.g. "January"
+ * }
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: { id: string; label: string; entries: number };
+ * }
+ */
+export async function POST(request: NextRequest) {
+  // Verify the caller holds points:reconcile
+  const authResult = await requirePermission(request, 'points:reconcile');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const body = await request.json();
+    
+    if (!SEASON_SCOPES.includes(body.scope)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Invalid scope: must be one of ${SEASON_SCOPES.join(', ')}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    let window: LeaderboardWindow;
+    try {
+      const date = body.date ? new Date(body.date) : undefined;
+      if (date && isNaN(date.getTime())) {
+        throw new Error('Invalid date');
+      }
+      
+      window = resolveLeaderboardWindow(body.scope, {
+        date,
+        month: body.month as MonthKey | undefined,
+      });
+    } catch (error: any) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    const archive = await archiveSeason(window, authResult.userId!);
+    
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'leaderboard.archive',
+      target: { type: 'leaderboard', id: archive.id, label: archive.label },
+      context: { entries: archive.standings.length },
+    });
+    
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: archive.id,
+        label: archive.label,
+        entries: archive.standings.length,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error archiving season:', error);
+    
+    if (error.message === 'Season has not ended') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'SEASON_NOT_ENDED',
+            message: 'Season has not ended',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (error.message === 'Season already archived' || error.code === 6) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'ALREADY_ARCHIVED',
+            message: 'Season already archived',
+          },
+        },
+        { status: 409 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'ARCHIVE_SEASON_ERROR',
+          message: error.message || 'Failed to archive season',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
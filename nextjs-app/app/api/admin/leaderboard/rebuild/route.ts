@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { rebuildLifetimeLeaderboard } from '@/lib/services/leaderboard.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
+
+/**
+ * POST /api/admin/leaderboard/rebuild
+ * Rebuild the materialized lifetime leaderboard now (requires points:reconcile)
+ * 
+ * The lifecycle job also rebuilds it hourly.
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: { entries: number };
+ * }
+ */
+export async function POST(request: NextRequest) {
+  // Verify the caller holds points:reconcile
+  const authResult = await requirePermission(request, 'points:reconcile');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const entries = await rebuildLifetimeLeaderboard();
+    
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'leaderboard.rebuild',
+      target: { type: 'leaderboard', id: 'lifetime' },
+      context: { entries },
+    });
+    
+    return NextResponse.json({
+      success: true,
+      data: { entries },
+    });
+  } catch (error: any) {
+    console.error('Error rebuilding leaderboard:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'REBUILD_LEADERBOARD_ERROR',
+          message: error.message || 'Failed to rebuild leaderboard',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
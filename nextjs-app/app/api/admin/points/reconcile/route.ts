@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { reconcilePoints } from '@/lib/services/pointsLedger.service';
+import { rebuildLifetimeLeaderboard } from '@/lib/services/leaderboard.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
+
+/**
+ * POST /api/admin/points/reconcile
+ * Compare users.points with the points ledger and optionally rebuild it (requires points:reconcile)
+ * 
+ * Request body (optional):
+ * {
+ *   apply?: boolean;  // Recompute mismatched users from the ledger (default: report only)
+ *                     // Users without an opening_balance entry are skipped and listed in `skipped`
+ *   userId?: string;  // Restrict to a single user
+ * }
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: PointsReconcileReport;
+ * }
+ */
+export async function POST(request: NextRequest) {
+  // Verify the caller holds points:reconcile
+  const authResult = await requirePermission(request, 'points:reconcile');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const body = await request.json().catch(() => ({}));
+    
+    if (body.userId !== undefined && typeof body.userId !== 'string') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid userId: must be a string',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    const report = await reconcilePoints({
+      apply: body.apply === true,
+      userId: body.userId,
+    });
+    
+    // Corrected totals change standings
+    if (report.applied && report.mismatches.length > 0) {
+      await rebuildLifetimeLeaderboard();
+    }
+    
+    // Report-only runs change nothing and are not audited
+    if (report.applied) {
+      await recordAuditEvent(request, authResult.user!, {
+        action: 'points.reconcile',
+        target: body.userId ? { type: 'user', id: body.userId } : { type: 'system', id: 'pointsLedger' },
+        context: {
+          usersChecked: report.usersChecked,
+          usersCorrected: report.mismatches.length,
+          usersSkipped: report.skipped.length,
+        },
+      });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error: any) {
+    console.error('Error reconciling points:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'RECONCILE_POINTS_ERROR',
+          message: error.message || 'Failed to reconcile points',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { getSuspiciousActivity } from '@/lib/services/rateLimit.service';
+
+/**
+ * GET /api/admin/security/suspicious-activity
+ * Get recent suspicious submission bursts and lockouts (requires security:view)
+ * 
+ * Query parameters:
+ * - limit: number (optional, default: 100, max: 500)
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: SuspiciousActivity[];
+ * }
+ */
+export async function GET(request: NextRequest) {
+  // Verify the caller holds security:view
+  const authResult = await requirePermission(request, 'security:view');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const { searchParams } = new URL(request.url);
+    const limitParam = searchParams.get('limit');
+    
+    // Parse and validate limit (default: 100, max: 500)
+    let limit = 100;
+    if (limitParam) {
+      const parsedLimit = parseInt(limitParam, 10);
+      if (!isNaN(parsedLimit) && parsedLimit > 0) {
+        limit = Math.min(parsedLimit, 500);
+      }
+    }
+    
+    const activity = await getSuspiciousActivity(limit);
+    
+    // Convert Timestamps to ISO strings for JSON serialization
+    const serializedActivity = activity.map((entry) => ({
+      ...entry,
+      lockedUntil: entry.lockedUntil ? entry.lockedUntil.toDate().toISOString() : null,
+      createdAt: entry.createdAt.toDate().toISOString(),
+    }));
+    
+    return NextResponse.json({
+      success: true,
+      data: serializedActivity,
+    });
+  } catch (error: any) {
+    console.error('Error getting suspicious activity:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'GET_SUSPICIOUS_ACTIVITY_ERROR',
+          message: error.message || 'Failed to get suspicious activity',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
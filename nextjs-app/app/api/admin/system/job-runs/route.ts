@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import {
+  getJobRuns,
+  DEFAULT_JOB_RUN_LIMIT,
+  MAX_JOB_RUN_LIMIT,
+} from '@/lib/services/jobRun.service';
+import type { CronJobName } from '@/lib/types';
+
+const CRON_JOB_NAMES: CronJobName[] = ['events.lifecycle', 'accounts.cleanup', 'jobs.worker'];
+
+/**
+ * GET /api/admin/system/job-runs
+ * Get the history of scheduled (cron) job runs, newest first (requires system:view)
+ * 
+ * Query parameters:
+ * - name: CronJobName (optional, only runs of this job)
+ * - limit: number (optional, default: 100, max: 500)
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: JobRun[];
+ * }
+ */
+export async function GET(request: NextRequest) {
+  // Verify the caller holds system:view
+  const authResult = await requirePermission(request, 'system:view');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const { searchParams } = new URL(request.url);
+    const nameParam = searchParams.get('name');
+    const limitParam = searchParams.get('limit');
+    
+    if (nameParam && !CRON_JOB_NAMES.includes(nameParam as CronJobName)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `name must be one of: ${CRON_JOB_NAMES.join(', ')}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    // Parse and validate limit
+    let limit = DEFAULT_JOB_RUN_LIMIT;
+    if (limitParam) {
+      const parsedLimit = parseInt(limitParam, 10);
+      if (!isNaN(parsedLimit) && parsedLimit > 0) {
+        limit = Math.min(parsedLimit, MAX_JOB_RUN_LIMIT);
+      }
+    }
+    
+    const runs = await getJobRuns({
+      name: (nameParam as CronJobName | null) ?? undefined,
+      limit,
+    });
+    
+    // Convert Timestamps to ISO strings for JSON serialization
+    const serializedRuns = runs.map((run) => ({
+      ...run,
+      startedAt: run.startedAt.toDate().toISOString(),
+      finishedAt: run.finishedAt.toDate().toISOString(),
+    }));
+    
+    return NextResponse.json({
+      success: true,
+      data: serializedRuns,
+    });
+  } catch (error: any) {
+    console.error('Error getting job runs:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'GET_JOB_RUNS_ERROR',
+          message: error.message || 'Failed to get job runs',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
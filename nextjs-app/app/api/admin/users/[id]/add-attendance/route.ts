@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/middleware/auth';
+import { requirePermission } from '@/lib/middleware/auth';
 import { createErrorResponse } from '@/lib/middleware/auth';
 import { addAttendee } from '@/lib/services/attendance.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
 
 /**
  * POST /api/admin/users/[id]/add-attendance
- * Manually add attendance to event (admin only)
+ * Manually add attendance to event (requires points:adjust)
  * 
  * Request body:
  * {
@@ -21,8 +22,8 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  // Verify admin authentication
-  const authResult = await requireAdmin(request);
+  // Verify the caller holds points:adjust
+  const authResult = await requirePermission(request, 'points:adjust');
   
   if (!authResult.success) {
     return createErrorResponse(authResult);
@@ -48,6 +49,12 @@ export async function POST(
     // Add attendee
     await addAttendee(body.eventId, id, authResult.userId!);
     
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'attendance.add',
+      target: { type: 'user', id },
+      context: { eventId: body.eventId },
+    });
+    
     return NextResponse.json({
       success: true,
     });
@@ -91,6 +98,18 @@ export async function POST(
       );
     }
     
+    if (error.message === 'Hosts cannot be checked in to events they host') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'HOST_CHECK_IN',
+            message: 'Hosts cannot be checked in to events they host',
+          },
+        },
+        { status: 403 }
+      );
+    }
+    
     return NextResponse.json(
       {
         error: {
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/middleware/auth';
+import { requirePermission } from '@/lib/middleware/auth';
 import { createErrorResponse } from '@/lib/middleware/auth';
 import { addPoints } from '@/lib/services/user.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
 
 /**
  * POST /api/admin/users/[id]/add-points
- * Add points to user (admin only)
+ * Add points to user (requires points:adjust)
  * 
  * Request body:
  * {
@@ -25,8 +26,8 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  // Verify admin authentication
-  const authResult = await requireAdmin(request);
+  // Verify the caller holds points:adjust
+  const authResult = await requirePermission(request, 'points:adjust');
   
   if (!authResult.success) {
     return createErrorResponse(authResult);
@@ -69,6 +70,14 @@ export async function POST(
       authResult.userId!
     );
     
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'points.adjust',
+      target: { type: 'user', id },
+      before: { points: newTotal - body.points },
+      after: { points: newTotal },
+      reason: body.reason,
+    });
+    
     return NextResponse.json({
       success: true,
       data: {
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/middleware/auth';
+import { createErrorResponse } from '@/lib/middleware/auth';
+import { revokeAttendance } from '@/lib/services/attendance.service';
+import { recordAuditEvent } from '@/lib/services/audit.service';
+
+/**
+ * POST /api/admin/users/[id]/revoke-attendance
+ * Revoke attendance at an event and reverse its points (requires points:adjust)
+ * 
+ * Request body:
+ * {
+ *   eventId: string; // Event ID to revoke attendance for
+ *   reason: string;  // Reason for revoking (e.g. wrong event, shared code)
+ * }
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: {
+ *     eventName: string;
+ *     pointsReversed: number;
+ *   };
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Verify the caller holds points:adjust
+  const authResult = await requirePermission(request, 'points:adjust');
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    
+    // Validate required fields
+    if (!body.eventId || typeof body.eventId !== 'string') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing or invalid field: eventId (must be a string)',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (!body.reason || typeof body.reason !== 'string' || !body.reason.trim()) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Missing or invalid field: reason (must be a string)',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    const reason = body.reason.trim();
+    
+    // Revoke attendance
+    const result = await revokeAttendance(body.eventId, id, reason, authResult.userId!);
+    
+    await recordAuditEvent(request, authResult.user!, {
+      action: 'attendance.revoke',
+      target: { type: 'user', id },
+      reason,
+      context: {
+        eventId: body.eventId,
+        eventName: result.eventName,
+        pointsReversed: result.pointsReversed,
+      },
+    });
+    
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error('Error revoking attendance:', error);
+    
+    // Handle specific errors
+    if (error.message === 'Event not found') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'EVENT_NOT_FOUND',
+            message: 'Event not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+    
+    if (error.message === 'User not found') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+    
+    if (error.message === 'User has not attended this event') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'NOT_ATTENDED',
+            message: 'User has not attended this event',
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'REVOKE_ATTENDANCE_ERROR',
+          message: error.message || 'Failed to revoke attendance',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
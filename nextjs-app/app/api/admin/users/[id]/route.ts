@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/middleware/auth';
+import { requirePermission } from '@/lib/middleware/auth';
 import { createErrorResponse } from '@/lib/middleware/auth';
 import { getUser } from '@/lib/services/user.service';
 
 /**
  * GET /api/admin/users/[id]
- * Get user details (admin only)
+ * Get user details (requires users:view)
  * 
  * Response:
  * {
@@ -17,8 +17,8 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  // Verify admin authentication
-  const authResult = await requireAdmin(request);
+  // Verify the caller holds users:view
+  const authResult = await requirePermission(request, 'users:view');
   
   if (!authResult.success) {
     return createErrorResponse(authResult);
@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/middleware/auth';
+import { requirePermission } from '@/lib/middleware/auth';
 import { createErrorResponse } from '@/lib/middleware/auth';
 import { getTTUVerifiedUsers } from '@/lib/services/user.service';
 
 /**
  * GET /api/admin/users
- * Get all TTU verified users (admin only)
+ * Get all TTU verified users (requires users:view)
  * 
  * Response:
  * {
@@ -14,8 +14,8 @@ import { getTTUVerifiedUsers } from '@/lib/services/user.service';
  * }
  */
 export async function GET(request: NextRequest) {
-  // Verify admin authentication
-  const authResult = await requireAdmin(request);
+  // Verify the caller holds users:view
+  const authResult = await requirePermission(request, 'users:view');
   
   if (!authResult.success) {
     return createErrorResponse(authResult);
@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireOnboarded } from '@/lib/middleware/auth';
-import { createErrorResponse } from '@/lib/middleware/auth';
+import { requireOnboarded, withAuth } from '@/lib/middleware/auth';
 import { submitAttendance } from '@/lib/services/attendance.service';
+import { ATTENDANCE_SUBMIT_POLICY } from '@/lib/services/rateLimit.service';
 
 /**
  * POST /api/attendance/submit
  * Submit attendance code (onboarded users only)
  * 
+ * Rate limited per user and per IP (ATTENDANCE_SUBMIT_POLICY). Repeated
+ * invalid codes lock the submitter out temporarily (429 LOCKED_OUT).
+ * 
  * Request body:
  * {
  *   code: string; // 6-digit attendance code
@@ -28,14 +31,7 @@ import { submitAttendance } from '@/lib/services/attendance.service';
  *   };
  * }
  */
-export async function POST(request: NextRequest) {
-  // Verify user is onboarded (TTU verified)
-  const authResult = await requireOnboarded(request);
-  
-  if (!authResult.success) {
-    return createErrorResponse(authResult);
-  }
-  
+export const POST = withAuth(async (request: NextRequest, { userId, rateLimit }) => {
   try {
     const body = await request.json();
     
@@ -66,9 +62,13 @@ export async function POST(request: NextRequest) {
     }
     
     // Submit attendance
-    const result = await submitAttendance(authResult.userId!, body.code);
+    const result = await submitAttendance(userId, body.code);
     
     if (!result.success) {
+      // Count every failed code towards a lockout; a code that matches an
+      // inactive or ended event still reveals that the code exists
+      await rateLimit?.recordFailure();
+      
       // Return specific error from service
       return NextResponse.json(
         {
@@ -81,6 +81,8 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    await rateLimit?.reset();
+    
     return NextResponse.json({
       success: true,
       message: result.message,
@@ -100,4 +102,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, requireOnboarded, { rateLimit: ATTENDANCE_SUBMIT_POLICY });
@@ -1,11 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createSession } from '@/lib/services/session.service';
+import { SESSION_COOKIE_NAME, SESSION_MAX_AGE_SECONDS } from '@/lib/constants/session';
 
-// Cookie configuration
-const COOKIE_NAME = 'AuthToken';
+// Legacy signature cookie from the old token cookie, cleared on sign out
 const COOKIE_SIGNATURE_NAME = 'AuthToken.sig';
-const MAX_AGE = 60 * 60 * 24 * 5; // 5 days
 
-// POST /api/auth/session - Set auth cookies
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+};
+
+// POST /api/auth/session - Exchange an ID token for a session cookie
+//
+// Response:
+// - { success: true } when the session is set (or still fresh)
+// - { success: true, refreshRequired: true } when custom claims changed; the
+//   client should force-refresh its ID token and POST again
 export async function POST(request: NextRequest) {
   try {
     const { idToken } = await request.json();
@@ -17,21 +29,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Set the auth cookies
+    const result = await createSession(
+      idToken,
+      request.cookies.get(SESSION_COOKIE_NAME)?.value
+    );
+
+    if (result.status === 'refresh-required') {
+      return NextResponse.json({ success: true, refreshRequired: true });
+    }
+
     const response = NextResponse.json({ success: true });
 
-    // Set the token cookie
-    response.cookies.set(COOKIE_NAME, idToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: MAX_AGE,
-      path: '/',
-    });
+    if (result.status === 'created') {
+      response.cookies.set(SESSION_COOKIE_NAME, result.sessionCookie, {
+        ...cookieOptions,
+        maxAge: SESSION_MAX_AGE_SECONDS,
+      });
+    }
 
     return response;
   } catch (error: any) {
     console.error('Error setting auth session:', error);
+
+    // Invalid or revoked tokens must not leave an old session behind
+    if (typeof error.code === 'string' && error.code.startsWith('auth/')) {
+      const response = NextResponse.json(
+        { error: 'Invalid or revoked token' },
+        { status: 401 }
+      );
+      response.cookies.set(SESSION_COOKIE_NAME, '', { ...cookieOptions, maxAge: 0 });
+      return response;
+    }
+
     return NextResponse.json(
       { error: 'Failed to set auth session', details: error.message },
       { status: 500 }
@@ -45,20 +74,14 @@ export async function DELETE() {
     const response = NextResponse.json({ success: true });
 
     // Clear the auth cookies
-    response.cookies.set(COOKIE_NAME, '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
+    response.cookies.set(SESSION_COOKIE_NAME, '', {
+      ...cookieOptions,
       maxAge: 0,
-      path: '/',
     });
 
     response.cookies.set(COOKIE_SIGNATURE_NAME, '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
+      ...cookieOptions,
       maxAge: 0,
-      path: '/',
     });
 
     return response;
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemberCalendarFeed, getPublicCalendarFeed } from '@/lib/services/calendarFeed.service';
+import { ICS_CONTENT_TYPE } from '@/lib/ics';
+
+/**
+ * GET /api/calendar.ics
+ * iCalendar subscription feed of chapter events (no authentication)
+ * 
+ * Query parameters:
+ * - token: string (optional) - private feed token; returns only the events
+ *   that member RSVP'd to instead of every chapter event
+ * 
+ * Response: text/calendar document. Cancelled events are included with
+ * STATUS:CANCELLED so subscribed calendars remove them.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+    const siteUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    
+    if (token) {
+      const feed = await getMemberCalendarFeed(token, siteUrl);
+      
+      if (feed === null) {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'NOT_FOUND',
+              message: 'Calendar feed not found',
+            },
+          },
+          { status: 404 }
+        );
+      }
+      
+      return new NextResponse(feed, {
+        headers: {
+          'Content-Type': ICS_CONTENT_TYPE,
+          'Content-Disposition': 'inline; filename="my-events.ics"',
+          'Cache-Control': 'private, no-store',
+        },
+      });
+    }
+    
+    const feed = await getPublicCalendarFeed(siteUrl);
+    
+    return new NextResponse(feed, {
+      headers: {
+        'Content-Type': ICS_CONTENT_TYPE,
+        'Content-Disposition': 'inline; filename="events.ics"',
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error serving calendar feed:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'CALENDAR_FEED_ERROR',
+          message: error.message || 'Failed to build calendar feed',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
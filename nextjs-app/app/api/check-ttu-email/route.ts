@@ -1,21 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAdminFirestore } from '@/lib/firebase/admin';
+import { isSchoolEmail } from '@/lib/chapter';
+import { ERROR_MESSAGES } from '@/lib/constants/errorMessages';
 
 export async function POST(request: NextRequest) {
   try {
     const { ttuEmail } = await request.json();
 
-    if (!ttuEmail) {
+    if (!ttuEmail || typeof ttuEmail !== 'string') {
       return NextResponse.json(
         { error: 'TTU email is required' },
         { status: 400 }
       );
     }
 
-    // Validate TTU email format
-    if (!ttuEmail.endsWith('@ttu.edu')) {
+    // Validate the whole address and its school domain
+    if (!isSchoolEmail(ttuEmail)) {
       return NextResponse.json(
-        { error: 'Email must be a valid TTU email address (@ttu.edu)' },
+        { error: ERROR_MESSAGES.TTU_EMAIL_INVALID },
         { status: 400 }
       );
     }
@@ -1,44 +1,36 @@
-import { NextRequest, NextResponse } from 'next/server';
-// import { cleanupExpiredAccounts } from '@/lib/services/ttuEmailVerification';
+import { enqueueJob } from '@/lib/jobs';
+import { getScheduleKey, runJobNow } from '@/lib/jobs/worker';
+import { withCronJob } from '@/lib/middleware/cron';
 
 /**
  * API route to clean up expired accounts
- * This endpoint should be called periodically (e.g., via a cron job)
+ * Cleanup runs as the hourly accounts.cleanup job, which the job worker
+ * (/api/jobs/worker or `npm run jobs:work`) enqueues on its own. This
+ * endpoint runs the current hour's job now; if the worker already ran it,
+ * its recorded result is returned instead.
  * 
- * For security, you should add authentication to this endpoint in production
- * (e.g., check for a secret token in the Authorization header)
+ * Deletes accounts that never finished onboarding and never verified a
+ * student email within 24 hours of sign-up.
  * 
- * NOTE: This functionality is currently disabled. 
- * Implement cleanupExpiredAccounts in ttuEmailVerification service if needed.
+ * Requires cron credentials (see lib/middleware/cron). Each call is
+ * recorded in the job history shown on the admin System page.
  */
-export async function POST(_request: NextRequest) {
-  try {
-    // Optional: Add authentication check here
-    // const authHeader = request.headers.get('authorization');
-    // if (authHeader !== `Bearer ${process.env.CLEANUP_SECRET}`) {
-    //   return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    // }
-    
-    // const cleanedCount = await cleanupExpiredAccounts();
-    
-    return NextResponse.json({
-      success: true,
-      message: 'Cleanup endpoint is currently disabled',
-      cleanedCount: 0,
-    });
-  } catch (error) {
-    console.error('Error in cleanup endpoint:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to clean up expired accounts',
-      },
-      { status: 500 }
+export const POST = withCronJob('accounts.cleanup', async () => {
+  const { id } = await enqueueJob('accounts.cleanup', {}, {
+    idempotencyKey: getScheduleKey('accounts.cleanup'),
+  });
+  const job = await runJobNow(id);
+  
+  if (job.status !== 'succeeded') {
+    throw new Error(
+      job.status === 'running'
+        ? 'Account cleanup job is already running'
+        : job.lastError || 'Failed to clean up expired accounts'
     );
   }
-}
+  
+  return { cleanedCount: job.result?.cleanedCount ?? 0 };
+});
 
-// Allow GET requests for testing purposes
-export async function GET(request: NextRequest) {
-  return POST(request);
-}
+// Vercel Cron sends GET requests
+export const GET = POST;
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEventCalendar } from '@/lib/services/calendarFeed.service';
+import { ICS_CONTENT_TYPE, getIcsFileName } from '@/lib/ics';
+
+/**
+ * GET /api/events/[id]/ics
+ * Download a single event as an .ics file (no authentication)
+ * 
+ * Response: text/calendar attachment. Re-downloading after an edit
+ * updates the existing calendar entry (same UID, higher SEQUENCE).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const siteUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const result = await getEventCalendar(id, siteUrl);
+    
+    if (!result) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'EVENT_NOT_FOUND',
+            message: 'Event not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+    
+    return new NextResponse(result.ics, {
+      headers: {
+        'Content-Type': ICS_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="${getIcsFileName(result.event)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error serving event calendar:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'CALENDAR_FEED_ERROR',
+          message: error.message || 'Failed to build event calendar',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
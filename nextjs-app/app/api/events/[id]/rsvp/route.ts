@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOnboarded, createErrorResponse } from '@/lib/middleware/auth';
+import { rsvpToEvent, cancelRsvp } from '@/lib/services/rsvp.service';
+
+/**
+ * Map RSVP service errors to API error responses
+ */
+function handleRsvpError(error: any, fallbackCode: string, fallbackMessage: string) {
+  if (error.message === 'Event not found') {
+    return NextResponse.json(
+      {
+        error: {
+          code: 'EVENT_NOT_FOUND',
+          message: 'Event not found',
+        },
+      },
+      { status: 404 }
+    );
+  }
+  
+  if (error.message === 'Event is closed') {
+    return NextResponse.json(
+      {
+        error: {
+          code: 'EVENT_CLOSED',
+          message: 'This event is no longer accepting RSVPs',
+        },
+      },
+      { status: 400 }
+    );
+  }
+  
+  if (error.message === 'Already RSVPed') {
+    return NextResponse.json(
+      {
+        error: {
+          code: 'ALREADY_RSVPED',
+          message: 'You have already RSVPed to this event',
+        },
+      },
+      { status: 400 }
+    );
+  }
+  
+  if (error.message === 'RSVP not found') {
+    return NextResponse.json(
+      {
+        error: {
+          code: 'RSVP_NOT_FOUND',
+          message: 'You have not RSVPed to this event',
+        },
+      },
+      { status: 404 }
+    );
+  }
+  
+  return NextResponse.json(
+    {
+      error: {
+        code: fallbackCode,
+        message: error.message || fallbackMessage,
+      },
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * POST /api/events/[id]/rsvp
+ * RSVP the current user to an event (onboarded users only)
+ * Joins the waitlist when the event is at capacity
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: {
+ *     status: 'confirmed' | 'waitlisted';
+ *     position?: number; // Waitlist position (waitlisted only)
+ *   };
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Verify user is onboarded (TTU verified)
+  const authResult = await requireOnboarded(request);
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const { id } = await params;
+    
+    const result = await rsvpToEvent(id, authResult.userId!);
+    
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error('Error creating RSVP:', error);
+    return handleRsvpError(error, 'RSVP_ERROR', 'Failed to RSVP');
+  }
+}
+
+/**
+ * DELETE /api/events/[id]/rsvp
+ * Cancel the current user's RSVP or leave the waitlist (onboarded users only)
+ * The first waitlisted user is promoted into the freed seat
+ * 
+ * Response:
+ * {
+ *   success: true;
+ * }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Verify user is onboarded (TTU verified)
+  const authResult = await requireOnboarded(request);
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+  
+  try {
+    const { id } = await params;
+    
+    await cancelRsvp(id, authResult.userId!);
+    
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error: any) {
+    console.error('Error cancelling RSVP:', error);
+    return handleRsvpError(error, 'CANCEL_RSVP_ERROR', 'Failed to cancel RSVP');
+  }
+}
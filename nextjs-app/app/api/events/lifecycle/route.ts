@@ -1,73 +1,47 @@
-import { NextRequest, NextResponse } from 'next/server';
-import {
-  getEventsNeedingStatusUpdate,
-  batchUpdateEventsToCompleted,
-  getEventsForCleanup,
-  markEventsAsCleanedUp,
-} from '@/lib/services/event.service';
+import { enqueueJob } from '@/lib/jobs';
+import { getScheduleKey, runJobNow } from '@/lib/jobs/worker';
+import { withCronJob } from '@/lib/middleware/cron';
 
 /**
  * API route for event lifecycle management
- * This endpoint should be called periodically (e.g., every 5 minutes via a cron job)
+ * The lifecycle runs as the events.lifecycle job, which the job worker
+ * (/api/jobs/worker or `npm run jobs:work`) enqueues every 5 minutes. This
+ * endpoint runs the current interval's job now; if the worker already ran
+ * it, its recorded result is returned instead of running it twice.
  * 
- * Performs two operations:
+ * The job performs seven operations (see lifecycle.service):
  * 1. Updates events to "completed" status after their end time
  * 2. Marks events as cleaned up 24 hours after completion (removes from admin page)
+ * 3. Materializes upcoming occurrences of recurring series on a rolling window
+ * 4. Archives final leaderboard standings of seasons that have ended
+ * 5. Rebuilds the materialized lifetime leaderboard (at most hourly)
+ * 6. Rebuilds the admin event analytics (at most hourly)
+ * 7. Runs the annual student re-verification sweep (at most daily)
  * 
- * For security, you should add authentication to this endpoint in production
- * (e.g., check for a secret token in the Authorization header)
+ * Calendar invitation changes run as their own calendar.sync jobs.
  * 
- * Example cron setup (Vercel):
- * - Add to vercel.json with crons array containing path and schedule (every 5 minutes)
+ * Requires cron credentials (see lib/middleware/cron). Each call is
+ * recorded in the job history shown on the admin System page.
  * 
  * Example manual trigger:
- * - POST /api/events/lifecycle with Authorization header
+ * - POST /api/events/lifecycle with Authorization: Bearer <CRON_SECRET>
  */
-export async function POST(request: NextRequest) {
-  try {
-    // Optional: Add authentication check for production
-    // Uncomment and set LIFECYCLE_JOB_SECRET in environment variables
-    // const authHeader = request.headers.get('authorization');
-    // if (authHeader !== `Bearer ${process.env.LIFECYCLE_JOB_SECRET}`) {
-    //   return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    // }
+export const POST = withCronJob('events.lifecycle', async () => {
+  const { id } = await enqueueJob('events.lifecycle', {}, {
+    idempotencyKey: getScheduleKey('events.lifecycle'),
+  });
+  const job = await runJobNow(id);
 
-    let completedCount = 0;
-    let cleanedUpCount = 0;
-
-    // Step 1: Update events to "completed" status
-    const eventsNeedingUpdate = await getEventsNeedingStatusUpdate();
-    if (eventsNeedingUpdate.length > 0) {
-      completedCount = await batchUpdateEventsToCompleted(eventsNeedingUpdate);
-    }
-
-    // Step 2: Mark events as cleaned up (24 hours after completion)
-    const eventsForCleanup = await getEventsForCleanup();
-    if (eventsForCleanup.length > 0) {
-      await markEventsAsCleanedUp(eventsForCleanup);
-      cleanedUpCount = eventsForCleanup.length;
-    }
-
-    return NextResponse.json({
-      success: true,
-      message: 'Event lifecycle job completed successfully',
-      completedCount,
-      cleanedUpCount,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    console.error('Error in event lifecycle job:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to run event lifecycle job',
-      },
-      { status: 500 }
+  if (job.status !== 'succeeded') {
+    throw new Error(
+      job.status === 'running'
+        ? 'Event lifecycle job is already running'
+        : job.lastError || 'Failed to run event lifecycle job'
     );
   }
-}
 
-// Allow GET requests for testing purposes
-export async function GET(request: NextRequest) {
-  return POST(request);
-}
+  return job.result ?? {};
+});
+
+// Vercel Cron sends GET requests
+export const GET = POST;
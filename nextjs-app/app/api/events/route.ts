@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/middleware/auth';
 import { createErrorResponse } from '@/lib/middleware/auth';
 import { getEvents } from '@/lib/services/event.service';
+import { hasAnyRole, hasEventPermission } from '@/lib/constants/roles';
 import type { EventFilter } from '@/lib/types';
 import { Timestamp } from 'firebase-admin/firestore';
 
@@ -74,14 +75,19 @@ export async function GET(request: NextRequest) {
       });
     }
     
-    // If user is not admin, filter to show only active events (status = 'active')
-    if (!authResult.user?.isAdmin) {
-      events = events.filter(event => event.status === 'active');
+    // If user has no admin role, filter to show only active events and upcoming events open for RSVP
+    const isAdmin = hasAnyRole(authResult.user);
+    if (!isAdmin) {
+      events = events.filter(event => event.status === 'active' || event.status === 'upcoming');
     }
     
     // Convert Timestamps to ISO strings for JSON serialization
-    const serializedEvents = events.map(event => ({
+    // (only those who run an event's check-in see its attendance code)
+    const serializedEvents = events.map((event) => ({
       ...event,
+      attendanceCode: hasEventPermission(authResult.user, 'events:check-in', event)
+        ? event.attendanceCode
+        : undefined,
       startTime: event.startTime.toDate().toISOString(),
       endTime: event.endTime ? event.endTime.toDate().toISOString() : null,
       createdAt: event.createdAt.toDate().toISOString(),
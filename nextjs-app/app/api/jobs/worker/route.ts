@@ -0,0 +1,31 @@
+import { drainJobs } from '@/lib/jobs/worker';
+import { withCronJob } from '@/lib/middleware/cron';
+
+/**
+ * API route that drains the background job queue
+ * Call it every minute from a cron (e.g. Vercel Cron) or run
+ * `npm run jobs:work` instead. Each call enqueues due recurring jobs
+ * (lifecycle, cleanup) and then runs due jobs until the queue is empty or
+ * the time budget is spent.
+ * 
+ * Requires cron credentials (see lib/middleware/cron). Overlapping calls
+ * are skipped, and each call is recorded in the job history shown on the
+ * admin System page.
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   runId: string;
+ *   skipped: boolean;              // Another drain was still running
+ *   scheduled: number;
+ *   processed: number;
+ *   succeeded: number;
+ *   retried: number;
+ *   deadLettered: number;
+ *   durationMs: number;
+ * }
+ */
+export const POST = withCronJob('jobs.worker', () => drainJobs());
+
+// Vercel Cron sends GET requests
+export const GET = POST;
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getArchive } from '@/lib/services/leaderboard.service';
+
+/**
+ * GET /api/leaderboard/archives/[id]
+ * Get the frozen final standings of an archived season
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: {
+ *     id: string;
+ *     scope: 'semester' | 'academic-year' | 'major-league';
+ *     key: string;
+ *     label: string;
+ *     start: string (ISO date);
+ *     end: string (ISO date);
+ *     archivedAt: string (ISO date);
+ *     standings: LeaderboardEntry[];  // photoURL is always null
+ *   };
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const archive = await getArchive(id);
+    
+    if (!archive) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Archive not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: archive.id,
+        scope: archive.scope,
+        key: archive.key,
+        label: archive.label,
+        start: archive.start.toDate().toISOString(),
+        end: archive.end.toDate().toISOString(),
+        archivedAt: archive.archivedAt.toDate().toISOString(),
+        standings: archive.standings,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error getting leaderboard archive:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'GET_ARCHIVE_ERROR',
+          message: error.message || 'Failed to get leaderboard archive',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getArchives } from '@/lib/services/leaderboard.service';
+
+/**
+ * GET /api/leaderboard/archives
+ * List archived seasons with frozen final standings, newest first
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: Array<{
+ *     id: string;
+ *     scope: 'semester' | 'academic-year' | 'major-league';
+ *     key: string;
+ *     label: string;
+ *     start: string (ISO date);
+ *     end: string (ISO date);
+ *     archivedAt: string (ISO date);
+ *   }>;
+ * }
+ */
+export async function GET() {
+  try {
+    const archives = await getArchives();
+    
+    return NextResponse.json({
+      success: true,
+      data: archives.map((archive) => ({
+        id: archive.id,
+        scope: archive.scope,
+        key: archive.key,
+        label: archive.label,
+        start: archive.start.toDate().toISOString(),
+        end: archive.end.toDate().toISOString(),
+        archivedAt: archive.archivedAt.toDate().toISOString(),
+      })),
+    });
+  } catch (error: any) {
+    console.error('Error getting leaderboard archives:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'GET_ARCHIVES_ERROR',
+          message: error.message || 'Failed to get leaderboard archives',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,92 +1,193 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAdminFirestore, getAdminStorage } from '@/lib/firebase/admin';
+import { requireAuth, createErrorResponse } from '@/lib/middleware/auth';
+import {
+  getLifetimeStandings,
+  getScopedStandings,
+  getSeasonStandings,
+  resolveLeaderboardWindow,
+  MAX_LEADERBOARD_PAGE_SIZE,
+  MAX_SEASON_LOOKBACK_YEARS,
+  type LeaderboardPage,
+} from '@/lib/services/leaderboard.service';
+import type { LeaderboardScope, LeaderboardWindow } from '@/lib/types';
+import type { MonthKey } from '@/lib/major-league';
+
+/**
+ * Standings change at most every few seconds; let the CDN absorb landing page traffic
+ */
+const CACHE_HEADERS = {
+  'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+};
+
+/**
+ * Custom ranges are per-member requests and must not be shared by the CDN
+ */
+const PRIVATE_CACHE_HEADERS = {
+  'Cache-Control': 'private, no-store',
+};
+
+const LEADERBOARD_SCOPES: LeaderboardScope[] = ['lifetime', 'semester', 'academic-year', 'major-league', 'custom'];
 
 /**
  * GET /api/leaderboard
- * Get top users by points
+ * Get top users by points, overall or within a time range
  * 
  * Query parameters:
- * - limit: number (optional, default: 3, max: 10)
+ * - limit: number (optional, default: 3, max: 50)
+ * - offset: number (optional, default: 0) - entries to skip for pagination
+ * - scope: 'lifetime' | 'semester' | 'academic-year' | 'major-league' | 'custom' (optional, default: lifetime)
+ * - date: string (ISO date, optional) - semester/academic year containing this date (default: now);
+ *   future dates mean now, and dates over MAX_SEASON_LOOKBACK_YEARS ago are rejected
+ * - month: string (optional) - Major League month, e.g. "January" (default: current or latest)
+ * - start, end: string (ISO dates, required for custom) - end is exclusive,
+ *   at most 366 days apart
+ * 
+ * Scoped leaderboards count points earned within the range, from attendance
+ * and point adjustments. Custom ranges require a signed-in member.
  * 
  * Response:
  * {
  *   success: true;
  *   data: Array<{
  *     id: string;
+ *     rank: number;
  *     firstName: string;
  *     lastName: string;
  *     photoURL?: string;
  *     points: number;
  *     attendedEvents: number;
+ *     badges: string[];   // Earned badge IDs, in award order
  *   }>;
+ *   scope: { scope, key, label, start, end } | null;  // null for lifetime
+ *   pagination: { offset: number; limit: number; total: number; hasMore: boolean };
  * }
+ * 
+ * Lifetime and season standings are served from materialized leaderboards
+ * and responses are cacheable for a minute.
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const limitParam = searchParams.get('limit');
+    const offsetParam = searchParams.get('offset');
+    const scope = (searchParams.get('scope') || 'lifetime') as LeaderboardScope;
     
-    // Parse and validate limit (default: 3, max: 10)
+    // Parse and validate limit (default: 3, max: 50)
     let limit = 3;
     if (limitParam) {
       const parsedLimit = parseInt(limitParam, 10);
       if (!isNaN(parsedLimit) && parsedLimit > 0) {
-        limit = Math.min(parsedLimit, 10);
+        limit = Math.min(parsedLimit, MAX_LEADERBOARD_PAGE_SIZE);
       }
     }
     
-    const db = getAdminFirestore();
-    const storage = getAdminStorage();
+    // Parse and validate offset (default: 0)
+    let offset = 0;
+    if (offsetParam) {
+      const parsedOffset = parseInt(offsetParam, 10);
+      if (!isNaN(parsedOffset) && parsedOffset > 0) {
+        offset = parsedOffset;
+      }
+    }
+    
+    const pagination = (page: LeaderboardPage) => ({
+      offset,
+      limit,
+      total: page.total,
+      hasMore: offset + page.entries.length < page.total,
+    });
+    
+    if (!LEADERBOARD_SCOPES.includes(scope)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Invalid scope: must be one of ${LEADERBOARD_SCOPES.join(', ')}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (scope === 'lifetime') {
+      const page = await getLifetimeStandings(offset, limit);
+      
+      return NextResponse.json(
+        {
+          success: true,
+          data: page.entries,
+          scope: null,
+          pagination: pagination(page),
+        },
+        { headers: CACHE_HEADERS }
+      );
+    }
     
-    // Query all users who have completed onboarding
-    const snapshot = await db.collection('users')
-      .where('hasCompletedOnboarding', '==', true)
-      .get();
+    if (scope === 'custom') {
+      const authResult = await requireAuth(request);
+      
+      if (!authResult.success) {
+        return createErrorResponse(authResult);
+      }
+    }
     
-    // Get all users and sort by points in memory
-    const allUsersPromises = snapshot.docs.map(async (doc) => {
-      const data = doc.data();
+    let window: LeaderboardWindow;
+    try {
+      const dateParam = searchParams.get('date');
+      const startParam = searchParams.get('start');
+      const endParam = searchParams.get('end');
       
-      // Prioritize uploaded profile picture over Google photo
-      let photoURL = data.photoURL || null;
+      // Only seasons up to now and within the lookback are materialized
+      let date = dateParam ? new Date(dateParam) : undefined;
+      if (date && date.getTime() > Date.now()) {
+        date = new Date();
+      }
       
-      // If user uploaded a profile picture during onboarding, use that instead
-      if (data.profilePictureId) {
-        try {
-          const bucket = storage.bucket();
-          const file = bucket.file(data.profilePictureId);
-          const [url] = await file.getSignedUrl({
-            action: 'read',
-            expires: Date.now() + 7 * 24 * 60 * 60 * 1000, // 7 days
-          });
-          photoURL = url;
-        } catch (error) {
-          console.error('Error getting profile picture URL:', error);
-          // Fall back to Google photo if storage fetch fails
-        }
+      const earliest = new Date();
+      earliest.setFullYear(earliest.getFullYear() - MAX_SEASON_LOOKBACK_YEARS);
+      if (date && date < earliest) {
+        throw new Error(`Date cannot be more than ${MAX_SEASON_LOOKBACK_YEARS} years ago`);
       }
       
-      return {
-        id: doc.id,
-        firstName: data.firstName || 'Anonymous',
-        lastName: data.lastName || '',
-        photoURL,
-        points: data.points || 0,
-        attendedEvents: data.attendedEvents?.length || 0,
-      };
-    });
-    
-    const allUsers = await Promise.all(allUsersPromises);
+      window = resolveLeaderboardWindow(scope, {
+        date,
+        month: (searchParams.get('month') || undefined) as MonthKey | undefined,
+        start: startParam ? new Date(startParam) : undefined,
+        end: endParam ? new Date(endParam) : undefined,
+      });
+      
+      if (isNaN(window.start.getTime())) {
+        throw new Error('Invalid date');
+      }
+    } catch (error: any) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+          },
+        },
+        { status: 400 }
+      );
+    }
     
-    // Sort by points (descending) and take top N
-    const leaderboard = allUsers
-      .sort((a, b) => b.points - a.points)
-      .slice(0, limit);
+    const page = scope === 'custom'
+      ? await getScopedStandings(window, { offset, limit })
+      : await getSeasonStandings(window, offset, limit);
     
-    return NextResponse.json({
-      success: true,
-      data: leaderboard,
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        data: page.entries,
+        scope: {
+          ...window,
+          start: window.start.toISOString(),
+          end: window.end.toISOString(),
+        },
+        pagination: pagination(page),
+      },
+      { headers: scope === 'custom' ? PRIVATE_CACHE_HEADERS : CACHE_HEADERS }
+    );
   } catch (error: any) {
     console.error('Error getting leaderboard:', error);
     
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOnboarded, createErrorResponse } from '@/lib/middleware/auth';
+import {
+  getOrCreateCalendarFeedToken,
+  resetCalendarFeedToken,
+} from '@/lib/services/calendarFeed.service';
+
+/**
+ * Build the feed URLs for a private feed token
+ */
+function toFeedUrls(request: NextRequest, token: string) {
+  const siteUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+  const url = new URL(`/api/calendar.ics?token=${token}`, siteUrl).toString();
+  
+  return {
+    url,
+    webcalUrl: url.replace(/^https?:/, 'webcal:'),
+  };
+}
+
+/**
+ * GET /api/user/calendar-feed
+ * Get the current user's private calendar feed URL, creating it on first use
+ * (onboarded users only)
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: {
+ *     url: string;        // https:// subscription URL
+ *     webcalUrl: string;  // webcal:// URL that opens the calendar app
+ *   };
+ * }
+ */
+export async function GET(request: NextRequest) {
+  // Verify user is onboarded (TTU verified)
+  const authResult = await requireOnboarded(request);
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+
+  try {
+    const token = await getOrCreateCalendarFeedToken(authResult.userId!);
+    
+    return NextResponse.json(
+      {
+        success: true,
+        data: toFeedUrls(request, token),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error: any) {
+    console.error('Error getting calendar feed:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'CALENDAR_FEED_ERROR',
+          message: error.message || 'Failed to get calendar feed',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/user/calendar-feed
+ * Reset the current user's private calendar feed URL; the old URL stops working
+ * (onboarded users only)
+ * 
+ * Response: same as GET
+ */
+export async function POST(request: NextRequest) {
+  // Verify user is onboarded (TTU verified)
+  const authResult = await requireOnboarded(request);
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+
+  try {
+    const token = await resetCalendarFeedToken(authResult.userId!);
+    
+    return NextResponse.json(
+      {
+        success: true,
+        data: toFeedUrls(request, token),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error: any) {
+    console.error('Error resetting calendar feed:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'CALENDAR_FEED_ERROR',
+          message: error.message || 'Failed to reset calendar feed',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
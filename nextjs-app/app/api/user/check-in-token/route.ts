@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOnboarded, createErrorResponse } from '@/lib/middleware/auth';
+import { issueCheckInToken } from '@/lib/services/checkIn.service';
+
+/**
+ * GET /api/user/check-in-token
+ * Issue a short-lived signed check-in token for the current user's QR badge
+ * (onboarded users only)
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: {
+ *     token: string;
+ *     expiresAt: string (ISO date);
+ *   };
+ * }
+ */
+export async function GET(request: NextRequest) {
+  // Verify user is onboarded (TTU verified)
+  const authResult = await requireOnboarded(request);
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+
+  try {
+    const checkInToken = issueCheckInToken(authResult.userId!);
+    
+    return NextResponse.json(
+      {
+        success: true,
+        data: checkInToken,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error: any) {
+    console.error('Error issuing check-in token:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'CHECK_IN_TOKEN_ERROR',
+          message: error.message || 'Failed to issue check-in token',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createErrorResponse } from '@/lib/middleware/auth';
+import { getLedgerEntries } from '@/lib/services/pointsLedger.service';
+
+/**
+ * GET /api/user/points-ledger
+ * Get the current user's points ledger, newest first
+ * 
+ * Response:
+ * {
+ *   success: true;
+ *   data: PointsLedgerEntry[]; (createdAt as ISO string)
+ * }
+ */
+export async function GET(request: NextRequest) {
+  // Verify authentication
+  const authResult = await requireAuth(request);
+  
+  if (!authResult.success) {
+    return createErrorResponse(authResult);
+  }
+
+  try {
+    const entries = await getLedgerEntries(authResult.userId!);
+    
+    return NextResponse.json({
+      success: true,
+      data: entries.map((entry) => ({
+        ...entry,
+        createdAt: entry.createdAt.toDate().toISOString(),
+      })),
+    });
+  } catch (error: any) {
+    console.error('Error getting points ledger:', error);
+    
+    return NextResponse.json(
+      {
+        error: {
+          code: 'GET_POINTS_LEDGER_ERROR',
+          message: error.message || 'Failed to get points ledger',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
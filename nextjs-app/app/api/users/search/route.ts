@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/middleware/auth';
+import { requirePermission } from '@/lib/middleware/auth';
 import { createErrorResponse } from '@/lib/middleware/auth';
 import { searchUsers } from '@/lib/services/user.service';
 
 /**
  * GET /api/users/search
- * Search users by name or email (admin only)
+ * Search users by name or email (requires users:view)
  * 
  * Query parameters:
  * - q: string (required) - Search query
@@ -17,8 +17,8 @@ import { searchUsers } from '@/lib/services/user.service';
  * }
  */
 export async function GET(request: NextRequest) {
-  // Verify admin authentication
-  const authResult = await requireAdmin(request);
+  // Verify the caller holds users:view
+  const authResult = await requirePermission(request, 'users:view');
   
   if (!authResult.success) {
     return createErrorResponse(authResult);
@@ -1,29 +1,73 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sendVerificationCode } from '@/lib/services/ttuEmailVerification';
+import { runJobNow } from '@/lib/jobs/worker';
+import { verifyAuth, getClientIp } from '@/lib/middleware/auth';
+import { isSchoolEmail } from '@/lib/chapter';
+import { ERROR_MESSAGES } from '@/lib/constants/errorMessages';
 
 export async function POST(request: NextRequest) {
   try {
-    const { ttuEmail, uid } = await request.json();
+    // The code is always sent for the signed-in user
+    const authResult = await verifyAuth(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { error: authResult.error?.message || 'Authentication required' },
+        { status: authResult.error?.status || 401 }
+      );
+    }
+
+    const { ttuEmail } = await request.json();
 
-    if (!ttuEmail || !uid) {
+    if (!ttuEmail || typeof ttuEmail !== 'string') {
       return NextResponse.json(
-        { error: 'TTU email and UID are required' },
+        { error: 'TTU email is required' },
         { status: 400 }
       );
     }
 
-    // Validate TTU email format
-    if (!ttuEmail.endsWith('@ttu.edu')) {
+    // Validate the whole address and its school domain
+    if (!isSchoolEmail(ttuEmail)) {
       return NextResponse.json(
-        { error: 'Email must be a valid TTU email address (@ttu.edu)' },
+        { error: ERROR_MESSAGES.TTU_EMAIL_INVALID },
         { status: 400 }
       );
     }
 
-    // Send verification code (no expiration timer needed)
-    await sendVerificationCode(ttuEmail, uid);
+    const result = await sendVerificationCode(ttuEmail, authResult.userId, {
+      ip: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    const retryAfterSeconds = Math.max(Math.ceil((result.retryAfterMs ?? 0) / 1000), 1);
+
+    if (!result.sent) {
+      const messages = {
+        cooldown: `Please wait ${retryAfterSeconds} seconds before requesting another code.`,
+        daily_limit: 'You have requested too many verification codes today. Please try again tomorrow.',
+        locked_out: `Too many failed attempts. Please wait ${Math.ceil(retryAfterSeconds / 60)} minute(s) before trying again.`,
+      };
 
-    return NextResponse.json({ success: true });
+      return NextResponse.json(
+        {
+          error: messages[result.reason ?? 'cooldown'],
+          reason: result.reason,
+          retryAfterSeconds,
+        },
+        {
+          status: 429,
+          headers: { 'Retry-After': retryAfterSeconds.toString() },
+        }
+      );
+    }
+
+    // Make the first delivery attempt now; if it fails the job queue retries it
+    const job = result.jobId ? await runJobNow(result.jobId) : null;
+
+    return NextResponse.json({
+      success: true,
+      queued: job ? job.status !== 'succeeded' : false,
+      retryAfterSeconds,
+    });
   } catch (error: any) {
     console.error('Error sending verification code:', error);
     console.error('Error details:', {
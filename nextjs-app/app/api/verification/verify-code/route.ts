@@ -1,70 +1,71 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { 
-  verifyCode, 
-  incrementAttempts, 
-  applyRateLimit,
-  isRateLimited
-} from '@/lib/services/ttuEmailVerification';
+import { verifyCode } from '@/lib/services/ttuEmailVerification';
+import { verifyAuth, getClientIp } from '@/lib/middleware/auth';
+import { ERROR_MESSAGES } from '@/lib/constants/errorMessages';
 
 export async function POST(request: NextRequest) {
   try {
-    const { uid, code } = await request.json();
-
-    if (!uid || !code) {
+    // Codes are only checked for the signed-in user
+    const authResult = await verifyAuth(request);
+    if (!authResult.success || !authResult.userId) {
       return NextResponse.json(
-        { error: 'UID and code are required' },
-        { status: 400 }
+        { error: authResult.error?.message || 'Authentication required' },
+        { status: authResult.error?.status || 401 }
       );
     }
 
-    // Check if user is rate limited
-    const rateLimited = await isRateLimited(uid);
-    if (rateLimited) {
+    const { code } = await request.json();
+
+    if (!code || typeof code !== 'string') {
       return NextResponse.json(
-        { 
-          error: 'Too many failed attempts. Please wait a few minutes before trying again.',
-          rateLimited: true,
-          remainingAttempts: 0
-        },
-        { status: 429 }
+        { error: 'Code is required' },
+        { status: 400 }
       );
     }
 
-    // Verify the code
-    const isValid = await verifyCode(uid, code);
+    const result = await verifyCode(authResult.userId, code, {
+      ip: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
 
-    if (isValid) {
+    if (result.verified) {
       return NextResponse.json({ 
         success: true, 
         verified: true 
       });
-    } else {
-      // Increment attempts
-      const attempts = await incrementAttempts(uid);
-      const remainingAttempts = 3 - attempts;
+    }
 
-      // If max attempts reached, apply rate limit
-      if (attempts >= 3) {
-        await applyRateLimit(uid);
-        return NextResponse.json(
-          { 
-            error: 'Maximum verification attempts exceeded. Please wait 5 minutes before trying again.',
-            rateLimited: true,
-            remainingAttempts: 0
-          },
-          { status: 429 }
-        );
-      }
+    if (result.reason === 'locked_out') {
+      const retryAfterSeconds = Math.max(Math.ceil((result.retryAfterMs ?? 0) / 1000), 1);
 
       return NextResponse.json(
         { 
-          error: 'Invalid verification code. Please try again.',
-          verified: false,
-          remainingAttempts
+          error: ERROR_MESSAGES.MAX_ATTEMPTS_EXCEEDED,
+          rateLimited: true,
+          remainingAttempts: 0,
+          retryAfterSeconds
         },
-        { status: 400 }
+        {
+          status: 429,
+          headers: { 'Retry-After': retryAfterSeconds.toString() },
+        }
       );
     }
+
+    const messages = {
+      invalid: ERROR_MESSAGES.VERIFICATION_CODE_INVALID,
+      expired: ERROR_MESSAGES.VERIFICATION_CODE_EXPIRED,
+      not_found: 'Verification code not found. Please request a new code.',
+    };
+
+    return NextResponse.json(
+      { 
+        error: messages[result.reason ?? 'invalid'],
+        verified: false,
+        remainingAttempts: result.remainingAttempts
+      },
+      { status: 400 }
+    );
   } catch (error: any) {
     console.error('Error verifying code:', error);
     return NextResponse.json(
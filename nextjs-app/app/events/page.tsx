@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
@@ -10,6 +10,7 @@ import { LoadingScreen } from '@/components/LoadingScreen';
 import { EventCard } from '@/components/EventCard';
 import { useToast } from '@/hooks/useToastCompat';
 import type { Event } from '@/lib/types';
+import { CHAPTER } from '@/lib/chapter';
 
 /**
  * Events Page for Regular Users
@@ -18,6 +19,7 @@ import type { Event } from '@/lib/types';
  * - Displays ongoing events (between start and end time)
  * - Real-time updates using Firestore listeners
  * - Attendance code submission
+ * - Upcoming events with RSVP and waitlist
  * - User points and attendance history display
  * - Redirects non-onboarded users to onboarding
  */
@@ -27,6 +29,7 @@ export default function EventsPage() {
   const toast = useToast();
   
   const [events, setEvents] = useState<Event[]>([]);
+  const [upcomingEvents, setUpcomingEvents] = useState<Event[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -47,72 +50,94 @@ export default function EventsPage() {
     }
   }, [user, authLoading, router]);
 
-  // Fetch ongoing events using API route with polling
-  useEffect(() => {
-    if (!user || !user.ttuEmailVerified) {
+  // Fetch ongoing and upcoming events using API route with polling
+  const fetchEvents = useCallback(async () => {
+    if (!user) {
       return;
     }
 
-    setLoading(true);
-    setError(null);
-
-    const fetchEvents = async () => {
-      try {
-        console.log('Fetching events for user:', user.uid);
-        
-        // Get the current user's ID token
-        const { auth } = await import('@/lib/firebase/config');
-        const currentUser = auth.currentUser;
-        
-        if (!currentUser) {
-          throw new Error('User not authenticated');
-        }
-        
-        const idToken = await currentUser.getIdToken();
-        
-        const response = await fetch('/api/events?ongoing=true', {
+    try {
+      console.log('Fetching events for user:', user.uid);
+      
+      // Get the current user's ID token
+      const { auth } = await import('@/lib/firebase/config');
+      const currentUser = auth.currentUser;
+      
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+      
+      const idToken = await currentUser.getIdToken();
+      
+      const [ongoingResponse, upcomingResponse] = await Promise.all([
+        fetch('/api/events?ongoing=true', {
+          headers: {
+            'Authorization': `Bearer ${idToken}`,
+          },
+        }),
+        fetch('/api/events?status=upcoming', {
           headers: {
             'Authorization': `Bearer ${idToken}`,
           },
-        });
-        
+        }),
+      ]);
+      
+      for (const response of [ongoingResponse, upcomingResponse]) {
         if (!response.ok) {
           const errorData = await response.json();
           throw new Error(errorData.error?.message || 'Failed to fetch events');
         }
-        
-        const data = await response.json();
-        console.log('Events fetched:', data.data.length);
-        
-        // Convert ISO strings back to Firestore Timestamps
-        const fetchedEvents: Event[] = data.data.map((event: any) => ({
-          ...event,
-          startTime: {
-            toDate: () => new Date(event.startTime),
-            toMillis: () => new Date(event.startTime).getTime(),
-          } as any,
-          endTime: event.endTime ? {
-            toDate: () => new Date(event.endTime),
-            toMillis: () => new Date(event.endTime).getTime(),
-          } as any : null,
-          createdAt: {
-            toDate: () => new Date(event.createdAt),
-            toMillis: () => new Date(event.createdAt).getTime(),
-          } as any,
-          updatedAt: {
-            toDate: () => new Date(event.updatedAt),
-            toMillis: () => new Date(event.updatedAt).getTime(),
-          } as any,
-        }));
-        
-        setEvents(fetchedEvents);
-        setLoading(false);
-      } catch (err: any) {
-        console.error('Error fetching events:', err);
-        setError(err.message || 'Failed to load events. Please try again.');
-        setLoading(false);
       }
-    };
+      
+      const data = await ongoingResponse.json();
+      const upcomingData = await upcomingResponse.json();
+      console.log('Events fetched:', data.data.length, 'upcoming:', upcomingData.data.length);
+      
+      // Convert ISO strings back to Firestore Timestamps
+      const toEvent = (event: any): Event => ({
+        ...event,
+        startTime: {
+          toDate: () => new Date(event.startTime),
+          toMillis: () => new Date(event.startTime).getTime(),
+        } as any,
+        endTime: event.endTime ? {
+          toDate: () => new Date(event.endTime),
+          toMillis: () => new Date(event.endTime).getTime(),
+        } as any : null,
+        createdAt: {
+          toDate: () => new Date(event.createdAt),
+          toMillis: () => new Date(event.createdAt).getTime(),
+        } as any,
+        updatedAt: {
+          toDate: () => new Date(event.updatedAt),
+          toMillis: () => new Date(event.updatedAt).getTime(),
+        } as any,
+      });
+      
+      // Upcoming events that already started show up as ongoing once active
+      const now = Date.now();
+      setEvents(data.data.map(toEvent));
+      setUpcomingEvents(
+        upcomingData.data
+          .map(toEvent)
+          .filter((event: Event) => event.startTime.toMillis() > now)
+          .sort((a: Event, b: Event) => a.startTime.toMillis() - b.startTime.toMillis())
+      );
+      setLoading(false);
+    } catch (err: any) {
+      console.error('Error fetching events:', err);
+      setError(err.message || 'Failed to load events. Please try again.');
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || !user.ttuEmailVerified) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
 
     // Initial fetch
     fetchEvents();
@@ -121,7 +146,7 @@ export default function EventsPage() {
     const pollInterval = setInterval(fetchEvents, 10000);
     
     return () => clearInterval(pollInterval);
-  }, [user]);
+  }, [user, fetchEvents]);
 
   // Handle attendance code submission
   const handleSubmitCode = async (code: string) => {
@@ -152,6 +177,63 @@ export default function EventsPage() {
     }
   };
 
+  // Send an RSVP request for an event
+  const sendRsvp = async (eventId: string, method: 'POST' | 'DELETE') => {
+    const { auth } = await import('@/lib/firebase/config');
+    const currentUser = auth.currentUser;
+    
+    if (!currentUser) {
+      throw new Error('User not authenticated');
+    }
+    
+    const idToken = await currentUser.getIdToken();
+    
+    const response = await fetch(`/api/events/${eventId}/rsvp`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${idToken}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to update RSVP');
+    }
+
+    return data.data;
+  };
+
+  // Handle RSVP to an upcoming event
+  const handleRsvp = async (eventId: string) => {
+    try {
+      const result = await sendRsvp(eventId, 'POST');
+      
+      if (result.status === 'waitlisted') {
+        toast.showSuccess(`Event is full. You're #${result.position} on the waitlist.`);
+      } else {
+        toast.showSuccess("You're going! See you there.");
+      }
+      
+      await fetchEvents();
+    } catch (error: any) {
+      console.error('Error creating RSVP:', error);
+      toast.showError(error.message || 'Failed to RSVP');
+    }
+  };
+
+  // Handle cancelling an RSVP or leaving the waitlist
+  const handleCancelRsvp = async (eventId: string) => {
+    try {
+      await sendRsvp(eventId, 'DELETE');
+      toast.showSuccess('Your RSVP has been cancelled');
+      await fetchEvents();
+    } catch (error: any) {
+      console.error('Error cancelling RSVP:', error);
+      toast.showError(error.message || 'Failed to cancel RSVP');
+    }
+  };
+
   // Check if user has attended an event
   const hasUserAttended = (event: Event): boolean => {
     return event.attendees.includes(user?.uid || '');
@@ -175,7 +257,7 @@ export default function EventsPage() {
               <Link href="/" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
                 <img src="https://static.mlh.io/brand-assets/logo/official/mlh-logo-color.png" alt="MLH Logo" className="h-6 w-auto" />
                 <div className="h-7 w-px bg-gray-400"></div>
-                <img src="https://www.ttu.edu/traditions/images/DoubleT.gif" alt="TTU Logo" className="h-6 w-auto" />
+                <img src={CHAPTER.branding.logoUrl} alt={`${CHAPTER.school.abbreviation} Logo`} className="h-6 w-auto" />
               </Link>
               <div className="flex items-center gap-4">
                 <Link href="/profile">
@@ -250,6 +332,28 @@ export default function EventsPage() {
           </div>
         )}
 
+        {/* Upcoming Events Section */}
+        {upcomingEvents.length > 0 && (
+          <div className="mt-12">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+              Upcoming Events
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {upcomingEvents.map((event) => (
+                <EventCard
+                  key={event.id}
+                  event={event}
+                  isAdmin={false}
+                  userAttended={hasUserAttended(event)}
+                  currentUserId={user.uid}
+                  onRsvp={() => handleRsvp(event.id)}
+                  onCancelRsvp={() => handleCancelRsvp(event.id)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Attendance History Section */}
         {user.attendedEvents && user.attendedEvents.length > 0 && (
           <div className="mt-12">
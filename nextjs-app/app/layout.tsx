@@ -6,10 +6,11 @@ import { AuthProvider } from "@/contexts/AuthContext";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { ThemeProvider } from "@/contexts/ThemeContext";
 import { Toaster } from "@/components/ui/toaster";
+import { CHAPTER } from "@/lib/chapter";
 
 export const metadata: Metadata = {
-  title: "MLH TTU Chapter",
-  description: "Major League Hacking at Texas Tech University",
+  title: CHAPTER.fullName,
+  description: `Major League Hacking at ${CHAPTER.school.name}`,
   icons: {
     icon: '/mlh-logo.png',
     shortcut: '/mlh-logo.png',
@@ -10,6 +10,25 @@ import { ThemeToggle } from '@/components/ThemeToggle';
 import { Button } from '@/components/ui/Button';
 import { LoadingScreen } from '@/components/LoadingScreen';
 import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants/errorMessages';
+import { CHAPTER } from '@/lib/chapter';
+
+/**
+ * Resolve a redirect target to a same-origin path, or null if it leaves the site
+ * Parsed the way the browser would, so tricks like "/\evil.com" (read as
+ * "//evil.com") are caught.
+ */
+function getSafeRedirect(redirectTo: string | null): string | null {
+  if (!redirectTo || !redirectTo.startsWith('/')) {
+    return null;
+  }
+
+  try {
+    const url = new URL(redirectTo, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : null;
+  } catch {
+    return null;
+  }
+}
 
 export default function LoginPage() {
   const { user, loading, signInWithGoogle } = useAuth();
@@ -19,12 +38,13 @@ export default function LoginPage() {
   const prefersReducedMotion = useReducedMotion();
 
   // Redirect authenticated users after login
+  // Onboarded users return to the page that sent them here (same-origin paths only)
   useEffect(() => {
     if (user && !loading) {
       if (!user.hasCompletedOnboarding) {
         router.push('/onboarding');
       } else {
-        router.push('/profile');
+        router.push(getSafeRedirect(new URLSearchParams(window.location.search).get('redirect')) ?? '/profile');
       }
     }
   }, [user, loading, router]);
@@ -64,8 +84,8 @@ export default function LoginPage() {
               />
               <div className="h-8 w-px bg-gray-400"></div>
               <img 
-                src="https://www.ttu.edu/traditions/images/DoubleT.gif" 
-                alt="TTU Logo" 
+                src={CHAPTER.branding.logoUrl} 
+                alt={`${CHAPTER.school.abbreviation} Logo`} 
                 className="h-7 w-auto"
               />
             </Link>
@@ -102,7 +122,7 @@ export default function LoginPage() {
                 Welcome Back
               </h1>
               <p className="text-gray-600 dark:text-gray-300 text-base">
-                Sign in to access your MLH TTU account
+                Sign in to access your {CHAPTER.name} account
               </p>
             </div>
 
@@ -158,7 +178,7 @@ export default function LoginPage() {
                 </div>
                 <div className="relative flex justify-center text-sm">
                   <span className="px-4 bg-white dark:bg-gray-800 text-gray-500 dark:text-gray-400">
-                    New to MLH TTU?
+                    New to {CHAPTER.name}?
                   </span>
                 </div>
               </div>
@@ -197,10 +217,10 @@ export default function LoginPage() {
             <p className="text-gray-600 dark:text-gray-400 text-sm">
               Need help? Contact us at{' '}
               <a 
-                href="mailto:mlh@ttu.edu" 
+                href={`mailto:${CHAPTER.contactEmail}`} 
                 className="text-red-600 dark:text-red-400 hover:underline font-medium"
               >
-                mlh@ttu.edu
+                {CHAPTER.contactEmail}
               </a>
             </p>
           </div>
@@ -5,6 +5,7 @@ import React, { useMemo, useState } from "react";
 import Link from "next/link";
 import { getLeagueManager } from "@/lib/major-league";
 import type { MonthKey, MonthHackathonData } from "@/lib/major-league";
+import { CHAPTER } from "@/lib/chapter";
 
 function cx(...xs: Array<string | false | null | undefined>) {
   return xs.filter(Boolean).join(" ");
@@ -331,7 +332,7 @@ export default function MajorLeaguePage() {
       {/* Footer */}
       <footer className="relative border-t border-gray-200 dark:border-gray-800 py-8">
         <div className="mx-auto max-w-7xl px-6 text-center text-sm text-gray-600 dark:text-gray-400">
-          <p>© {new Date().getFullYear()} Major League Hacking • MLH TTU Chapter</p>
+          <p>© {new Date().getFullYear()} Major League Hacking • {CHAPTER.fullName}</p>
           <p className="mt-2">Built for fast shipping, like a hackathon should be 🚀</p>
         </div>
       </footer>
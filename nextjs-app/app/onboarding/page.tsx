@@ -15,6 +15,7 @@ import SocialLinksStep, { SocialLinksData } from '@/components/onboarding/Social
 import FileUploadsStep, { FileUploadsData } from '@/components/onboarding/FileUploadsStep';
 import TTUEmailStep, { TTUEmailData } from '@/components/onboarding/TTUEmailStep';
 import VerificationCodeStep, { VerificationCodeData } from '@/components/onboarding/VerificationCodeStep';
+import { CHAPTER } from '@/lib/chapter';
 
 type OnboardingData = ProfileInfoData & SocialLinksData & FileUploadsData & TTUEmailData;
 
@@ -22,7 +23,7 @@ const STEPS = [
   'Profile Info',
   'Social Links',
   'File Uploads',
-  'TTU Email',
+  `${CHAPTER.school.abbreviation} Email`,
   'Verification',
 ] as const;
 
@@ -33,6 +34,7 @@ export default function OnboardingPage() {
   const [currentStep, setCurrentStep] = useState(0);
   const [formData, setFormData] = useState<Partial<OnboardingData>>({});
   const [remainingAttempts, setRemainingAttempts] = useState(3);
+  const [resendAvailableAt, setResendAvailableAt] = useState<number | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [onboardingComplete, setOnboardingComplete] = useState(false);
@@ -104,19 +106,36 @@ export default function OnboardingPage() {
     setError(null);
   };
 
+  const getAuthHeaders = async () => {
+    const { auth } = await import('@/lib/firebase/config');
+    const token = await auth.currentUser?.getIdToken();
+
+    return {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    };
+  };
+
   const sendVerificationCode = async (ttuEmail: string) => {
     try {
       const response = await fetch('/api/verification/send-code', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ttuEmail, uid: user?.uid }),
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ ttuEmail }),
       });
 
+      const data = await response.json();
+
+      // When another code may be requested (after the cooldown, daily cap or lockout)
+      if (data.retryAfterSeconds) {
+        setResendAvailableAt(Date.now() + data.retryAfterSeconds * 1000);
+      }
+
       if (!response.ok) {
-        const data = await response.json();
         throw new Error(data.error || 'Failed to send verification code');
       }
 
+      setRemainingAttempts(3);
       toast.showSuccess(SUCCESS_MESSAGES.VERIFICATION_CODE_SENT);
     } catch (err: any) {
       setError(err.message);
@@ -130,8 +149,8 @@ export default function OnboardingPage() {
     try {
       const response = await fetch('/api/verification/verify-code', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ uid: user.uid, code: data.code }),
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ code: data.code }),
       });
 
       const result = await response.json();
@@ -146,19 +165,12 @@ export default function OnboardingPage() {
           setRemainingAttempts(result.remainingAttempts);
         }
 
-        // If account was deleted, redirect to login
-        if (result.accountDeleted) {
-          if (user) {
-            await refreshUser();
-          }
-          toast.showError(ERROR_MESSAGES.MAX_ATTEMPTS_EXCEEDED);
-          router.push('/login?error=verification_failed');
-          return;
-        }
-
-        // If rate limited, show error
+        // Locked out: the code is discarded and a new one can be requested afterwards
         if (result.rateLimited) {
-          toast.showError('Too many failed attempts. Please wait 5 minutes before trying again.');
+          if (result.retryAfterSeconds) {
+            setResendAvailableAt(Date.now() + result.retryAfterSeconds * 1000);
+          }
+          toast.showError(result.error || ERROR_MESSAGES.MAX_ATTEMPTS_EXCEEDED);
           return;
         }
 
@@ -272,7 +284,7 @@ export default function OnboardingPage() {
               <Link href="/" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
                 <img src="https://static.mlh.io/brand-assets/logo/official/mlh-logo-color.png" alt="MLH Logo" className="h-6 w-auto" />
                 <div className="h-7 w-px bg-gray-400"></div>
-                <img src="https://www.ttu.edu/traditions/images/DoubleT.gif" alt="TTU Logo" className="h-6 w-auto" />
+                <img src={CHAPTER.branding.logoUrl} alt={`${CHAPTER.school.abbreviation} Logo`} className="h-6 w-auto" />
               </Link>
               <ThemeToggle />
             </div>
@@ -289,7 +301,7 @@ export default function OnboardingPage() {
             Welcome! Let's Get Started
           </h1>
           <p className="text-lg text-gray-600 dark:text-gray-300 transition-colors duration-200">
-            Complete your profile to join the MLH TTU community
+            Complete your profile to join the {CHAPTER.name} community
           </p>
         </div>
 
@@ -403,6 +415,8 @@ export default function OnboardingPage() {
                   onNext={handleVerificationSubmit}
                   onBack={handleBack}
                   remainingAttempts={remainingAttempts}
+                  onResend={() => sendVerificationCode(formData.ttuEmail!)}
+                  resendAvailableAt={resendAvailableAt}
                 />
               )}
             </>
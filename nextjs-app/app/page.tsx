@@ -6,6 +6,7 @@ import { useReducedMotion } from '@/hooks/useReducedMotion';
 import { LoadingScreen } from '@/components/LoadingScreen';
 import Navigation from '@/components/Navigation';
 import { Leaderboard } from '@/components/Leaderboard';
+import { CHAPTER } from '@/lib/chapter';
 
 export default function LandingPage() {
   const { loading } = useAuth();
@@ -40,7 +41,7 @@ export default function LandingPage() {
             !prefersReducedMotion ? 'animate-on-load animate-hero' : ''
           }`}>
             Build. Hack. Learn<br />
-            <span className="text-gray-900 dark:text-white">at Texas Tech.</span>
+            <span className="text-gray-900 dark:text-white">at {CHAPTER.school.shortName}.</span>
           </h1>
 
           {/* Subtitle */}
@@ -119,7 +120,7 @@ export default function LandingPage() {
               <div className="relative z-10 rounded-2xl overflow-hidden shadow-2xl border-2 border-white/50">
                 <img 
                   src="/team-photo.JPG" 
-                  alt="MLH TTU Chapter Team" 
+                  alt={`${CHAPTER.fullName} Team`} 
                   className="w-full h-auto object-cover"
                 />
                 {/* Subtle overlay with MLH branding hint */}
@@ -147,7 +148,7 @@ export default function LandingPage() {
 
               <div className="space-y-6 text-lg text-gray-700 dark:text-gray-300 leading-relaxed transition-colors duration-200">
                 <p>
-                  At the MLH TTU Chapter, we&apos;re a vibrant community of Texas Tech students passionate about
+                  At the {CHAPTER.fullName}, we&apos;re a vibrant community of {CHAPTER.school.shortName} students passionate about
                   technology, innovation, and collaborative learning. We bring together developers, designers,
                   entrepreneurs, and tech enthusiasts from all backgrounds and skill levels.
                 </p>
@@ -352,8 +353,8 @@ export default function LandingPage() {
               />
               <div className="h-12 w-px bg-gray-600"></div>
               <img 
-                src="https://www.ttu.edu/traditions/images/DoubleT.gif" 
-                alt="TTU Logo" 
+                src={CHAPTER.branding.logoUrl} 
+                alt={`${CHAPTER.school.abbreviation} Logo`} 
                 className="h-10 w-auto"
               />
             </div>
@@ -394,7 +395,7 @@ export default function LandingPage() {
           {/* Copyright */}
           <div className="text-center">
             <p className="text-gray-400 text-sm">
-              © 2025 MLH at TTU - All Rights Reserved
+              © 2025 MLH at {CHAPTER.school.abbreviation} - All Rights Reserved
             </p>
           </div>
         </div>
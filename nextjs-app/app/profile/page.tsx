@@ -9,9 +9,14 @@ import { useReducedMotion } from '@/hooks/useReducedMotion';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { Button } from '@/components/ui/Button';
 import { LoadingScreen } from '@/components/LoadingScreen';
+import { CheckInBadge } from '@/components/CheckInBadge';
+import { CalendarFeedCard } from '@/components/CalendarFeedCard';
+import { ReverificationPrompt } from '@/components/ReverificationPrompt';
+import { BADGE_DEFINITIONS } from '@/lib/badges';
 import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants/errorMessages';
 import { updateUserProfile } from '@/lib/services/userProfile.client';
 import { uploadProfilePicture, uploadResume, getFileUrl } from '@/lib/services/fileUpload';
+import { CHAPTER } from '@/lib/chapter';
 
 export default function ProfilePage() {
   const { user, signOut, loading, refreshUser } = useAuth();
@@ -27,6 +32,7 @@ export default function ProfilePage() {
   const [activeTab, setActiveTab] = useState<'profile' | 'account' | 'activity'>('profile');
   const [hasActiveEvents, setHasActiveEvents] = useState(false);
   const [attendedEvents, setAttendedEvents] = useState<any[]>([]);
+  const [ledgerEntries, setLedgerEntries] = useState<any[]>([]);
   
   const [editFormData, setEditFormData] = useState({
     firstName: '',
@@ -151,6 +157,42 @@ export default function ProfilePage() {
     fetchAttendedEvents();
   }, [user?.attendedEvents, user?.uid]);
 
+  // Fetch points ledger
+  useEffect(() => {
+    const fetchLedger = async () => {
+      if (!user) {
+        setLedgerEntries([]);
+        return;
+      }
+
+      try {
+        const { auth } = await import('@/lib/firebase/config');
+        const currentUser = auth.currentUser;
+        
+        if (!currentUser) return;
+        
+        const idToken = await currentUser.getIdToken();
+        
+        const response = await fetch('/api/user/points-ledger', {
+          headers: {
+            'Authorization': `Bearer ${idToken}`,
+          },
+        });
+        
+        if (response.ok) {
+          const data = await response.json();
+          setLedgerEntries(data.data);
+        } else {
+          console.error('Failed to fetch points ledger:', response.status);
+        }
+      } catch (error) {
+        console.error('Error fetching points ledger:', error);
+      }
+    };
+
+    fetchLedger();
+  }, [user?.points, user?.uid]);
+
   const handleSignOut = async () => {
     await signOut();
     toast.showSuccess(SUCCESS_MESSAGES.SIGN_OUT_SUCCESS);
@@ -267,7 +309,7 @@ export default function ProfilePage() {
               <Link href="/" className="flex items-center space-x-3 hover:opacity-80 transition-opacity">
                 <img src="https://static.mlh.io/brand-assets/logo/official/mlh-logo-color.png" alt="MLH Logo" className="h-6 w-auto" />
                 <div className="h-7 w-px bg-gray-400"></div>
-                <img src="https://www.ttu.edu/traditions/images/DoubleT.gif" alt="TTU Logo" className="h-6 w-auto" />
+                <img src={CHAPTER.branding.logoUrl} alt={`${CHAPTER.school.abbreviation} Logo`} className="h-6 w-auto" />
               </Link>
               <ThemeToggle />
             </div>
@@ -331,6 +373,9 @@ export default function ProfilePage() {
           </div>
         </div>
 
+        {/* Annual student status check */}
+        <ReverificationPrompt />
+
         {/* Tabs */}
         <div className={`mb-6 ${!prefersReducedMotion ? 'animate-on-load animate-fade-in animation-delay-200' : ''}`}>
           <div className="border-b border-gray-200 dark:border-gray-700">
@@ -494,7 +539,7 @@ export default function ProfilePage() {
                       </div>
                       {user.ttuEmail && (
                         <div className="flex justify-between items-center">
-                          <span className="text-sm text-gray-600 dark:text-gray-400">TTU Email</span>
+                          <span className="text-sm text-gray-600 dark:text-gray-400">{CHAPTER.school.abbreviation} Email</span>
                           <span className="text-sm font-medium text-gray-900 dark:text-white truncate max-w-[200px]">{user.ttuEmail}</span>
                         </div>
                       )}
@@ -721,6 +766,45 @@ export default function ProfilePage() {
               </div>
             </div>
 
+            {/* Achievement Badges */}
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">Badges</h2>
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+                {BADGE_DEFINITIONS.map((badge) => {
+                  const awarded = user.badges?.find((item) => item.id === badge.id);
+                  return (
+                    <div
+                      key={badge.id}
+                      title={badge.description}
+                      className={`flex flex-col items-center text-center p-4 rounded-lg border transition-colors ${
+                        awarded
+                          ? 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-300 dark:border-yellow-700'
+                          : 'bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 opacity-50 grayscale'
+                      }`}
+                    >
+                      <span className="text-4xl mb-2">{badge.icon}</span>
+                      <p className="text-sm font-semibold text-gray-900 dark:text-white">{badge.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {awarded
+                          ? `Earned ${awarded.awardedAt.toDate().toLocaleDateString('en-US', {
+                              year: 'numeric',
+                              month: 'short',
+                              day: 'numeric',
+                            })}`
+                          : badge.description}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* QR Check-In Badge (onboarded members only) */}
+            {user.hasCompletedOnboarding && <CheckInBadge />}
+
+            {/* Private calendar feed of RSVP'd events (onboarded members only) */}
+            {user.hasCompletedOnboarding && <CalendarFeedCard />}
+
             {/* Attended Events List */}
             <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
               <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">Attended Events</h2>
@@ -775,6 +859,51 @@ export default function ProfilePage() {
                 </div>
               )}
             </div>
+
+            {/* Points History */}
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">Points History</h2>
+              
+              {ledgerEntries.length === 0 ? (
+                <p className="text-center py-8 text-gray-600 dark:text-gray-400">
+                  No point activity yet.
+                </p>
+              ) : (
+                <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {ledgerEntries.map((entry) => {
+                    const typeLabel: Record<string, string> = {
+                      attendance: 'Event attendance',
+                      manual_adjustment: 'Adjustment',
+                      reversal: 'Reversal',
+                      opening_balance: 'Opening balance',
+                    };
+                    return (
+                      <div key={entry.id} className="flex items-center justify-between py-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-gray-900 dark:text-white truncate">
+                            {entry.description}
+                          </p>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {typeLabel[entry.type] || entry.type} · {new Date(entry.createdAt).toLocaleDateString('en-US', {
+                              year: 'numeric',
+                              month: 'short',
+                              day: 'numeric',
+                            })}
+                          </p>
+                        </div>
+                        <span className={`ml-4 text-lg font-bold ${
+                          entry.points >= 0
+                            ? 'text-green-600 dark:text-green-400'
+                            : 'text-red-600 dark:text-red-400'
+                        }`}>
+                          {entry.points >= 0 ? '+' : ''}{entry.points}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
           </div>
         )}
 
@@ -802,7 +931,7 @@ export default function ProfilePage() {
 
                   {user.ttuEmail && (
                     <div>
-                      <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">TTU Email</label>
+                      <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">{CHAPTER.school.abbreviation} Email</label>
                       <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3 border border-gray-200 dark:border-gray-600">
                         <p className="text-sm text-gray-900 dark:text-white break-all">{user.ttuEmail}</p>
                       </div>
@@ -832,7 +961,7 @@ export default function ProfilePage() {
 
                   {user.ttuEmailVerified !== undefined && (
                     <div>
-                      <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">TTU Email Verification</label>
+                      <label className="block text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">{CHAPTER.school.abbreviation} Email Verification</label>
                       <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3 border border-gray-200 dark:border-gray-600">
                         {user.ttuEmailVerified ? (
                           <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400">
@@ -1,16 +1,20 @@
 'use client';
 
-import { useState } from 'react';
-import { Event } from '@/lib/types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Event, CurrentAttendanceCode, GenerateCodeOptions } from '@/lib/types';
 import { Timestamp } from 'firebase/firestore';
 import { Button } from './ui/Button';
 
+// Rotation periods offered for rotating codes (seconds)
+const ROTATION_OPTIONS = [15, 30, 60, 120];
+
 interface AdminEventControlsProps {
   event: Event;
-  onGenerateCode: () => Promise<void>;
+  onGenerateCode: (options?: GenerateCodeOptions) => Promise<void>;
+  onFetchCurrentCode?: () => Promise<CurrentAttendanceCode>;
   onToggleCode: (active: boolean) => Promise<void>;
-  onEdit: () => void;
-  onDelete: () => void;
+  onEdit?: () => void;           // Omitted when the viewer can't edit this event
+  onDelete?: () => void;         // Omitted when the viewer can't delete events
   onEndEvent?: () => Promise<void>;
 }
 
@@ -20,15 +24,17 @@ interface AdminEventControlsProps {
  * Admin-only controls for event management.
  * Features:
  * - Generate attendance code button (disabled before start time)
+ * - Optional rotating code mode with live code and countdown
  * - Toggle code active/inactive button
  * - End event button (visible after event starts, before it ends)
- * - Edit button (disabled after start time)
- * - Delete button with confirmation
+ * - Edit button (disabled after start time, hidden without edit access)
+ * - Delete button with confirmation (hidden without delete access)
  * - Display current code and status
  */
 export function AdminEventControls({
   event,
   onGenerateCode,
+  onFetchCurrentCode,
   onToggleCode,
   onEdit,
   onDelete,
@@ -39,6 +45,10 @@ export function AdminEventControls({
   const [endingEvent, setEndingEvent] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [codeVisible, setCodeVisible] = useState(false);
+  const [rotatingMode, setRotatingMode] = useState(false);
+  const [rotationSeconds, setRotationSeconds] = useState(30);
+  const [liveCode, setLiveCode] = useState<CurrentAttendanceCode | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
   
   // Convert Firestore Timestamp to Date
   const startDate = event.startTime.toDate();
@@ -46,14 +56,68 @@ export function AdminEventControls({
   const now = new Date();
   const hasStarted = now >= startDate;
   const hasEnded = event.status === 'completed' || event.status === 'cancelled';
-  const hasCode = !!event.attendanceCode;
+  const isRotating = event.codeMode === 'rotating';
+  const hasCode = !!event.attendanceCode || isRotating;
   const canEndEvent = hasStarted && !hasEnded;
+  const showLiveCode = isRotating && event.codeActive && codeVisible && !!onFetchCurrentCode;
+  
+  // Keep the latest fetch callback without refetching on every parent render
+  const fetchCurrentCodeRef = useRef(onFetchCurrentCode);
+  useEffect(() => {
+    fetchCurrentCodeRef.current = onFetchCurrentCode;
+  }, [onFetchCurrentCode]);
+  
+  // Fetch the live rotating code
+  const fetchLiveCode = useCallback(async () => {
+    if (!fetchCurrentCodeRef.current) return;
+    
+    try {
+      setLiveCode(await fetchCurrentCodeRef.current());
+    } catch (error) {
+      console.error('Error fetching current code:', error);
+    }
+  }, []);
+  
+  // Load the live code when it becomes visible
+  useEffect(() => {
+    if (!showLiveCode) {
+      setLiveCode(null);
+      return;
+    }
+    
+    fetchLiveCode();
+  }, [showLiveCode, fetchLiveCode]);
+  
+  // Count down to the next rotation and refetch when the window expires
+  useEffect(() => {
+    if (!showLiveCode || !liveCode) {
+      return;
+    }
+    
+    const tick = () => {
+      const remaining = Math.ceil((new Date(liveCode.expiresAt).getTime() - Date.now()) / 1000);
+      setSecondsLeft(Math.max(remaining, 0));
+      
+      if (remaining <= 0) {
+        fetchLiveCode();
+      }
+    };
+    
+    tick();
+    const countdown = setInterval(tick, 1000);
+    
+    return () => clearInterval(countdown);
+  }, [showLiveCode, liveCode, fetchLiveCode]);
   
   // Handle code generation
   const handleGenerateCode = async () => {
     setGeneratingCode(true);
     try {
-      await onGenerateCode();
+      await onGenerateCode(
+        rotatingMode
+          ? { mode: 'rotating', rotationSeconds }
+          : { mode: 'static' }
+      );
     } catch (error) {
       console.error('Error generating code:', error);
     } finally {
@@ -93,6 +157,8 @@ export function AdminEventControls({
   
   // Handle delete with confirmation
   const handleDelete = () => {
+    if (!onDelete) return;
+    
     if (showDeleteConfirm) {
       onDelete();
       setShowDeleteConfirm(false);
@@ -119,7 +185,11 @@ export function AdminEventControls({
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-3">
                 <span className="text-2xl font-mono font-bold text-gray-900 dark:text-white">
-                  {codeVisible ? event.attendanceCode : '••••••'}
+                  {!codeVisible
+                    ? '••••••'
+                    : isRotating
+                      ? (showLiveCode ? liveCode?.code ?? '······' : '------')
+                      : event.attendanceCode}
                 </span>
                 <button
                   onClick={() => setCodeVisible(!codeVisible)}
@@ -149,6 +219,26 @@ export function AdminEventControls({
               </span>
             </div>
             
+            {/* Rotating code countdown */}
+            {isRotating && (
+              <div>
+                <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+                  <span>Rotating every {event.codeRotationSeconds ?? 30}s</span>
+                  {showLiveCode && liveCode && (
+                    <span>Changes in {secondsLeft}s</span>
+                  )}
+                </div>
+                {showLiveCode && liveCode && (
+                  <div className="h-1.5 w-full bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-red-600 transition-all duration-1000 ease-linear"
+                      style={{ width: `${(secondsLeft / liveCode.rotationSeconds) * 100}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+            
             {/* Toggle button */}
             <Button
               onClick={handleToggleCode}
@@ -176,6 +266,32 @@ export function AdminEventControls({
               No attendance code generated yet.
               {!hasStarted && ' Code can be generated after event starts.'}
             </p>
+            {/* Code mode selection */}
+            <div className="flex items-center justify-between mb-3">
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={rotatingMode}
+                  onChange={(e) => setRotatingMode(e.target.checked)}
+                  className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+                />
+                Rotating code
+              </label>
+              {rotatingMode && (
+                <select
+                  value={rotationSeconds}
+                  onChange={(e) => setRotationSeconds(Number(e.target.value))}
+                  className="text-sm border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  aria-label="Rotation period"
+                >
+                  {ROTATION_OPTIONS.map((seconds) => (
+                    <option key={seconds} value={seconds}>
+                      Every {seconds}s
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
             <Button
               onClick={handleGenerateCode}
               disabled={!hasStarted || generatingCode}
@@ -236,35 +352,41 @@ export function AdminEventControls({
       )}
       
       {/* Action Buttons */}
-      <div className="grid grid-cols-2 gap-3">
-        {/* Edit button */}
-        <Button
-          onClick={onEdit}
-          disabled={hasStarted}
-          variant="outline"
-          size="sm"
-        >
-          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-          </svg>
-          Edit
-          {hasStarted && (
-            <span className="ml-1 text-xs">(Started)</span>
+      {(onEdit || onDelete) && (
+        <div className={`grid ${onEdit && onDelete ? 'grid-cols-2' : 'grid-cols-1'} gap-3`}>
+          {/* Edit button */}
+          {onEdit && (
+            <Button
+              onClick={onEdit}
+              disabled={hasStarted}
+              variant="outline"
+              size="sm"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+              Edit
+              {hasStarted && (
+                <span className="ml-1 text-xs">(Started)</span>
+              )}
+            </Button>
           )}
-        </Button>
-        
-        {/* Delete button */}
-        <Button
-          onClick={handleDelete}
-          variant={showDeleteConfirm ? 'destructive' : 'outline'}
-          size="sm"
-        >
-          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-          </svg>
-          {showDeleteConfirm ? 'Confirm Delete?' : 'Delete'}
-        </Button>
-      </div>
+          
+          {/* Delete button */}
+          {onDelete && (
+            <Button
+              onClick={handleDelete}
+              variant={showDeleteConfirm ? 'destructive' : 'outline'}
+              size="sm"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+              {showDeleteConfirm ? 'Confirm Delete?' : 'Delete'}
+            </Button>
+          )}
+        </div>
+      )}
       
       {showDeleteConfirm && (
         <p className="text-xs text-red-600 dark:text-red-400 text-center">
@@ -0,0 +1,274 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from './ui/Button';
+import { useToast } from '@/hooks/useToastCompat';
+import { toCsv } from '@/lib/csv';
+import { CHAPTER } from '@/lib/chapter';
+import type { AttendanceImportReport, AttendanceImportStatus, Event } from '@/lib/types';
+
+interface AttendanceImportModalProps {
+  event: Event;
+  onClose: () => void;
+  onImported?: () => void;
+}
+
+const STATUS_LABELS: Record<AttendanceImportStatus, string> = {
+  matched: 'Will add',
+  added: 'Added',
+  'already-attended': 'Already credited',
+  duplicate: 'Duplicate',
+  unknown: 'Unknown',
+  invalid: 'No identifier',
+  failed: 'Failed',
+};
+
+const STATUS_CLASSES: Record<AttendanceImportStatus, string> = {
+  matched: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  added: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  'already-attended': 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  duplicate: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  unknown: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  invalid: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+const MATCH_LABELS = {
+  ttuEmail: 'TTU email',
+  rNumber: 'R-number',
+  email: 'Google email',
+};
+
+/**
+ * AttendanceImportModal Component
+ *
+ * Bulk attendance import from a sign-in sheet CSV with:
+ * - Dry-run preview of matched, unknown and duplicate rows
+ * - Committing the matched rows once the preview looks right
+ * - Downloadable CSV report of what was applied
+ */
+export function AttendanceImportModal({ event, onClose, onImported }: AttendanceImportModalProps) {
+  const toast = useToast();
+  const [csv, setCsv] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [report, setReport] = useState<AttendanceImportReport | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Read the chosen file
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setFileName(file.name);
+    setCsv(await file.text());
+    setReport(null);
+  };
+
+  // Preview (dryRun) or commit the import
+  const runImport = async (dryRun: boolean) => {
+    setSubmitting(true);
+    try {
+      const { auth } = await import('@/lib/firebase/config');
+      const currentUser = auth.currentUser;
+
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+
+      const idToken = await currentUser.getIdToken();
+
+      const response = await fetch(`/api/admin/events/${event.id}/import-attendance`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ csv, dryRun }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to import attendance');
+      }
+
+      setReport(data.data);
+
+      if (!dryRun) {
+        toast.showSuccess(`Added attendance for ${data.data.counts.added} member(s)`);
+        onImported?.();
+      }
+    } catch (error: any) {
+      console.error('Error importing attendance:', error);
+      toast.showError(error.message || 'Failed to import attendance');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Download the per-row outcomes as CSV
+  const handleDownloadReport = () => {
+    if (!report) {
+      return;
+    }
+
+    const header = ['Line', 'Identifier', 'Name', 'Status', 'Matched By', 'Member', 'User ID', 'Message'];
+    const rows = report.rows.map((row) => [
+      row.line,
+      row.identifier,
+      row.name || '',
+      STATUS_LABELS[row.status],
+      row.matchedBy ? MATCH_LABELS[row.matchedBy] : '',
+      row.displayName || '',
+      row.userId || '',
+      row.message || '',
+    ]);
+
+    const blob = new Blob([toCsv(header, rows)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${event.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-attendance-import${report.dryRun ? '-preview' : ''}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const committed = report !== null && !report.dryRun;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto my-auto custom-scrollbar">
+        {/* Header */}
+        <div className="sticky top-0 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 p-6 z-10">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Import Attendance
+              </h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{event.name}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+              aria-label="Close modal"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          {/* File Picker */}
+          {!committed && (
+            <div>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                Upload a CSV of the sign-in sheet (e.g. a Google Forms export). Each row is matched to a
+                member by {CHAPTER.school.abbreviation} email, R-number, or Google email, in any column.
+              </p>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <label className="inline-flex items-center justify-center h-10 px-6 rounded-lg border-2 border-gray-300 dark:border-gray-600 text-sm font-medium text-gray-900 dark:text-white hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer">
+                  Choose CSV
+                  <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+                </label>
+                <span className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                  {fileName || 'No file chosen'}
+                </span>
+                <Button
+                  onClick={() => runImport(true)}
+                  disabled={submitting || !csv}
+                  variant="default"
+                  size="default"
+                  className="sm:ml-auto"
+                >
+                  {submitting && !report ? 'Checking...' : 'Preview'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Report */}
+          {report && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(STATUS_LABELS) as AttendanceImportStatus[])
+                  .filter((status) => report.counts[status] > 0)
+                  .map((status) => (
+                    <span key={status} className={`px-3 py-1 rounded-full text-xs font-semibold ${STATUS_CLASSES[status]}`}>
+                      {STATUS_LABELS[status]}: {report.counts[status]}
+                    </span>
+                  ))}
+              </div>
+
+              <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+                <div className="overflow-x-auto max-h-96 custom-scrollbar">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Line</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Identifier</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Member</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {report.rows.map((row) => (
+                        <tr key={row.line}>
+                          <td className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400">{row.line}</td>
+                          <td className="px-4 py-2 text-sm font-mono text-gray-900 dark:text-white">
+                            {row.identifier || '—'}
+                            {row.name && (
+                              <div className="text-xs font-sans text-gray-500 dark:text-gray-400">{row.name}</div>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-900 dark:text-white">
+                            {row.displayName || '—'}
+                            {row.matchedBy && (
+                              <div className="text-xs text-gray-500 dark:text-gray-400">by {MATCH_LABELS[row.matchedBy]}</div>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-sm">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_CLASSES[row.status]}`}>
+                              {STATUS_LABELS[row.status]}
+                            </span>
+                            {row.message && (
+                              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{row.message}</div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="flex flex-col sm:flex-row gap-3 justify-end">
+                <Button onClick={handleDownloadReport} variant="outline" size="default">
+                  Download Report
+                </Button>
+                {committed ? (
+                  <Button onClick={onClose} variant="default" size="default">
+                    Done
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => runImport(false)}
+                    disabled={submitting || report.counts.matched === 0}
+                    variant="default"
+                    size="default"
+                  >
+                    {submitting ? 'Importing...' : `Add ${report.counts.matched} Attendee${report.counts.matched === 1 ? '' : 's'}`}
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
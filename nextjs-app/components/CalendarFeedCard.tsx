@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useToast } from '@/hooks/useToastCompat';
+
+interface CalendarFeedUrls {
+  url: string;
+  webcalUrl: string;
+}
+
+/**
+ * CalendarFeedCard Component
+ *
+ * Private calendar subscription shown on the profile page.
+ * Features:
+ * - Fetches the current user's private feed URL (events they RSVP'd to)
+ * - Opens the feed in the calendar app or copies the URL for Google Calendar
+ * - Resets the URL if it was shared by mistake
+ */
+export function CalendarFeedCard() {
+  const toast = useToast();
+  const [feed, setFeed] = useState<CalendarFeedUrls | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [resetting, setResetting] = useState(false);
+
+  // Fetch (or reset) the feed URL
+  const requestFeed = useCallback(async (method: 'GET' | 'POST') => {
+    const { auth } = await import('@/lib/firebase/config');
+    const currentUser = auth.currentUser;
+
+    if (!currentUser) {
+      throw new Error('User not authenticated');
+    }
+
+    const idToken = await currentUser.getIdToken();
+
+    const response = await fetch('/api/user/calendar-feed', {
+      method,
+      headers: {
+        'Authorization': `Bearer ${idToken}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to load calendar feed');
+    }
+
+    setFeed(data.data);
+    setError(null);
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    requestFeed('GET').catch((err) => {
+      console.error('Error loading calendar feed:', err);
+      setError(err.message || 'Failed to load calendar feed');
+    });
+  }, [requestFeed]);
+
+  const handleCopy = async () => {
+    if (!feed) return;
+
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast.showSuccess('Calendar link copied');
+    } catch {
+      toast.showError('Could not copy the link');
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Reset your calendar link? Calendars subscribed to the old link will stop updating.')) {
+      return;
+    }
+
+    setResetting(true);
+    try {
+      await requestFeed('POST');
+      toast.showSuccess('Calendar link reset');
+    } catch (err: any) {
+      console.error('Error resetting calendar feed:', err);
+      toast.showError(err.message || 'Failed to reset calendar link');
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Calendar Subscription</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        Subscribe to this private link in Google, Apple or Outlook calendar to see the events you RSVP to. Keep it to yourself &mdash; anyone with the link can see your events.
+      </p>
+
+      {error ? (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
+          <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      ) : feed ? (
+        <div className="space-y-4">
+          <input
+            type="text"
+            readOnly
+            value={feed.url}
+            onFocus={(e) => e.target.select()}
+            className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white font-mono"
+          />
+          <div className="flex flex-wrap gap-3">
+            <a
+              href={feed.webcalUrl}
+              className="px-4 py-2 text-sm font-medium rounded-md bg-red-600 text-white hover:bg-red-700 transition-colors"
+            >
+              Open in Calendar App
+            </a>
+            <button
+              onClick={handleCopy}
+              className="px-4 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              Copy Link
+            </button>
+            <button
+              onClick={handleReset}
+              disabled={resetting}
+              className="px-4 py-2 text-sm font-medium rounded-md text-gray-600 dark:text-gray-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {resetting ? 'Resetting...' : 'Reset Link'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="h-24 bg-gray-100 dark:bg-gray-700 rounded-md animate-pulse" />
+      )}
+    </div>
+  );
+}
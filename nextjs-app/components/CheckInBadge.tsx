@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import QRCode from 'qrcode';
+import type { CheckInToken } from '@/lib/types';
+
+// Refresh the badge this long before the token expires (milliseconds)
+const REFRESH_BEFORE_EXPIRY_MS = 30 * 1000;
+
+/**
+ * CheckInBadge Component
+ * 
+ * Personal QR check-in badge shown on the profile page.
+ * Features:
+ * - Fetches a short-lived signed check-in token for the current user
+ * - Renders the token as a QR code for admins to scan
+ * - Automatically refreshes the token before it expires
+ */
+export function CheckInBadge() {
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch a fresh token and render it as a QR code
+  const loadBadge = useCallback(async () => {
+    try {
+      const { auth } = await import('@/lib/firebase/config');
+      const currentUser = auth.currentUser;
+      
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+      
+      const idToken = await currentUser.getIdToken();
+      
+      const response = await fetch('/api/user/check-in-token', {
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to load check-in badge');
+      }
+      
+      const checkInToken: CheckInToken = data.data;
+      const dataUrl = await QRCode.toDataURL(checkInToken.token, {
+        width: 256,
+        margin: 1,
+        errorCorrectionLevel: 'M',
+      });
+      
+      setQrDataUrl(dataUrl);
+      setExpiresAt(new Date(checkInToken.expiresAt));
+      setError(null);
+    } catch (err: any) {
+      console.error('Error loading check-in badge:', err);
+      setError(err.message || 'Failed to load check-in badge');
+    }
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    loadBadge();
+  }, [loadBadge]);
+
+  // Refresh shortly before the current token expires
+  useEffect(() => {
+    if (!expiresAt) {
+      return;
+    }
+    
+    const delay = Math.max(expiresAt.getTime() - Date.now() - REFRESH_BEFORE_EXPIRY_MS, 0);
+    const refreshTimer = setTimeout(loadBadge, delay);
+    
+    return () => clearTimeout(refreshTimer);
+  }, [expiresAt, loadBadge]);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 p-6 transition-colors duration-200">
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Check-In Badge</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        Show this QR code to an officer at the door to check in. It refreshes automatically, so screenshots won't work.
+      </p>
+      
+      <div className="flex justify-center">
+        {error ? (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
+            <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        ) : qrDataUrl ? (
+          <div className="p-3 bg-white rounded-xl border border-gray-200">
+            <img src={qrDataUrl} alt="Check-in QR code" className="w-56 h-56" />
+          </div>
+        ) : (
+          <div className="w-56 h-56 bg-gray-100 dark:bg-gray-700 rounded-xl animate-pulse" />
+        )}
+      </div>
+    </div>
+  );
+}
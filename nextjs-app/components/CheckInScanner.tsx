@@ -0,0 +1,155 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import jsQR from 'jsqr';
+
+interface CheckInScannerProps {
+  onScan: (token: string) => Promise<void>;
+  paused?: boolean;
+}
+
+// Ignore repeat reads of the same QR code within this window (milliseconds)
+const DUPLICATE_SCAN_WINDOW_MS = 5000;
+
+/**
+ * CheckInScanner Component
+ * 
+ * Camera-based QR scanner for admin check-in.
+ * Features:
+ * - Opens the device's rear camera
+ * - Decodes QR codes from video frames
+ * - Debounces repeated reads of the same badge
+ * - Reports camera permission errors
+ */
+export function CheckInScanner({ onScan, paused = false }: CheckInScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastScanRef = useRef<{ token: string; at: number } | null>(null);
+  const busyRef = useRef(false);
+  const onScanRef = useRef(onScan);
+  const pausedRef = useRef(paused);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+    pausedRef.current = paused;
+  }, [onScan, paused]);
+
+  // Start the camera and scan frames until unmounted
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frameRequest: number | null = null;
+    let stopped = false;
+    
+    const scanFrame = async () => {
+      if (stopped) return;
+      
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      
+      if (
+        video &&
+        canvas &&
+        video.readyState === video.HAVE_ENOUGH_DATA &&
+        !busyRef.current &&
+        !pausedRef.current
+      ) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+          const result = jsQR(imageData.data, imageData.width, imageData.height, {
+            inversionAttempts: 'dontInvert',
+          });
+          
+          const now = Date.now();
+          const lastScan = lastScanRef.current;
+          const isDuplicate =
+            !!lastScan &&
+            lastScan.token === result?.data &&
+            now - lastScan.at < DUPLICATE_SCAN_WINDOW_MS;
+          
+          if (result?.data && !isDuplicate) {
+            lastScanRef.current = { token: result.data, at: now };
+            busyRef.current = true;
+            
+            try {
+              await onScanRef.current(result.data);
+            } finally {
+              busyRef.current = false;
+            }
+          }
+        }
+      }
+      
+      frameRequest = requestAnimationFrame(scanFrame);
+    };
+    
+    const startCamera = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false,
+        });
+        
+        if (stopped) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        
+        frameRequest = requestAnimationFrame(scanFrame);
+      } catch (error: any) {
+        console.error('Error starting camera:', error);
+        setCameraError(
+          error.name === 'NotAllowedError'
+            ? 'Camera access was denied. Allow camera access in your browser settings to scan badges.'
+            : 'Unable to start the camera on this device.'
+        );
+      }
+    };
+    
+    startCamera();
+    
+    return () => {
+      stopped = true;
+      if (frameRequest !== null) {
+        cancelAnimationFrame(frameRequest);
+      }
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (cameraError) {
+    return (
+      <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+        <p className="text-sm text-red-800 dark:text-red-200">{cameraError}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative w-full overflow-hidden rounded-xl bg-black aspect-square">
+      <video
+        ref={videoRef}
+        className="w-full h-full object-cover"
+        muted
+        playsInline
+      />
+      <canvas ref={canvasRef} className="hidden" />
+      
+      {/* Scan target overlay */}
+      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+        <div className="w-2/3 h-2/3 border-4 border-white/80 rounded-2xl" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from './ui/Button';
+import { useToast } from '@/hooks/useToastCompat';
+import type { Event } from '@/lib/types';
+
+interface AttendeeRow {
+  userId: string;
+  displayName: string;
+  email: string;
+  pointsEarned: number;
+  attendedAt: string | null;
+}
+
+interface EventAttendeesModalProps {
+  event: Event;
+  canRevoke: boolean;            // Show revoke actions (requires points:adjust)
+  onClose: () => void;
+  onRevoked?: () => void;
+}
+
+/**
+ * EventAttendeesModal Component
+ *
+ * Lists who attended an event with:
+ * - Points earned and check-in time per attendee
+ * - Revoking attendance with a required reason, which reverses the points
+ */
+export function EventAttendeesModal({ event, canRevoke, onClose, onRevoked }: EventAttendeesModalProps) {
+  const toast = useToast();
+  const [attendees, setAttendees] = useState<AttendeeRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Fetch attendees
+  const fetchAttendees = useCallback(async () => {
+    try {
+      const { auth } = await import('@/lib/firebase/config');
+      const currentUser = auth.currentUser;
+
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+
+      const idToken = await currentUser.getIdToken();
+
+      const response = await fetch(`/api/admin/events/${event.id}/attendees`, {
+        headers: {
+          'Authorization': `Bearer ${idToken}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to fetch attendees');
+      }
+
+      setAttendees(data.data);
+      setError(null);
+    } catch (err: any) {
+      console.error('Error fetching attendees:', err);
+      setError(err.message || 'Failed to load attendees');
+    } finally {
+      setLoading(false);
+    }
+  }, [event.id]);
+
+  useEffect(() => {
+    fetchAttendees();
+  }, [fetchAttendees]);
+
+  // Revoke the selected attendee's attendance
+  const handleRevoke = async (attendee: AttendeeRow) => {
+    if (!reason.trim()) {
+      toast.showError('Please enter a reason');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { auth } = await import('@/lib/firebase/config');
+      const currentUser = auth.currentUser;
+
+      if (!currentUser) {
+        throw new Error('User not authenticated');
+      }
+
+      const idToken = await currentUser.getIdToken();
+
+      const response = await fetch(`/api/admin/users/${attendee.userId}/revoke-attendance`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({
+          eventId: event.id,
+          reason: reason.trim(),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to revoke attendance');
+      }
+
+      toast.showSuccess(`Revoked attendance for ${attendee.displayName} (−${data.data.pointsReversed} pts)`);
+      setRevokingId(null);
+      setReason('');
+      await fetchAttendees();
+      onRevoked?.();
+    } catch (err: any) {
+      console.error('Error revoking attendance:', err);
+      toast.showError(err.message || 'Failed to revoke attendance');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto my-auto custom-scrollbar">
+        {/* Header */}
+        <div className="sticky top-0 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 p-6 z-10">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Attendees
+              </h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{event.name}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+              aria-label="Close modal"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          {loading ? (
+            <p className="text-gray-600 dark:text-gray-400">Loading attendees...</p>
+          ) : error ? (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          ) : attendees.length === 0 ? (
+            <p className="text-gray-600 dark:text-gray-400">No one has attended this event yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {attendees.map((attendee) => (
+                <div key={attendee.userId} className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
+                  <div className="flex justify-between items-start gap-4">
+                    <div>
+                      <h4 className="font-semibold text-gray-900 dark:text-white">
+                        {attendee.displayName || attendee.email}
+                      </h4>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">{attendee.email}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                        {attendee.attendedAt ? new Date(attendee.attendedAt).toLocaleString() : 'N/A'}
+                      </p>
+                    </div>
+                    <div className="text-right space-y-2">
+                      <p className="text-sm font-semibold text-red-600 dark:text-red-400">
+                        +{attendee.pointsEarned} pts
+                      </p>
+                      {canRevoke && revokingId !== attendee.userId && (
+                        <button
+                          onClick={() => {
+                            setRevokingId(attendee.userId);
+                            setReason('');
+                          }}
+                          className="text-sm font-medium text-red-600 dark:text-red-400 hover:underline"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {revokingId === attendee.userId && (
+                    <div className="mt-4 space-y-3">
+                      <input
+                        type="text"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder="Reason for revoking (e.g. shared code)"
+                        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      />
+                      <div className="flex gap-2 justify-end">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRevokingId(null)}
+                          disabled={submitting}
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleRevoke(attendee)}
+                          disabled={submitting || !reason.trim()}
+                        >
+                          {submitting ? 'Revoking...' : `Revoke and remove ${attendee.pointsEarned} pts`}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
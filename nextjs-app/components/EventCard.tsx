@@ -1,20 +1,38 @@
 'use client';
 
-import { Event } from '@/lib/types';
+import { useState } from 'react';
+import { Event, CalendarSyncStatus, CurrentAttendanceCode, GenerateCodeOptions } from '@/lib/types';
 import { Timestamp } from 'firebase/firestore';
 import { AttendanceCodeInput } from './AttendanceCodeInput';
 import { AdminEventControls } from './AdminEventControls';
+import { getEventCategoryLabel } from '@/lib/constants/eventCategories';
+
+// Display names for calendar invitation providers
+const CALENDAR_PROVIDER_LABELS: Record<string, string> = {
+  graph: 'Outlook',
+  google: 'Google Calendar',
+  fake: 'Fake calendar',
+};
 
 interface EventCardProps {
   event: Event;
   isAdmin: boolean;
   userAttended: boolean;
   onSubmitCode?: (code: string) => Promise<void>;
-  onGenerateCode?: () => Promise<void>;
+  onGenerateCode?: (options?: GenerateCodeOptions) => Promise<void>;
+  onFetchCurrentCode?: () => Promise<CurrentAttendanceCode>;
   onToggleCode?: (active: boolean) => Promise<void>;
   onEdit?: () => void;
   onDelete?: () => void;
   onEndEvent?: () => Promise<void>;
+  currentUserId?: string;
+  onRsvp?: () => Promise<void>;
+  onCancelRsvp?: () => Promise<void>;
+  onExportRsvps?: () => Promise<void>;
+  onViewAttendees?: () => void;
+  onImportAttendance?: () => void;
+  calendarSync?: CalendarSyncStatus;
+  onRetryCalendarSync?: () => Promise<void>;
 }
 
 /**
@@ -23,7 +41,11 @@ interface EventCardProps {
  * Displays event information with conditional rendering based on user role and event state.
  * - Shows event details (name, description, date, time, location, points)
  * - Conditionally renders attendance input for onboarded users during ongoing events
- * - Conditionally renders admin controls for admin users
+ * - Conditionally renders admin controls for users who run the event's check-in
+ * - Shows RSVP counts, and RSVP/waitlist actions for members before the event starts
+ * - Opens the attendee list and attendance import for admins
+ * - Offers an .ics download for events that haven't finished
+ * - Shows calendar invitation sync status to admins, with a retry action
  */
 export function EventCard({
   event,
@@ -31,11 +53,24 @@ export function EventCard({
   userAttended,
   onSubmitCode,
   onGenerateCode,
+  onFetchCurrentCode,
   onToggleCode,
   onEdit,
   onDelete,
   onEndEvent,
+  currentUserId,
+  onRsvp,
+  onCancelRsvp,
+  onExportRsvps,
+  onViewAttendees,
+  onImportAttendance,
+  calendarSync,
+  onRetryCalendarSync,
 }: EventCardProps) {
+  const [rsvpLoading, setRsvpLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  
   // Convert Firestore Timestamp to Date for display
   const startDate = event.startTime.toDate();
   
@@ -49,6 +84,61 @@ export function EventCard({
   // Show if: user is onboarded (has onSubmitCode), event is ongoing, and user hasn't attended
   const showAttendanceInput = !isAdmin && isOngoing && !userAttended && onSubmitCode;
   
+  // RSVP state
+  const rsvps = event.rsvps ?? [];
+  const waitlist = event.waitlist ?? [];
+  const capacity = event.capacity ?? null;
+  const isConfirmed = !!currentUserId && rsvps.includes(currentUserId);
+  const waitlistPosition = currentUserId ? waitlist.indexOf(currentUserId) + 1 : 0;
+  const isFull = capacity !== null && rsvps.length >= capacity;
+  const showRsvpControls = !isAdmin && !hasStarted && event.status === 'upcoming' && onRsvp && onCancelRsvp;
+  const showCalendarLink = event.status === 'upcoming' || event.status === 'active';
+  
+  const handleRsvpAction = async (action: () => Promise<void>) => {
+    setRsvpLoading(true);
+    try {
+      await action();
+    } finally {
+      setRsvpLoading(false);
+    }
+  };
+  
+  const handleExportRsvps = async () => {
+    if (!onExportRsvps) return;
+    setExporting(true);
+    try {
+      await onExportRsvps();
+    } finally {
+      setExporting(false);
+    }
+  };
+  
+  const handleRetryCalendarSync = async () => {
+    if (!onRetryCalendarSync) return;
+    setSyncing(true);
+    try {
+      await onRetryCalendarSync();
+    } finally {
+      setSyncing(false);
+    }
+  };
+  
+  // Describe where the event's calendar invitations stand
+  const getCalendarSyncLabel = (status: CalendarSyncStatus) => {
+    const prefix = `${CALENDAR_PROVIDER_LABELS[status.provider ?? ''] ?? 'Calendar'}:`;
+    const invited = `${status.invited} ${status.invited === 1 ? 'invitation' : 'invitations'}`;
+    switch (status.state) {
+      case 'synced':
+        return `${prefix} ${invited} up to date`;
+      case 'pending':
+        return status.attempts > 0
+          ? `${prefix} ${status.pendingAction} retrying (attempt ${status.attempts + 1})`
+          : `${prefix} ${status.pendingAction} queued`;
+      case 'failed':
+        return `${prefix} ${status.pendingAction} failed for ${status.failed || 'all'} recipient${status.failed === 1 ? '' : 's'}`;
+    }
+  };
+  
   // Format date and time
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('en-US', {
@@ -128,12 +218,45 @@ export function EventCard({
           <span>{event.location}</span>
         </div>
         
+        {event.seriesId && (
+          <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+            <span>Recurring event</span>
+          </div>
+        )}
+        
+        {event.category && event.category !== 'general' && (
+          <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+            </svg>
+            <span>{getEventCategoryLabel(event.category)}</span>
+          </div>
+        )}
+        
         <div className="flex items-center text-sm font-semibold text-red-600 dark:text-red-400">
           <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
           </svg>
           <span>{event.pointsValue} Points</span>
         </div>
+        
+        {showCalendarLink && (
+          <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+            <a
+              href={`/api/events/${event.id}/ics`}
+              download
+              className="font-medium text-red-600 dark:text-red-400 hover:underline"
+            >
+              Add to calendar
+            </a>
+          </div>
+        )}
       </div>
       
       {/* Attendance status for regular users */}
@@ -145,6 +268,34 @@ export function EventCard({
         </div>
       )}
       
+      {/* RSVP controls for regular users */}
+      {showRsvpControls && (
+        <div className="mb-4 flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {isConfirmed && '✓ You\'re going'}
+            {waitlistPosition > 0 && `You're #${waitlistPosition} on the waitlist`}
+            {!isConfirmed && waitlistPosition === 0 && (isFull ? 'Event is full' : 'Spots available')}
+          </p>
+          {isConfirmed || waitlistPosition > 0 ? (
+            <button
+              onClick={() => handleRsvpAction(onCancelRsvp)}
+              disabled={rsvpLoading}
+              className="px-4 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {rsvpLoading ? 'Updating...' : isConfirmed ? 'Cancel RSVP' : 'Leave Waitlist'}
+            </button>
+          ) : (
+            <button
+              onClick={() => handleRsvpAction(onRsvp)}
+              disabled={rsvpLoading}
+              className="px-4 py-2 text-sm font-medium rounded-md bg-red-600 text-white hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {rsvpLoading ? 'Updating...' : isFull ? 'Join Waitlist' : 'RSVP'}
+            </button>
+          )}
+        </div>
+      )}
+      
       {/* Attendance code input for regular users */}
       {showAttendanceInput && (
         <div className="mb-4">
@@ -157,10 +308,11 @@ export function EventCard({
       )}
       
       {/* Admin controls */}
-      {isAdmin && onGenerateCode && onToggleCode && onEdit && onDelete && (
+      {isAdmin && onGenerateCode && onToggleCode && (
         <AdminEventControls
           event={event}
           onGenerateCode={onGenerateCode}
+          onFetchCurrentCode={onFetchCurrentCode}
           onToggleCode={onToggleCode}
           onEdit={onEdit}
           onDelete={onDelete}
@@ -168,11 +320,67 @@ export function EventCard({
         />
       )}
       
-      {/* Attendee count */}
-      <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+      {/* Calendar invitation sync status for admins */}
+      {isAdmin && calendarSync && (
+        <div className="mt-4 flex items-center justify-between gap-3 text-sm">
+          <p
+            className={calendarSync.state === 'failed'
+              ? 'text-red-600 dark:text-red-400'
+              : 'text-gray-600 dark:text-gray-400'}
+            title={calendarSync.lastError ?? undefined}
+          >
+            {getCalendarSyncLabel(calendarSync)}
+          </p>
+          {calendarSync.state !== 'synced' && onRetryCalendarSync && (
+            <button
+              onClick={handleRetryCalendarSync}
+              disabled={syncing}
+              className="font-medium text-red-600 dark:text-red-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed disabled:no-underline"
+            >
+              {syncing ? 'Syncing...' : 'Retry now'}
+            </button>
+          )}
+        </div>
+      )}
+      
+      {/* Attendee and RSVP counts */}
+      <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between gap-3">
         <p className="text-sm text-gray-600 dark:text-gray-400">
-          {event.attendees.length} {event.attendees.length === 1 ? 'attendee' : 'attendees'}
+          {isAdmin && onViewAttendees ? (
+            <button
+              onClick={onViewAttendees}
+              className="font-medium text-red-600 dark:text-red-400 hover:underline"
+            >
+              {event.attendees.length} {event.attendees.length === 1 ? 'attendee' : 'attendees'}
+            </button>
+          ) : (
+            <>{event.attendees.length} {event.attendees.length === 1 ? 'attendee' : 'attendees'}</>
+          )}
+          {' · '}
+          {capacity !== null ? `${rsvps.length}/${capacity}` : rsvps.length} going
+          {waitlist.length > 0 && ` · ${waitlist.length} waitlisted`}
         </p>
+        {isAdmin && (onExportRsvps || onImportAttendance) && (
+          <div className="flex items-center gap-3">
+            {onImportAttendance && (
+              <button
+                onClick={onImportAttendance}
+                className="text-sm font-medium text-red-600 dark:text-red-400 hover:underline"
+              >
+                Import
+              </button>
+            )}
+            {onExportRsvps && (
+              <button
+                onClick={handleExportRsvps}
+                disabled={exporting || (rsvps.length === 0 && waitlist.length === 0)}
+                className="text-sm font-medium text-red-600 dark:text-red-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed disabled:no-underline"
+              >
+                {exporting ? 'Exporting...' : 'Export RSVPs'}
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -3,7 +3,10 @@
 import { useState } from 'react';
 import { Button } from './ui/Button';
 import { useToast } from '@/hooks/useToastCompat';
-import type { CreateEventInput } from '@/lib/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { canSetEventPoints, DEFAULT_EVENT_POINTS } from '@/lib/constants/roles';
+import { EVENT_CATEGORIES } from '@/lib/constants/eventCategories';
+import type { CreateEventInput, EventCategory, RecurrenceFrequency } from '@/lib/types';
 
 interface EventCreateFormProps {
   onClose: () => void;
@@ -15,12 +18,18 @@ interface EventCreateFormProps {
  * 
  * Form for creating new events with:
  * - All required fields (name, description, date, time, location, points)
+ * - Points fixed at the default for hosts who can't set them
+ * - Event category (workshop, social, ...) used for category badges
+ * - Optional RSVP capacity (blank for unlimited)
+ * - Optional weekly/biweekly/monthly repeat with an end date or count and skip dates
  * - Validation for required fields
  * - Submit to create event API
  * - Triggers calendar invitation sending
  */
 export function EventCreateForm({ onClose, onSuccess }: EventCreateFormProps) {
   const toast = useToast();
+  const { user } = useAuth();
+  const pointsLocked = !canSetEventPoints(user);
   const [submitting, setSubmitting] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
@@ -28,12 +37,20 @@ export function EventCreateForm({ onClose, onSuccess }: EventCreateFormProps) {
     startDate: '',
     startTime: '',
     location: '',
-    pointsValue: 10,
+    pointsValue: DEFAULT_EVENT_POINTS,
+    category: 'general' as EventCategory,
+    capacity: '',
+    repeat: 'none' as 'none' | RecurrenceFrequency,
+    endType: 'count' as 'count' | 'until',
+    occurrenceCount: '10',
+    untilDate: '',
   });
+  const [skipDates, setSkipDates] = useState<string[]>([]);
+  const [skipDateInput, setSkipDateInput] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   // Handle input changes
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
     // Clear error for this field
@@ -42,6 +59,14 @@ export function EventCreateForm({ onClose, onSuccess }: EventCreateFormProps) {
     }
   };
 
+  // Add a date to skip in the series
+  const handleAddSkipDate = () => {
+    if (skipDateInput && !skipDates.includes(skipDateInput)) {
+      setSkipDates(prev => [...prev, skipDateInput].sort());
+    }
+    setSkipDateInput('');
+  };
+
   // Validate form
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
@@ -70,6 +95,27 @@ export function EventCreateForm({ onClose, onSuccess }: EventCreateFormProps) {
       newErrors.pointsValue = 'Points must be non-negative';
     }
 
+    if (formData.capacity !== '' && (!Number.isInteger(Number(formData.capacity)) || Number(formData.capacity) < 1)) {
+      newErrors.capacity = 'Capacity must be a positive whole number';
+    }
+
+    if (formData.repeat !== 'none') {
+      if (formData.endType === 'count') {
+        const count = Number(formData.occurrenceCount);
+        if (!Number.isInteger(count) || count < 1 || count > 100) {
+          newErrors.occurrenceCount = 'Occurrences must be between 1 and 100';
+        }
+      } else if (!formData.untilDate) {
+        newErrors.untilDate = 'End date is required';
+      } else if (formData.startDate && formData.untilDate < formData.startDate) {
+        newErrors.untilDate = 'End date must be after the start date';
+      }
+
+      if (skipDates.includes(formData.startDate)) {
+        newErrors.skipDates = 'The first occurrence cannot be skipped';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -94,6 +140,17 @@ export function EventCreateForm({ onClose, onSuccess }: EventCreateFormProps) {
         startTime: startDateTime,
         location: formData.location.trim(),
         pointsValue: Number(formData.pointsValue),
+        category: formData.category,
+        capacity: formData.capacity === '' ? null : Number(formData.capacity),
+      };
+
+      // Series end at the end of the chosen day
+      const recurrence = formData.repeat === 'none' ? undefined : {
+        frequency: formData.repeat,
+        ...(formData.endType === 'count'
+          ? { count: Number(formData.occurrenceCount) }
+          : { until: new Date(`${formData.untilDate}T23:59:59`).toISOString() }),
+        skipDates,
       };
 
       const { auth } = await import('@/lib/firebase/config');
@@ -114,6 +171,7 @@ export function EventCreateForm({ onClose, onSuccess }: EventCreateFormProps) {
         body: JSON.stringify({
           ...eventInput,
           startTime: startDateTime.toISOString(),
+          recurrence,
         }),
       });
 
@@ -123,7 +181,7 @@ export function EventCreateForm({ onClose, onSuccess }: EventCreateFormProps) {
         throw new Error(data.error?.message || 'Failed to create event');
       }
 
-      toast.showSuccess('Event created successfully!');
+      toast.showSuccess(recurrence ? 'Recurring event series created successfully!' : 'Event created successfully!');
       
       // Show calendar invitation status if available
       if (data.calendar) {
@@ -271,14 +329,179 @@ export function EventCreateForm({ onClose, onSuccess }: EventCreateFormProps) {
               name="pointsValue"
               value={formData.pointsValue}
               onChange={handleChange}
+              disabled={pointsLocked}
               min="0"
               className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent dark:bg-gray-700 dark:text-white ${
                 errors.pointsValue ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
-              }`}
+              } ${pointsLocked ? 'opacity-50 cursor-not-allowed' : ''}`}
             />
+            {pointsLocked && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Only points managers and officers can change the points value</p>
+            )}
             {errors.pointsValue && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.pointsValue}</p>}
           </div>
 
+          {/* Category */}
+          <div>
+            <label htmlFor="category" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Category
+            </label>
+            <select
+              id="category"
+              name="category"
+              value={formData.category}
+              onChange={handleChange}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+            >
+              {EVENT_CATEGORIES.map((category) => (
+                <option key={category.value} value={category.value}>
+                  {category.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* RSVP Capacity */}
+          <div>
+            <label htmlFor="capacity" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              RSVP Capacity
+            </label>
+            <input
+              type="number"
+              id="capacity"
+              name="capacity"
+              value={formData.capacity}
+              onChange={handleChange}
+              min="1"
+              className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent dark:bg-gray-700 dark:text-white ${
+                errors.capacity ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+              }`}
+              placeholder="Leave blank for unlimited"
+            />
+            {errors.capacity && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.capacity}</p>}
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Members who RSVP after this limit join a waitlist and are promoted automatically when a spot opens.
+            </p>
+          </div>
+
+          {/* Repeat */}
+          <div>
+            <label htmlFor="repeat" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Repeat
+            </label>
+            <select
+              id="repeat"
+              name="repeat"
+              value={formData.repeat}
+              onChange={handleChange}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+            >
+              <option value="none">Does not repeat</option>
+              <option value="weekly">Weekly</option>
+              <option value="biweekly">Every 2 weeks</option>
+              <option value="monthly">Monthly</option>
+            </select>
+          </div>
+
+          {formData.repeat !== 'none' && (
+            <div className="space-y-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40">
+              {/* Series End */}
+              <div>
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Ends *
+                </span>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="radio"
+                      name="endType"
+                      value="count"
+                      checked={formData.endType === 'count'}
+                      onChange={handleChange}
+                      className="text-red-600 focus:ring-red-500"
+                    />
+                    After
+                    <input
+                      type="number"
+                      name="occurrenceCount"
+                      value={formData.occurrenceCount}
+                      onChange={handleChange}
+                      disabled={formData.endType !== 'count'}
+                      min="1"
+                      max="100"
+                      className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white disabled:opacity-50"
+                    />
+                    occurrences
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="radio"
+                      name="endType"
+                      value="until"
+                      checked={formData.endType === 'until'}
+                      onChange={handleChange}
+                      className="text-red-600 focus:ring-red-500"
+                    />
+                    On
+                    <input
+                      type="date"
+                      name="untilDate"
+                      value={formData.untilDate}
+                      onChange={handleChange}
+                      disabled={formData.endType !== 'until'}
+                      className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white disabled:opacity-50"
+                    />
+                  </label>
+                </div>
+                {errors.occurrenceCount && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.occurrenceCount}</p>}
+                {errors.untilDate && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.untilDate}</p>}
+              </div>
+
+              {/* Skip Dates */}
+              <div>
+                <label htmlFor="skipDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Skip Dates
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="date"
+                    id="skipDate"
+                    value={skipDateInput}
+                    onChange={(e) => setSkipDateInput(e.target.value)}
+                    className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                  />
+                  <Button type="button" variant="outline" size="default" onClick={handleAddSkipDate} disabled={!skipDateInput}>
+                    Add
+                  </Button>
+                </div>
+                {skipDates.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {skipDates.map((date) => (
+                      <span
+                        key={date}
+                        className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200"
+                      >
+                        {date}
+                        <button
+                          type="button"
+                          onClick={() => setSkipDates(prev => prev.filter(d => d !== date))}
+                          className="hover:text-red-600 dark:hover:text-red-400"
+                          aria-label={`Remove ${date}`}
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {errors.skipDates && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.skipDates}</p>}
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  No event is created on skipped dates (e.g. holidays or finals week).
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="sticky bottom-0 bg-white dark:bg-gray-800 pt-4 pb-2 -mx-6 px-6 border-t border-gray-200 dark:border-gray-700">
             <div className="flex flex-col sm:flex-row gap-3">
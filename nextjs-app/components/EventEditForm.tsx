@@ -3,7 +3,10 @@
 import { useState, useEffect } from 'react';
 import { Button } from './ui/Button';
 import { useToast } from '@/hooks/useToastCompat';
-import type { Event } from '@/lib/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { canSetEventPoints } from '@/lib/constants/roles';
+import { EVENT_CATEGORIES } from '@/lib/constants/eventCategories';
+import type { Event, EventCategory, SeriesEditScope } from '@/lib/types';
 import { Timestamp } from 'firebase/firestore';
 
 interface EventEditFormProps {
@@ -18,10 +21,14 @@ interface EventEditFormProps {
  * Form for editing existing events with:
  * - Pre-populated form with existing event data
  * - Disabled form if event has started
+ * - Points locked for hosts who can't set them
+ * - Scope choice (this / this and following / all) for recurring events
  * - Submit to update event API
  */
 export function EventEditForm({ event, onClose, onSuccess }: EventEditFormProps) {
   const toast = useToast();
+  const { user } = useAuth();
+  const pointsLocked = !canSetEventPoints(user);
   const [submitting, setSubmitting] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
@@ -30,9 +37,12 @@ export function EventEditForm({ event, onClose, onSuccess }: EventEditFormProps)
     startTime: '',
     location: '',
     pointsValue: 0,
+    category: 'general' as EventCategory,
+    capacity: '',
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [hasStarted, setHasStarted] = useState(false);
+  const [scope, setScope] = useState<SeriesEditScope>('this');
 
   // Initialize form data from event
   useEffect(() => {
@@ -58,11 +68,13 @@ export function EventEditForm({ event, onClose, onSuccess }: EventEditFormProps)
       startTime: formatTime(startDate),
       location: event.location,
       pointsValue: event.pointsValue,
+      category: event.category ?? 'general',
+      capacity: event.capacity != null ? String(event.capacity) : '',
     });
   }, [event]);
 
   // Handle input changes
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
     // Clear error for this field
@@ -99,6 +111,10 @@ export function EventEditForm({ event, onClose, onSuccess }: EventEditFormProps)
       newErrors.pointsValue = 'Points must be non-negative';
     }
 
+    if (formData.capacity !== '' && (!Number.isInteger(Number(formData.capacity)) || Number(formData.capacity) < 1)) {
+      newErrors.capacity = 'Capacity must be a positive whole number';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -128,6 +144,8 @@ export function EventEditForm({ event, onClose, onSuccess }: EventEditFormProps)
         startTime: startDateTime.toISOString(),
         location: formData.location.trim(),
         pointsValue: Number(formData.pointsValue),
+        category: formData.category,
+        capacity: formData.capacity === '' ? null : Number(formData.capacity),
       };
 
       const { auth } = await import('@/lib/firebase/config');
@@ -145,7 +163,7 @@ export function EventEditForm({ event, onClose, onSuccess }: EventEditFormProps)
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${idToken}`,
         },
-        body: JSON.stringify(updates),
+        body: JSON.stringify(event.seriesId ? { ...updates, scope } : updates),
       });
 
       const data = await response.json();
@@ -154,7 +172,7 @@ export function EventEditForm({ event, onClose, onSuccess }: EventEditFormProps)
         throw new Error(data.error?.message || 'Failed to update event');
       }
 
-      toast.showSuccess('Event updated successfully!');
+      toast.showSuccess(scope === 'this' ? 'Event updated successfully!' : 'Event series updated successfully!');
       onSuccess();
       onClose();
     } catch (error: any) {
@@ -301,15 +319,93 @@ export function EventEditForm({ event, onClose, onSuccess }: EventEditFormProps)
               name="pointsValue"
               value={formData.pointsValue}
               onChange={handleChange}
-              disabled={hasStarted}
+              disabled={hasStarted || pointsLocked}
               min="0"
               className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent dark:bg-gray-700 dark:text-white ${
                 errors.pointsValue ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
-              } ${hasStarted ? 'opacity-50 cursor-not-allowed' : ''}`}
+              } ${hasStarted || pointsLocked ? 'opacity-50 cursor-not-allowed' : ''}`}
             />
+            {pointsLocked && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Only points managers and officers can change the points value</p>
+            )}
             {errors.pointsValue && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.pointsValue}</p>}
           </div>
 
+          {/* Category */}
+          <div>
+            <label htmlFor="category" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Category
+            </label>
+            <select
+              id="category"
+              name="category"
+              value={formData.category}
+              onChange={handleChange}
+              disabled={hasStarted}
+              className={`w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent dark:bg-gray-700 dark:text-white ${hasStarted ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {EVENT_CATEGORIES.map((category) => (
+                <option key={category.value} value={category.value}>
+                  {category.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* RSVP Capacity */}
+          <div>
+            <label htmlFor="capacity" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              RSVP Capacity
+            </label>
+            <input
+              type="number"
+              id="capacity"
+              name="capacity"
+              value={formData.capacity}
+              onChange={handleChange}
+              disabled={hasStarted}
+              min="1"
+              className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent dark:bg-gray-700 dark:text-white ${
+                errors.capacity ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+              } ${hasStarted ? 'opacity-50 cursor-not-allowed' : ''}`}
+              placeholder="Leave blank for unlimited"
+            />
+            {errors.capacity && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.capacity}</p>}
+            {event.waitlist.length > 0 && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {event.waitlist.length} waitlisted {event.waitlist.length === 1 ? 'member' : 'members'} will be promoted if you raise the capacity.
+              </p>
+            )}
+          </div>
+
+          {/* Series Edit Scope */}
+          {event.seriesId && !hasStarted && (
+            <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40">
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                This is a recurring event. Apply changes to:
+              </span>
+              <div className="space-y-2">
+                {([
+                  ['this', 'This event'],
+                  ['following', 'This and following events'],
+                  ['all', 'All upcoming events in the series'],
+                ] as [SeriesEditScope, string][]).map(([value, label]) => (
+                  <label key={value} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="radio"
+                      name="scope"
+                      value={value}
+                      checked={scope === value}
+                      onChange={() => setScope(value)}
+                      className="text-red-600 focus:ring-red-500"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="sticky bottom-0 bg-white dark:bg-gray-800 pt-4 pb-2 -mx-6 px-6 border-t border-gray-200 dark:border-gray-700">
             <div className="flex flex-col sm:flex-row gap-3">
@@ -1,39 +1,171 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { getBadgeDefinition } from '@/lib/badges';
+import { getLeagueWindows, type MonthKey } from '@/lib/major-league';
+import type { BadgeId, LeaderboardScope } from '@/lib/types';
 
 interface LeaderboardUser {
   id: string;
+  rank?: number;
   firstName: string;
   lastName: string;
   photoURL?: string;
   points: number;
   attendedEvents: number;
+  badges?: BadgeId[];
 }
 
+interface ArchiveSummary {
+  id: string;
+  label: string;
+}
+
+type ScopeOption = LeaderboardScope | 'archive';
+
+const SCOPE_OPTIONS: { value: ScopeOption; label: string }[] = [
+  { value: 'lifetime', label: 'All Time' },
+  { value: 'semester', label: 'This Semester' },
+  { value: 'academic-year', label: 'Academic Year' },
+  { value: 'major-league', label: 'Major League' },
+  { value: 'custom', label: 'Custom Range' },
+  { value: 'archive', label: 'Past Seasons' },
+];
+
+const selectClassName = 'px-4 py-2 bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 shadow-md focus:ring-2 focus:ring-red-500 focus:border-transparent';
+
 /**
  * Leaderboard Component
  * 
  * Displays top users by points with filter options
- * - Shows top 3, 5, or 10 users
- * - Displays user photo, name, points, and events attended
+ * - Scope selector: all time, this semester, academic year, a Major League
+ *   month, a custom date range (signed-in members only), or archived final
+ *   standings of past seasons
+ * - Shows top 3, 5, or 10 users, with "Show more" paging beyond that
+ * - Displays user photo, name, points, events attended, and earned badges
  * - Podium-style display for top 3
  */
 export function Leaderboard() {
+  const { user } = useAuth();
   const [users, setUsers] = useState<LeaderboardUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [limit, setLimit] = useState(3);
   const [showFilter, setShowFilter] = useState(false);
+  const [scope, setScope] = useState<ScopeOption>('lifetime');
+  const [scopeLabel, setScopeLabel] = useState<string | null>(null);
+  const [month, setMonth] = useState<MonthKey | ''>('');
+  const [customStart, setCustomStart] = useState('');
+  const [customEnd, setCustomEnd] = useState('');
+  const [archives, setArchives] = useState<ArchiveSummary[]>([]);
+  const [archiveId, setArchiveId] = useState('');
+  const [archiveStandings, setArchiveStandings] = useState<LeaderboardUser[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const leagueWindows = getLeagueWindows();
+
+  // Load the list of archived seasons the first time Past Seasons is chosen
+  useEffect(() => {
+    if (scope !== 'archive' || archives.length > 0) return;
+
+    const fetchArchives = async () => {
+      try {
+        const response = await fetch('/api/leaderboard/archives');
+        
+        if (response.ok) {
+          const data = await response.json();
+          setArchives(data.data);
+          if (data.data.length > 0) {
+            setArchiveId(data.data[0].id);
+          } else {
+            setUsers([]);
+            setLoading(false);
+          }
+        }
+      } catch (error) {
+        console.error('Error fetching leaderboard archives:', error);
+      }
+    };
+
+    fetchArchives();
+  }, [scope, archives.length]);
+
+  // Custom ranges need a signed-in member; fall back if they sign out
+  useEffect(() => {
+    if (!user && scope === 'custom') {
+      setScope('lifetime');
+      setScopeLabel(null);
+    }
+  }, [user, scope]);
+
+  // Fetch live standings, authenticating custom range requests
+  const fetchStandings = useCallback(async (url: string): Promise<Response> => {
+    if (scope !== 'custom') {
+      return fetch(url);
+    }
+    
+    const { auth } = await import('@/lib/firebase/config');
+    const idToken = await auth.currentUser?.getIdToken();
+    
+    return fetch(url, {
+      headers: idToken ? { 'Authorization': `Bearer ${idToken}` } : undefined,
+    });
+  }, [scope]);
+
+  // Build the API URL for a page of live standings (null until a custom range is picked)
+  const buildLeaderboardUrl = useCallback((offset: number): string | null => {
+    const params = new URLSearchParams({
+      scope,
+      limit: String(limit),
+      offset: String(offset),
+    });
+    
+    if (scope === 'custom') {
+      if (!customStart || !customEnd) return null;
+      // The end date is inclusive in the picker, exclusive in the API
+      const end = new Date(`${customEnd}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      params.set('start', new Date(`${customStart}T00:00:00`).toISOString());
+      params.set('end', end.toISOString());
+    } else if (scope === 'major-league' && month) {
+      params.set('month', month);
+    }
+    
+    return `/api/leaderboard?${params}`;
+  }, [scope, limit, month, customStart, customEnd]);
 
   useEffect(() => {
     const fetchLeaderboard = async () => {
+      let url: string | null;
+      
+      if (scope === 'archive') {
+        if (!archiveId) return;
+        url = `/api/leaderboard/archives/${archiveId}`;
+      } else {
+        url = buildLeaderboardUrl(0);
+        if (!url) return;
+      }
+      
       setLoading(true);
       try {
-        const response = await fetch(`/api/leaderboard?limit=${limit}`);
+        const response = scope === 'archive' ? await fetch(url) : await fetchStandings(url);
         
         if (response.ok) {
           const data = await response.json();
-          setUsers(data.data);
+          if (scope === 'archive') {
+            setArchiveStandings(data.data.standings);
+            setUsers(data.data.standings.slice(0, limit));
+            setHasMore(data.data.standings.length > limit);
+            setScopeLabel(`Final standings · ${data.data.label}`);
+          } else {
+            setUsers(data.data);
+            setHasMore(data.pagination?.hasMore ?? false);
+            setScopeLabel(data.scope?.label ?? null);
+          }
+        } else {
+          setUsers([]);
+          setHasMore(false);
         }
       } catch (error) {
         console.error('Error fetching leaderboard:', error);
@@ -43,7 +175,35 @@ export function Leaderboard() {
     };
 
     fetchLeaderboard();
-  }, [limit]);
+  }, [limit, scope, archiveId, buildLeaderboardUrl, fetchStandings]);
+
+  // Append the next page of standings
+  const handleLoadMore = async () => {
+    if (scope === 'archive') {
+      const next = archiveStandings.slice(0, users.length + limit);
+      setUsers(next);
+      setHasMore(archiveStandings.length > next.length);
+      return;
+    }
+    
+    const url = buildLeaderboardUrl(users.length);
+    if (!url) return;
+    
+    setLoadingMore(true);
+    try {
+      const response = await fetchStandings(url);
+      
+      if (response.ok) {
+        const data = await response.json();
+        setUsers(prev => [...prev, ...data.data]);
+        setHasMore(data.pagination?.hasMore ?? false);
+      }
+    } catch (error) {
+      console.error('Error fetching leaderboard:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   const handleLimitChange = (newLimit: number) => {
     setLimit(newLimit);
@@ -69,28 +229,80 @@ export function Leaderboard() {
     }
   };
 
-  if (loading) {
-    return (
-      <div className="text-center py-12">
-        <div className="inline-block w-12 h-12 border-4 border-red-600 border-t-transparent rounded-full animate-spin"></div>
-      </div>
-    );
-  }
-
-  if (users.length === 0) {
-    return (
-      <div className="text-center py-12">
-        <p className="text-gray-600 dark:text-gray-300 text-lg">
-          No users on the leaderboard yet. Attend events to earn points!
-        </p>
-      </div>
-    );
-  }
-
   return (
     <div>
-      {/* Filter Button - positioned relative to parent */}
-      <div className="flex justify-end mb-6">
+      {/* Scope Selector and Filter Button */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            aria-label="Leaderboard scope"
+            value={scope}
+            onChange={(e) => {
+              setScope(e.target.value as ScopeOption);
+              setScopeLabel(null);
+            }}
+            className={selectClassName}
+          >
+            {SCOPE_OPTIONS.filter((option) => option.value !== 'custom' || user).map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          {scope === 'major-league' && (
+            <select
+              aria-label="Major League month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value as MonthKey | '')}
+              className={selectClassName}
+            >
+              <option value="">Current month</option>
+              {leagueWindows.map((league) => (
+                <option key={league.month} value={league.month}>
+                  {league.label}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {scope === 'custom' && (
+            <>
+              <input
+                type="date"
+                aria-label="Start date"
+                value={customStart}
+                onChange={(e) => setCustomStart(e.target.value)}
+                className={selectClassName}
+              />
+              <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+              <input
+                type="date"
+                aria-label="End date"
+                value={customEnd}
+                min={customStart || undefined}
+                onChange={(e) => setCustomEnd(e.target.value)}
+                className={selectClassName}
+              />
+            </>
+          )}
+
+          {scope === 'archive' && archives.length > 0 && (
+            <select
+              aria-label="Past season"
+              value={archiveId}
+              onChange={(e) => setArchiveId(e.target.value)}
+              className={selectClassName}
+            >
+              {archives.map((archive) => (
+                <option key={archive.id} value={archive.id}>
+                  {archive.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
         <div className="relative">
           <button
             onClick={() => setShowFilter(!showFilter)}
@@ -125,7 +337,36 @@ export function Leaderboard() {
         </div>
       </div>
 
+      {scopeLabel && (
+        <p className="text-center text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-6">
+          {scopeLabel}
+        </p>
+      )}
+
       {/* Leaderboard List */}
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="inline-block w-12 h-12 border-4 border-red-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : scope === 'custom' && (!customStart || !customEnd) ? (
+        <div className="text-center py-12">
+          <p className="text-gray-600 dark:text-gray-300 text-lg">
+            Pick a start and end date to see standings for that range.
+          </p>
+        </div>
+      ) : scope === 'archive' && archives.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-600 dark:text-gray-300 text-lg">
+            No past seasons have been archived yet.
+          </p>
+        </div>
+      ) : users.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-600 dark:text-gray-300 text-lg">
+            No users on the leaderboard yet. Attend events to earn points!
+          </p>
+        </div>
+      ) : (
       <div className="space-y-4">{users.map((user, index) => (
           <div
             key={user.id}
@@ -155,7 +396,7 @@ export function Leaderboard() {
                   index
                 )} flex items-center justify-center text-white font-bold text-lg shadow-lg border-4 border-white dark:border-gray-900`}
               >
-                {index < 3 ? getMedalIcon(index) : `#${index + 1}`}
+                {index < 3 ? getMedalIcon(index) : `#${user.rank ?? index + 1}`}
               </div>
             </div>
 
@@ -194,6 +435,19 @@ export function Leaderboard() {
                 <p className="text-sm text-gray-600 dark:text-gray-400">
                   {user.attendedEvents} {user.attendedEvents === 1 ? 'event' : 'events'} attended
                 </p>
+                {user.badges && user.badges.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {user.badges.map((badgeId) => {
+                      const badge = getBadgeDefinition(badgeId);
+                      if (!badge) return null;
+                      return (
+                        <span key={badgeId} title={`${badge.name}: ${badge.description}`} className="text-lg cursor-default">
+                          {badge.icon}
+                        </span>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
 
               {/* Points */}
@@ -212,6 +466,19 @@ export function Leaderboard() {
           </div>
         ))}
       </div>
+      )}
+
+      {!loading && hasMore && (
+        <div className="flex justify-center mt-6">
+          <button
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+            className="px-6 py-2 bg-white dark:bg-gray-800 border-2 border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loadingMore ? 'Loading...' : 'Show more'}
+          </button>
+        </div>
+      )}
     </div>
   );
 }
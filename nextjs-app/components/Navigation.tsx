@@ -8,6 +8,8 @@ import { ThemeToggle } from '@/components/ThemeToggle';
 import { Button } from '@/components/ui/Button';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
 import { AttendanceCodeModal } from '@/components/AttendanceCodeModal';
+import { hasAnyRole, hasPermission } from '@/lib/constants/roles';
+import { CHAPTER } from '@/lib/chapter';
 
 export default function Navigation() {
   const [isScrolled, setIsScrolled] = useState(false);
@@ -121,8 +123,8 @@ export default function Navigation() {
               }`}></div>
               {/* TTU Logo */}
               <img 
-                src="https://www.ttu.edu/traditions/images/DoubleT.gif" 
-                alt="TTU Logo" 
+                src={CHAPTER.branding.logoUrl} 
+                alt={`${CHAPTER.school.abbreviation} Logo`} 
                 className={`w-auto transition-all duration-300 ${
                   isScrolled ? 'h-6' : 'h-7'
                 }`}
@@ -147,8 +149,8 @@ export default function Navigation() {
                 Team
               </Link>
               
-              {/* Admin dropdown - Show only to admins */}
-              {user && user.isAdmin && (
+              {/* Admin dropdown - Show only to users with an admin role, linking the pages they can use */}
+              {user && hasAnyRole(user) && (
                 <div className="relative" ref={adminDropdownRef}>
                   <button
                     onClick={() => setAdminDropdownOpen(!adminDropdownOpen)}
@@ -170,20 +172,69 @@ export default function Navigation() {
                   {/* Dropdown menu */}
                   {adminDropdownOpen && (
                     <div className="absolute top-full mt-2 right-0 w-48 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-2 z-50">
-                      <Link
-                        href="/admin/events"
-                        className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-                        onClick={() => setAdminDropdownOpen(false)}
-                      >
-                        Events
-                      </Link>
-                      <Link
-                        href="/admin/users"
-                        className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-                        onClick={() => setAdminDropdownOpen(false)}
-                      >
-                        Users
-                      </Link>
+                      {hasPermission(user, 'events:view') && (
+                        <Link
+                          href="/admin/events"
+                          className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                          onClick={() => setAdminDropdownOpen(false)}
+                        >
+                          Events
+                        </Link>
+                      )}
+                      {hasPermission(user, 'users:view') && (
+                        <Link
+                          href="/admin/users"
+                          className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                          onClick={() => setAdminDropdownOpen(false)}
+                        >
+                          Users
+                        </Link>
+                      )}
+                      {hasPermission(user, 'security:view') && (
+                        <Link
+                          href="/admin/security"
+                          className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                          onClick={() => setAdminDropdownOpen(false)}
+                        >
+                          Security
+                        </Link>
+                      )}
+                      {hasPermission(user, 'audit:view') && (
+                        <Link
+                          href="/admin/audit"
+                          className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                          onClick={() => setAdminDropdownOpen(false)}
+                        >
+                          Audit Log
+                        </Link>
+                      )}
+                      {hasPermission(user, 'analytics:view') && (
+                        <Link
+                          href="/admin/analytics"
+                          className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                          onClick={() => setAdminDropdownOpen(false)}
+                        >
+                          Analytics
+                        </Link>
+                      )}
+                      {hasPermission(user, 'members:export') && (
+                        <Link
+                          href="/admin/exports"
+                          className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                          onClick={() => setAdminDropdownOpen(false)}
+                        >
+                          Exports
+                        </Link>
+                      )}
+                      {hasPermission(user, 'system:view') && (
+                        <Link
+                          href="/admin/system"
+                          className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                          onClick={() => setAdminDropdownOpen(false)}
+                        >
+                          System
+                        </Link>
+                      )}
                     </div>
                   )}
                 </div>
@@ -349,26 +400,75 @@ export default function Navigation() {
                 Team
               </Link>
               
-              {/* Admin section - Show only to admins */}
-              {user && user.isAdmin && (
+              {/* Admin section - Show only to users with an admin role */}
+              {user && hasAnyRole(user) && (
                 <>
                   <div className="px-3 py-2 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                     Admin
                   </div>
-                  <Link 
-                    href="/admin/events" 
-                    className="block text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50 dark:hover:bg-gray-800 px-3 py-3 rounded-md text-base font-medium transition-colors duration-100 min-h-[44px]"
-                    onClick={() => setMobileMenuOpen(false)}
-                  >
-                    Events
-                  </Link>
-                  <Link 
-                    href="/admin/users" 
-                    className="block text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50 dark:hover:bg-gray-800 px-3 py-3 rounded-md text-base font-medium transition-colors duration-100 min-h-[44px]"
-                    onClick={() => setMobileMenuOpen(false)}
-                  >
-                    Users
-                  </Link>
+                  {hasPermission(user, 'events:view') && (
+                    <Link 
+                      href="/admin/events" 
+                      className="block text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50 dark:hover:bg-gray-800 px-3 py-3 rounded-md text-base font-medium transition-colors duration-100 min-h-[44px]"
+                      onClick={() => setMobileMenuOpen(false)}
+                    >
+                      Events
+                    </Link>
+                  )}
+                  {hasPermission(user, 'users:view') && (
+                    <Link 
+                      href="/admin/users" 
+                      className="block text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50 dark:hover:bg-gray-800 px-3 py-3 rounded-md text-base font-medium transition-colors duration-100 min-h-[44px]"
+                      onClick={() => setMobileMenuOpen(false)}
+                    >
+                      Users
+                    </Link>
+                  )}
+                  {hasPermission(user, 'security:view') && (
+                    <Link 
+                      href="/admin/security" 
+                      className="block text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50 dark:hover:bg-gray-800 px-3 py-3 rounded-md text-base font-medium transition-colors duration-100 min-h-[44px]"
+                      onClick={() => setMobileMenuOpen(false)}
+                    >
+                      Security
+                    </Link>
+                  )}
+                  {hasPermission(user, 'audit:view') && (
+                    <Link 
+                      href="/admin/audit" 
+                      className="block text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50 dark:hover:bg-gray-800 px-3 py-3 rounded-md text-base font-medium transition-colors duration-100 min-h-[44px]"
+                      onClick={() => setMobileMenuOpen(false)}
+                    >
+                      Audit Log
+                    </Link>
+                  )}
+                  {hasPermission(user, 'analytics:view') && (
+                    <Link 
+                      href="/admin/analytics" 
+                      className="block text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50 dark:hover:bg-gray-800 px-3 py-3 rounded-md text-base font-medium transition-colors duration-100 min-h-[44px]"
+                      onClick={() => setMobileMenuOpen(false)}
+                    >
+                      Analytics
+                    </Link>
+                  )}
+                  {hasPermission(user, 'members:export') && (
+                    <Link 
+                      href="/admin/exports" 
+                      className="block text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50 dark:hover:bg-gray-800 px-3 py-3 rounded-md text-base font-medium transition-colors duration-100 min-h-[44px]"
+                      onClick={() => setMobileMenuOpen(false)}
+                    >
+                      Exports
+                    </Link>
+                  )}
+                  {hasPermission(user, 'system:view') && (
+                    <Link 
+                      href="/admin/system" 
+                      className="block text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50 dark:hover:bg-gray-800 px-3 py-3 rounded-md text-base font-medium transition-colors duration-100 min-h-[44px]"
+                      onClick={() => setMobileMenuOpen(false)}
+                    >
+                      System
+                    </Link>
+                  )}
                 </>
               )}
               
@@ -0,0 +1,205 @@
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/useToastCompat';
+import { Button } from '@/components/ui/Button';
+import { CHAPTER, SCHOOL_EMAIL_EXAMPLE, isSchoolEmail } from '@/lib/chapter';
+import { ERROR_MESSAGES } from '@/lib/constants/errorMessages';
+import { UNIVERSITY_LEVELS } from '@/lib/constants/universityLevels';
+import { updateUserProfile } from '@/lib/services/userProfile.client';
+import type { UniversityLevel } from '@/lib/types';
+
+/**
+ * ReverificationPrompt Component
+ *
+ * Annual student status check shown on the profile page.
+ * Features:
+ * - Prompts members whose re-verification cycle is open, with the deadline
+ * - Lets alumni and inactive members confirm they are students again
+ * - Re-sends and checks a school email code, then confirms the university level
+ * - Hidden for members who have already confirmed this academic year
+ */
+export function ReverificationPrompt() {
+  const { user, refreshUser } = useAuth();
+  const toast = useToast();
+  const [ttuEmail, setTtuEmail] = useState(user?.ttuEmail || '');
+  const [universityLevel, setUniversityLevel] = useState<UniversityLevel>(user?.universityLevel || 'freshman');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user) return null;
+
+  const status = user.memberStatus || 'active';
+  const isPending = status === 'active' && !!user.reverificationDueAt;
+
+  if (!isPending && status === 'active') return null;
+
+  const dueDate = user.reverificationDueAt?.toDate().toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  const getAuthHeaders = async () => {
+    const { auth } = await import('@/lib/firebase/config');
+    const token = await auth.currentUser?.getIdToken();
+
+    if (!token) {
+      throw new Error('User not authenticated');
+    }
+
+    return {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    };
+  };
+
+  const handleSendCode = async () => {
+    if (!isSchoolEmail(ttuEmail)) {
+      setError(ERROR_MESSAGES.TTU_EMAIL_INVALID);
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      setError(null);
+
+      const response = await fetch('/api/verification/send-code', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ ttuEmail }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send verification code');
+      }
+
+      setCodeSent(true);
+      toast.showSuccess(`Verification code sent to ${ttuEmail}`);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/^\d{6}$/.test(code)) {
+      setError('Please enter the 6-digit code');
+      return;
+    }
+
+    try {
+      setIsVerifying(true);
+      setError(null);
+
+      const response = await fetch('/api/verification/verify-code', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ code }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.verified) {
+        throw new Error(result.error || ERROR_MESSAGES.VERIFICATION_CODE_INVALID);
+      }
+
+      await updateUserProfile(user.uid, { ttuEmail, universityLevel });
+      await refreshUser();
+      toast.showSuccess('Student status confirmed. Thanks!');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 rounded-2xl border border-yellow-200 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20 p-6">
+      <h2 className="text-lg font-semibold text-yellow-900 dark:text-yellow-200">
+        {isPending ? 'Confirm you are still a student' : `Your membership is marked ${status}`}
+      </h2>
+      <p className="mt-1 text-sm text-yellow-800 dark:text-yellow-300">
+        {isPending
+          ? `Each academic year we ask members to re-confirm their ${CHAPTER.school.abbreviation} email. Please confirm by ${dueDate}, or your membership will be marked alumni or inactive.`
+          : `Alumni and inactive members keep their history but don't appear on seasonal leaderboards. If you're still a ${CHAPTER.school.shortName} student, confirm your ${CHAPTER.school.abbreviation} email to become active again.`}
+      </p>
+
+      <form onSubmit={handleConfirm} className="mt-4 grid gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="reverifyEmail" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+            {CHAPTER.school.abbreviation} Email
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="email"
+              id="reverifyEmail"
+              placeholder={SCHOOL_EMAIL_EXAMPLE}
+              value={ttuEmail}
+              onChange={(e) => setTtuEmail(e.target.value)}
+              disabled={isSending || isVerifying}
+              className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+            <Button type="button" onClick={handleSendCode} disabled={isSending || isVerifying} variant="outline">
+              {isSending ? 'Sending...' : codeSent ? 'Resend' : 'Send Code'}
+            </Button>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="reverifyLevel" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+            University Level
+          </label>
+          <select
+            id="reverifyLevel"
+            value={universityLevel}
+            onChange={(e) => setUniversityLevel(e.target.value as UniversityLevel)}
+            disabled={isVerifying}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+          >
+            {UNIVERSITY_LEVELS.map((level) => (
+              <option key={level.value} value={level.value}>{level.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {codeSent && (
+          <div>
+            <label htmlFor="reverifyCode" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+              Verification Code
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                id="reverifyCode"
+                inputMode="numeric"
+                placeholder="000000"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                disabled={isVerifying}
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white tracking-widest focus:outline-none focus:ring-2 focus:ring-red-500"
+                maxLength={6}
+              />
+              <Button type="submit" disabled={isVerifying || code.length !== 6}>
+                {isVerifying ? 'Confirming...' : 'Confirm'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </form>
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -7,3 +7,7 @@ export { LoadingScreen } from './LoadingScreen';
 export { EventCard } from './EventCard';
 export { AttendanceCodeInput } from './AttendanceCodeInput';
 export { AdminEventControls } from './AdminEventControls';
+export { CheckInBadge } from './CheckInBadge';
+export { CalendarFeedCard } from './CalendarFeedCard';
+export { ReverificationPrompt } from './ReverificationPrompt';
+export { CheckInScanner } from './CheckInScanner';
@@ -2,13 +2,15 @@
 
 import { useState } from 'react';
 import { z } from 'zod';
+import { CHAPTER, SCHOOL_EMAIL_EXAMPLE, isSchoolEmail } from '@/lib/chapter';
+import { ERROR_MESSAGES } from '@/lib/constants/errorMessages';
 
-// Validation schema for TTU email
+// Validation schema for school email
 const ttuEmailSchema = z.object({
   ttuEmail: z
     .string()
     .email('Invalid email format')
-    .regex(/@ttu\.edu$/, 'Must be a valid TTU email address (@ttu.edu)'),
+    .refine(isSchoolEmail, ERROR_MESSAGES.TTU_EMAIL_INVALID),
 });
 
 export type TTUEmailData = z.infer<typeof ttuEmailSchema>;
@@ -48,7 +50,7 @@ export default function TTUEmailStep({ data, onNext, onBack }: TTUEmailStepProps
       
       if (result.exists) {
         setErrors({
-          ttuEmail: 'This TTU email is already registered to another account.',
+          ttuEmail: ERROR_MESSAGES.TTU_EMAIL_DUPLICATE,
         });
         setIsChecking(false);
         return;
@@ -85,20 +87,20 @@ export default function TTUEmailStep({ data, onNext, onBack }: TTUEmailStepProps
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div>
-        <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">TTU Email Verification</h2>
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{CHAPTER.school.abbreviation} Email Verification</h2>
         <p className="text-gray-600 dark:text-gray-300">
-          Enter your Texas Tech University email address to verify your account
+          Enter your {CHAPTER.school.name} email address to verify your account
         </p>
       </div>
 
       <div>
         <label htmlFor="ttuEmail" className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
-          TTU Email Address *
+          {CHAPTER.school.abbreviation} Email Address *
         </label>
         <input
           type="email"
           id="ttuEmail"
-          placeholder="username@ttu.edu"
+          placeholder={SCHOOL_EMAIL_EXAMPLE}
           value={formData.ttuEmail || ''}
           onChange={(e) => handleChange(e.target.value)}
           disabled={isChecking}
@@ -131,7 +133,7 @@ export default function TTUEmailStep({ data, onNext, onBack }: TTUEmailStepProps
             <h3 className="text-sm font-medium text-blue-800">Important</h3>
             <div className="mt-2 text-sm text-blue-700">
               <ul className="list-disc list-inside space-y-1">
-                <li>Each TTU email can only be used for one account</li>
+                <li>Each {CHAPTER.school.abbreviation} email can only be used for one account</li>
                 <li>You will have 3 attempts to enter the correct verification code</li>
                 <li>The verification code expires in 10 minutes</li>
               </ul>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 
 export interface VerificationCodeData {
   code: string;
@@ -11,6 +11,8 @@ interface VerificationCodeStepProps {
   onNext: (data: VerificationCodeData) => Promise<void>;
   onBack: () => void;
   remainingAttempts: number;
+  onResend: () => Promise<void>;
+  resendAvailableAt: number | null;   // Epoch ms when another code may be requested
 }
 
 export default function VerificationCodeStep({
@@ -18,10 +20,36 @@ export default function VerificationCodeStep({
   onNext,
   onBack,
   remainingAttempts,
+  onResend,
+  resendAvailableAt,
 }: VerificationCodeStepProps) {
   const [code, setCode] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isVerifying, setIsVerifying] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick while the resend cooldown counts down
+  useEffect(() => {
+    if (!resendAvailableAt || resendAvailableAt <= Date.now()) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [resendAvailableAt]);
+
+  const resendSeconds = resendAvailableAt ? Math.max(Math.ceil((resendAvailableAt - now) / 1000), 0) : 0;
+
+  const handleResend = async () => {
+    try {
+      setIsResending(true);
+      setError(null);
+      setCode('');
+      await onResend();
+    } finally {
+      setIsResending(false);
+      setNow(Date.now());
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -119,7 +147,7 @@ export default function VerificationCodeStep({
                 {remainingAttempts !== 1 ? 's' : ''} remaining.
                 {remainingAttempts === 1 && (
                   <span className="block mt-1 font-medium">
-                    If this attempt fails, your account will be deleted and you'll need to sign up again.
+                    If this attempt fails, you'll need to wait 15 minutes and request a new code.
                   </span>
                 )}
               </p>
@@ -149,6 +177,18 @@ export default function VerificationCodeStep({
                 <li>Make sure you entered the correct email address</li>
                 <li>The code expires in 10 minutes</li>
               </ul>
+              <button
+                type="button"
+                onClick={handleResend}
+                disabled={isVerifying || isResending || resendSeconds > 0}
+                className="mt-3 font-medium text-blue-800 underline hover:text-blue-900 disabled:opacity-50 disabled:cursor-not-allowed disabled:no-underline"
+              >
+                {isResending
+                  ? 'Sending...'
+                  : resendSeconds > 0
+                    ? `Resend code in ${resendSeconds}s`
+                    : 'Resend code'}
+              </button>
             </div>
           </div>
         </div>
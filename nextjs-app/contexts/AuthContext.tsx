@@ -66,17 +66,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  // Store Firebase ID token in cookie via API route
+  // Exchange the Firebase ID token for a session cookie via API route
+  // The server asks for one forced token refresh when custom claims changed
+  // (e.g. onboarding just completed) so the session carries the new claims
   const storeAuthToken = async (firebaseUser: FirebaseUser) => {
     try {
-      const idToken = await firebaseUser.getIdToken();
-      await fetch('/api/auth/session', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ idToken }),
-      });
+      for (let attempt = 0; attempt < 2; attempt++) {
+        const idToken = await firebaseUser.getIdToken(attempt > 0);
+        const response = await fetch('/api/auth/session', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ idToken }),
+        });
+        
+        const data = await response.json().catch(() => ({}));
+        if (!data.refreshRequired) {
+          break;
+        }
+      }
     } catch (err) {
       console.error('Error storing auth token:', err);
       // Non-critical error, continue with authentication
@@ -131,11 +140,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  // Refresh user profile from Firestore
+  // Refresh user profile from Firestore (and the session, whose claims follow the profile)
   const refreshUser = async () => {
     const currentUser = auth.currentUser;
     if (currentUser) {
       try {
+        await storeAuthToken(currentUser);
         const userProfile = await fetchUserProfile(currentUser);
         setUser(userProfile);
       } catch (err) {
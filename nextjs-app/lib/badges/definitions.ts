@@ -0,0 +1,50 @@
+import type { BadgeDefinition, BadgeId } from '../types';
+
+/**
+ * All achievement badges, in display order
+ * Add a badge by adding a definition here; the engine evaluates its criteria.
+ */
+export const BADGE_DEFINITIONS: BadgeDefinition[] = [
+  {
+    id: 'first-event',
+    name: 'First Steps',
+    description: 'Attended your first event',
+    icon: '🎉',
+    criteria: { type: 'eventCount', count: 1 },
+  },
+  {
+    id: 'semester-regular',
+    name: 'Semester Regular',
+    description: 'Attended 5 events in a single semester',
+    icon: '📚',
+    criteria: { type: 'eventsInSemester', count: 5 },
+  },
+  {
+    id: 'workshop-streak',
+    name: 'Workshop Streak',
+    description: 'Attended 3 workshops in a row',
+    icon: '🛠️',
+    criteria: { type: 'categoryStreak', category: 'workshop', count: 3 },
+  },
+  {
+    id: 'top-ten',
+    name: 'Top 10',
+    description: 'Reached the top 10 on the leaderboard',
+    icon: '🏅',
+    criteria: { type: 'leaderboardRank', rank: 10 },
+  },
+  {
+    id: 'major-league-month',
+    name: 'Major Leaguer',
+    description: 'Completed a Major League month (kickoff and demo day)',
+    icon: '⚾',
+    criteria: { type: 'majorLeagueMonth', minEvents: 2 },
+  },
+];
+
+/**
+ * Look up a badge definition by ID
+ */
+export function getBadgeDefinition(id: BadgeId): BadgeDefinition | undefined {
+  return BADGE_DEFINITIONS.find((badge) => badge.id === id);
+}
@@ -0,0 +1,84 @@
+import type { BadgeCriteria, BadgeId, EventCategory } from '../types';
+import { getSemester } from '../semester';
+import { BADGE_DEFINITIONS } from './definitions';
+
+/**
+ * Badge Engine
+ * 
+ * Pure rule evaluation shared by the server badge service and the backfill
+ * script. Callers gather the facts; the engine decides which badges they earn.
+ */
+
+/**
+ * Everything the badge rules need to know about a member
+ */
+export interface BadgeFacts {
+  attendance: { eventId: string; date: Date }[];
+  // Every held (non-cancelled) event of each category used by a rule, oldest first
+  eventsByCategory: Partial<Record<EventCategory, string[]>>;
+  leaderboardRank: number | null;          // null when the member has no points
+  majorLeagueWindows: { start: Date; end: Date }[]; // end is exclusive
+}
+
+/**
+ * Categories whose event history the rules need
+ */
+export function getStreakCategories(): EventCategory[] {
+  return BADGE_DEFINITIONS
+    .map((badge) => badge.criteria)
+    .filter((criteria): criteria is Extract<BadgeCriteria, { type: 'categoryStreak' }> =>
+      criteria.type === 'categoryStreak'
+    )
+    .map((criteria) => criteria.category);
+}
+
+/**
+ * Check a single criteria against the facts
+ */
+function meetsCriteria(criteria: BadgeCriteria, facts: BadgeFacts): boolean {
+  switch (criteria.type) {
+    case 'eventCount':
+      return facts.attendance.length >= criteria.count;
+    
+    case 'eventsInSemester': {
+      const perSemester = new Map<string, number>();
+      for (const { date } of facts.attendance) {
+        const key = getSemester(date).key;
+        perSemester.set(key, (perSemester.get(key) ?? 0) + 1);
+      }
+      return Array.from(perSemester.values()).some((count) => count >= criteria.count);
+    }
+    
+    case 'categoryStreak': {
+      const attended = new Set(facts.attendance.map((item) => item.eventId));
+      let streak = 0;
+      for (const eventId of facts.eventsByCategory[criteria.category] ?? []) {
+        streak = attended.has(eventId) ? streak + 1 : 0;
+        if (streak >= criteria.count) {
+          return true;
+        }
+      }
+      return false;
+    }
+    
+    case 'leaderboardRank':
+      return facts.leaderboardRank !== null && facts.leaderboardRank <= criteria.rank;
+    
+    case 'majorLeagueMonth':
+      return facts.majorLeagueWindows.some(({ start, end }) =>
+        facts.attendance.filter(({ date }) => date >= start && date < end).length >= criteria.minEvents
+      );
+  }
+}
+
+/**
+ * Get every badge the facts qualify for
+ * 
+ * @param facts - Member facts
+ * @returns IDs of earned badges, in definition order
+ */
+export function evaluateBadges(facts: BadgeFacts): BadgeId[] {
+  return BADGE_DEFINITIONS
+    .filter((badge) => meetsCriteria(badge.criteria, facts))
+    .map((badge) => badge.id);
+}
@@ -0,0 +1,3 @@
+// Export everything from the badges module
+export * from './definitions';
+export * from './engine';
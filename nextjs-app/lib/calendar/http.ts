@@ -0,0 +1,46 @@
+/**
+ * Shared HTTP helpers for calendar providers
+ */
+
+/**
+ * Wait used when a provider rate limits without a Retry-After header
+ */
+export const DEFAULT_RETRY_AFTER_MS = 5 * 1000;
+
+/**
+ * Convert a Retry-After header (seconds or an HTTP date) to milliseconds
+ * 
+ * @param value - Header value, if present
+ * @returns Milliseconds to wait before retrying
+ */
+export function parseRetryAfterMs(value: string | null | undefined): number {
+  if (!value) {
+    return DEFAULT_RETRY_AFTER_MS;
+  }
+  
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  
+  return DEFAULT_RETRY_AFTER_MS;
+}
+
+/**
+ * Short error description from a failed response body
+ * 
+ * @param status - HTTP status
+ * @param body - Parsed JSON or raw text of the response
+ */
+export function describeHttpError(status: number, body: unknown): string {
+  const message = typeof body === 'string'
+    ? body
+    : (body as { error?: { message?: string } } | null)?.error?.message ?? JSON.stringify(body);
+  
+  return `HTTP ${status}: ${(message || '').substring(0, 100)}`;
+}
@@ -0,0 +1,248 @@
+import 'server-only';
+import type { CalendarOperation, CalendarOperationResult, CalendarProvider } from './types';
+import { createFakeCalendarProvider } from './providers/fake';
+import { createGoogleCalendarProvider } from './providers/google';
+import { createGraphCalendarProvider } from './providers/graph';
+
+export type {
+  CalendarEventDetails,
+  CalendarOperation,
+  CalendarOperationResult,
+  CalendarProvider,
+} from './types';
+export {
+  createFakeCalendarProvider,
+  type FakeCalendarCall,
+  type FakeCalendarOptions,
+  type FakeCalendarProvider,
+} from './providers/fake';
+
+/**
+ * Calendar Providers
+ * 
+ * Provider-neutral calendar invitations including:
+ * - Pluggable providers: Microsoft Graph, Google Calendar, or an in-memory fake
+ * - Fan-out of many operations as provider batches, a few at a time
+ * - Retrying rate-limited operations after the provider's Retry-After
+ * 
+ * The provider is chosen by CALENDAR_PROVIDER ('graph' | 'google' | 'fake').
+ * Without it, Graph is used when MICROSOFT_* credentials are set, then
+ * Google when GOOGLE_CALENDAR_* credentials are set; otherwise invitations
+ * are not configured. The Graph and Google base URLs can be overridden to
+ * run against a local HTTP stand-in.
+ */
+
+/**
+ * Provider batches in flight at once
+ */
+const MAX_CONCURRENT_BATCHES = 3;
+
+/**
+ * Rounds of retries for rate-limited operations, and the longest
+ * Retry-After honoured in-process (longer waits are left to the caller)
+ */
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+
+/**
+ * Result of one operation after retries
+ */
+export interface CalendarOperationOutcome {
+  operation: CalendarOperation;
+  result: CalendarOperationResult;
+  attempts: number;
+}
+
+let provider: CalendarProvider | null | undefined;
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Name of the provider configured by the environment, or null if none is
+ */
+function getConfiguredProviderName(): string | null {
+  if (process.env.CALENDAR_PROVIDER) {
+    return process.env.CALENDAR_PROVIDER;
+  }
+  
+  if (process.env.MICROSOFT_TENANT_ID && process.env.MICROSOFT_CLIENT_ID && process.env.MICROSOFT_CLIENT_SECRET) {
+    return 'graph';
+  }
+  
+  if (process.env.GOOGLE_CALENDAR_CLIENT_EMAIL && process.env.GOOGLE_CALENDAR_PRIVATE_KEY) {
+    return 'google';
+  }
+  
+  return null;
+}
+
+/**
+ * Create the provider configured by the environment
+ * 
+ * @throws Error if the provider is unknown or missing required settings
+ */
+function createProvider(name: string): CalendarProvider {
+  switch (name) {
+    case 'graph': {
+      const { MICROSOFT_TENANT_ID, MICROSOFT_CLIENT_ID, MICROSOFT_CLIENT_SECRET } = process.env;
+      if (!MICROSOFT_TENANT_ID || !MICROSOFT_CLIENT_ID || !MICROSOFT_CLIENT_SECRET) {
+        throw new Error('Microsoft Graph API credentials not configured');
+      }
+      return createGraphCalendarProvider({
+        tenantId: MICROSOFT_TENANT_ID,
+        clientId: MICROSOFT_CLIENT_ID,
+        clientSecret: MICROSOFT_CLIENT_SECRET,
+        calendarUser: process.env.MICROSOFT_CALENDAR_USER,
+        graphBaseUrl: process.env.MICROSOFT_GRAPH_BASE_URL,
+        loginBaseUrl: process.env.MICROSOFT_LOGIN_BASE_URL,
+      });
+    }
+    
+    case 'google': {
+      const { GOOGLE_CALENDAR_CLIENT_EMAIL, GOOGLE_CALENDAR_PRIVATE_KEY } = process.env;
+      if (!GOOGLE_CALENDAR_CLIENT_EMAIL || !GOOGLE_CALENDAR_PRIVATE_KEY) {
+        throw new Error('Google Calendar credentials not configured');
+      }
+      return createGoogleCalendarProvider({
+        clientEmail: GOOGLE_CALENDAR_CLIENT_EMAIL,
+        privateKey: GOOGLE_CALENDAR_PRIVATE_KEY.replace(/\\n/g, '\n'),
+        calendarId: process.env.GOOGLE_CALENDAR_ID || 'primary',
+        subject: process.env.GOOGLE_CALENDAR_SUBJECT,
+        apiBaseUrl: process.env.GOOGLE_CALENDAR_API_BASE_URL,
+        tokenUrl: process.env.GOOGLE_CALENDAR_TOKEN_URL,
+      });
+    }
+    
+    case 'fake':
+      return createFakeCalendarProvider();
+    
+    default:
+      throw new Error(`Unknown CALENDAR_PROVIDER: ${name}`);
+  }
+}
+
+/**
+ * Check whether a calendar provider is configured
+ * 
+ * @returns true if invitations can be sent
+ */
+export function isCalendarConfigured(): boolean {
+  return provider !== undefined ? provider !== null : getConfiguredProviderName() !== null;
+}
+
+/**
+ * Get the configured provider, creating it on first use
+ * 
+ * @throws Error if no provider is configured
+ */
+export function getCalendarProvider(): CalendarProvider {
+  if (provider === undefined) {
+    const name = getConfiguredProviderName();
+    provider = name ? createProvider(name) : null;
+  }
+  
+  if (!provider) {
+    throw new Error('No calendar provider configured');
+  }
+  
+  return provider;
+}
+
+/**
+ * Replace the provider, e.g. with a fake in tests
+ * Pass undefined to go back to the environment's provider.
+ */
+export function setCalendarProvider(replacement: CalendarProvider | null | undefined): void {
+  provider = replacement;
+}
+
+// ============================================================================
+// Fan-out
+// ============================================================================
+
+/**
+ * Run a task for each item with at most limit running at once
+ */
+async function forEachConcurrently<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await task(item);
+    }
+  });
+  
+  await Promise.all(workers);
+}
+
+/**
+ * Run operations against the configured provider
+ * Operations are split into provider-sized batches with a few batches in
+ * flight at once. Rate-limited operations are retried together after the
+ * longest Retry-After reported; anything still rate limited afterwards is
+ * returned with its retryAfterMs so the caller can schedule a later retry.
+ * 
+ * @param operations - Operations to run
+ * @returns Outcome per operation, in the same order
+ * @throws Error if no provider is configured
+ */
+export async function runCalendarOperations(operations: CalendarOperation[]): Promise<CalendarOperationOutcome[]> {
+  const calendarProvider = getCalendarProvider();
+  const outcomes: CalendarOperationOutcome[] = operations.map((operation) => ({
+    operation,
+    result: { ok: false, error: 'Not attempted' },
+    attempts: 0,
+  }));
+  let pending = operations.map((_, index) => index);
+  
+  for (let round = 0; pending.length > 0; round++) {
+    const batches: number[][] = [];
+    for (let i = 0; i < pending.length; i += calendarProvider.maxBatchSize) {
+      batches.push(pending.slice(i, i + calendarProvider.maxBatchSize));
+    }
+    
+    const rateLimited: number[] = [];
+    let retryAfterMs = 0;
+    
+    await forEachConcurrently(batches, MAX_CONCURRENT_BATCHES, async (batch) => {
+      let results: CalendarOperationResult[];
+      
+      try {
+        results = await calendarProvider.execute(batch.map((index) => operations[index]));
+      } catch (error) {
+        // Nothing in the batch was attempted (e.g. authentication failed)
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Calendar ${calendarProvider.name} batch failed:`, message);
+        results = batch.map(() => ({ ok: false, error: message }));
+      }
+      
+      batch.forEach((index, position) => {
+        const result = results[position] ?? { ok: false, error: 'No result from provider' };
+        outcomes[index].result = result;
+        outcomes[index].attempts++;
+        
+        if (!result.ok && result.retryAfterMs !== undefined) {
+          rateLimited.push(index);
+          retryAfterMs = Math.max(retryAfterMs, result.retryAfterMs);
+        }
+      });
+    });
+    
+    if (rateLimited.length === 0 || round >= MAX_RATE_LIMIT_RETRIES || retryAfterMs > MAX_RETRY_AFTER_MS) {
+      break;
+    }
+    
+    console.warn(`Calendar ${calendarProvider.name} rate limited ${rateLimited.length} operation(s); retrying in ${retryAfterMs}ms`);
+    await new Promise((resolve) => setTimeout(resolve, retryAfterMs));
+    pending = rateLimited.sort((a, b) => a - b);
+  }
+  
+  return outcomes;
+}
@@ -0,0 +1,108 @@
+import { randomUUID } from 'crypto';
+import type {
+  CalendarEventDetails,
+  CalendarOperation,
+  CalendarOperationResult,
+  CalendarProvider,
+} from '../types';
+
+export interface FakeCalendarOptions {
+  maxBatchSize?: number;
+  failRecipients?: string[];     // Attendees whose invitations always fail
+  rateLimitedRequests?: number;  // Reject this many execute() calls as rate limited first
+  retryAfterMs?: number;         // Retry-After reported when rate limiting
+}
+
+/**
+ * Operation the fake received, with the result it returned
+ */
+export interface FakeCalendarCall {
+  request: number;               // Which execute() call it arrived in (1-based)
+  operation: CalendarOperation;
+  result: CalendarOperationResult;
+}
+
+/**
+ * Event the fake holds for one attendee
+ */
+export interface FakeCalendarEvent {
+  attendee: string;
+  details: CalendarEventDetails;
+  cancelled: boolean;
+}
+
+export interface FakeCalendarProvider extends CalendarProvider {
+  calls: FakeCalendarCall[];
+  events: Map<string, FakeCalendarEvent>;
+  reset(): void;
+}
+
+/**
+ * In-memory provider for development and tests
+ * Nothing is sent: events are kept in memory, every operation is recorded
+ * in calls, and failures and rate limiting can be injected.
+ */
+export function createFakeCalendarProvider(options: FakeCalendarOptions = {}): FakeCalendarProvider {
+  const failRecipients = new Set(options.failRecipients ?? []);
+  const calls: FakeCalendarCall[] = [];
+  const events = new Map<string, FakeCalendarEvent>();
+  let requests = 0;
+  
+  function apply(operation: CalendarOperation): CalendarOperationResult {
+    if (operation.kind === 'create') {
+      if (failRecipients.has(operation.attendee)) {
+        return { ok: false, error: `Fake failure for ${operation.attendee}` };
+      }
+      
+      const providerEventId = `fake-${randomUUID()}`;
+      events.set(providerEventId, { attendee: operation.attendee, details: operation.details, cancelled: false });
+      return { ok: true, providerEventId };
+    }
+    
+    const event = events.get(operation.providerEventId);
+    
+    if (operation.kind === 'cancel') {
+      if (event) {
+        event.cancelled = true;
+      }
+      return { ok: true };
+    }
+    
+    if (!event || event.cancelled) {
+      return { ok: false, error: `Fake event ${operation.providerEventId} not found` };
+    }
+    
+    event.details = operation.details;
+    return { ok: true };
+  }
+  
+  return {
+    name: 'fake',
+    maxBatchSize: options.maxBatchSize ?? 20,
+    calls,
+    events,
+    reset() {
+      calls.length = 0;
+      events.clear();
+      requests = 0;
+    },
+    async execute(operations: CalendarOperation[]): Promise<CalendarOperationResult[]> {
+      requests++;
+      const request = requests;
+      const rateLimited = request <= (options.rateLimitedRequests ?? 0);
+      
+      const results = operations.map((operation): CalendarOperationResult => {
+        const result: CalendarOperationResult = rateLimited
+          ? { ok: false, error: 'HTTP 429: Fake rate limit', retryAfterMs: options.retryAfterMs ?? 0 }
+          : apply(operation);
+        
+        calls.push({ request, operation, result });
+        return result;
+      });
+      
+      console.log(`[calendar fake] request ${request}: ${operations.length} operation(s)${rateLimited ? ' rate limited' : ''}`);
+      
+      return results;
+    },
+  };
+}
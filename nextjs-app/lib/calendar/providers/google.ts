@@ -0,0 +1,210 @@
+import { createSign } from 'crypto';
+import type {
+  CalendarEventDetails,
+  CalendarOperation,
+  CalendarOperationResult,
+  CalendarProvider,
+} from '../types';
+import { describeHttpError, parseRetryAfterMs } from '../http';
+
+export interface GoogleCalendarConfig {
+  clientEmail: string;           // Service account email
+  privateKey: string;            // Service account PEM key
+  calendarId: string;            // Calendar invitations are sent from
+  subject?: string;              // User to impersonate (domain-wide delegation)
+  apiBaseUrl?: string;           // Overridable to point at a local stand-in
+  tokenUrl?: string;
+}
+
+const DEFAULT_API_BASE_URL = 'https://www.googleapis.com/calendar/v3';
+const DEFAULT_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const CALENDAR_SCOPE = 'https://www.googleapis.com/auth/calendar.events';
+
+/**
+ * Google has no practical JSON batch for Calendar, so this many requests
+ * are sent in parallel per batch instead
+ */
+const GOOGLE_MAX_BATCH_SIZE = 10;
+
+const TOKEN_LIFETIME_SECONDS = 3600;
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Errors Google returns with 403 when a quota, not permission, was hit
+ */
+const RATE_LIMIT_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded']);
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Convert event details to the Calendar API event schema
+ */
+function toGoogleEvent(details: CalendarEventDetails) {
+  return {
+    summary: details.title,
+    description: details.description,
+    location: details.location,
+    start: { dateTime: details.start.toISOString(), timeZone: details.timeZone },
+    end: { dateTime: details.end.toISOString(), timeZone: details.timeZone },
+  };
+}
+
+/**
+ * Whether a failed response was throttling
+ */
+function isRateLimited(status: number, body: unknown): boolean {
+  if (status === 429) {
+    return true;
+  }
+  
+  if (status !== 403) {
+    return false;
+  }
+  
+  const errors = (body as { error?: { errors?: Array<{ reason?: string }> } } | null)?.error?.errors ?? [];
+  return errors.some((error) => RATE_LIMIT_REASONS.has(error.reason ?? ''));
+}
+
+/**
+ * Google Calendar provider
+ * Authenticates as a service account and creates events on calendarId
+ * with the recipient as attendee; sendUpdates=all makes Google email the
+ * invitation, update and cancellation.
+ */
+export function createGoogleCalendarProvider(config: GoogleCalendarConfig): CalendarProvider {
+  const apiBaseUrl = config.apiBaseUrl || DEFAULT_API_BASE_URL;
+  const tokenUrl = config.tokenUrl || DEFAULT_TOKEN_URL;
+  const eventsUrl = `${apiBaseUrl}/calendars/${encodeURIComponent(config.calendarId)}/events`;
+  let cachedToken: { value: string; expiresAt: number } | null = null;
+  
+  /**
+   * Exchange a signed service account assertion for an access token
+   */
+  async function getAccessToken(): Promise<string> {
+    if (cachedToken && cachedToken.expiresAt > Date.now()) {
+      return cachedToken.value;
+    }
+    
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const claims = base64Url(JSON.stringify({
+      iss: config.clientEmail,
+      scope: CALENDAR_SCOPE,
+      aud: tokenUrl,
+      iat: issuedAt,
+      exp: issuedAt + TOKEN_LIFETIME_SECONDS,
+      ...(config.subject ? { sub: config.subject } : {}),
+    }));
+    const signature = createSign('RSA-SHA256')
+      .update(`${header}.${claims}`)
+      .sign(config.privateKey)
+      .toString('base64url');
+    
+    const response = await fetch(tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: `${header}.${claims}.${signature}`,
+      }).toString(),
+    });
+    
+    if (!response.ok) {
+      console.error('Google token acquisition failed:', await response.text());
+      throw new Error(`Failed to acquire access token: ${response.status}`);
+    }
+    
+    const data = await response.json();
+    
+    if (!data.access_token) {
+      throw new Error('No access token in response');
+    }
+    
+    cachedToken = {
+      value: data.access_token,
+      expiresAt: Date.now() + (Number(data.expires_in) || TOKEN_LIFETIME_SECONDS) * 1000 - TOKEN_EXPIRY_MARGIN_MS,
+    };
+    
+    return cachedToken.value;
+  }
+  
+  /**
+   * Run one operation against the Calendar API
+   */
+  async function executeOne(accessToken: string, operation: CalendarOperation): Promise<CalendarOperationResult> {
+    let url: string;
+    let init: RequestInit;
+    
+    switch (operation.kind) {
+      case 'create':
+        url = eventsUrl;
+        init = {
+          method: 'POST',
+          body: JSON.stringify({ ...toGoogleEvent(operation.details), attendees: [{ email: operation.attendee }] }),
+        };
+        break;
+      
+      case 'update':
+        // Attendees are left out so recipients keep their responses
+        url = `${eventsUrl}/${encodeURIComponent(operation.providerEventId)}`;
+        init = { method: 'PATCH', body: JSON.stringify(toGoogleEvent(operation.details)) };
+        break;
+      
+      case 'cancel':
+        url = `${eventsUrl}/${encodeURIComponent(operation.providerEventId)}`;
+        init = { method: 'DELETE' };
+        break;
+    }
+    
+    try {
+      const response = await fetch(`${url}?sendUpdates=all`, {
+        ...init,
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+      
+      // An event that no longer exists counts as cancelled
+      if (response.ok || (operation.kind === 'cancel' && (response.status === 404 || response.status === 410))) {
+        const created = operation.kind === 'create' ? await response.json() : null;
+        return { ok: true, providerEventId: created?.id };
+      }
+      
+      const text = await response.text();
+      let body: unknown = text;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Keep the raw text
+      }
+      
+      if (response.status === 401) {
+        cachedToken = null;
+      }
+      
+      return {
+        ok: false,
+        error: describeHttpError(response.status, body),
+        retryAfterMs: isRateLimited(response.status, body)
+          ? parseRetryAfterMs(response.headers.get('retry-after'))
+          : undefined,
+      };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+  
+  return {
+    name: 'google',
+    maxBatchSize: GOOGLE_MAX_BATCH_SIZE,
+    async execute(operations: CalendarOperation[]): Promise<CalendarOperationResult[]> {
+      const accessToken = await getAccessToken();
+      return Promise.all(operations.map((operation) => executeOne(accessToken, operation)));
+    },
+  };
+}
@@ -0,0 +1,249 @@
+import type { OutlookEvent } from '../../types';
+import type {
+  CalendarEventDetails,
+  CalendarOperation,
+  CalendarOperationResult,
+  CalendarProvider,
+} from '../types';
+import { describeHttpError, parseRetryAfterMs } from '../http';
+
+export interface GraphCalendarConfig {
+  tenantId: string;
+  clientId: string;
+  clientSecret: string;
+  calendarUser?: string;         // Organizer mailbox; required with Application permissions
+  graphBaseUrl?: string;         // Overridable to point at a local stand-in
+  loginBaseUrl?: string;
+}
+
+interface GraphBatchResponse {
+  id: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+const DEFAULT_GRAPH_BASE_URL = 'https://graph.microsoft.com/v1.0';
+const DEFAULT_LOGIN_BASE_URL = 'https://login.microsoftonline.com';
+const GRAPH_API_SCOPES = ['https://graph.microsoft.com/.default'];
+
+/**
+ * Graph accepts at most 20 requests per JSON batch
+ */
+const GRAPH_MAX_BATCH_SIZE = 20;
+
+/**
+ * Renew tokens this long before they expire
+ */
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Format an instant as wall-clock time in a time zone, as Graph expects
+ * (e.g. 2026-01-15T12:30:00 for America/Chicago)
+ */
+function toGraphDateTime(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value;
+  
+  return `${get('year')}-${get('month')}-${get('day')}T${get('hour')}:${get('minute')}:${get('second')}`;
+}
+
+/**
+ * Convert event details to the Graph event schema
+ */
+function toOutlookEvent(details: CalendarEventDetails, attendee?: string): OutlookEvent {
+  return {
+    subject: details.title,
+    body: {
+      contentType: 'text',
+      content: details.description,
+    },
+    start: {
+      dateTime: toGraphDateTime(details.start, details.timeZone),
+      timeZone: details.timeZone,
+    },
+    end: {
+      dateTime: toGraphDateTime(details.end, details.timeZone),
+      timeZone: details.timeZone,
+    },
+    location: {
+      displayName: details.location,
+    },
+    attendees: attendee
+      ? [{ emailAddress: { address: attendee }, type: 'required' }]
+      : [],
+  };
+}
+
+/**
+ * Microsoft Graph provider
+ * Sends Outlook invitations from the organizer mailbox using the client
+ * credentials flow. Operations go out as JSON batches, and Graph reports
+ * throttling (429 with Retry-After) per request inside a batch.
+ */
+export function createGraphCalendarProvider(config: GraphCalendarConfig): CalendarProvider {
+  const graphBaseUrl = config.graphBaseUrl || DEFAULT_GRAPH_BASE_URL;
+  const loginBaseUrl = config.loginBaseUrl || DEFAULT_LOGIN_BASE_URL;
+  const ownerPath = config.calendarUser ? `/users/${encodeURIComponent(config.calendarUser)}` : '/me';
+  let cachedToken: { value: string; expiresAt: number } | null = null;
+  
+  /**
+   * Get an access token, reusing the cached one until shortly before it expires
+   */
+  async function getAccessToken(): Promise<string> {
+    if (cachedToken && cachedToken.expiresAt > Date.now()) {
+      return cachedToken.value;
+    }
+    
+    const response = await fetch(`${loginBaseUrl}/${config.tenantId}/oauth2/v2.0/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        scope: GRAPH_API_SCOPES.join(' '),
+        grant_type: 'client_credentials',
+      }).toString(),
+    });
+    
+    if (!response.ok) {
+      console.error('Graph token acquisition failed:', await response.text());
+      throw new Error(`Failed to acquire access token: ${response.status}`);
+    }
+    
+    const data = await response.json();
+    
+    if (!data.access_token) {
+      throw new Error('No access token in response');
+    }
+    
+    cachedToken = {
+      value: data.access_token,
+      expiresAt: Date.now() + (Number(data.expires_in) || 3600) * 1000 - TOKEN_EXPIRY_MARGIN_MS,
+    };
+    
+    return cachedToken.value;
+  }
+  
+  /**
+   * Build the batch request for one operation
+   */
+  function toBatchRequest(operation: CalendarOperation, id: string) {
+    const headers = { 'Content-Type': 'application/json' };
+    
+    switch (operation.kind) {
+      case 'create':
+        return {
+          id,
+          method: 'POST',
+          url: `${ownerPath}/events`,
+          headers,
+          body: toOutlookEvent(operation.details, operation.attendee),
+        };
+      
+      case 'update': {
+        // Attendees are left out so recipients keep their responses
+        const { attendees: _attendees, ...details } = toOutlookEvent(operation.details);
+        return {
+          id,
+          method: 'PATCH',
+          url: `${ownerPath}/events/${encodeURIComponent(operation.providerEventId)}`,
+          headers,
+          body: details,
+        };
+      }
+      
+      case 'cancel':
+        return {
+          id,
+          method: 'POST',
+          url: `${ownerPath}/events/${encodeURIComponent(operation.providerEventId)}/cancel`,
+          headers,
+          body: { comment: operation.comment ?? 'This event has been cancelled.' },
+        };
+    }
+  }
+  
+  /**
+   * Interpret one batch response
+   */
+  function toResult(operation: CalendarOperation, response: GraphBatchResponse | undefined): CalendarOperationResult {
+    if (!response) {
+      return { ok: false, error: 'No response in Graph batch' };
+    }
+    
+    if (response.status >= 200 && response.status < 300) {
+      const created = response.body as { id?: string } | undefined;
+      return { ok: true, providerEventId: operation.kind === 'create' ? created?.id : undefined };
+    }
+    
+    // An event that no longer exists counts as cancelled
+    if (operation.kind === 'cancel' && response.status === 404) {
+      return { ok: true };
+    }
+    
+    if (response.status === 429 || response.status === 503) {
+      const retryAfter = Object.entries(response.headers ?? {})
+        .find(([name]) => name.toLowerCase() === 'retry-after')?.[1];
+      return {
+        ok: false,
+        error: describeHttpError(response.status, response.body),
+        retryAfterMs: parseRetryAfterMs(retryAfter),
+      };
+    }
+    
+    return { ok: false, error: describeHttpError(response.status, response.body) };
+  }
+  
+  return {
+    name: 'graph',
+    maxBatchSize: GRAPH_MAX_BATCH_SIZE,
+    async execute(operations: CalendarOperation[]): Promise<CalendarOperationResult[]> {
+      const accessToken = await getAccessToken();
+      
+      const response = await fetch(`${graphBaseUrl}/$batch`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          requests: operations.map((operation, index) => toBatchRequest(operation, String(index))),
+        }),
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.text();
+        const error = describeHttpError(response.status, errorData);
+        
+        if (response.status === 401) {
+          cachedToken = null;
+        }
+        
+        // The whole batch was throttled or rejected
+        const retryAfterMs = response.status === 429 || response.status === 503
+          ? parseRetryAfterMs(response.headers.get('retry-after'))
+          : undefined;
+        
+        return operations.map(() => ({ ok: false, error, retryAfterMs }));
+      }
+      
+      const data: { responses?: GraphBatchResponse[] } = await response.json();
+      const responses = new Map((data.responses ?? []).map((item) => [item.id, item]));
+      
+      return operations.map((operation, index) => toResult(operation, responses.get(String(index))));
+    },
+  };
+}
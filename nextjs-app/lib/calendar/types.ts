@@ -0,0 +1,40 @@
+/**
+ * Provider-neutral event details sent with an invitation
+ */
+export interface CalendarEventDetails {
+  title: string;
+  description: string;           // Plain text
+  location: string;
+  start: Date;
+  end: Date;
+  timeZone: string;              // IANA time zone the event is shown in
+}
+
+/**
+ * Single change for a provider to make
+ */
+export type CalendarOperation =
+  | { kind: 'create'; attendee: string; details: CalendarEventDetails }
+  | { kind: 'update'; providerEventId: string; details: CalendarEventDetails }
+  | { kind: 'cancel'; providerEventId: string; comment?: string };
+
+/**
+ * Result of one operation, in the same order as the operations
+ * Rate-limited operations carry retryAfterMs so the caller can retry them.
+ */
+export type CalendarOperationResult =
+  | { ok: true; providerEventId?: string }
+  | { ok: false; error: string; retryAfterMs?: number };
+
+/**
+ * Calendar invitation backend
+ * execute() receives at most maxBatchSize operations and reports each one,
+ * including when the whole request was rate limited. It throws only when
+ * nothing could be attempted (e.g. authentication failed).
+ */
+export interface CalendarProvider {
+  name: string;
+  maxBatchSize: number;
+  execute(operations: CalendarOperation[]): Promise<CalendarOperationResult[]>;
+}
+
@@ -0,0 +1,96 @@
+/**
+ * Chapter configuration
+ * 
+ * Everything that differs between chapters running this site:
+ * - Chapter and school names used in UI copy and emails
+ * - School email domains accepted for member verification
+ * - Branding (email colors, school logo, contact address)
+ * - Time zone events and series are scheduled in
+ * 
+ * A chapter at another school only needs to change CHAPTER below.
+ * This module is shared by client and server code, so it must not
+ * read secrets.
+ */
+
+export interface ChapterEmailDomain {
+  domain: string;                // e.g. "ttu.edu"
+  includeSubdomains?: boolean;   // Also accept e.g. "@cs.ttu.edu"
+}
+
+export interface ChapterConfig {
+  name: string;                  // Short chapter name, e.g. "MLH TTU"
+  fullName: string;              // e.g. "MLH TTU Chapter"
+  school: {
+    name: string;                // e.g. "Texas Tech University"
+    shortName: string;           // e.g. "Texas Tech"
+    abbreviation: string;        // e.g. "TTU" (as in "TTU email")
+  };
+  emailDomains: ChapterEmailDomain[];   // First entry is shown in examples
+  contactEmail: string;          // Public contact address
+  emailFrom: string;             // Default sender for outgoing email (EMAIL_FROM overrides)
+  timeZone: string;              // IANA time zone, e.g. "America/Chicago"
+  branding: {
+    primaryColor: string;        // Hex color used in emails
+    logoUrl: string;             // School logo shown next to the MLH logo
+  };
+}
+
+export const CHAPTER: ChapterConfig = {
+  name: 'MLH TTU',
+  fullName: 'MLH TTU Chapter',
+  school: {
+    name: 'Texas Tech University',
+    shortName: 'Texas Tech',
+    abbreviation: 'TTU',
+  },
+  emailDomains: [
+    { domain: 'ttu.edu' },
+    { domain: 'texastech.edu' },
+  ],
+  contactEmail: 'mlh@ttu.edu',
+  emailFrom: 'MLH TTU <verify@mlhttu.org>',
+  timeZone: 'America/Chicago',
+  branding: {
+    primaryColor: '#cc0000',
+    logoUrl: 'https://www.ttu.edu/traditions/images/DoubleT.gif',
+  },
+};
+
+/**
+ * Example school email address for placeholders and messages
+ */
+export const SCHOOL_EMAIL_EXAMPLE = `username@${CHAPTER.emailDomains[0].domain}`;
+
+/**
+ * Allowed domains for display, e.g. "@ttu.edu or @texastech.edu"
+ */
+export const SCHOOL_EMAIL_DOMAINS_LABEL = CHAPTER.emailDomains
+  .map(({ domain }) => `@${domain}`)
+  .join(' or ');
+
+/**
+ * Plain address: dot-atom local part and hostname, with no spaces, line
+ * breaks or angle brackets that could inject SMTP commands or headers
+ */
+const EMAIL_ADDRESS_PATTERN = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*@[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)+$/;
+
+/**
+ * Check whether an email address belongs to one of the chapter's school domains
+ * 
+ * @param email - Email address to check
+ * @returns true if the whole address is valid and the domain (or an allowed subdomain) matches
+ */
+export function isSchoolEmail(email: string): boolean {
+  const address = email.trim();
+  if (!EMAIL_ADDRESS_PATTERN.test(address)) {
+    return false;
+  }
+  
+  const domain = address.slice(address.lastIndexOf('@') + 1).toLowerCase();
+  
+  return CHAPTER.emailDomains.some((allowed) => {
+    const allowedDomain = allowed.domain.toLowerCase();
+    return domain === allowedDomain
+      || (allowed.includeSubdomains === true && domain.endsWith(`.${allowedDomain}`));
+  });
+}
@@ -0,0 +1,41 @@
+import type { AuditAction } from '@/lib/types';
+
+/**
+ * Audited admin actions with their display labels
+ */
+export const AUDIT_ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: 'event.create', label: 'Event created' },
+  { value: 'event.update', label: 'Event edited' },
+  { value: 'event.delete', label: 'Event deleted' },
+  { value: 'event.end', label: 'Event ended' },
+  { value: 'event.generate-code', label: 'Attendance code generated' },
+  { value: 'event.toggle-code', label: 'Attendance code toggled' },
+  { value: 'event.set-hosts', label: 'Event hosts changed' },
+  { value: 'event.calendar-sync', label: 'Calendar invitations re-synced' },
+  { value: 'attendance.add', label: 'Attendance added' },
+  { value: 'attendance.revoke', label: 'Attendance revoked' },
+  { value: 'attendance.import', label: 'Attendance imported' },
+  { value: 'attendance.check-in', label: 'QR check-in' },
+  { value: 'points.adjust', label: 'Points adjusted' },
+  { value: 'points.reconcile', label: 'Points reconciled' },
+  { value: 'leaderboard.archive', label: 'Season archived' },
+  { value: 'leaderboard.rebuild', label: 'Leaderboard rebuilt' },
+  { value: 'analytics.rebuild', label: 'Analytics rebuilt' },
+  { value: 'data.export', label: 'Member data exported' },
+  { value: 'role.grant', label: 'Role granted' },
+  { value: 'role.revoke', label: 'Role revoked' },
+];
+
+/**
+ * Check whether a value is a known audit action
+ */
+export function isAuditAction(value: unknown): value is AuditAction {
+  return AUDIT_ACTIONS.some((action) => action.value === value);
+}
+
+/**
+ * Get the display label for an audit action
+ */
+export function getAuditActionLabel(action: AuditAction): string {
+  return AUDIT_ACTIONS.find((item) => item.value === action)?.label ?? action;
+}
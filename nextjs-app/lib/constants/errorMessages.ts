@@ -1,3 +1,5 @@
+import { CHAPTER, SCHOOL_EMAIL_DOMAINS_LABEL, SCHOOL_EMAIL_EXAMPLE } from '../chapter';
+
 /**
  * Error messages for user feedback
  * Requirements: 9.1, 9.2, 9.3, 9.5, 9.6
@@ -6,11 +8,11 @@ export const ERROR_MESSAGES = {
   AUTH_FAILED: "Unable to sign in with Google. Please try again.",
   SESSION_EXPIRED: "Your session has expired. Please sign in again.",
   NETWORK_ERROR: "Network error. Please check your connection and try again.",
-  TTU_EMAIL_INVALID: "Please enter a valid TTU email address (e.g., username@ttu.edu)",
-  TTU_EMAIL_DUPLICATE: "This TTU email is already registered to another account.",
+  TTU_EMAIL_INVALID: `Please enter a valid ${CHAPTER.school.abbreviation} email address ending in ${SCHOOL_EMAIL_DOMAINS_LABEL} (e.g., ${SCHOOL_EMAIL_EXAMPLE})`,
+  TTU_EMAIL_DUPLICATE: `This ${CHAPTER.school.abbreviation} email is already registered to another account.`,
   VERIFICATION_CODE_INVALID: "Invalid verification code. Please try again.",
   VERIFICATION_CODE_EXPIRED: "Verification code has expired. Please request a new one.",
-  MAX_ATTEMPTS_EXCEEDED: "Maximum verification attempts exceeded. Your account has been removed. Please sign up again.",
+  MAX_ATTEMPTS_EXCEEDED: "Maximum verification attempts exceeded. Please wait 15 minutes, then request a new code.",
   ONBOARDING_INCOMPLETE: "Please complete your profile to continue.",
   PROFILE_UPDATE_FAILED: "Failed to update profile. Please try again.",
   FILE_UPLOAD_FAILED: "Failed to upload file. Please try again.",
@@ -0,0 +1,26 @@
+import type { EventCategory } from '@/lib/types';
+
+/**
+ * Event categories with their display labels
+ * Categories drive category-based badges (e.g., workshop streaks)
+ */
+export const EVENT_CATEGORIES: { value: EventCategory; label: string }[] = [
+  { value: 'general', label: 'General' },
+  { value: 'workshop', label: 'Workshop' },
+  { value: 'social', label: 'Social' },
+  { value: 'hackathon', label: 'Hackathon' },
+];
+
+/**
+ * Check whether a value is a known event category
+ */
+export function isEventCategory(value: unknown): value is EventCategory {
+  return EVENT_CATEGORIES.some((category) => category.value === value);
+}
+
+/**
+ * Get the display label for an event category
+ */
+export function getEventCategoryLabel(category: EventCategory): string {
+  return EVENT_CATEGORIES.find((item) => item.value === category)?.label ?? category;
+}
@@ -0,0 +1,104 @@
+import type { ExportColumn, ExportType } from '@/lib/types';
+
+/**
+ * Member data exports offered to admins
+ * Columns marked default are preselected; the date range filters the
+ * field named in dateFilter.
+ */
+export const EXPORT_TYPES: {
+  value: ExportType;
+  label: string;
+  description: string;
+  dateFilter: string;
+  columns: ExportColumn[];
+}[] = [
+  {
+    value: 'roster',
+    label: 'Member Roster',
+    description: 'Every member with their profile fields, points and attendance count',
+    dateFilter: 'Joined',
+    columns: [
+      { key: 'uid', label: 'User ID', default: false },
+      { key: 'displayName', label: 'Display Name', default: true },
+      { key: 'firstName', label: 'First Name', default: true },
+      { key: 'lastName', label: 'Last Name', default: true },
+      { key: 'email', label: 'Email', default: true },
+      { key: 'ttuEmail', label: 'TTU Email', default: true },
+      { key: 'ttuEmailVerified', label: 'TTU Verified', default: true },
+      { key: 'memberStatus', label: 'Member Status', default: true },
+      { key: 'studentVerifiedYear', label: 'Student Status Confirmed', default: false },
+      { key: 'rNumber', label: 'R-Number', default: false },
+      { key: 'major', label: 'Major', default: true },
+      { key: 'universityLevel', label: 'University Level', default: true },
+      { key: 'aspiredPosition', label: 'Aspired Position', default: false },
+      { key: 'githubUrl', label: 'GitHub', default: false },
+      { key: 'linkedinUrl', label: 'LinkedIn', default: false },
+      { key: 'twitterUrl', label: 'Twitter', default: false },
+      { key: 'points', label: 'Points', default: true },
+      { key: 'eventsAttended', label: 'Events Attended', default: true },
+      { key: 'roles', label: 'Admin Roles', default: false },
+      { key: 'createdAt', label: 'Joined', default: true },
+    ],
+  },
+  {
+    value: 'attendance',
+    label: 'Attendance Matrix',
+    description: 'One row per member and one column per event, marking who attended',
+    dateFilter: 'Event date',
+    columns: [
+      { key: 'uid', label: 'User ID', default: false },
+      { key: 'displayName', label: 'Display Name', default: true },
+      { key: 'email', label: 'Email', default: true },
+      { key: 'ttuEmail', label: 'TTU Email', default: true },
+      { key: 'total', label: 'Events Attended', default: true },
+      { key: 'events', label: 'Per-Event Columns', default: true },
+    ],
+  },
+  {
+    value: 'points',
+    label: 'Points History',
+    description: 'Every points ledger entry: attendance credits, adjustments and reversals',
+    dateFilter: 'Recorded',
+    columns: [
+      { key: 'createdAt', label: 'Recorded', default: true },
+      { key: 'userId', label: 'User ID', default: false },
+      { key: 'displayName', label: 'Member', default: true },
+      { key: 'email', label: 'Email', default: true },
+      { key: 'points', label: 'Points', default: true },
+      { key: 'type', label: 'Type', default: true },
+      { key: 'description', label: 'Description', default: true },
+      { key: 'sourceType', label: 'Source Type', default: false },
+      { key: 'sourceId', label: 'Source ID', default: false },
+      { key: 'createdBy', label: 'Recorded By', default: true },
+    ],
+  },
+  {
+    value: 'participation',
+    label: 'Semester Participation',
+    description: 'Per-semester totals of events, attendance, active and new members',
+    dateFilter: 'Semester',
+    columns: [
+      { key: 'semester', label: 'Semester', default: true },
+      { key: 'events', label: 'Events Held', default: true },
+      { key: 'attendances', label: 'Total Attendance', default: true },
+      { key: 'activeMembers', label: 'Active Members', default: true },
+      { key: 'averageAttendance', label: 'Average per Event', default: true },
+      { key: 'newMembers', label: 'New Members', default: true },
+      { key: 'pointsAwarded', label: 'Points Awarded', default: true },
+    ],
+  },
+];
+
+/**
+ * Check whether a value is a known export type
+ */
+export function isExportType(value: unknown): value is ExportType {
+  return EXPORT_TYPES.some((type) => type.value === value);
+}
+
+/**
+ * Get the definition of an export type
+ */
+export function getExportDefinition(type: ExportType) {
+  return EXPORT_TYPES.find((item) => item.value === type)!;
+}
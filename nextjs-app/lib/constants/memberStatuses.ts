@@ -0,0 +1,40 @@
+import type { MemberStatus } from '@/lib/types';
+
+/**
+ * Membership statuses with their display labels
+ */
+export const MEMBER_STATUSES: { value: MemberStatus; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'alumni', label: 'Alumni' },
+  { value: 'inactive', label: 'Inactive' },
+];
+
+/**
+ * Check whether a value is a known membership status
+ */
+export function isMemberStatus(value: unknown): value is MemberStatus {
+  return MEMBER_STATUSES.some((status) => status.value === value);
+}
+
+/**
+ * Get the display label for a membership status
+ */
+export function getMemberStatusLabel(status: MemberStatus): string {
+  return MEMBER_STATUSES.find((item) => item.value === status)?.label ?? status;
+}
+
+/**
+ * Resolve a user document's membership status
+ * Members from before re-verification existed have no status and are active.
+ */
+export function resolveMemberStatus(data: { memberStatus?: unknown }): MemberStatus {
+  return isMemberStatus(data.memberStatus) ? data.memberStatus : 'active';
+}
+
+/**
+ * Check whether a user document belongs to an active member
+ * (counted in active-member totals and seasonal leaderboards)
+ */
+export function isActiveMember(data: { memberStatus?: unknown }): boolean {
+  return resolveMemberStatus(data) === 'active';
+}
@@ -0,0 +1,145 @@
+import type { Permission, Role } from '../types';
+
+/**
+ * Admin roles with their display labels, in order of privilege
+ */
+export const ROLES: { value: Role; label: string; description: string }[] = [
+  { value: 'super-admin', label: 'Super Admin', description: 'Full access, including deleting events and managing roles' },
+  { value: 'officer', label: 'Officer', description: 'Creates, edits and runs check-in for any event' },
+  { value: 'event-host', label: 'Event Host', description: 'Creates events and manages only the events they host' },
+  { value: 'points-manager', label: 'Points Manager', description: 'Adjusts points and maintains the ledger and leaderboards' },
+  { value: 'viewer', label: 'Viewer', description: 'Read-only access to the admin area' },
+];
+
+/**
+ * Permissions granted by each role
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  'super-admin': [
+    'events:view',
+    'events:create',
+    'events:edit',
+    'events:delete',
+    'events:check-in',
+    'events:assign-hosts',
+    'users:view',
+    'points:adjust',
+    'points:reconcile',
+    'security:view',
+    'audit:view',
+    'analytics:view',
+    'members:export',
+    'system:view',
+    'roles:manage',
+  ],
+  officer: [
+    'events:view',
+    'events:create',
+    'events:edit',
+    'events:check-in',
+    'events:assign-hosts',
+    'users:view',
+    'security:view',
+    'audit:view',
+    'analytics:view',
+    'members:export',
+    'system:view',
+  ],
+  'event-host': ['events:view', 'events:create'],
+  'points-manager': ['events:view', 'users:view', 'points:adjust', 'points:reconcile', 'audit:view', 'analytics:view', 'members:export'],
+  viewer: ['events:view', 'users:view', 'security:view', 'audit:view', 'analytics:view', 'system:view'],
+};
+
+/**
+ * Permissions a user also holds for a single event when listed in its hostIds
+ */
+export const EVENT_SCOPED_PERMISSIONS: Permission[] = ['events:edit', 'events:check-in'];
+
+/**
+ * Fields needed to resolve a user's roles
+ * Matches both server User records and client user profiles.
+ */
+export interface RoleHolder {
+  uid?: string;
+  roles?: Role[];
+  isAdmin?: boolean;
+}
+
+/**
+ * Check whether a value is a known role
+ */
+export function isRole(value: unknown): value is Role {
+  return ROLES.some((role) => role.value === value);
+}
+
+/**
+ * Get the display label for a role
+ */
+export function getRoleLabel(role: Role): string {
+  return ROLES.find((item) => item.value === role)?.label ?? role;
+}
+
+/**
+ * Resolve the roles stored on a user document
+ * Accounts promoted before roles existed only carry isAdmin and keep full access.
+ */
+export function resolveRoles(data: { roles?: unknown; isAdmin?: unknown } | null | undefined): Role[] {
+  if (!data) {
+    return [];
+  }
+
+  if (Array.isArray(data.roles)) {
+    return data.roles.filter(isRole);
+  }
+
+  return data.isAdmin === true ? ['super-admin'] : [];
+}
+
+/**
+ * Check whether a user holds a permission through any of their roles
+ */
+export function hasPermission(user: RoleHolder | null | undefined, permission: Permission): boolean {
+  return resolveRoles(user).some((role) => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+/**
+ * Check whether a user holds a permission for a specific event
+ * Event-scoped permissions also apply to the event's hosts.
+ */
+export function hasEventPermission(
+  user: RoleHolder | null | undefined,
+  permission: Permission,
+  event: { hostIds?: string[] } | null | undefined
+): boolean {
+  if (hasPermission(user, permission)) {
+    return true;
+  }
+
+  return (
+    !!user?.uid &&
+    EVENT_SCOPED_PERMISSIONS.includes(permission) &&
+    (event?.hostIds ?? []).includes(user.uid)
+  );
+}
+
+/**
+ * Points an event is worth unless someone allowed to set points chooses otherwise
+ */
+export const DEFAULT_EVENT_POINTS = 10;
+
+/**
+ * Check whether a user may choose how many points an event is worth
+ * Hosts are held to DEFAULT_EVENT_POINTS, so hosting an event can't be used
+ * to award points; that stays with points:adjust (and officers, who edit
+ * every event).
+ */
+export function canSetEventPoints(user: RoleHolder | null | undefined): boolean {
+  return hasPermission(user, 'points:adjust') || hasPermission(user, 'events:edit');
+}
+
+/**
+ * Check whether a user can open the admin area at all
+ */
+export function hasAnyRole(user: RoleHolder | null | undefined): boolean {
+  return resolveRoles(user).length > 0;
+}
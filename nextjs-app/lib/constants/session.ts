@@ -0,0 +1,16 @@
+/**
+ * Session cookie settings shared by the session API route and edge middleware
+ */
+
+// Cookie holding the Firebase session cookie (minted by Admin createSessionCookie)
+export const SESSION_COOKIE_NAME = 'AuthToken';
+
+// Session lifetime (Firebase allows 5 minutes to 2 weeks)
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 5; // 5 days
+
+// Re-mint the session cookie once it is older than this, so active sessions keep
+// rolling forward and revoked ones are caught on the next rotation
+export const SESSION_ROTATE_AFTER_SECONDS = 60 * 60 * 24; // 1 day
+
+// Custom claim mirroring users.hasCompletedOnboarding, readable at the edge
+export const ONBOARDED_CLAIM = 'onboarded';
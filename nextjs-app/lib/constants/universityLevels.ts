@@ -0,0 +1,52 @@
+import type { UniversityLevel } from '@/lib/types';
+
+/**
+ * University levels with their display labels, in order of seniority
+ */
+export const UNIVERSITY_LEVELS: { value: UniversityLevel; label: string }[] = [
+  { value: 'freshman', label: 'Freshman' },
+  { value: 'sophomore', label: 'Sophomore' },
+  { value: 'junior', label: 'Junior' },
+  { value: 'senior', label: 'Senior' },
+  { value: 'graduate', label: 'Graduate' },
+  { value: 'other', label: 'Other' },
+];
+
+/**
+ * Check whether a value is a known university level
+ */
+export function isUniversityLevel(value: unknown): value is UniversityLevel {
+  return UNIVERSITY_LEVELS.some((level) => level.value === value);
+}
+
+/**
+ * Get the display label for a university level
+ */
+export function getUniversityLevelLabel(level: UniversityLevel): string {
+  return UNIVERSITY_LEVELS.find((item) => item.value === level)?.label ?? level;
+}
+
+/**
+ * Get the level a member advances to after a year
+ * Seniors, graduate students and others may or may not move on, so they
+ * are asked instead.
+ * 
+ * @returns The next level, or null if it can't be assumed
+ */
+export function getNextUniversityLevel(level: UniversityLevel): UniversityLevel | null {
+  const next: Partial<Record<UniversityLevel, UniversityLevel>> = {
+    freshman: 'sophomore',
+    sophomore: 'junior',
+    junior: 'senior',
+  };
+  
+  return next[level] ?? null;
+}
+
+/**
+ * Check whether a member at this level has likely graduated when they stop
+ * confirming their student status (alumni rather than inactive)
+ */
+export function isGraduatingLevel(level: unknown): boolean {
+  return level === 'senior' || level === 'graduate';
+}
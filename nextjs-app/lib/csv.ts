@@ -0,0 +1,120 @@
+/**
+ * CSV helpers shared by admin exports and imports
+ */
+
+/**
+ * Leading characters spreadsheets treat as the start of a formula
+ */
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * Escape a value for inclusion in a CSV cell
+ * Text that a spreadsheet would run as a formula (e.g. a name starting with
+ * "=") is prefixed with a quote; numbers are left as they are.
+ */
+export function toCsvCell(value: string | number | boolean | null | undefined): string {
+  let text = value == null ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX_PATTERN.test(text)) {
+    text = `'${text}`;
+  }
+  
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render a header and rows as CSV
+ */
+export function toCsv(header: string[], rows: (string | number | boolean | null | undefined)[][]): string {
+  return [header, ...rows]
+    .map((row) => row.map(toCsvCell).join(','))
+    .join('\n');
+}
+
+/**
+ * Create a streamed CSV file
+ * Rows are encoded as they arrive, so large exports never sit in memory.
+ * Starts with a byte order mark so Excel opens the file as UTF-8.
+ */
+export function createCsvStream(
+  header: string[],
+  rows: AsyncIterable<(string | number | boolean | null | undefined)[]>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = rows[Symbol.asyncIterator]();
+  let started = false;
+  
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        controller.enqueue(encoder.encode(`\uFEFF${header.map(toCsvCell).join(',')}\n`));
+        return;
+      }
+      
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(`${value.map(toCsvCell).join(',')}\n`));
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted cells with embedded commas, quotes and newlines, CRLF
+ * line endings and a leading byte order mark. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+  
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+  
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+  
+  return rows;
+}
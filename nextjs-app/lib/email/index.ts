@@ -0,0 +1,194 @@
+import 'server-only';
+import path from 'path';
+import { getAdminFirestore } from '../firebase/admin';
+import { CHAPTER } from '../chapter';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { EmailSendStatus } from '../types';
+import type { EmailProvider } from './types';
+import { renderEmailTemplate, type EmailTemplateData, type EmailTemplateId } from './templates';
+import { createOutboxProvider } from './providers/outbox';
+import { createResendProvider } from './providers/resend';
+import { createSmtpProvider } from './providers/smtp';
+
+export type { EmailTemplateData, EmailTemplateId } from './templates';
+export type { EmailDelivery, EmailMessage, EmailProvider, RenderedEmail } from './types';
+
+/**
+ * Email Service
+ * 
+ * Server-side email delivery including:
+ * - Pluggable providers: Resend, SMTP, or a local file outbox
+ * - Typed templates rendered to text and HTML
+ * - Retries with backoff on provider failures
+ * - A persisted send log of every email and delivery attempt
+ * 
+ * The provider is chosen by EMAIL_PROVIDER ('resend' | 'smtp' | 'outbox').
+ * Without it, Resend is used when RESEND_API_KEY is set and the outbox
+ * otherwise, so development never sends real email by accident. Production
+ * never falls back to the outbox: it must be configured explicitly.
+ */
+
+export const EMAIL_LOG_COLLECTION = 'emailLog';
+
+/**
+ * Delivery attempts per email, and the delay before the first retry (doubled each time)
+ */
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+const DEFAULT_OUTBOX_DIR = '.outbox';
+
+let provider: EmailProvider | null = null;
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Create the provider configured by the environment
+ * 
+ * @throws Error if the provider is unknown or missing required settings, or
+ *   if none is configured in production
+ */
+function createProvider(): EmailProvider {
+  const name = process.env.EMAIL_PROVIDER || (process.env.RESEND_API_KEY ? 'resend' : null);
+  
+  if (!name) {
+    // Writing emails to the server's disk would silently drop them in production
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('No email provider configured: set EMAIL_PROVIDER or RESEND_API_KEY');
+    }
+    return createOutboxProvider(path.resolve(process.env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR));
+  }
+  
+  switch (name) {
+    case 'resend':
+      if (!process.env.RESEND_API_KEY) {
+        throw new Error('RESEND_API_KEY is required for the resend email provider');
+      }
+      return createResendProvider(process.env.RESEND_API_KEY);
+    
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required for the smtp email provider');
+      }
+      return createSmtpProvider({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || (process.env.SMTP_SECURE === 'true' ? 465 : 587),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      });
+    
+    case 'outbox':
+      return createOutboxProvider(path.resolve(process.env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR));
+    
+    default:
+      throw new Error(`Unknown EMAIL_PROVIDER: ${name}`);
+  }
+}
+
+/**
+ * Get the configured provider, creating it on first use
+ */
+export function getEmailProvider(): EmailProvider {
+  provider ??= createProvider();
+  return provider;
+}
+
+// ============================================================================
+// Send Log
+// ============================================================================
+
+/**
+ * Update a send log entry
+ * The log is best-effort and never fails a send.
+ */
+async function updateLog(
+  logRef: FirebaseFirestore.DocumentReference,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    await logRef.set({ ...data, updatedAt: Timestamp.now() }, { merge: true });
+  } catch (error) {
+    console.error('Error writing email log:', error);
+  }
+}
+
+// ============================================================================
+// Sending
+// ============================================================================
+
+/**
+ * Render and send a templated email
+ * Failed deliveries are retried with backoff; every attempt is recorded
+ * in the send log.
+ * 
+ * @param template - Template ID
+ * @param to - Recipient address(es)
+ * @param data - Template data
+ * @param options.context - Extra details stored in the send log (never the message body)
+ * @returns Send log entry ID and the provider's message ID
+ * @throws Error if every attempt fails
+ */
+export async function sendEmail<T extends EmailTemplateId>(
+  template: T,
+  to: string | string[],
+  data: EmailTemplateData[T],
+  options: { context?: Record<string, string | number | boolean> } = {}
+): Promise<{ logId: string; messageId: string | null }> {
+  const db = getAdminFirestore();
+  const emailProvider = getEmailProvider();
+  const recipients = Array.isArray(to) ? to : [to];
+  const rendered = renderEmailTemplate(template, data);
+  const logRef = db.collection(EMAIL_LOG_COLLECTION).doc();
+  const now = Timestamp.now();
+  
+  await updateLog(logRef, {
+    template,
+    to: recipients,
+    subject: rendered.subject,
+    provider: emailProvider.name,
+    status: 'pending' satisfies EmailSendStatus,
+    attempts: [],
+    ...(options.context ? { context: options.context } : {}),
+    createdAt: now,
+  });
+  
+  let lastError: unknown;
+  
+  for (let attempt = 1; attempt <= MAX_SEND_ATTEMPTS; attempt++) {
+    try {
+      const delivery = await emailProvider.send({
+        from: process.env.EMAIL_FROM || CHAPTER.emailFrom,
+        to: recipients,
+        ...rendered,
+      });
+      
+      await updateLog(logRef, {
+        status: 'sent' satisfies EmailSendStatus,
+        attempts: FieldValue.arrayUnion({ at: Timestamp.now() }),
+        ...(delivery.messageId ? { providerMessageId: delivery.messageId } : {}),
+      });
+      
+      return { logId: logRef.id, messageId: delivery.messageId };
+    } catch (error) {
+      lastError = error;
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error sending ${template} email (attempt ${attempt}/${MAX_SEND_ATTEMPTS}):`, message);
+      
+      await updateLog(logRef, {
+        status: (attempt === MAX_SEND_ATTEMPTS ? 'failed' : 'pending') satisfies EmailSendStatus,
+        attempts: FieldValue.arrayUnion({ at: Timestamp.now(), error: message }),
+      });
+      
+      if (attempt < MAX_SEND_ATTEMPTS) {
+        await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+      }
+    }
+  }
+  
+  throw new Error(
+    `Failed to send ${template} email: ${lastError instanceof Error ? lastError.message : String(lastError)}`
+  );
+}
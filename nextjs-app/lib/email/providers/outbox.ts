@@ -0,0 +1,30 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { EmailDelivery, EmailMessage, EmailProvider } from '../types';
+
+/**
+ * Local outbox provider for development and tests
+ * Nothing is delivered: each message is written to the outbox directory as
+ * a JSON file (with the text and HTML variants) plus a viewable .html file,
+ * and summarized on the console.
+ * 
+ * @param directory - Outbox directory (created on first send)
+ */
+export function createOutboxProvider(directory: string): EmailProvider {
+  return {
+    name: 'outbox',
+    async send(message: EmailMessage): Promise<EmailDelivery> {
+      const messageId = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}`;
+      const basePath = path.join(directory, messageId);
+      
+      await mkdir(directory, { recursive: true });
+      await writeFile(`${basePath}.json`, JSON.stringify({ id: messageId, ...message }, null, 2));
+      await writeFile(`${basePath}.html`, message.html);
+      
+      console.log(`[email outbox] "${message.subject}" to ${message.to.join(', ')} -> ${basePath}.json`);
+      
+      return { messageId };
+    },
+  };
+}
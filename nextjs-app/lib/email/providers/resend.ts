@@ -0,0 +1,30 @@
+import { Resend } from 'resend';
+import type { EmailDelivery, EmailMessage, EmailProvider } from '../types';
+
+/**
+ * Resend provider
+ * Requires RESEND_API_KEY; the sender domain must be verified in Resend.
+ */
+export function createResendProvider(apiKey: string): EmailProvider {
+  const resend = new Resend(apiKey);
+  
+  return {
+    name: 'resend',
+    async send(message: EmailMessage): Promise<EmailDelivery> {
+      const { data, error } = await resend.emails.send({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        replyTo: message.replyTo,
+      });
+      
+      if (error) {
+        throw new Error(`Resend error: ${error.message}`);
+      }
+      
+      return { messageId: data?.id ?? null };
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import nodemailer from 'nodemailer';
+import type { EmailDelivery, EmailMessage, EmailProvider } from '../types';
+
+/**
+ * SMTP provider
+ * 
+ * Sends through an SMTP relay such as a university or Google Workspace
+ * server using nodemailer: implicit TLS (port 465) or STARTTLS. When
+ * credentials are configured on a non-TLS port, STARTTLS is required, so
+ * they are never sent in cleartext.
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;               // Implicit TLS; otherwise STARTTLS (required with credentials)
+  user?: string;
+  password?: string;
+}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Reject addresses and header values that could inject SMTP commands or
+ * extra headers
+ */
+function assertSafeHeaderValue(field: string, value: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`Invalid ${field}: line breaks are not allowed`);
+  }
+}
+
+/**
+ * Create an SMTP provider
+ */
+export function createSmtpProvider(options: SmtpOptions): EmailProvider {
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    requireTLS: !options.secure && !!options.user,
+    auth: options.user ? { user: options.user, pass: options.password ?? '' } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+    disableFileAccess: true,
+    disableUrlAccess: true,
+  });
+  
+  return {
+    name: 'smtp',
+    async send(message: EmailMessage): Promise<EmailDelivery> {
+      assertSafeHeaderValue('sender', message.from);
+      message.to.forEach((recipient) => assertSafeHeaderValue('recipient', recipient));
+      if (message.replyTo) {
+        assertSafeHeaderValue('reply-to address', message.replyTo);
+      }
+      
+      const info = await transport.sendMail({
+        from: message.from,
+        to: message.to,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+      
+      if (info.rejected.length > 0) {
+        throw new Error(`SMTP server rejected ${info.rejected.length} recipient(s)`);
+      }
+      
+      return { messageId: info.messageId ?? null };
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import type { RenderedEmail } from '../types';
+import { renderVerificationCodeEmail, type VerificationCodeEmailData } from './verificationCode';
+
+/**
+ * Data each email template needs, keyed by template ID
+ * Add a template by adding its data type here and its renderer below.
+ */
+export interface EmailTemplateData {
+  'verification-code': VerificationCodeEmailData;
+}
+
+export type EmailTemplateId = keyof EmailTemplateData;
+
+const TEMPLATES: { [K in EmailTemplateId]: (data: EmailTemplateData[K]) => RenderedEmail } = {
+  'verification-code': renderVerificationCodeEmail,
+};
+
+/**
+ * Render a template's subject, text and HTML
+ */
+export function renderEmailTemplate<T extends EmailTemplateId>(
+  template: T,
+  data: EmailTemplateData[T]
+): RenderedEmail {
+  return TEMPLATES[template](data);
+}
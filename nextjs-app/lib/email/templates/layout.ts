@@ -0,0 +1,73 @@
+import { CHAPTER } from '../../chapter';
+
+/**
+ * Shared email layout
+ * Wraps template content in the branded HTML shell and plain-text footer.
+ */
+
+const BRAND_COLOR = CHAPTER.branding.primaryColor;
+
+/**
+ * Escape text for inclusion in HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Wrap HTML content in the branded email document
+ * 
+ * @param title - Document title and heading
+ * @param content - Body HTML (already escaped)
+ * @param footer - Footer line shown above the copyright (plain text)
+ */
+export function renderHtmlLayout(title: string, content: string, footer: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="background-color: #f8f9fa; border-radius: 10px; padding: 30px; margin-bottom: 20px;">
+      <h1 style="color: ${BRAND_COLOR}; margin-top: 0;">${escapeHtml(title)}</h1>
+      ${content}
+    </div>
+    <div style="font-size: 12px; color: #999; text-align: center; margin-top: 20px;">
+      <p>${escapeHtml(footer)}</p>
+      <p>&copy; ${new Date().getFullYear()} ${escapeHtml(CHAPTER.name)}. All rights reserved.</p>
+    </div>
+  </body>
+</html>`;
+}
+
+/**
+ * Wrap plain-text content with the footer
+ */
+export function renderTextLayout(content: string, footer: string): string {
+  return `${content.trim()}\n\n--\n${footer}\n© ${new Date().getFullYear()} ${CHAPTER.name}`;
+}
+
+/**
+ * Styled paragraph for the HTML variant
+ */
+export function paragraph(html: string, muted = false): string {
+  const style = muted ? 'font-size: 14px; color: #666;' : 'font-size: 16px; margin-bottom: 20px;';
+  return `<p style="${style}">${html}</p>`;
+}
+
+/**
+ * Highlighted box for the HTML variant (e.g. a code)
+ */
+export function callout(label: string, value: string): string {
+  return `<div style="background-color: #fff; border: 2px solid ${BRAND_COLOR}; border-radius: 8px; padding: 20px; text-align: center; margin: 30px 0;">
+        <p style="font-size: 14px; color: #666; margin-bottom: 10px;">${escapeHtml(label)}</p>
+        <p style="font-size: 36px; font-weight: bold; color: ${BRAND_COLOR}; letter-spacing: 8px; margin: 10px 0;">${escapeHtml(value)}</p>
+      </div>`;
+}
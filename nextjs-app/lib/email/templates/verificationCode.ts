@@ -0,0 +1,50 @@
+import { CHAPTER } from '../../chapter';
+import type { RenderedEmail } from '../types';
+import { callout, escapeHtml, paragraph, renderHtmlLayout, renderTextLayout } from './layout';
+
+export interface VerificationCodeEmailData {
+  code: string;
+  expiresInMinutes: number;
+  maxAttempts: number;
+}
+
+const FOOTER = "If you didn't request this verification code, please ignore this email.";
+const WELCOME = `Welcome to ${CHAPTER.name}!`;
+const INTRO = `Thank you for signing up. To complete your registration, please verify your ${CHAPTER.school.abbreviation} email address.`;
+
+/**
+ * School email verification code
+ */
+export function renderVerificationCodeEmail(data: VerificationCodeEmailData): RenderedEmail {
+  const attemptsNote = `You have ${data.maxAttempts} attempts to enter the correct code. After ${data.maxAttempts} failed attempts, you'll need to wait a few minutes before trying again.`;
+  
+  return {
+    subject: `Verify your ${CHAPTER.school.abbreviation} Email - ${CHAPTER.name}`,
+    text: renderTextLayout(
+      [
+        WELCOME,
+        '',
+        INTRO,
+        '',
+        `Your verification code is: ${data.code}`,
+        '',
+        `This code will expire in ${data.expiresInMinutes} minutes.`,
+        attemptsNote,
+      ].join('\n'),
+      FOOTER
+    ),
+    html: renderHtmlLayout(
+      WELCOME,
+      [
+        paragraph(escapeHtml(INTRO)),
+        callout('Your verification code is:', data.code),
+        paragraph(`This code will expire in <strong>${data.expiresInMinutes} minutes</strong>.`, true),
+        paragraph(
+          `You have <strong>${data.maxAttempts} attempts</strong> to enter the correct code. After ${data.maxAttempts} failed attempts, you'll need to wait a few minutes before trying again.`,
+          true
+        ),
+      ].join('\n      '),
+      FOOTER
+    ),
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Email message ready to hand to a provider
+ */
+export interface EmailMessage {
+  from: string;                  // e.g. "MLH TTU <verify@mlhttu.org>"
+  to: string[];
+  subject: string;
+  text: string;                  // Plain-text variant
+  html: string;                  // HTML variant
+  replyTo?: string;
+}
+
+/**
+ * Outcome of a successful delivery
+ */
+export interface EmailDelivery {
+  messageId: string | null;      // Provider's message ID, when it returns one
+}
+
+/**
+ * Email delivery backend
+ * Providers throw on failure; the sender retries and records each attempt.
+ */
+export interface EmailProvider {
+  name: string;
+  send(message: EmailMessage): Promise<EmailDelivery>;
+}
+
+/**
+ * Rendered template content
+ */
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
@@ -13,6 +13,8 @@ import {
   Firestore,
 } from 'firebase/firestore';
 import { getFirebaseFirestore } from './config';
+import { resolveRoles } from '../constants/roles';
+import { resolveMemberStatus } from '../constants/memberStatuses';
 import type {
   Event,
   User,
@@ -118,10 +120,20 @@ export function toEvent(id: string, data: any): Event {
     location: data.location,
     pointsValue: data.pointsValue,
     createdBy: data.createdBy,
+    hostIds: data.hostIds ?? [],
     status: data.status,
     attendanceCode: data.attendanceCode,
     codeActive: data.codeActive ?? false,
+    codeMode: data.codeMode ?? 'static',
+    codeRotationSeconds: data.codeRotationSeconds,
     attendees: data.attendees ?? [],
+    category: data.category ?? 'general',
+    capacity: data.capacity ?? null,
+    rsvps: data.rsvps ?? [],
+    waitlist: data.waitlist ?? [],
+    seriesId: data.seriesId,
+    occurrenceIndex: data.occurrenceIndex,
+    sequence: data.sequence ?? 0,
     createdAt: data.createdAt,
     updatedAt: data.updatedAt,
   };
@@ -137,7 +149,9 @@ export function toUser(uid: string, data: any): User {
     email: data.email,
     displayName: data.displayName,
     ttuVerified: data.ttuVerified ?? false,
+    memberStatus: resolveMemberStatus(data),
     isAdmin: data.isAdmin ?? false,
+    roles: resolveRoles(data),
     points: data.points ?? 0,
     attendedEvents: data.attendedEvents ?? [],
     createdAt: data.createdAt,
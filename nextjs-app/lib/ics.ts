@@ -0,0 +1,223 @@
+import { CHAPTER } from './chapter';
+import type { EventStatus } from './types';
+
+/**
+ * iCalendar (RFC 5545) helpers for chapter event feeds and downloads
+ * 
+ * Events are written in UTC so feeds don't need VTIMEZONE blocks; calendar
+ * apps show them in the subscriber's local time. Each event keeps the same
+ * UID for its lifetime and carries its SEQUENCE, so subscribed calendars
+ * update (or, for STATUS:CANCELLED, remove) their copy instead of adding a
+ * duplicate.
+ */
+
+/**
+ * Anything with a toDate(), i.e. a client or Admin SDK Timestamp
+ */
+interface IcsTimestamp {
+  toDate(): Date;
+}
+
+/**
+ * Event fields used to build a VEVENT
+ * Matches both the client and server Event types.
+ */
+export interface IcsEventSource {
+  id: string;
+  name: string;
+  description: string;
+  location: string;
+  pointsValue: number;
+  status: EventStatus;
+  startTime: IcsTimestamp;
+  endTime?: IcsTimestamp;
+  sequence?: number;
+  createdAt: IcsTimestamp;
+  updatedAt: IcsTimestamp;
+}
+
+/**
+ * Options for a whole calendar
+ */
+export interface IcsCalendarOptions {
+  name: string;                  // X-WR-CALNAME shown by calendar apps
+  description?: string;          // X-WR-CALDESC
+  url?: string;                  // Base URL of the site, used for event links
+}
+
+/**
+ * Content type for .ics responses
+ */
+export const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+/**
+ * Events without an end time are shown as this long
+ */
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * How often subscribed calendars should refresh the feed
+ */
+const REFRESH_INTERVAL = 'PT1H';
+
+/**
+ * Maximum line length in octets before folding
+ */
+const MAX_LINE_OCTETS = 75;
+
+const PRODUCT_ID = `-//${CHAPTER.name}//Chapter Events//EN`;
+
+const UID_DOMAIN = `${CHAPTER.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.events`;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Escape a TEXT property value
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Format a date as a UTC DATE-TIME, e.g. 20260115T183000Z
+ */
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold a content line at 75 octets without splitting UTF-8 characters
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) {
+    return line;
+  }
+  
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    
+    current += char;
+    currentOctets += charOctets;
+  }
+  
+  parts.push(current);
+  
+  return parts.join('\r\n ');
+}
+
+/**
+ * Stable UID for an event
+ */
+export function getIcsUid(eventId: string): string {
+  return `${eventId}@${UID_DOMAIN}`;
+}
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+/**
+ * Build the VEVENT lines for an event
+ * 
+ * @param event - Event to describe
+ * @param options - Calendar options (for the event link)
+ * @returns Unfolded content lines
+ */
+function buildEventLines(event: IcsEventSource, options: IcsCalendarOptions): string[] {
+  const start = event.startTime.toDate();
+  const end = event.endTime
+    ? event.endTime.toDate()
+    : new Date(start.getTime() + DEFAULT_DURATION_MS);
+  
+  const description = `${event.description}\n\nPoints: ${event.pointsValue} XP`;
+  
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getIcsUid(event.id)}`,
+    `DTSTAMP:${formatIcsDate(event.updatedAt.toDate())}`,
+    `CREATED:${formatIcsDate(event.createdAt.toDate())}`,
+    `LAST-MODIFIED:${formatIcsDate(event.updatedAt.toDate())}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `DTSTART:${formatIcsDate(start)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `SUMMARY:${escapeIcsText(event.name)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    `LOCATION:${escapeIcsText(event.location)}`,
+    `STATUS:${event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+  ];
+  
+  if (options.url) {
+    lines.push(`URL:${new URL('/events', options.url).toString()}`);
+  }
+  
+  lines.push('END:VEVENT');
+  
+  return lines;
+}
+
+/**
+ * Build an iCalendar document for a set of events
+ * 
+ * @param events - Events to include (cancelled events are kept so
+ *   subscribers remove them)
+ * @param options - Calendar name, description and site URL
+ * @returns iCalendar text with CRLF line endings
+ */
+export function buildIcsCalendar(events: IcsEventSource[], options: IcsCalendarOptions): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(options.name)}`,
+    `X-WR-TIMEZONE:${CHAPTER.timeZone}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+  
+  if (options.description) {
+    lines.push(`X-WR-CALDESC:${escapeIcsText(options.description)}`);
+  }
+  
+  const sorted = [...events].sort(
+    (a, b) => a.startTime.toDate().getTime() - b.startTime.toDate().getTime()
+  );
+  
+  for (const event of sorted) {
+    lines.push(...buildEventLines(event, options));
+  }
+  
+  lines.push('END:VCALENDAR');
+  
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * File name for a single event download, e.g. "intro-to-git.ics"
+ */
+export function getIcsFileName(event: Pick<IcsEventSource, 'id' | 'name'>): string {
+  const slug = event.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || event.id}.ics`;
+}
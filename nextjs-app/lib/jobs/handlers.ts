@@ -0,0 +1,73 @@
+import 'server-only';
+import { pruneFinishedJobs } from './index';
+import type { JobHandler, JobType } from './types';
+import { syncEventCalendar } from '../services/calendar.service';
+import { markCalendarSyncFailed } from '../services/calendarSync.service';
+import { cleanupExpiredAccounts, deliverVerificationCode } from '../services/ttuEmailVerification';
+import { runEventLifecycle } from '../services/lifecycle.service';
+import { pruneJobRuns } from '../services/jobRun.service';
+import { evaluateBadgesForUsers } from '../services/badge.service';
+import { rebuildLifetimeLeaderboard } from '../services/leaderboard.service';
+
+/**
+ * Handler for every job type
+ */
+export const jobHandlers: { [T in JobType]: JobHandler<T> } = {
+  'calendar.sync': {
+    async run({ eventId }) {
+      const sync = await syncEventCalendar(eventId);
+      
+      if (!sync) {
+        return { synced: false };
+      }
+      
+      if (!sync.synced) {
+        throw Object.assign(
+          new Error(sync.outcome.error ?? `${sync.outcome.failedRecipients.length} invitation(s) failed`),
+          { retryAfterMs: sync.outcome.retryAfterMs }
+        );
+      }
+      
+      return { synced: true, invitations: sync.outcome.invitations.length };
+    },
+    async onDeadLetter({ eventId }, error) {
+      await markCalendarSyncFailed(eventId, error);
+    },
+  },
+  
+  'email.verification-code': {
+    async run(payload) {
+      return deliverVerificationCode(payload);
+    },
+  },
+  
+  'events.lifecycle': {
+    async run() {
+      return { ...(await runEventLifecycle()) };
+    },
+  },
+  
+  'accounts.cleanup': {
+    async run() {
+      return { cleanedCount: await cleanupExpiredAccounts() };
+    },
+  },
+  
+  'jobs.prune': {
+    async run() {
+      return {
+        deletedCount: await pruneFinishedJobs(),
+        deletedRunCount: await pruneJobRuns(),
+      };
+    },
+  },
+  
+  'badges.evaluate': {
+    async run({ userIds }) {
+      const badges = await evaluateBadgesForUsers(userIds);
+      const leaderboardEntries = await rebuildLifetimeLeaderboard();
+      
+      return { ...badges, leaderboardEntries };
+    },
+  },
+};
@@ -0,0 +1,249 @@
+import 'server-only';
+import { createHash } from 'crypto';
+import { getAdminFirestore } from '../firebase/admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import type { EnqueueJobOptions, Job, JobPayloads, JobType } from './types';
+
+export type {
+  EnqueueJobOptions,
+  Job,
+  JobContext,
+  JobHandler,
+  JobPayloads,
+  JobResult,
+  JobStatus,
+  JobType,
+} from './types';
+
+/**
+ * Background Job Queue
+ * 
+ * Firestore-backed queue for work that must not be lost when a request
+ * ends, including:
+ * - Typed job payloads and handlers (see types.ts and handlers.ts)
+ * - Idempotency keys, so enqueueing the same work twice runs it once
+ * - Retries with exponential backoff, then dead-lettering
+ * - Recurring jobs (lifecycle, cleanup) enqueued by the worker on a schedule
+ * 
+ * Services enqueue jobs here; worker.ts claims and runs them. The worker
+ * is driven by /api/jobs/worker (called by cron) or `npm run jobs:work`.
+ */
+
+export const JOBS_COLLECTION = 'jobs';
+
+/**
+ * Attempts before a job is dead-lettered
+ */
+const MAX_ATTEMPTS: Record<JobType, number> = {
+  'calendar.sync': 6,
+  'email.verification-code': 4,
+  'events.lifecycle': 3,
+  'accounts.cleanup': 3,
+  'jobs.prune': 3,
+  'badges.evaluate': 3,
+};
+
+/**
+ * Delay before the first retry; doubles with each failed attempt
+ */
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Finished jobs are kept this long (their idempotency keys dedupe until then)
+ */
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const PRUNE_BATCH_SIZE = 400;
+
+/**
+ * Firestore error code for a document that already exists
+ */
+const ALREADY_EXISTS = 6;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Convert a Firestore document to a Job
+ */
+export function toJob(doc: FirebaseFirestore.DocumentSnapshot): Job {
+  const data = doc.data() ?? {};
+  
+  return {
+    id: doc.id,
+    type: data.type,
+    payload: data.payload ?? {},
+    status: data.status,
+    attempts: data.attempts ?? 0,
+    maxAttempts: data.maxAttempts ?? MAX_ATTEMPTS[data.type as JobType] ?? 1,
+    runAt: data.runAt,
+    idempotencyKey: data.idempotencyKey ?? null,
+    lastError: data.lastError ?? null,
+    result: data.result ?? null,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+    completedAt: data.completedAt ?? null,
+  };
+}
+
+/**
+ * Document ID for an idempotency key (keys may contain any characters)
+ */
+function getIdempotentJobId(idempotencyKey: string): string {
+  return createHash('sha256').update(idempotencyKey).digest('hex').slice(0, 40);
+}
+
+/**
+ * Delay before retrying after the given number of failed attempts
+ * 
+ * @param attempts - Attempts made so far
+ * @param retryAfterMs - Minimum delay asked for by the handler
+ */
+export function getRetryDelayMs(attempts: number, retryAfterMs: number = 0): number {
+  return Math.max(
+    Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS),
+    retryAfterMs
+  );
+}
+
+// ============================================================================
+// Queue Operations
+// ============================================================================
+
+/**
+ * Add a job to the queue
+ * With an idempotency key, the job is only created if no job with that key
+ * exists (in any status), so retried requests and overlapping workers
+ * never enqueue the same work twice.
+ * 
+ * @param type - Job type
+ * @param payload - Payload for the job's handler
+ * @param options - Idempotency key and first run time
+ * @returns The job ID, and whether a new job was created
+ * @throws Error if the job cannot be stored
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueJobOptions = {}
+): Promise<{ id: string; created: boolean }> {
+  const db = getAdminFirestore();
+  const collection = db.collection(JOBS_COLLECTION);
+  const jobRef = options.idempotencyKey
+    ? collection.doc(getIdempotentJobId(options.idempotencyKey))
+    : collection.doc();
+  const now = Timestamp.now();
+  
+  try {
+    await jobRef.create({
+      type,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: MAX_ATTEMPTS[type],
+      runAt: options.runAt ? Timestamp.fromDate(options.runAt) : now,
+      idempotencyKey: options.idempotencyKey ?? null,
+      lastError: null,
+      result: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    });
+    
+    return { id: jobRef.id, created: true };
+  } catch (error: any) {
+    if (options.idempotencyKey && error.code === ALREADY_EXISTS) {
+      return { id: jobRef.id, created: false };
+    }
+    
+    console.error(`Error enqueueing ${type} job:`, error);
+    throw new Error('Failed to enqueue job');
+  }
+}
+
+/**
+ * Get a job by ID
+ * 
+ * @param jobId - Job ID
+ * @returns The job, or null if it doesn't exist
+ */
+export async function getJob(jobId: string): Promise<Job | null> {
+  try {
+    const db = getAdminFirestore();
+    const jobDoc = await db.collection(JOBS_COLLECTION).doc(jobId).get();
+    
+    return jobDoc.exists ? toJob(jobDoc) : null;
+  } catch (error) {
+    console.error('Error getting job:', error);
+    throw new Error('Failed to get job');
+  }
+}
+
+/**
+ * Put a dead-lettered job back in the queue with fresh attempts
+ * 
+ * @param jobId - Job to requeue
+ * @throws Error if the job doesn't exist or isn't dead-lettered
+ */
+export async function requeueJob(jobId: string): Promise<void> {
+  const db = getAdminFirestore();
+  const jobRef = db.collection(JOBS_COLLECTION).doc(jobId);
+  
+  await db.runTransaction(async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+    
+    if (!jobDoc.exists) {
+      throw new Error('Job not found');
+    }
+    
+    if (toJob(jobDoc).status !== 'dead') {
+      throw new Error('Only dead-lettered jobs can be requeued');
+    }
+    
+    const now = Timestamp.now();
+    transaction.update(jobRef, {
+      status: 'pending',
+      attempts: 0,
+      runAt: now,
+      updatedAt: now,
+      completedAt: null,
+    });
+  });
+}
+
+/**
+ * Delete succeeded jobs past the retention period
+ * Dead-lettered jobs are kept until someone looks at them.
+ * 
+ * @returns Number of jobs deleted
+ */
+export async function pruneFinishedJobs(): Promise<number> {
+  try {
+    const db = getAdminFirestore();
+    const cutoff = Timestamp.fromMillis(Date.now() - FINISHED_JOB_RETENTION_MS);
+    let deleted = 0;
+    
+    while (true) {
+      const snapshot = await db.collection(JOBS_COLLECTION)
+        .where('status', '==', 'succeeded')
+        .where('completedAt', '<', cutoff)
+        .limit(PRUNE_BATCH_SIZE)
+        .get();
+      
+      if (snapshot.empty) {
+        return deleted;
+      }
+      
+      const batch = db.batch();
+      snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+      deleted += snapshot.size;
+    }
+  } catch (error) {
+    console.error('Error pruning finished jobs:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,79 @@
+import type { Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * Payload for each job type
+ */
+export interface JobPayloads {
+  'calendar.sync': { eventId: string };
+  'email.verification-code': {
+    uid: string;
+    email: string;
+    requestedAt: number;         // Epoch ms of the request; newer requests supersede it
+    ip?: string | null;
+    userAgent?: string | null;
+  };
+  'events.lifecycle': Record<string, never>;
+  'accounts.cleanup': Record<string, never>;
+  'jobs.prune': Record<string, never>;
+  'badges.evaluate': { userIds: string[] };
+}
+
+export type JobType = keyof JobPayloads;
+
+/**
+ * Where a job stands
+ * - pending: waiting for runAt (new, or retrying with backoff)
+ * - running: claimed by a worker until runAt (its lease) passes
+ * - succeeded: finished; kept for a while so idempotency keys still dedupe
+ * - dead: out of attempts (dead-lettered); can be requeued by hand
+ */
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'dead';
+
+/**
+ * Summary a handler returns, stored on the job
+ */
+export type JobResult = Record<string, unknown>;
+
+/**
+ * Stored job (jobs/{id})
+ */
+export interface Job<T extends JobType = JobType> {
+  id: string;
+  type: T;
+  payload: JobPayloads[T];
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Timestamp;              // Next time a worker may pick the job up
+  idempotencyKey: string | null;
+  lastError: string | null;
+  result: JobResult | null;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  completedAt: Timestamp | null;
+}
+
+/**
+ * Details of the attempt passed to a handler
+ */
+export interface JobContext {
+  jobId: string;
+  attempt: number;               // 1 on the first run
+  maxAttempts: number;
+}
+
+/**
+ * Code that runs a job type
+ * Throwing fails the attempt; the job is retried with backoff, or
+ * dead-lettered once it is out of attempts. An error may carry
+ * retryAfterMs to delay the next attempt at least that long.
+ */
+export interface JobHandler<T extends JobType> {
+  run(payload: JobPayloads[T], context: JobContext): Promise<JobResult | void>;
+  onDeadLetter?(payload: JobPayloads[T], error: string): Promise<void>;
+}
+
+export interface EnqueueJobOptions {
+  idempotencyKey?: string;       // Jobs with the same key are only enqueued once
+  runAt?: Date;                  // Defaults to now
+}
@@ -0,0 +1,327 @@
+import 'server-only';
+import { getAdminFirestore } from '../firebase/admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { enqueueJob, getRetryDelayMs, JOBS_COLLECTION, toJob } from './index';
+import { jobHandlers } from './handlers';
+import type { Job, JobHandler, JobType } from './types';
+
+/**
+ * Job Worker
+ * 
+ * Claims due jobs, runs their handlers and records the outcome. Jobs are
+ * claimed in a transaction and leased, so overlapping workers never run
+ * the same job at once; a job whose worker dies is picked up again once
+ * its lease expires.
+ */
+
+/**
+ * How long a claimed job is leased to its worker
+ */
+const JOB_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Jobs claimed per query while draining
+ */
+const CLAIM_BATCH_SIZE = 5;
+
+/**
+ * Defaults for one drain: stop after this many jobs or this long, so a
+ * serverless invocation finishes well within its time limit
+ */
+const DEFAULT_DRAIN_MAX_JOBS = 50;
+const DEFAULT_DRAIN_TIME_BUDGET_MS = 45 * 1000;
+
+/**
+ * Recurring jobs, enqueued once per interval by whichever worker runs first
+ */
+const SCHEDULES: Array<{ type: JobType; intervalMs: number }> = [
+  { type: 'events.lifecycle', intervalMs: 5 * 60 * 1000 },
+  { type: 'accounts.cleanup', intervalMs: 60 * 60 * 1000 },
+  { type: 'jobs.prune', intervalMs: 24 * 60 * 60 * 1000 },
+];
+
+/**
+ * Totals for one drain
+ */
+export interface DrainResult {
+  scheduled: number;             // Recurring jobs enqueued
+  processed: number;
+  succeeded: number;
+  retried: number;               // Failed and scheduled to retry
+  deadLettered: number;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Idempotency key for the current run of a recurring job
+ * 
+ * @param type - Recurring job type
+ * @param now - Time to find the interval for (defaults to now)
+ */
+export function getScheduleKey(type: JobType, now: number = Date.now()): string {
+  const schedule = SCHEDULES.find((item) => item.type === type);
+  if (!schedule) {
+    throw new Error(`No schedule for ${type} jobs`);
+  }
+  
+  return `schedule:${type}:${Math.floor(now / schedule.intervalMs)}`;
+}
+
+/**
+ * Claim a job if it is due (or its lease has expired)
+ * 
+ * @param jobId - Job to claim
+ * @param ignoreRunAt - Claim a pending job even if its retry isn't due yet
+ * @returns The claimed job (status 'dead' if its worker died on the last
+ *   attempt), or null if another worker has it or it's finished
+ */
+async function claimJob(jobId: string, ignoreRunAt: boolean = false): Promise<Job | null> {
+  const db = getAdminFirestore();
+  const jobRef = db.collection(JOBS_COLLECTION).doc(jobId);
+  
+  return db.runTransaction(async (transaction) => {
+    const jobDoc = await transaction.get(jobRef);
+    
+    if (!jobDoc.exists) {
+      return null;
+    }
+    
+    const job = toJob(jobDoc);
+    const nowMillis = Date.now();
+    const due = job.runAt.toMillis() <= nowMillis;
+    
+    if (job.status === 'pending' ? !(due || ignoreRunAt) : !(job.status === 'running' && due)) {
+      return null;
+    }
+    
+    const now = Timestamp.fromMillis(nowMillis);
+    
+    // The previous worker died mid-run and the job is out of attempts
+    if (job.status === 'running' && job.attempts >= job.maxAttempts) {
+      const update = {
+        status: 'dead' as const,
+        lastError: job.lastError ?? 'Worker stopped before the job finished',
+        updatedAt: now,
+        completedAt: now,
+      };
+      transaction.update(jobRef, update);
+      return { ...job, ...update };
+    }
+    
+    transaction.update(jobRef, {
+      status: 'running',
+      attempts: job.attempts + 1,
+      runAt: Timestamp.fromMillis(nowMillis + JOB_LEASE_MS),
+      updatedAt: now,
+    });
+    
+    return { ...job, status: 'running', attempts: job.attempts + 1 };
+  });
+}
+
+/**
+ * Let a job's handler react to it being dead-lettered
+ */
+async function notifyDeadLetter(job: Job, handler: JobHandler<JobType> | undefined): Promise<void> {
+  if (!handler?.onDeadLetter) {
+    return;
+  }
+  
+  try {
+    await handler.onDeadLetter(job.payload, job.lastError ?? 'Unknown error');
+  } catch (error) {
+    console.error(`Error in dead-letter hook for ${job.type}:`, error);
+  }
+}
+
+/**
+ * Run a claimed job's handler and record the outcome
+ * 
+ * @param job - Claimed job
+ * @returns The job as stored afterwards
+ */
+async function runClaimedJob(job: Job): Promise<Job> {
+  const db = getAdminFirestore();
+  const jobRef = db.collection(JOBS_COLLECTION).doc(job.id);
+  const handler = jobHandlers[job.type] as JobHandler<JobType> | undefined;
+  
+  if (job.status === 'dead') {
+    await notifyDeadLetter(job, handler);
+    return job;
+  }
+  
+  try {
+    if (!handler) {
+      throw new Error(`No handler for ${job.type} jobs`);
+    }
+    
+    const result = await handler.run(job.payload, {
+      jobId: job.id,
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+    });
+    const now = Timestamp.now();
+    const update = {
+      status: 'succeeded' as const,
+      lastError: null,
+      result: result ?? null,
+      runAt: now,
+      updatedAt: now,
+      completedAt: now,
+    };
+    
+    await jobRef.update(update);
+    
+    return { ...job, ...update };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryAfterMs = (error as { retryAfterMs?: number } | null)?.retryAfterMs;
+    const dead = !handler || job.attempts >= job.maxAttempts;
+    const now = Timestamp.now();
+    
+    console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}/${job.maxAttempts}:`, message);
+    
+    const update = dead
+      ? { status: 'dead' as const, lastError: message, runAt: now, updatedAt: now, completedAt: now }
+      : {
+        status: 'pending' as const,
+        lastError: message,
+        runAt: Timestamp.fromMillis(now.toMillis() + getRetryDelayMs(job.attempts, retryAfterMs)),
+        updatedAt: now,
+      };
+    
+    await jobRef.update(update);
+    
+    const finished = { ...job, ...update };
+    if (dead) {
+      await notifyDeadLetter(finished, handler);
+    }
+    
+    return finished;
+  }
+}
+
+// ============================================================================
+// Worker Operations
+// ============================================================================
+
+/**
+ * Enqueue recurring jobs whose interval has started
+ * Safe to call from any number of workers: each interval's job has its own
+ * idempotency key.
+ * 
+ * @returns Number of jobs enqueued
+ */
+export async function enqueueScheduledJobs(): Promise<number> {
+  let enqueued = 0;
+  
+  for (const schedule of SCHEDULES) {
+    const { created } = await enqueueJob(schedule.type, {}, {
+      idempotencyKey: getScheduleKey(schedule.type),
+    });
+    if (created) {
+      enqueued++;
+    }
+  }
+  
+  return enqueued;
+}
+
+/**
+ * Run a job now instead of waiting for the worker
+ * Used when a request wants the first attempt inline (e.g. sending a
+ * verification code) while keeping the queue's retries if it fails. A job
+ * that already finished, or is running elsewhere, is returned as is.
+ * 
+ * @param jobId - Job to run
+ * @returns The job after the attempt
+ * @throws Error if the job doesn't exist
+ */
+export async function runJobNow(jobId: string): Promise<Job> {
+  const claimed = await claimJob(jobId, true);
+  
+  if (claimed) {
+    return runClaimedJob(claimed);
+  }
+  
+  const db = getAdminFirestore();
+  const jobDoc = await db.collection(JOBS_COLLECTION).doc(jobId).get();
+  
+  if (!jobDoc.exists) {
+    throw new Error('Job not found');
+  }
+  
+  return toJob(jobDoc);
+}
+
+/**
+ * Run due jobs until the queue is empty or the limits are reached
+ * Enqueues recurring jobs first.
+ * 
+ * @param options.maxJobs - Stop after this many jobs
+ * @param options.timeBudgetMs - Don't start a new job after this long
+ * @returns Totals for the drain
+ */
+export async function drainJobs(
+  options: { maxJobs?: number; timeBudgetMs?: number } = {}
+): Promise<DrainResult> {
+  const maxJobs = options.maxJobs ?? DEFAULT_DRAIN_MAX_JOBS;
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_DRAIN_TIME_BUDGET_MS);
+  const result: DrainResult = {
+    scheduled: await enqueueScheduledJobs(),
+    processed: 0,
+    succeeded: 0,
+    retried: 0,
+    deadLettered: 0,
+  };
+  const db = getAdminFirestore();
+  
+  while (result.processed < maxJobs && Date.now() < deadline) {
+    // Pending jobs that are due, and running jobs whose lease expired
+    const snapshot = await db.collection(JOBS_COLLECTION)
+      .where('status', 'in', ['pending', 'running'])
+      .where('runAt', '<=', Timestamp.now())
+      .orderBy('runAt')
+      .limit(CLAIM_BATCH_SIZE)
+      .get();
+    
+    if (snapshot.empty) {
+      break;
+    }
+    
+    let claimedAny = false;
+    
+    for (const doc of snapshot.docs) {
+      if (result.processed >= maxJobs || Date.now() >= deadline) {
+        break;
+      }
+      
+      const claimed = await claimJob(doc.id);
+      if (!claimed) {
+        continue;
+      }
+      
+      claimedAny = true;
+      const finished = await runClaimedJob(claimed);
+      result.processed++;
+      
+      if (finished.status === 'succeeded') {
+        result.succeeded++;
+      } else if (finished.status === 'dead') {
+        result.deadLettered++;
+      } else {
+        result.retried++;
+      }
+    }
+    
+    // Everything due was claimed by other workers
+    if (!claimedAny) {
+      break;
+    }
+  }
+  
+  return result;
+}
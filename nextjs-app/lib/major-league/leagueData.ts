@@ -1,4 +1,5 @@
 import { MonthLeague, LeagueManager } from './MonthLeague';
+import { LeagueWindow } from './types';
 
 /**
  * Initialize all league data
@@ -108,3 +109,24 @@ export function getLeagueManager(): LeagueManager {
   
   return manager;
 }
+
+/**
+ * Get the hackathon window of every league with dates set
+ * League dates are inclusive calendar days, so each window ends the day after endDate
+ */
+export function getLeagueWindows(): LeagueWindow[] {
+  return getLeagueManager()
+    .getAllLeagues()
+    .filter((league) => league.startDate && league.endDate)
+    .map((league) => {
+      const start = new Date(`${league.startDate}T00:00:00`);
+      const end = new Date(`${league.endDate}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      return {
+        month: league.month,
+        label: `${league.month} ${start.getFullYear()}`,
+        start,
+        end,
+      };
+    });
+}
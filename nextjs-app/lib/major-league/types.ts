@@ -51,3 +51,10 @@ export interface MonthHackathonData {
   resources: Resource[];
   color: ColorTheme;
 }
+
+export interface LeagueWindow {
+  month: MonthKey;
+  label: string;                 // e.g. "January 2026"
+  start: Date;                   // Start of startDate (inclusive)
+  end: Date;                     // Day after endDate (exclusive)
+}
@@ -2,14 +2,24 @@ import 'server-only';
 import { NextRequest, NextResponse } from 'next/server';
 import { getAdminAuth } from '../firebase/admin';
 import { getUser } from '../services/user.service';
+import { getEvent } from '../services/event.service';
+import { hasAnyRole, hasEventPermission, hasPermission } from '../constants/roles';
+import {
+  consumeRateLimit,
+  recordRateLimitFailure,
+  resetRateLimitFailures,
+  type RateLimitSubject,
+} from '../services/rateLimit.service';
+import type { Permission, RateLimitPolicy, RateLimitResult, Role } from '../types';
 
 /**
  * Authentication and Authorization Middleware
  * 
  * Provides middleware functions for:
  * - Verifying Firebase Auth tokens
- * - Checking admin role
+ * - Checking admin roles and permissions (global and event-scoped)
  * - Checking onboarding status
+ * - Per-user and per-IP rate limiting
  */
 
 // ============================================================================
@@ -22,6 +32,7 @@ export interface AuthenticatedRequest extends NextRequest {
     uid: string;
     email: string;
     isAdmin: boolean;
+    roles: Role[];
     ttuVerified: boolean;
   };
 }
@@ -33,6 +44,7 @@ export interface AuthMiddlewareResult {
     uid: string;
     email: string;
     isAdmin: boolean;
+    roles: Role[];
     ttuVerified: boolean;
   };
   error?: {
@@ -42,6 +54,31 @@ export interface AuthMiddlewareResult {
   };
 }
 
+/**
+ * Options for withAuth
+ */
+export interface WithAuthOptions {
+  rateLimit?: RateLimitPolicy;   // Apply per-user and per-IP rate limiting
+}
+
+/**
+ * Rate limit helpers passed to handlers wrapped with a rate limit policy
+ */
+export interface RateLimitContext {
+  recordFailure: () => Promise<void>;   // Count a failed attempt (may start a lockout)
+  reset: () => Promise<void>;           // Clear the user's failed attempts after a success
+}
+
+/**
+ * Context passed to handlers wrapped with withAuth
+ */
+export interface AuthContext {
+  userId: string;
+  user: any;
+  rateLimit?: RateLimitContext;
+  routeContext?: any;
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -66,6 +103,27 @@ function extractToken(request: NextRequest): string | null {
   return null;
 }
 
+/**
+ * Extract the client IP address from proxy headers
+ * Clients can send their own X-Forwarded-For, so entries are counted from
+ * the end: each of the TRUSTED_PROXY_HOPS proxies in front of the app
+ * (default: 1, e.g. Vercel) appends the address it saw, and the one added by
+ * the outermost trusted proxy is the client.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    const hops = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1);
+    const addresses = forwardedFor.split(',').map((address) => address.trim()).filter(Boolean);
+    
+    if (addresses.length > 0) {
+      return addresses[Math.max(0, addresses.length - hops)];
+    }
+  }
+  
+  return request.headers.get('x-real-ip');
+}
+
 // ============================================================================
 // Middleware Functions
 // ============================================================================
@@ -186,6 +244,7 @@ export async function requireAuth(
         uid: user.uid,
         email: user.email,
         isAdmin: user.isAdmin,
+        roles: user.roles,
         ttuVerified: user.ttuVerified,
       },
     };
@@ -203,7 +262,8 @@ export async function requireAuth(
 }
 
 /**
- * Verify user is authenticated and has admin role
+ * Verify user is authenticated and holds any admin role
+ * Use requirePermission for actions that not every role may perform.
  * 
  * @param request - Next.js request object
  * @returns AuthMiddlewareResult with user data or error
@@ -217,7 +277,7 @@ export async function requireAdmin(
     return authResult;
   }
   
-  if (!authResult.user?.isAdmin) {
+  if (!hasAnyRole(authResult.user)) {
     return {
       success: false,
       error: {
@@ -231,6 +291,101 @@ export async function requireAdmin(
   return authResult;
 }
 
+/**
+ * Verify user is authenticated and one of their roles grants a permission
+ * 
+ * @param request - Next.js request object
+ * @param permission - Permission required for the action
+ * @returns AuthMiddlewareResult with user data or error
+ */
+export async function requirePermission(
+  request: NextRequest,
+  permission: Permission
+): Promise<AuthMiddlewareResult> {
+  const authResult = await requireAuth(request);
+  
+  if (!authResult.success) {
+    return authResult;
+  }
+  
+  if (!hasPermission(authResult.user, permission)) {
+    return {
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: `Missing permission: ${permission}`,
+        status: 403,
+      },
+    };
+  }
+  
+  return authResult;
+}
+
+/**
+ * Verify user is authenticated and may perform an action on a specific event
+ * Hosts listed on the event hold its event-scoped permissions without a
+ * global role granting them.
+ * 
+ * @param request - Next.js request object
+ * @param eventId - Event the action targets
+ * @param permission - Permission required for the action
+ * @returns AuthMiddlewareResult with user data or error
+ */
+export async function requireEventPermission(
+  request: NextRequest,
+  eventId: string,
+  permission: Permission
+): Promise<AuthMiddlewareResult> {
+  const authResult = await requireAuth(request);
+  
+  if (!authResult.success) {
+    return authResult;
+  }
+  
+  if (hasPermission(authResult.user, permission)) {
+    return authResult;
+  }
+  
+  try {
+    const event = await getEvent(eventId);
+    
+    if (!event) {
+      return {
+        success: false,
+        error: {
+          code: 'EVENT_NOT_FOUND',
+          message: 'Event not found',
+          status: 404,
+        },
+      };
+    }
+    
+    if (!hasEventPermission(authResult.user, permission, event)) {
+      return {
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `Missing permission: ${permission} for this event`,
+          status: 403,
+        },
+      };
+    }
+    
+    return authResult;
+  } catch (error) {
+    console.error('Error loading event for permission check:', error);
+    return {
+      success: false,
+      error: {
+        code: 'EVENT_LOAD_ERROR',
+        message: 'Failed to load event',
+        status: 500,
+      },
+    };
+  }
+}
+
 /**
  * Verify user is authenticated and has completed onboarding (TTU verified)
  * 
@@ -294,16 +449,66 @@ export function createErrorResponse(result: AuthMiddlewareResult): NextResponse
   );
 }
 
+/**
+ * Create 429 response for a blocked request
+ * 
+ * @param result - RateLimitResult that was not allowed
+ * @returns NextResponse with Retry-After header
+ */
+export function createRateLimitResponse(result: RateLimitResult): NextResponse {
+  const retryAfterSeconds = Math.max(Math.ceil((result.retryAfterMs ?? 0) / 1000), 1);
+  const lockedOut = result.reason === 'locked_out';
+  
+  return NextResponse.json(
+    {
+      error: {
+        code: lockedOut ? 'LOCKED_OUT' : 'RATE_LIMITED',
+        message: lockedOut
+          ? `Too many failed attempts. Try again in ${Math.ceil(retryAfterSeconds / 60)} minute(s).`
+          : 'Too many requests. Please slow down and try again shortly.',
+      },
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': retryAfterSeconds.toString(),
+      },
+    }
+  );
+}
+
+/**
+ * Build the rate limit subjects (user and IP) for a request
+ */
+function getRateLimitSubjects(request: NextRequest, userId: string): RateLimitSubject[] {
+  const ip = getClientIp(request);
+  const subjects: RateLimitSubject[] = [
+    { subject: 'user', value: userId, userId, ip: ip ?? undefined },
+  ];
+  
+  if (ip) {
+    subjects.push({ subject: 'ip', value: ip, userId, ip });
+  }
+  
+  return subjects;
+}
+
 /**
  * Wrapper function to apply authentication middleware to a route handler
  * 
+ * When a rate limit policy is given, each request is counted against both
+ * the user's and the client IP's sliding window before the handler runs,
+ * and the handler receives helpers to record failed attempts.
+ * 
  * @param handler - Route handler function
  * @param authCheck - Authentication check function (requireAuth, requireAdmin, requireOnboarded)
+ * @param options - Optional rate limit policy
  * @returns Wrapped route handler with authentication
  */
 export function withAuth(
-  handler: (request: NextRequest, context: { userId: string; user: any }) => Promise<NextResponse>,
-  authCheck: (request: NextRequest) => Promise<AuthMiddlewareResult> = requireAuth
+  handler: (request: NextRequest, context: AuthContext) => Promise<NextResponse>,
+  authCheck: (request: NextRequest) => Promise<AuthMiddlewareResult> = requireAuth,
+  options: WithAuthOptions = {}
 ) {
   return async (request: NextRequest, routeContext?: any) => {
     const authResult = await authCheck(request);
@@ -312,10 +517,50 @@ export function withAuth(
       return createErrorResponse(authResult);
     }
     
-    // Call the handler with authenticated context
-    return handler(request, {
+    const context: AuthContext = {
       userId: authResult.userId!,
       user: authResult.user!,
-    });
+      routeContext,
+    };
+    
+    const policy = options.rateLimit;
+    
+    if (policy) {
+      const subjects = getRateLimitSubjects(request, context.userId);
+      
+      try {
+        for (const subject of subjects) {
+          const result = await consumeRateLimit(policy, subject);
+          
+          if (!result.allowed) {
+            return createRateLimitResponse(result);
+          }
+        }
+      } catch (error) {
+        // Fail open so a Firestore hiccup doesn't take the route down
+        console.error('Error checking rate limit:', error);
+      }
+      
+      context.rateLimit = {
+        recordFailure: async () => {
+          try {
+            await Promise.all(subjects.map((subject) => recordRateLimitFailure(policy, subject)));
+          } catch (error) {
+            console.error('Error recording rate limit failure:', error);
+          }
+        },
+        reset: async () => {
+          try {
+            // IP failures are kept so one success on a shared network doesn't clear them
+            await resetRateLimitFailures(policy, subjects[0]);
+          } catch (error) {
+            console.error('Error resetting rate limit failures:', error);
+          }
+        },
+      };
+    }
+    
+    // Call the handler with authenticated context
+    return handler(request, context);
   };
 }
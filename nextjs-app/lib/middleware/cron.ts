@@ -0,0 +1,195 @@
+import 'server-only';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { createErrorResponse } from './auth';
+import { runCronJob } from '../services/jobRun.service';
+import type { CronJobName, CronTrigger } from '../types';
+
+/**
+ * Cron Authentication Middleware
+ * 
+ * Guards the scheduled endpoints (lifecycle, cleanup, job worker):
+ * - Accepts `Authorization: Bearer <CRON_SECRET>`, which Vercel Cron sends
+ *   automatically, and recognizes Vercel Cron by its user agent
+ * - Accepts short-lived signed tokens, `Bearer <timestamp>.<signature>`,
+ *   where the signature is the hex HMAC-SHA256 of `<timestamp>.<path>`
+ *   keyed with CRON_SECRET, so other schedulers never send the secret
+ * - Runs each job under a lock and records it in the job history
+ * 
+ * Without CRON_SECRET the endpoints only run outside production.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CronAuthResult {
+  success: boolean;
+  trigger?: CronTrigger;
+  error?: {
+    code: string;
+    message: string;
+    status: number;
+  };
+}
+
+/**
+ * How long a signed token is accepted after (or before) its timestamp
+ */
+const SIGNED_TOKEN_MAX_AGE_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Compare two strings in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+  const aBuffer = Buffer.from(a);
+  const bBuffer = Buffer.from(b);
+  
+  return aBuffer.length === bBuffer.length && timingSafeEqual(aBuffer, bBuffer);
+}
+
+/**
+ * Sign a cron request for the given path
+ * 
+ * @param path - Request path (e.g. /api/jobs/worker)
+ * @param secret - Signing secret (defaults to CRON_SECRET)
+ * @param timestampSeconds - Unix time of the request (defaults to now)
+ * @returns Token to send as `Authorization: Bearer <token>`
+ */
+export function signCronRequest(
+  path: string,
+  secret: string = process.env.CRON_SECRET ?? '',
+  timestampSeconds: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestampSeconds}.${path}`)
+    .digest('hex');
+  
+  return `${timestampSeconds}.${signature}`;
+}
+
+/**
+ * Whether the request comes from Vercel Cron
+ */
+function isVercelCron(request: NextRequest): boolean {
+  return request.headers.get('user-agent')?.startsWith('vercel-cron/') ?? false;
+}
+
+// ============================================================================
+// Middleware Functions
+// ============================================================================
+
+/**
+ * Verify that a request to a scheduled endpoint comes from cron
+ * 
+ * @param request - Next.js request object
+ * @returns CronAuthResult with how the request was authenticated, or error
+ */
+export function verifyCronAuth(request: NextRequest): CronAuthResult {
+  const secret = process.env.CRON_SECRET;
+  
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      return {
+        success: false,
+        error: {
+          code: 'CRON_NOT_CONFIGURED',
+          message: 'CRON_SECRET is not configured',
+          status: 503,
+        },
+      };
+    }
+    
+    return { success: true, trigger: 'local' };
+  }
+  
+  const authHeader = request.headers.get('authorization');
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
+  
+  if (token && safeEqual(token, secret)) {
+    return { success: true, trigger: isVercelCron(request) ? 'vercel-cron' : 'bearer' };
+  }
+  
+  const timestamp = Number(token?.split('.')[0]);
+  
+  if (
+    token &&
+    Number.isInteger(timestamp) &&
+    Math.abs(Date.now() - timestamp * 1000) <= SIGNED_TOKEN_MAX_AGE_MS &&
+    safeEqual(token, signCronRequest(request.nextUrl.pathname, secret, timestamp))
+  ) {
+    return { success: true, trigger: 'signed' };
+  }
+  
+  return {
+    success: false,
+    error: {
+      code: 'UNAUTHORIZED',
+      message: 'Invalid or missing cron credentials',
+      status: 401,
+    },
+  };
+}
+
+/**
+ * Wrap a scheduled endpoint with cron authentication, locking and history
+ * 
+ * Overlapping calls don't double-process: while one run holds the job's
+ * lock, other calls are recorded as skipped and return 200 with
+ * `skipped: true`. A failed run returns 500.
+ * 
+ * @param name - Job the endpoint runs
+ * @param run - Work to do; its numeric and boolean fields are returned and recorded as counts
+ * @returns Route handler
+ */
+export function withCronJob(
+  name: CronJobName,
+  run: (request: NextRequest) => Promise<object | void>
+) {
+  return async (request: NextRequest) => {
+    const authResult = verifyCronAuth(request);
+    
+    if (!authResult.success) {
+      return createErrorResponse(authResult);
+    }
+    
+    try {
+      const jobRun = await runCronJob(name, authResult.trigger!, () => run(request));
+      const timestamp = jobRun.finishedAt.toDate().toISOString();
+      
+      if (jobRun.status === 'failed') {
+        return NextResponse.json(
+          {
+            success: false,
+            runId: jobRun.id,
+            error: jobRun.error,
+            timestamp,
+          },
+          { status: 500 }
+        );
+      }
+      
+      return NextResponse.json({
+        success: true,
+        runId: jobRun.id,
+        skipped: jobRun.status === 'skipped',
+        ...jobRun.counts,
+        durationMs: jobRun.durationMs,
+        timestamp,
+      });
+    } catch (error) {
+      console.error(`Error running ${name}:`, error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : `Failed to run ${name}`,
+        },
+        { status: 500 }
+      );
+    }
+  };
+}
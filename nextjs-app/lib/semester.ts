@@ -0,0 +1,77 @@
+/**
+ * Semester helpers
+ * 
+ * Maps dates to TTU academic terms:
+ * - Spring: January through May
+ * - Summer: June and July
+ * - Fall: August through December
+ * 
+ * An academic year runs from the start of fall through the end of summer.
+ */
+
+export type SemesterTerm = 'spring' | 'summer' | 'fall';
+
+export interface Semester {
+  key: string;                   // e.g. "2026-fall"
+  label: string;                 // e.g. "Fall 2026"
+  term: SemesterTerm;
+  year: number;
+  start: Date;                   // First instant of the semester (inclusive)
+  end: Date;                     // First instant after the semester (exclusive)
+}
+
+export interface AcademicYear {
+  key: string;                   // e.g. "2026-2027"
+  label: string;                 // e.g. "2026–27 Academic Year"
+  startYear: number;
+  start: Date;                   // First instant of fall (inclusive)
+  end: Date;                     // First instant of the next fall (exclusive)
+}
+
+const TERM_MONTHS: Record<SemesterTerm, [number, number]> = {
+  spring: [0, 5],                // [first month, month after last] (0-based)
+  summer: [5, 7],
+  fall: [7, 12],
+};
+
+/**
+ * Build a semester from its term and year
+ */
+export function getSemesterByTerm(term: SemesterTerm, year: number): Semester {
+  const [startMonth, endMonth] = TERM_MONTHS[term];
+  
+  return {
+    key: `${year}-${term}`,
+    label: `${term.charAt(0).toUpperCase()}${term.slice(1)} ${year}`,
+    term,
+    year,
+    start: new Date(year, startMonth, 1),
+    end: new Date(year, endMonth, 1),
+  };
+}
+
+/**
+ * Get the semester a date falls in
+ */
+export function getSemester(date: Date): Semester {
+  const month = date.getMonth();
+  const term: SemesterTerm = month < 5 ? 'spring' : month < 7 ? 'summer' : 'fall';
+  
+  return getSemesterByTerm(term, date.getFullYear());
+}
+
+/**
+ * Get the academic year a date falls in
+ */
+export function getAcademicYear(date: Date): AcademicYear {
+  const fallStart = TERM_MONTHS.fall[0];
+  const startYear = date.getMonth() >= fallStart ? date.getFullYear() : date.getFullYear() - 1;
+  
+  return {
+    key: `${startYear}-${startYear + 1}`,
+    label: `${startYear}–${String(startYear + 1).slice(-2)} Academic Year`,
+    startYear,
+    start: new Date(startYear, fallStart, 1),
+    end: new Date(startYear + 1, fallStart, 1),
+  };
+}
@@ -0,0 +1,413 @@
+import 'server-only';
+import { getAdminFirestore } from '../firebase/admin';
+import type {
+  AnalyticsSummary,
+  AttendanceBreakdown,
+  EventTurnout,
+  MonthlyAttendance,
+  RetentionCohort,
+} from '../types';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getUniversityLevelLabel, isUniversityLevel, UNIVERSITY_LEVELS } from '../constants/universityLevels';
+import { resolveMemberStatus } from '../constants/memberStatuses';
+import { CHAPTER } from '../chapter';
+
+/**
+ * Analytics Service
+ * 
+ * Server-side service for the admin event analytics including:
+ * - Attendance per event and per month, split into new and returning members
+ * - Retention cohorts by the month of each member's first event
+ * - Breakdowns by major and university level
+ * - RSVP no-show rate and top events by turnout
+ * 
+ * Everything is computed in one pass over events and users and stored in a
+ * single aggregate document, rebuilt periodically by the lifecycle job (and
+ * on demand), so the dashboard never rescans the collections itself.
+ */
+
+export const ANALYTICS_COLLECTION = 'analytics';
+const ANALYTICS_SUMMARY_ID = 'summary';
+
+/**
+ * How often the periodic job rebuilds the analytics
+ */
+const ANALYTICS_REBUILD_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Minimum time between on-demand rebuilds (each one scans events and users)
+ */
+export const MANUAL_ANALYTICS_REBUILD_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Most recent events kept in the per-event series (keeps the document well under 1 MiB)
+ */
+const ANALYTICS_EVENT_LIMIT = 500;
+
+/**
+ * Most recent cohorts kept, and months of retention tracked for each
+ */
+const COHORT_LIMIT = 24;
+const COHORT_MONTHS = 12;
+
+/**
+ * Majors listed individually; the rest are grouped as Other
+ */
+const MAJOR_BREAKDOWN_LIMIT = 15;
+
+/**
+ * Events listed as top events
+ */
+const TOP_EVENTS_LIMIT = 10;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const monthKeyFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: CHAPTER.timeZone,
+  year: 'numeric',
+  month: '2-digit',
+});
+
+/**
+ * Get the month key of a date in the chapter's time zone (e.g. "2026-09")
+ * so an event late on the last evening of a month counts toward that month
+ * whatever time zone the server runs in
+ */
+function toMonthKey(date: Date): string {
+  const parts = monthKeyFormat.formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value;
+  
+  return `${get('year')}-${get('month')}`;
+}
+
+/**
+ * Get the display label of a month key (e.g. "Sep 2026")
+ */
+function toMonthLabel(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return `${MONTH_NAMES[monthNumber - 1]} ${year}`;
+}
+
+/**
+ * Count the months from one month key to another
+ */
+function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+}
+
+/**
+ * Running totals for one value of a profile field
+ */
+type BreakdownTally = Omit<AttendanceBreakdown, 'value'>;
+
+/**
+ * Add a member to a breakdown tally
+ */
+function tallyBreakdown(
+  tallies: Map<string, BreakdownTally>,
+  value: string,
+  label: string,
+  member: { onboarded: boolean; current: boolean; attendances: number }
+): void {
+  const tally = tallies.get(value) ?? { label, members: 0, activeMembers: 0, attendances: 0 };
+  
+  // Alumni and inactive members only contribute their past attendance
+  if (member.onboarded && member.current) {
+    tally.members++;
+  }
+  if (member.current && member.attendances > 0) {
+    tally.activeMembers++;
+  }
+  tally.attendances += member.attendances;
+  
+  tallies.set(value, tally);
+}
+
+/**
+ * Convert breakdown tallies to rows, busiest first
+ */
+function toBreakdownRows(tallies: Map<string, BreakdownTally>): AttendanceBreakdown[] {
+  return Array.from(tallies.entries())
+    .map(([value, tally]) => ({ value, ...tally }))
+    .sort((a, b) => b.attendances - a.attendances || b.members - a.members);
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * Compute the analytics and store them in the aggregate document
+ * Only past, non-cancelled events count. Attendance is read from event
+ * attendees, and a member's first event is the earliest one they attended.
+ * 
+ * @returns The computed analytics
+ */
+export async function rebuildAnalytics(): Promise<AnalyticsSummary> {
+  try {
+    const db = getAdminFirestore();
+    const now = new Date();
+    
+    const [eventsSnapshot, usersSnapshot] = await Promise.all([
+      db.collection('events').where('startTime', '<=', Timestamp.fromDate(now)).orderBy('startTime').get(),
+      db.collection('users').get(),
+    ]);
+    
+    const events = eventsSnapshot.docs.filter((doc) => doc.data().status !== 'cancelled');
+    
+    // Walk events oldest first, recording each member's first and active months
+    const firstMonths = new Map<string, string>();
+    const activeMonths = new Map<string, Set<string>>();
+    const attendanceCounts = new Map<string, number>();
+    const monthly = new Map<string, MonthlyAttendance & { attendeeIds: Set<string> }>();
+    const turnout: EventTurnout[] = [];
+    const noShow = { events: 0, rsvps: 0, attended: 0, noShows: 0 };
+    
+    for (const doc of events) {
+      const data = doc.data();
+      const startTime = (data.startTime as Timestamp).toDate();
+      const month = toMonthKey(startTime);
+      const attendees: string[] = Array.from(new Set<string>(data.attendees || []));
+      const rsvps: string[] = data.rsvps || [];
+      
+      let monthTally = monthly.get(month);
+      if (!monthTally) {
+        monthTally = {
+          month,
+          label: toMonthLabel(month),
+          events: 0,
+          attendances: 0,
+          uniqueAttendees: 0,
+          newAttendees: 0,
+          returningAttendees: 0,
+          attendeeIds: new Set(),
+        };
+        monthly.set(month, monthTally);
+      }
+      
+      monthTally.events++;
+      monthTally.attendances += attendees.length;
+      
+      let newAttendees = 0;
+      
+      for (const uid of attendees) {
+        if (!firstMonths.has(uid)) {
+          firstMonths.set(uid, month);
+          newAttendees++;
+        }
+        
+        const months = activeMonths.get(uid) ?? new Set<string>();
+        months.add(month);
+        activeMonths.set(uid, months);
+        attendanceCounts.set(uid, (attendanceCounts.get(uid) ?? 0) + 1);
+        monthTally.attendeeIds.add(uid);
+      }
+      
+      const attendeeSet = new Set(attendees);
+      const attendedRsvps = rsvps.filter((uid) => attendeeSet.has(uid)).length;
+      
+      if (rsvps.length > 0) {
+        noShow.events++;
+        noShow.rsvps += rsvps.length;
+        noShow.attended += attendedRsvps;
+        noShow.noShows += rsvps.length - attendedRsvps;
+      }
+      
+      turnout.push({
+        eventId: doc.id,
+        name: data.name,
+        startTime: startTime.toISOString(),
+        category: data.category || 'general',
+        attendees: attendees.length,
+        newAttendees,
+        returningAttendees: attendees.length - newAttendees,
+        rsvps: rsvps.length,
+        noShows: rsvps.length - attendedRsvps,
+      });
+    }
+    
+    // New vs returning per month, counted once per member
+    const monthlyRows: MonthlyAttendance[] = Array.from(monthly.values()).map(({ attendeeIds, ...row }) => {
+      const newAttendees = Array.from(attendeeIds).filter((uid) => firstMonths.get(uid) === row.month).length;
+      return {
+        ...row,
+        uniqueAttendees: attendeeIds.size,
+        newAttendees,
+        returningAttendees: attendeeIds.size - newAttendees,
+      };
+    });
+    
+    // Retention cohorts by first-event month
+    const currentMonth = toMonthKey(now);
+    const cohorts = new Map<string, RetentionCohort>();
+    
+    firstMonths.forEach((firstMonth, uid) => {
+      let cohort = cohorts.get(firstMonth);
+      if (!cohort) {
+        const length = Math.min(COHORT_MONTHS, monthsBetween(firstMonth, currentMonth) + 1);
+        cohort = { month: firstMonth, label: toMonthLabel(firstMonth), size: 0, retained: new Array(length).fill(0) };
+        cohorts.set(firstMonth, cohort);
+      }
+      
+      cohort.size++;
+      activeMonths.get(uid)?.forEach((month) => {
+        const offset = monthsBetween(firstMonth, month);
+        if (offset < cohort.retained.length) {
+          cohort.retained[offset]++;
+        }
+      });
+    });
+    
+    // Breakdowns by profile fields
+    const majors = new Map<string, BreakdownTally>();
+    const levels = new Map<string, BreakdownTally>();
+    let members = 0;
+    let activeMembers = 0;
+    const formerMembers: Record<'alumni' | 'inactive', number> = { alumni: 0, inactive: 0 };
+    
+    usersSnapshot.forEach((doc) => {
+      const data = doc.data();
+      const status = resolveMemberStatus(data);
+      const member = {
+        onboarded: data.hasCompletedOnboarding === true,
+        current: status === 'active',
+        attendances: attendanceCounts.get(doc.id) ?? 0,
+      };
+      
+      if (!member.onboarded && member.attendances === 0) {
+        return;
+      }
+      
+      if (member.onboarded && member.current) {
+        members++;
+      }
+      if (member.current && member.attendances > 0) {
+        activeMembers++;
+      }
+      if (status !== 'active') {
+        formerMembers[status]++;
+      }
+      
+      const major = typeof data.major === 'string' ? data.major.trim() : '';
+      tallyBreakdown(majors, major.toLowerCase(), major || 'Not specified', member);
+      
+      const level = isUniversityLevel(data.universityLevel) ? data.universityLevel : '';
+      tallyBreakdown(levels, level, level ? getUniversityLevelLabel(level) : 'Not specified', member);
+    });
+    
+    // Keep the busiest majors and fold the rest into Other
+    const majorRows = toBreakdownRows(majors);
+    const byMajor = majorRows.slice(0, MAJOR_BREAKDOWN_LIMIT);
+    const otherMajors = majorRows.slice(MAJOR_BREAKDOWN_LIMIT);
+    
+    if (otherMajors.length > 0) {
+      byMajor.push(otherMajors.reduce<AttendanceBreakdown>(
+        (other, row) => ({
+          ...other,
+          members: other.members + row.members,
+          activeMembers: other.activeMembers + row.activeMembers,
+          attendances: other.attendances + row.attendances,
+        }),
+        { value: 'other', label: `Other (${otherMajors.length} majors)`, members: 0, activeMembers: 0, attendances: 0 }
+      ));
+    }
+    
+    // Levels in order of seniority
+    const levelOrder: string[] = [...UNIVERSITY_LEVELS.map((level) => level.value), ''];
+    const byLevel = toBreakdownRows(levels).sort((a, b) => levelOrder.indexOf(a.value) - levelOrder.indexOf(b.value));
+    
+    const attendances = turnout.reduce((sum, event) => sum + event.attendees, 0);
+    
+    const summary: AnalyticsSummary = {
+      generatedAt: now.toISOString(),
+      totals: {
+        members,
+        activeMembers,
+        alumni: formerMembers.alumni,
+        inactive: formerMembers.inactive,
+        events: turnout.length,
+        attendances,
+        averageAttendance: turnout.length > 0 ? Math.round((attendances / turnout.length) * 10) / 10 : 0,
+      },
+      noShow: {
+        ...noShow,
+        rate: noShow.rsvps > 0 ? noShow.noShows / noShow.rsvps : null,
+      },
+      events: turnout.slice(-ANALYTICS_EVENT_LIMIT),
+      monthly: monthlyRows,
+      cohorts: Array.from(cohorts.values())
+        .sort((a, b) => a.month.localeCompare(b.month))
+        .slice(-COHORT_LIMIT),
+      byMajor,
+      byLevel,
+      topEvents: [...turnout]
+        .sort((a, b) => b.attendees - a.attendees)
+        .slice(0, TOP_EVENTS_LIMIT),
+    };
+    
+    await db.collection(ANALYTICS_COLLECTION).doc(ANALYTICS_SUMMARY_ID).set({
+      ...summary,
+      generatedAt: Timestamp.fromDate(now),
+    });
+    
+    return summary;
+  } catch (error) {
+    console.error('Error rebuilding analytics:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rebuild the analytics if the last rebuild is older than the interval
+ * Called periodically by the lifecycle job, and on demand from the dashboard
+ * 
+ * @param minIntervalMs - Minimum age of the last rebuild (default: 1 hour)
+ * @returns True if a rebuild ran
+ */
+export async function rebuildAnalyticsIfStale(
+  minIntervalMs: number = ANALYTICS_REBUILD_INTERVAL_MS
+): Promise<boolean> {
+  const db = getAdminFirestore();
+  const snapshot = await db.collection(ANALYTICS_COLLECTION).doc(ANALYTICS_SUMMARY_ID).get();
+  const generatedAt = snapshot.data()?.generatedAt as Timestamp | undefined;
+  
+  if (generatedAt && Date.now() - generatedAt.toMillis() < minIntervalMs) {
+    return false;
+  }
+  
+  await rebuildAnalytics();
+  return true;
+}
+
+/**
+ * Get the precomputed analytics
+ * Builds them on first use.
+ * 
+ * @returns Analytics as of the last rebuild
+ */
+export async function getAnalytics(): Promise<AnalyticsSummary> {
+  try {
+    const db = getAdminFirestore();
+    const snapshot = await db.collection(ANALYTICS_COLLECTION).doc(ANALYTICS_SUMMARY_ID).get();
+    const data = snapshot.data();
+    
+    if (!data) {
+      return await rebuildAnalytics();
+    }
+    
+    return {
+      ...(data as AnalyticsSummary),
+      generatedAt: (data.generatedAt as Timestamp).toDate().toISOString(),
+    };
+  } catch (error) {
+    console.error('Error getting analytics:', error);
+    throw error;
+  }
+}
@@ -1,8 +1,14 @@
 import 'server-only';
 import { getAdminFirestore } from '../firebase/admin';
-import type { AttendanceResult, User } from '../types';
+import type { AttendanceResult, AttendanceRevocation, User } from '../types';
 import { Timestamp } from 'firebase-admin/firestore';
-import { getEvent } from './event.service';
+import { resolveRoles } from '../constants/roles';
+import { resolveMemberStatus } from '../constants/memberStatuses';
+import { DEFAULT_CODE_ROTATION_SECONDS, getRotatingCodeSecrets, verifyRotatingCode } from './event.service';
+import { POINTS_LEDGER_COLLECTION, recordLedgerEntry, recordLedgerReversal } from './pointsLedger.service';
+import { evaluateUserBadges } from './badge.service';
+import { refreshLeaderboardEntry } from './leaderboard.service';
+import { enqueueJob } from '../jobs';
 
 /**
  * Attendance Service
@@ -10,10 +16,17 @@ import { getEvent } from './event.service';
  * Server-side service for attendance management operations including:
  * - Atomic attendance code submission with transaction support
  * - Attendance validation and verification
- * - Manual attendance addition by admins
+ * - Manual attendance addition and revocation by admins
+ * - Batched attendance addition for imports
  * - Attendee list retrieval
  */
 
+/**
+ * Attendees credited per transaction (each writes the user twice and a
+ * ledger entry, keeping a batch well under the 500-write limit)
+ */
+const ADD_ATTENDEES_BATCH_SIZE = 100;
+
 // ============================================================================
 // Attendance Submission
 // ============================================================================
@@ -21,11 +34,11 @@ import { getEvent } from './event.service';
 /**
  * Submit attendance code for an event
  * Uses Firestore transaction to atomically:
- * - Validate code matches active event code
+ * - Validate code matches active event code (static or current rotating code)
  * - Check user hasn't already attended
  * - Add user to event attendees
  * - Update user's attendedEvents array
- * - Increment user's points
+ * - Record an attendance credit in the points ledger
  * 
  * @param userId - User submitting attendance
  * @param code - 6-digit attendance code
@@ -46,30 +59,44 @@ export async function submitAttendance(
       };
     }
     
-    // Find event with matching attendance code
+    // Find event with matching static attendance code; an old event may
+    // still hold the same code, so only an active one counts as a match
     const eventsSnapshot = await db.collection('events')
       .where('attendanceCode', '==', code)
-      .limit(1)
       .get();
     
-    if (eventsSnapshot.empty) {
-      return {
-        success: false,
-        message: 'Invalid code',
-      };
-    }
+    let matchedDoc: FirebaseFirestore.QueryDocumentSnapshot | undefined =
+      eventsSnapshot.docs.find((doc) => doc.data().codeActive);
     
-    const eventDoc = eventsSnapshot.docs[0];
-    const eventData = eventDoc.data();
+    // Otherwise check events with an active rotating code
+    if (!matchedDoc) {
+      const rotatingSnapshot = await db.collection('events')
+        .where('codeMode', '==', 'rotating')
+        .where('codeActive', '==', true)
+        .get();
+      const secrets = await getRotatingCodeSecrets(rotatingSnapshot.docs.map((doc) => doc.id));
+      
+      matchedDoc = rotatingSnapshot.docs.find((doc) => {
+        const secret = secrets.get(doc.id);
+        return !!secret && verifyRotatingCode(
+          secret,
+          doc.data().codeRotationSeconds || DEFAULT_CODE_ROTATION_SECONDS,
+          code
+        );
+      });
+    }
     
-    // Check if code is active
-    if (!eventData.codeActive) {
+    // A static code that only matches inactive events is not active
+    if (!matchedDoc) {
       return {
         success: false,
-        message: 'Code not active',
+        message: eventsSnapshot.empty ? 'Invalid code' : 'Code not active',
       };
     }
     
+    const eventDoc = matchedDoc;
+    const eventData = eventDoc.data();
+    
     // Check if event is ongoing
     const now = Timestamp.now();
     const startTime = eventData.startTime as Timestamp;
@@ -98,6 +125,14 @@ export async function submitAttendance(
       };
     }
     
+    // Hosts can read the code, so they can't earn attendance with it
+    if ((eventData.hostIds ?? []).includes(userId)) {
+      return {
+        success: false,
+        message: 'Hosts cannot check in to events they host',
+      };
+    }
+    
     // Use transaction to ensure atomicity
     const result = await db.runTransaction(async (transaction) => {
       const eventRef = db.collection('events').doc(eventDoc.id);
@@ -144,16 +179,25 @@ export async function submitAttendance(
         updatedAt: Timestamp.now(),
       });
       
-      // Update user's attended events and points
+      // Update user's attended events
       const currentAttendedEvents = currentUserData.attendedEvents || [];
-      const currentPoints = currentUserData.points || 0;
       
       transaction.update(userRef, {
         attendedEvents: [...currentAttendedEvents, attendedEvent],
-        points: currentPoints + currentEventData.pointsValue,
         updatedAt: Timestamp.now(),
       });
       
+      // Credit points through the ledger
+      recordLedgerEntry(transaction, {
+        userId,
+        points: currentEventData.pointsValue,
+        type: 'attendance',
+        sourceType: 'event',
+        sourceId: eventDoc.id,
+        description: currentEventData.name,
+        createdBy: userId,
+      });
+      
       return {
         success: true,
         message: 'Attendance recorded successfully',
@@ -162,6 +206,10 @@ export async function submitAttendance(
       };
     });
     
+    // Badges and the materialized leaderboard are best-effort and never fail the attendance itself
+    await evaluateUserBadges(userId).catch(() => undefined);
+    await refreshLeaderboardEntry(userId).catch(() => undefined);
+    
     return result;
   } catch (error: any) {
     console.error('Error submitting attendance:', error);
@@ -272,7 +320,9 @@ export async function getAttendees(eventId: string): Promise<User[]> {
           email: data.email || '',
           displayName: data.displayName || '',
           ttuVerified: data.ttuVerified ?? data.ttuEmailVerified ?? false,
+          memberStatus: resolveMemberStatus(data),
           isAdmin: data.isAdmin ?? false,
+          roles: resolveRoles(data),
           points: data.points ?? 0,
           attendedEvents: data.attendedEvents ?? [],
           createdAt: data.createdAt,
@@ -290,13 +340,14 @@ export async function getAttendees(eventId: string): Promise<User[]> {
 
 /**
  * Manually add an attendee to an event (admin only)
- * Atomically updates both event attendees and user attendedEvents
+ * Atomically updates event attendees, user attendedEvents, and the points ledger
  * 
  * @param eventId - Event ID
  * @param userId - User ID to add as attendee
  * @param adminUid - Admin UID performing the action
  * @returns void
- * @throws Error if event or user not found, or if user already attended
+ * @throws Error if event or user not found, if user already attended, or if
+ *   the user is one of the event's hosts
  */
 export async function addAttendee(
   eventId: string,
@@ -336,6 +387,11 @@ export async function addAttendee(
         throw new Error('User has already attended this event');
       }
       
+      // Hosts run check-in for their events, so they can't credit themselves
+      if ((eventData.hostIds ?? []).includes(userId)) {
+        throw new Error('Hosts cannot be checked in to events they host');
+      }
+      
       // Prepare attended event metadata
       const attendedEvent = {
         eventId: eventId,
@@ -352,18 +408,286 @@ export async function addAttendee(
         updatedAt: Timestamp.now(),
       });
       
-      // Update user's attended events and points
+      // Update user's attended events
       const currentAttendedEvents = userData.attendedEvents || [];
-      const currentPoints = userData.points || 0;
       
       transaction.update(userRef, {
         attendedEvents: [...currentAttendedEvents, attendedEvent],
-        points: currentPoints + eventData.pointsValue,
         updatedAt: Timestamp.now(),
       });
+      
+      // Credit points through the ledger
+      recordLedgerEntry(transaction, {
+        userId,
+        points: eventData.pointsValue,
+        type: 'attendance',
+        sourceType: 'event',
+        sourceId: eventId,
+        description: eventData.name,
+        createdBy: adminUid,
+      });
     });
+    
+    // Badges and the materialized leaderboard are best-effort and never fail the attendance itself
+    await evaluateUserBadges(userId).catch(() => undefined);
+    await refreshLeaderboardEntry(userId).catch(() => undefined);
   } catch (error) {
     console.error('Error adding attendee:', error);
     throw error;
   }
 }
+
+/**
+ * Add several attendees to an event at once (admin only)
+ * Attendees are credited in batched transactions, each updating the event
+ * once; badges and the lifetime leaderboard are then updated by a single
+ * queued job rather than after every attendee. A failed batch does not
+ * stop the rest.
+ * 
+ * @param eventId - Event ID
+ * @param userIds - Users to add as attendees
+ * @param adminUid - Admin UID performing the action
+ * @returns Error message for each user that was not added
+ * @throws Error if event not found
+ */
+export async function addAttendees(
+  eventId: string,
+  userIds: string[],
+  adminUid: string
+): Promise<Map<string, string>> {
+  try {
+    const db = getAdminFirestore();
+    const eventRef = db.collection('events').doc(eventId);
+    const uniqueIds = Array.from(new Set(userIds));
+    const failures = new Map<string, string>();
+    const added: string[] = [];
+    
+    for (let i = 0; i < uniqueIds.length; i += ADD_ATTENDEES_BATCH_SIZE) {
+      const batchIds = uniqueIds.slice(i, i + ADD_ATTENDEES_BATCH_SIZE);
+      
+      try {
+        const batch = await db.runTransaction(async (transaction) => {
+          const eventSnapshot = await transaction.get(eventRef);
+          const userSnapshots = await transaction.getAll(
+            ...batchIds.map((userId) => db.collection('users').doc(userId))
+          );
+          
+          const eventData = eventSnapshot.data();
+          if (!eventSnapshot.exists || !eventData) {
+            throw new Error('Event not found');
+          }
+          
+          const attendees: string[] = eventData.attendees || [];
+          const hostIds: string[] = eventData.hostIds ?? [];
+          const batchAdded: string[] = [];
+          const batchFailures = new Map<string, string>();
+          const now = Timestamp.now();
+          
+          for (const userSnapshot of userSnapshots) {
+            const userData = userSnapshot.data();
+            
+            if (!userSnapshot.exists || !userData) {
+              batchFailures.set(userSnapshot.id, 'User not found');
+              continue;
+            }
+            
+            if (attendees.includes(userSnapshot.id)) {
+              batchFailures.set(userSnapshot.id, 'User has already attended this event');
+              continue;
+            }
+            
+            if (hostIds.includes(userSnapshot.id)) {
+              batchFailures.set(userSnapshot.id, 'Hosts cannot be checked in to events they host');
+              continue;
+            }
+            
+            transaction.update(userSnapshot.ref, {
+              attendedEvents: [
+                ...(userData.attendedEvents || []),
+                {
+                  eventId: eventId,
+                  eventName: eventData.name,
+                  eventDate: eventData.startTime,
+                  location: eventData.location,
+                  pointsEarned: eventData.pointsValue,
+                  attendedAt: now,
+                },
+              ],
+              updatedAt: now,
+            });
+            
+            recordLedgerEntry(transaction, {
+              userId: userSnapshot.id,
+              points: eventData.pointsValue,
+              type: 'attendance',
+              sourceType: 'event',
+              sourceId: eventId,
+              description: eventData.name,
+              createdBy: adminUid,
+            });
+            
+            batchAdded.push(userSnapshot.id);
+          }
+          
+          if (batchAdded.length > 0) {
+            transaction.update(eventRef, {
+              attendees: [...attendees, ...batchAdded],
+              updatedAt: now,
+            });
+          }
+          
+          return { added: batchAdded, failures: batchFailures };
+        });
+        
+        added.push(...batch.added);
+        batch.failures.forEach((message, userId) => failures.set(userId, message));
+      } catch (error: any) {
+        if (error.message === 'Event not found') {
+          throw error;
+        }
+        
+        console.error('Error adding attendee batch:', error);
+        batchIds.forEach((userId) => failures.set(userId, error.message || 'Failed to add attendance'));
+      }
+    }
+    
+    // Badges and the materialized leaderboard are best-effort and never fail the attendance itself
+    if (added.length > 0) {
+      await enqueueJob('badges.evaluate', { userIds: added }).catch(() => undefined);
+    }
+    
+    return failures;
+  } catch (error) {
+    console.error('Error adding attendees:', error);
+    throw error;
+  }
+}
+
+/**
+ * Revoke a user's attendance at an event (admin only)
+ * Atomically removes the user from the event attendees, deletes the
+ * AttendedEvent entry and reverses the attendance credit in the points
+ * ledger, so exactly the points earned are taken back.
+ * 
+ * Attendance credited before the ledger existed has no credit entry; the
+ * recorded pointsEarned is debited instead.
+ * 
+ * @param eventId - Event ID
+ * @param userId - User whose attendance is revoked
+ * @param reason - Why the attendance is revoked (stored on the reversal)
+ * @param adminUid - Admin UID performing the action
+ * @returns Event name and the points reversed
+ * @throws Error if event or user not found, or if user did not attend
+ */
+export async function revokeAttendance(
+  eventId: string,
+  userId: string,
+  reason: string,
+  adminUid: string
+): Promise<AttendanceRevocation> {
+  try {
+    const db = getAdminFirestore();
+    
+    const result = await db.runTransaction(async (transaction) => {
+      const eventRef = db.collection('events').doc(eventId);
+      const userRef = db.collection('users').doc(userId);
+      const ledgerRef = db.collection(POINTS_LEDGER_COLLECTION);
+      
+      // All reads happen before any write
+      const eventSnapshot = await transaction.get(eventRef);
+      const userSnapshot = await transaction.get(userRef);
+      const creditsSnapshot = await transaction.get(
+        ledgerRef
+          .where('userId', '==', userId)
+          .where('type', '==', 'attendance')
+          .where('sourceType', '==', 'event')
+          .where('sourceId', '==', eventId)
+      );
+      
+      const creditIds = creditsSnapshot.docs.map((doc) => doc.id);
+      const reversedIds = new Set<string>();
+      
+      // 'in' queries accept up to 30 values; a user has at most one credit per event
+      if (creditIds.length > 0) {
+        const reversalsSnapshot = await transaction.get(
+          ledgerRef.where('reversesEntryId', 'in', creditIds.slice(0, 30))
+        );
+        reversalsSnapshot.forEach((doc) => reversedIds.add(doc.data().reversesEntryId));
+      }
+      
+      if (!eventSnapshot.exists) {
+        throw new Error('Event not found');
+      }
+      
+      if (!userSnapshot.exists) {
+        throw new Error('User not found');
+      }
+      
+      const eventData = eventSnapshot.data();
+      const userData = userSnapshot.data();
+      
+      if (!eventData || !userData) {
+        throw new Error('Data not found');
+      }
+      
+      const attendees: string[] = eventData.attendees || [];
+      const attendedEvents: { eventId: string; pointsEarned?: number }[] = userData.attendedEvents || [];
+      const attendedEvent = attendedEvents.find((entry) => entry.eventId === eventId);
+      
+      if (!attendees.includes(userId) && !attendedEvent) {
+        throw new Error('User has not attended this event');
+      }
+      
+      // Remove the user from the event attendees
+      transaction.update(eventRef, {
+        attendees: attendees.filter((attendeeId) => attendeeId !== userId),
+        updatedAt: Timestamp.now(),
+      });
+      
+      // Remove the event from the user's attended events
+      transaction.update(userRef, {
+        attendedEvents: attendedEvents.filter((entry) => entry.eventId !== eventId),
+        updatedAt: Timestamp.now(),
+      });
+      
+      // Reverse each outstanding credit through the ledger
+      let pointsReversed = 0;
+      
+      creditsSnapshot.docs.forEach((doc) => {
+        if (reversedIds.has(doc.id)) {
+          return;
+        }
+        
+        const credit = doc.data();
+        recordLedgerReversal(transaction, doc.id, { userId, points: credit.points }, reason, adminUid);
+        pointsReversed += credit.points;
+      });
+      
+      if (creditIds.length === 0 && attendedEvent?.pointsEarned) {
+        recordLedgerEntry(transaction, {
+          userId,
+          points: -attendedEvent.pointsEarned,
+          type: 'reversal',
+          sourceType: 'event',
+          sourceId: eventId,
+          description: reason,
+          createdBy: adminUid,
+        });
+        pointsReversed = attendedEvent.pointsEarned;
+      }
+      
+      return {
+        eventName: eventData.name,
+        pointsReversed,
+      };
+    });
+    
+    // The materialized leaderboard is best-effort and never fails the revocation itself
+    await refreshLeaderboardEntry(userId).catch(() => undefined);
+    
+    return result;
+  } catch (error) {
+    console.error('Error revoking attendance:', error);
+    throw error;
+  }
+}
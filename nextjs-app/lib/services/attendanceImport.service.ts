@@ -0,0 +1,321 @@
+import 'server-only';
+import { getAdminFirestore } from '../firebase/admin';
+import type {
+  AttendanceImportMatch,
+  AttendanceImportReport,
+  AttendanceImportRow,
+  AttendanceImportStatus,
+} from '../types';
+import { parseCsv } from '../csv';
+import { addAttendees } from './attendance.service';
+
+/**
+ * Attendance Import Service
+ * 
+ * Server-side service for crediting attendance from sign-in sheets including:
+ * - Parsing CSV exports (paper sheets typed up, Google Forms responses)
+ * - Matching rows to members by TTU email, R-number, or Google email
+ * - Dry-run previews of matches, unknowns and duplicates
+ * - Committing matched rows in batches through addAttendees
+ * 
+ * Rows are matched on whatever identifiers they contain, so sheets need no
+ * fixed column layout. A first row without any identifier is a header.
+ */
+
+/**
+ * Largest sheet accepted in a single import
+ */
+export const MAX_IMPORT_ROWS = 1000;
+
+const EMAIL_PATTERN = /^[^\s@,]+@[^\s@,]+\.[^\s@,]+$/;
+const R_NUMBER_PATTERN = /^R\d{8}$/;
+
+/**
+ * Member lookups keyed by normalized identifier
+ */
+interface MemberIndex {
+  ttuEmail: Map<string, string>;
+  rNumber: Map<string, string>;
+  email: Map<string, string>;
+  displayNames: Map<string, string>;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Normalize an R-number, accepting it with or without the leading R
+ * 
+ * @param value - Raw cell value
+ * @returns Uppercase R-number, or null if the value is not one
+ */
+export function normalizeRNumber(value: string): string | null {
+  const compact = value.replace(/[\s-]/g, '').toUpperCase();
+  const rNumber = /^\d{8}$/.test(compact) ? `R${compact}` : compact;
+  
+  return R_NUMBER_PATTERN.test(rNumber) ? rNumber : null;
+}
+
+/**
+ * Load every member's identifiers
+ * Firestore cannot query several fields at once, so all users are read,
+ * once per import and limited to the identifier fields.
+ */
+async function buildMemberIndex(): Promise<MemberIndex> {
+  const db = getAdminFirestore();
+  const snapshot = await db.collection('users')
+    .select('ttuEmail', 'rNumber', 'email', 'displayName')
+    .get();
+  
+  const index: MemberIndex = {
+    ttuEmail: new Map(),
+    rNumber: new Map(),
+    email: new Map(),
+    displayNames: new Map(),
+  };
+  
+  snapshot.forEach((doc) => {
+    const data = doc.data();
+    
+    if (data.ttuEmail) {
+      index.ttuEmail.set(String(data.ttuEmail).toLowerCase(), doc.id);
+    }
+    
+    const rNumber = data.rNumber ? normalizeRNumber(String(data.rNumber)) : null;
+    if (rNumber) {
+      index.rNumber.set(rNumber, doc.id);
+    }
+    
+    if (data.email) {
+      index.email.set(String(data.email).toLowerCase(), doc.id);
+    }
+    
+    index.displayNames.set(doc.id, data.displayName || data.email || doc.id);
+  });
+  
+  return index;
+}
+
+/**
+ * Read the identifiers present in a row
+ */
+function readIdentifiers(cells: string[]): { emails: string[]; rNumbers: string[] } {
+  const emails: string[] = [];
+  const rNumbers: string[] = [];
+  
+  for (const cell of cells) {
+    const value = cell.trim();
+    
+    if (EMAIL_PATTERN.test(value)) {
+      emails.push(value.toLowerCase());
+      continue;
+    }
+    
+    const rNumber = normalizeRNumber(value);
+    if (rNumber) {
+      rNumbers.push(rNumber);
+    }
+  }
+  
+  return { emails, rNumbers };
+}
+
+/**
+ * Match a row to a member: TTU email first, then R-number, then Google email
+ */
+function matchRow(
+  cells: string[],
+  index: MemberIndex
+): { identifier: string; userId?: string; matchedBy?: AttendanceImportMatch } {
+  const { emails, rNumbers } = readIdentifiers(cells);
+  
+  for (const email of emails) {
+    const userId = index.ttuEmail.get(email);
+    if (userId) {
+      return { identifier: email, userId, matchedBy: 'ttuEmail' };
+    }
+  }
+  
+  for (const rNumber of rNumbers) {
+    const userId = index.rNumber.get(rNumber);
+    if (userId) {
+      return { identifier: rNumber, userId, matchedBy: 'rNumber' };
+    }
+  }
+  
+  for (const email of emails) {
+    const userId = index.email.get(email);
+    if (userId) {
+      return { identifier: email, userId, matchedBy: 'email' };
+    }
+  }
+  
+  return { identifier: emails[0] ?? rNumbers[0] ?? '' };
+}
+
+/**
+ * Count rows by status
+ */
+function countRows(rows: AttendanceImportRow[]): Record<AttendanceImportStatus, number> {
+  const counts: Record<AttendanceImportStatus, number> = {
+    matched: 0,
+    added: 0,
+    'already-attended': 0,
+    duplicate: 0,
+    unknown: 0,
+    invalid: 0,
+    failed: 0,
+  };
+  
+  rows.forEach((row) => {
+    counts[row.status]++;
+  });
+  
+  return counts;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Preview or commit an attendance import for an event
+ * Rows are always re-matched on commit, so a stale preview cannot credit
+ * the wrong member. Matched rows are committed with addAttendees, which
+ * checks and credits attendance atomically in batches; a failed row does
+ * not stop the rest of the import.
+ * 
+ * @param eventId - Event to credit attendance for
+ * @param csvText - Uploaded CSV content
+ * @param options.dryRun - Only preview the matches (default: true)
+ * @param options.adminUid - Admin UID committing the import (required to commit)
+ * @returns Per-row outcomes and counts
+ * @throws Error if event not found, or the sheet is empty or too large
+ */
+export async function importAttendance(
+  eventId: string,
+  csvText: string,
+  options: { dryRun?: boolean; adminUid?: string } = {}
+): Promise<AttendanceImportReport> {
+  try {
+    const db = getAdminFirestore();
+    const dryRun = options.dryRun ?? true;
+    
+    if (!dryRun && !options.adminUid) {
+      throw new Error('Admin UID is required to commit an import');
+    }
+    
+    const eventDoc = await db.collection('events').doc(eventId).get();
+    const eventData = eventDoc.data();
+    
+    if (!eventDoc.exists || !eventData) {
+      throw new Error('Event not found');
+    }
+    
+    const lines = parseCsv(csvText);
+    
+    // A first row with no identifiers is the header; use it to find a name column
+    let nameColumn = -1;
+    let firstLine = 0;
+    
+    if (lines.length > 0) {
+      const { emails, rNumbers } = readIdentifiers(lines[0]);
+      
+      if (emails.length === 0 && rNumbers.length === 0) {
+        nameColumn = lines[0].findIndex((header) => /name/i.test(header) && !/user ?name/i.test(header));
+        firstLine = 1;
+      }
+    }
+    
+    const dataLines = lines.slice(firstLine);
+    
+    if (dataLines.length === 0) {
+      throw new Error('The file has no rows to import');
+    }
+    
+    if (dataLines.length > MAX_IMPORT_ROWS) {
+      throw new Error(`The file has more than ${MAX_IMPORT_ROWS} rows`);
+    }
+    
+    const index = await buildMemberIndex();
+    const attendees = new Set<string>(eventData.attendees || []);
+    const seen = new Map<string, number>();
+    
+    const rows: AttendanceImportRow[] = dataLines.map((cells, i) => {
+      const line = firstLine + i + 1;
+      const match = matchRow(cells, index);
+      const row: AttendanceImportRow = {
+        line,
+        identifier: match.identifier,
+        status: 'matched',
+      };
+      
+      const name = nameColumn >= 0 ? cells[nameColumn]?.trim() : '';
+      if (name) {
+        row.name = name;
+      }
+      
+      if (!match.identifier) {
+        row.status = 'invalid';
+        row.message = 'No email or R-number found';
+        return row;
+      }
+      
+      if (!match.userId) {
+        row.status = 'unknown';
+        row.message = 'No member with this email or R-number';
+        return row;
+      }
+      
+      row.userId = match.userId;
+      row.matchedBy = match.matchedBy;
+      row.displayName = index.displayNames.get(match.userId);
+      
+      if (seen.has(match.userId)) {
+        row.status = 'duplicate';
+        row.message = `Same member as line ${seen.get(match.userId)}`;
+        return row;
+      }
+      
+      seen.set(match.userId, line);
+      
+      if (attendees.has(match.userId)) {
+        row.status = 'already-attended';
+        row.message = 'Already credited for this event';
+      }
+      
+      return row;
+    });
+    
+    if (!dryRun) {
+      const matched = rows.filter((row) => row.status === 'matched' && row.userId);
+      const failures = await addAttendees(eventId, matched.map((row) => row.userId!), options.adminUid!);
+      
+      for (const row of matched) {
+        const message = failures.get(row.userId!);
+        
+        if (!message) {
+          row.status = 'added';
+        } else if (message === 'User has already attended this event') {
+          row.status = 'already-attended';
+          row.message = 'Already credited for this event';
+        } else {
+          row.status = 'failed';
+          row.message = message;
+        }
+      }
+    }
+    
+    return {
+      eventId,
+      eventName: eventData.name,
+      dryRun,
+      rows,
+      counts: countRows(rows),
+    };
+  } catch (error) {
+    console.error('Error importing attendance:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,279 @@
+import 'server-only';
+import type { NextRequest } from 'next/server';
+import { getAdminFirestore } from '../firebase/admin';
+import { getClientIp } from '../middleware/auth';
+import type {
+  AuditAction,
+  AuditChange,
+  AuditLogEntry,
+  AuditLogFilter,
+  AuditRequestMeta,
+  AuditTarget,
+  Role,
+} from '../types';
+import { Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * Audit Log Service
+ * 
+ * Server-side service for the admin audit log including:
+ * - Recording privileged actions with a field-level before/after diff
+ * - Capturing request metadata (method, path, IP, user agent)
+ * - Filtered, paginated audit log queries
+ * 
+ * Entries are append-only: they are created once and never updated or
+ * deleted, and Firestore rules deny all client access.
+ */
+
+export const AUDIT_LOG_COLLECTION = 'auditLog';
+
+/**
+ * Page size limits for audit log queries
+ */
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+/**
+ * Fields never copied into the audit log (noise or secrets)
+ */
+const IGNORED_AUDIT_FIELDS = new Set(['id', 'updatedAt', 'codeSecret', 'attendanceCode']);
+
+/**
+ * Server-side audit log entry using Firebase Admin SDK Timestamp
+ */
+export type AuditLogRecord = Omit<AuditLogEntry, 'createdAt'> & {
+  createdAt: Timestamp;
+};
+
+/**
+ * Admin performing an audited action
+ */
+export interface AuditActor {
+  uid: string;
+  email: string;
+  roles: Role[];
+}
+
+/**
+ * Details of an audited action
+ * `before` and `after` are snapshots of the target's fields; only the
+ * fields that differ are stored.
+ */
+export interface AuditEventInput {
+  action: AuditAction;
+  target: AuditTarget;
+  before?: object | null;
+  after?: object | null;
+  reason?: string;
+  context?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Page of audit log entries
+ */
+export interface AuditLogPage {
+  entries: AuditLogRecord[];
+  nextCursor: string | null;     // Pass back as `cursor` to load the next page
+}
+
+// ============================================================================
+// Recording Entries
+// ============================================================================
+
+/**
+ * Extract the request metadata stored with each entry
+ * 
+ * @param request - Request that performed the action
+ * @returns Method, path, client IP and user agent
+ */
+export function getAuditRequestMeta(request: NextRequest): AuditRequestMeta {
+  return {
+    method: request.method,
+    path: request.nextUrl.pathname,
+    ip: getClientIp(request),
+    userAgent: request.headers.get('user-agent'),
+  };
+}
+
+/**
+ * Convert a snapshot value into plain JSON data
+ */
+function toAuditValue(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  
+  if (Array.isArray(value)) {
+    return value.map(toAuditValue);
+  }
+  
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, nested]) => [key, toAuditValue(nested)])
+    );
+  }
+  
+  return value;
+}
+
+/**
+ * Compute the field-level diff between two snapshots
+ * A missing snapshot (create or delete) diffs every field against null.
+ * 
+ * @param before - Fields before the action
+ * @param after - Fields after the action
+ * @returns Changed fields, sorted by name
+ */
+export function diffAuditSnapshots(
+  before: object | null | undefined,
+  after: object | null | undefined
+): AuditChange[] {
+  const beforeFields = (before ?? {}) as Record<string, unknown>;
+  const afterFields = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+  const changes: AuditChange[] = [];
+  
+  for (const field of Array.from(fields).sort()) {
+    if (IGNORED_AUDIT_FIELDS.has(field)) {
+      continue;
+    }
+    
+    const beforeValue = toAuditValue(beforeFields[field]);
+    const afterValue = toAuditValue(afterFields[field]);
+    
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  }
+  
+  return changes;
+}
+
+/**
+ * Append an entry to the audit log
+ * Called after the action succeeds. A failed write is logged but never
+ * fails the action itself, which has already been applied.
+ * 
+ * @param request - Request that performed the action
+ * @param actor - Admin who performed the action
+ * @param event - Action, target, snapshots, reason and context
+ * @returns ID of the new entry, or null if it could not be written
+ */
+export async function recordAuditEvent(
+  request: NextRequest,
+  actor: AuditActor,
+  event: AuditEventInput
+): Promise<string | null> {
+  try {
+    const db = getAdminFirestore();
+    const entryRef = db.collection(AUDIT_LOG_COLLECTION).doc();
+    
+    const target: AuditTarget = { type: event.target.type, id: event.target.id };
+    if (event.target.label) {
+      target.label = event.target.label;
+    }
+    
+    const entry: Omit<AuditLogRecord, 'id'> = {
+      actorId: actor.uid,
+      actorEmail: actor.email,
+      actorRoles: actor.roles,
+      action: event.action,
+      target,
+      changes: diffAuditSnapshots(event.before, event.after),
+      request: getAuditRequestMeta(request),
+      createdAt: Timestamp.now(),
+    };
+    
+    if (event.reason) {
+      entry.reason = event.reason;
+    }
+    
+    if (event.context) {
+      entry.context = event.context;
+    }
+    
+    // create() fails rather than overwrite, keeping entries immutable
+    await entryRef.create(entry);
+    
+    return entryRef.id;
+  } catch (error) {
+    console.error('Error recording audit event:', error);
+    return null;
+  }
+}
+
+// ============================================================================
+// Querying Entries
+// ============================================================================
+
+/**
+ * Get audit log entries, newest first
+ * Filters combine; each equality filter is served by its own
+ * (field, createdAt) index.
+ * 
+ * @param filter - Optional actor, action, target and date range filters
+ * @param options - Page size and cursor from a previous page
+ * @returns Page of entries and the cursor for the next page
+ */
+export async function getAuditLog(
+  filter: AuditLogFilter = {},
+  options: { limit?: number; cursor?: string } = {}
+): Promise<AuditLogPage> {
+  try {
+    const db = getAdminFirestore();
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_AUDIT_PAGE_SIZE, 1), MAX_AUDIT_PAGE_SIZE);
+    let query: FirebaseFirestore.Query = db.collection(AUDIT_LOG_COLLECTION);
+    
+    if (filter.actorId) {
+      query = query.where('actorId', '==', filter.actorId);
+    }
+    
+    if (filter.action) {
+      query = query.where('action', '==', filter.action);
+    }
+    
+    if (filter.targetId) {
+      query = query.where('target.id', '==', filter.targetId);
+    }
+    
+    if (filter.start) {
+      query = query.where('createdAt', '>=', Timestamp.fromDate(filter.start));
+    }
+    
+    if (filter.end) {
+      query = query.where('createdAt', '<', Timestamp.fromDate(filter.end));
+    }
+    
+    query = query.orderBy('createdAt', 'desc');
+    
+    if (options.cursor) {
+      const cursorSnapshot = await db.collection(AUDIT_LOG_COLLECTION).doc(options.cursor).get();
+      
+      if (!cursorSnapshot.exists) {
+        throw new Error('Invalid cursor');
+      }
+      
+      query = query.startAfter(cursorSnapshot);
+    }
+    
+    // Fetch one extra entry to know whether another page exists
+    const snapshot = await query.limit(limit + 1).get();
+    const docs = snapshot.docs.slice(0, limit);
+    
+    return {
+      entries: docs.map((doc) => ({ id: doc.id, ...doc.data() }) as AuditLogRecord),
+      nextCursor: snapshot.size > limit ? docs[docs.length - 1].id : null,
+    };
+  } catch (error) {
+    console.error('Error getting audit log:', error);
+    throw error;
+  }
+}
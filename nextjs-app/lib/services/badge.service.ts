@@ -0,0 +1,173 @@
+import 'server-only';
+import { getAdminFirestore } from '../firebase/admin';
+import type { AwardedBadge, BadgeId, EventCategory } from '../types';
+import { Timestamp } from 'firebase-admin/firestore';
+import {
+  evaluateBadges,
+  getStreakCategories,
+  type BadgeFacts,
+} from '../badges';
+import { getLeagueWindows } from '../major-league';
+
+/**
+ * Badge Service
+ * 
+ * Server-side service for achievement badges including:
+ * - Gathering the facts badge rules are evaluated against
+ * - Awarding newly earned badges to a user
+ * - Evaluating many users at once after bulk attendance changes
+ * 
+ * Badges are only ever added; a member keeps a badge once earned.
+ */
+
+// ============================================================================
+// Fact Gathering
+// ============================================================================
+
+/**
+ * Get IDs of held (started, not cancelled) events in a category, oldest first
+ */
+async function getHeldEventIds(category: EventCategory): Promise<string[]> {
+  const db = getAdminFirestore();
+  const snapshot = await db.collection('events')
+    .where('category', '==', category)
+    .orderBy('startTime', 'asc')
+    .get();
+  
+  const now = Date.now();
+  
+  return snapshot.docs
+    .filter((doc) => {
+      const data = doc.data();
+      return data.status !== 'cancelled' && (data.startTime as Timestamp).toMillis() <= now;
+    })
+    .map((doc) => doc.id);
+}
+
+/**
+ * Get held event IDs for every streak category
+ */
+async function getEventsByCategory(): Promise<BadgeFacts['eventsByCategory']> {
+  const eventsByCategory: BadgeFacts['eventsByCategory'] = {};
+  for (const category of getStreakCategories()) {
+    eventsByCategory[category] = await getHeldEventIds(category);
+  }
+  
+  return eventsByCategory;
+}
+
+/**
+ * Get a user's all-time leaderboard rank (ties share a rank)
+ * 
+ * @param points - The user's current points
+ * @returns 1-based rank, or null if the user has no points
+ */
+async function getLeaderboardRank(points: number): Promise<number | null> {
+  if (points <= 0) {
+    return null;
+  }
+  
+  const db = getAdminFirestore();
+  const aheadSnapshot = await db.collection('users')
+    .where('hasCompletedOnboarding', '==', true)
+    .where('points', '>', points)
+    .count()
+    .get();
+  
+  return aheadSnapshot.data().count + 1;
+}
+
+// ============================================================================
+// Badge Awarding
+// ============================================================================
+
+/**
+ * Evaluate badge rules for a user and award any newly earned badges
+ * Called after attendance or points change
+ * 
+ * @param userId - User UID
+ * @param eventsByCategory - Held events per streak category (loaded if omitted)
+ * @returns IDs of badges awarded by this call
+ */
+export async function evaluateUserBadges(
+  userId: string,
+  eventsByCategory?: BadgeFacts['eventsByCategory']
+): Promise<BadgeId[]> {
+  try {
+    const db = getAdminFirestore();
+    const userRef = db.collection('users').doc(userId);
+    const userDoc = await userRef.get();
+    
+    const userData = userDoc.data();
+    if (!userDoc.exists || !userData) {
+      throw new Error('User not found');
+    }
+    
+    const facts: BadgeFacts = {
+      attendance: (userData.attendedEvents ?? []).map((item: any) => ({
+        eventId: item.eventId,
+        date: (item.eventDate as Timestamp).toDate(),
+      })),
+      eventsByCategory: eventsByCategory ?? await getEventsByCategory(),
+      leaderboardRank: await getLeaderboardRank(userData.points ?? 0),
+      majorLeagueWindows: getLeagueWindows(),
+    };
+    
+    const earned = evaluateBadges(facts);
+    const owned = new Set((userData.badges ?? []).map((badge: AwardedBadge) => badge.id));
+    
+    if (earned.every((id) => owned.has(id))) {
+      return [];
+    }
+    
+    // Re-read inside a transaction so concurrent evaluations don't drop badges
+    return await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(userRef);
+      const badges: AwardedBadge[] = snapshot.data()?.badges ?? [];
+      const current = new Set(badges.map((badge) => badge.id));
+      const awarded = earned.filter((id) => !current.has(id));
+      
+      if (awarded.length > 0) {
+        const now = Timestamp.now();
+        transaction.update(userRef, {
+          badges: [
+            ...badges,
+            ...awarded.map((id) => ({ id, awardedAt: now })),
+          ],
+        });
+      }
+      
+      return awarded;
+    });
+  } catch (error) {
+    console.error('Error evaluating user badges:', error);
+    throw error;
+  }
+}
+
+/**
+ * Evaluate badge rules for many users, e.g. after an attendance import
+ * Held events are loaded once for all of them; a user that fails is
+ * counted and skipped.
+ * 
+ * @param userIds - User UIDs
+ * @returns Users evaluated, badges awarded and users that failed
+ */
+export async function evaluateBadgesForUsers(
+  userIds: string[]
+): Promise<{ evaluated: number; awarded: number; failed: number }> {
+  const eventsByCategory = await getEventsByCategory();
+  const result = { evaluated: 0, awarded: 0, failed: 0 };
+  
+  for (const userId of userIds) {
+    try {
+      const awarded = await evaluateUserBadges(userId, eventsByCategory);
+      result.evaluated++;
+      result.awarded += awarded.length;
+    } catch {
+      result.failed++;
+    }
+  }
+  
+  return result;
+}
@@ -3,57 +3,45 @@
  * 
  * This file demonstrates how to integrate the calendar service with event creation.
  * This is an example file and should not be imported in production code.
+ * 
+ * Don't send invitations from an un-awaited promise after responding:
+ * serverless runtimes routinely stop the function once the response is
+ * sent, so the invitations are silently lost. Queue them instead; a
+ * calendar.sync background job sends them and retries failures.
  */
 
 import { createEvent } from './event.service';
-import { sendCalendarInvitation } from './calendar.service';
+import { isCalendarConfigured, sendCalendarInvitation } from './calendar.service';
+import { queueCalendarSync } from './calendarSync.service';
+import { enqueueJob } from '../jobs';
+import { runJobNow } from '../jobs/worker';
 import type { CreateEventInput } from '../types';
 
 /**
- * Example: Create event and send calendar invitations
+ * Example: Create event and queue calendar invitations
  * 
  * This function demonstrates the recommended pattern for creating events
- * and sending calendar invitations in API routes.
+ * and sending calendar invitations in API routes. Queueing only writes to
+ * Firestore, so the response isn't held up by the calendar provider.
  */
 export async function createEventWithInvitations(
   eventData: CreateEventInput,
   adminUid: string
-): Promise<{ eventId: string; invitationsSent: number; invitationsFailed: number }> {
+): Promise<{ eventId: string; invitationsQueued: boolean }> {
   try {
     // Step 1: Create the event
     const event = await createEvent(eventData, adminUid);
     
     console.log(`Event created: ${event.id}`);
     
-    // Step 2: Send calendar invitations (non-blocking)
-    // We don't await this to avoid blocking the API response
-    // The invitations will be sent in the background
-    sendCalendarInvitation(event)
-      .then(result => {
-        if (result.success) {
-          console.log(`Calendar invitations sent successfully:`);
-          console.log(`  - Sent to: ${result.sentTo.length} users`);
-          console.log(`  - Failed: ${result.failed.length} users`);
-          
-          if (result.failed.length > 0) {
-            console.log('Failed recipients:');
-            result.errors.forEach(error => {
-              console.log(`  - ${error.email}: ${error.error}`);
-            });
-          }
-        } else {
-          console.error('Failed to send calendar invitations');
-          console.error('Errors:', result.errors);
-        }
-      })
-      .catch(error => {
-        console.error('Error sending calendar invitations:', error);
-      });
+    // Step 2: Queue calendar invitations (sent by the job worker)
+    const invitationsQueued = isCalendarConfigured()
+      ? await queueCalendarSync(event.id, 'create')
+      : false;
     
     return {
       eventId: event.id,
-      invitationsSent: 0, // Will be updated asynchronously
-      invitationsFailed: 0,
+      invitationsQueued,
     };
   } catch (error) {
     console.error('Error creating event:', error);
@@ -66,7 +54,8 @@ export async function createEventWithInvitations(
  * 
  * This function demonstrates how to wait for calendar invitations to complete
  * before returning. Use this pattern when you need to know the invitation results
- * immediately (e.g., for testing or admin dashboards).
+ * immediately (e.g., for testing or admin dashboards). Invitations sent this
+ * way aren't recorded for later updates or cancellations.
  */
 export async function createEventWithInvitationsSync(
   eventData: CreateEventInput,
@@ -140,6 +129,26 @@ export async function sendInvitationsToSpecificUsers(
   }
 }
 
+/**
+ * Example: Queue work and make the first attempt inline
+ * 
+ * This function demonstrates how to get a result in the request when
+ * possible while keeping the queue's retries if the attempt fails. The
+ * idempotency key makes a retried request reuse the same job.
+ */
+export async function syncEventCalendarNow(eventId: string, requestId: string): Promise<boolean> {
+  const { id } = await enqueueJob('calendar.sync', { eventId }, {
+    idempotencyKey: `calendar-sync:${eventId}:${requestId}`,
+  });
+  const job = await runJobNow(id);
+  
+  if (job.status !== 'succeeded') {
+    console.log(`Calendar sync for ${eventId} will be retried (${job.lastError})`);
+  }
+  
+  return job.status === 'succeeded';
+}
+
 /**
  * Example API Route Implementation
  * 
@@ -150,7 +159,8 @@ export async function sendInvitationsToSpecificUsers(
 export const exampleAPIRoute = `
 import { NextRequest, NextResponse } from 'next/server';
 import { createEvent } from '@/lib/services/event.service';
-import { sendCalendarInvitation } from '@/lib/services/calendar.service';
+import { isCalendarConfigured } from '@/lib/services/calendar.service';
+import { queueCalendarSync } from '@/lib/services/calendarSync.service';
 import type { CreateEventInput } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
@@ -175,12 +185,14 @@ export async function POST(request: NextRequest) {
     // Create event
     const event = await createEvent(eventData, adminUid);
     
-    // Send calendar invitations (non-blocking)
-    sendCalendarInvitation(event).then(result => {
-      console.log(\`Calendar invitations: \${result.sentTo.length} sent, \${result.failed.length} failed\`);
-    }).catch(error => {
-      console.error('Failed to send calendar invitations:', error);
-    });
+    // Queue calendar invitations; the job worker sends them and retries failures
+    if (isCalendarConfigured()) {
+      try {
+        await queueCalendarSync(event.id, 'create');
+      } catch (error) {
+        console.error('Failed to queue calendar invitations:', error);
+      }
+    }
     
     return NextResponse.json({
       success: true,
@@ -1,190 +1,177 @@
 import 'server-only';
-import type { CalendarResult, OutlookEvent } from '../types';
-import type { Event } from './event.service';
+import type { CalendarRecipientOutcome, CalendarResult, CalendarSyncAction } from '../types';
+import { getEvent, type Event } from './event.service';
 import { getTTUVerifiedUsers } from './user.service';
+import {
+  claimCalendarSync,
+  completeCalendarSync,
+  type CalendarInvitation,
+  type CalendarInvitationRecord,
+  type CalendarSyncOutcome,
+} from './calendarSync.service';
+import {
+  getCalendarProvider,
+  isCalendarConfigured,
+  runCalendarOperations,
+  type CalendarEventDetails,
+  type CalendarOperation,
+} from '../calendar';
+import { CHAPTER } from '../chapter';
+
+export { isCalendarConfigured } from '../calendar';
 
 /**
  * Calendar Service
  * 
- * Server-side service for Microsoft Graph API integration including:
- * - Access token management for Microsoft Graph API
- * - Outlook calendar event creation
- * - Calendar invitation distribution to TTU verified users
+ * Server-side calendar invitations for chapter events including:
+ * - Invitation distribution to TTU verified users through the configured
+ *   provider (Microsoft Graph, Google Calendar, or a fake; see lib/calendar)
+ * - Per-recipient outcomes, with rate-limited requests retried
+ * - Updating and cancelling invitations that were already sent, from the
+ *   queue kept by calendarSync.service
  * - Error handling for partial failures
  */
 
-// ============================================================================
-// Microsoft Graph API Configuration
-// ============================================================================
-
-const GRAPH_API_BASE_URL = 'https://graph.microsoft.com/v1.0';
-const GRAPH_API_SCOPES = ['https://graph.microsoft.com/.default'];
-
 /**
- * Get Microsoft Graph API access token
- * Uses client credentials flow with Azure AD app registration
- * 
- * @returns Access token for Microsoft Graph API
- * @throws Error if token acquisition fails
+ * Events without an end time are shown as this long
  */
-export async function getAccessToken(): Promise<string> {
-  try {
-    // Get credentials from environment variables
-    const tenantId = process.env.MICROSOFT_TENANT_ID;
-    const clientId = process.env.MICROSOFT_CLIENT_ID;
-    const clientSecret = process.env.MICROSOFT_CLIENT_SECRET;
-    
-    if (!tenantId || !clientId || !clientSecret) {
-      throw new Error('Microsoft Graph API credentials not configured');
-    }
-    
-    // Token endpoint for client credentials flow
-    const tokenEndpoint = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
-    
-    // Prepare request body
-    const body = new URLSearchParams({
-      client_id: clientId,
-      client_secret: clientSecret,
-      scope: GRAPH_API_SCOPES.join(' '),
-      grant_type: 'client_credentials',
-    });
-    
-    // Request access token
-    const response = await fetch(tokenEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: body.toString(),
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('Token acquisition failed:', errorData);
-      throw new Error(`Failed to acquire access token: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    
-    if (!data.access_token) {
-      throw new Error('No access token in response');
-    }
-    
-    return data.access_token;
-  } catch (error) {
-    console.error('Error getting access token:', error);
-    throw error;
-  }
-}
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
 
 /**
- * Create Outlook calendar event object from event data
- * Formats event data according to Microsoft Graph API schema
+ * Convert an event to the details sent with its invitations
  * 
- * @param event - Event data to format
- * @returns Outlook event object ready for Graph API
+ * @param event - Event to describe
+ * @returns Provider-neutral event details
  */
-export function createOutlookEvent(event: Event): OutlookEvent {
-  // Convert Firestore Timestamps to ISO strings
-  const startDateTime = event.startTime.toDate().toISOString();
+export function toCalendarEventDetails(event: Event): CalendarEventDetails {
+  const start = event.startTime.toDate();
   
   // If endTime is not set, default to 2 hours after start time
-  const endDateTime = event.endTime 
-    ? event.endTime.toDate().toISOString()
-    : new Date(event.startTime.toDate().getTime() + 2 * 60 * 60 * 1000).toISOString();
-  
-  // Format event description with points information
-  const bodyContent = `${event.description}\n\nPoints: ${event.pointsValue} XP\nLocation: ${event.location}`;
+  const end = event.endTime
+    ? event.endTime.toDate()
+    : new Date(start.getTime() + DEFAULT_DURATION_MS);
   
   return {
-    subject: event.name,
-    body: {
-      contentType: 'text',
-      content: bodyContent,
-    },
-    start: {
-      dateTime: startDateTime,
-      timeZone: 'America/Chicago', // Central Time (TTU timezone)
-    },
-    end: {
-      dateTime: endDateTime,
-      timeZone: 'America/Chicago',
-    },
-    location: {
-      displayName: event.location,
-    },
-    attendees: [], // Will be populated per recipient
+    title: event.name,
+    description: `${event.description}\n\nPoints: ${event.pointsValue} XP\nLocation: ${event.location}`,
+    location: event.location,
+    start,
+    end,
+    timeZone: CHAPTER.timeZone,
   };
 }
 
 /**
- * Send calendar invitation to a single user
- * Helper function for individual invitation sending
+ * Run one operation per recipient and describe what happened to each
  * 
- * @param accessToken - Microsoft Graph API access token
- * @param outlookEvent - Formatted Outlook event
- * @param recipientEmail - Email address of recipient
- * @returns Object with success status and optional error message
+ * @param action - Action the operations carry out
+ * @param requests - Recipient and operation pairs
+ * @returns Outcome per recipient, in the same order
  */
-async function sendSingleInvitation(
-  accessToken: string,
-  outlookEvent: OutlookEvent,
-  recipientEmail: string
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    // Create event with recipient as attendee
-    const eventWithAttendee = {
-      ...outlookEvent,
-      attendees: [
-        {
-          emailAddress: {
-            address: recipientEmail,
-          },
-          type: 'required',
-        },
-      ],
-    };
-    
-    // Send calendar event via Microsoft Graph API
-    // Using /me/events endpoint requires delegated permissions
-    // For application permissions, we'd need to use /users/{userId}/events
-    // For now, we'll use a service account approach
-    const response = await fetch(`${GRAPH_API_BASE_URL}/me/events`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(eventWithAttendee),
-    });
+async function runForRecipients(
+  action: CalendarSyncAction,
+  requests: Array<{ email: string; operation: CalendarOperation }>
+): Promise<CalendarRecipientOutcome[]> {
+  if (requests.length === 0) {
+    return [];
+  }
+  
+  const outcomes = await runCalendarOperations(requests.map((request) => request.operation));
+  
+  return outcomes.map(({ result, attempts }, index) => {
+    const email = requests[index].email;
     
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error(`Failed to send invitation to ${recipientEmail}:`, errorData);
-      return {
-        success: false,
-        error: `HTTP ${response.status}: ${errorData.substring(0, 100)}`,
-      };
+    if (result.ok) {
+      return { email, action, status: 'sent', attempts, providerEventId: result.providerEventId };
     }
     
-    return { success: true };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`Error sending invitation to ${recipientEmail}:`, errorMessage);
+    console.error(`Failed to ${action} invitation for ${email}:`, result.error);
+    
     return {
-      success: false,
-      error: errorMessage,
+      email,
+      action,
+      status: result.retryAfterMs !== undefined ? 'rate-limited' : 'failed',
+      attempts,
+      retryAfterMs: result.retryAfterMs,
+      error: result.error,
     };
-  }
+  });
+}
+
+/**
+ * Send invitations to a list of recipients
+ */
+function sendInvitations(details: CalendarEventDetails, recipientEmails: string[]): Promise<CalendarRecipientOutcome[]> {
+  return runForRecipients('create', recipientEmails.map((email) => ({
+    email,
+    operation: { kind: 'create', attendee: email, details },
+  })));
 }
 
+/**
+ * Patch the details of invitations that were already sent
+ * Only event details are sent, so recipients keep their responses.
+ */
+function updateInvitations(
+  details: CalendarEventDetails,
+  invitations: CalendarInvitation[]
+): Promise<CalendarRecipientOutcome[]> {
+  return runForRecipients('update', invitations.map((invitation) => ({
+    email: invitation.email,
+    operation: { kind: 'update', providerEventId: invitation.providerEventId, details },
+  })));
+}
+
+/**
+ * Cancel invitations that were already sent
+ * Providers send each recipient a cancellation notice; events that no
+ * longer exist count as cancelled.
+ */
+function cancelInvitations(invitations: CalendarInvitation[]): Promise<CalendarRecipientOutcome[]> {
+  return runForRecipients('cancel', invitations.map((invitation) => ({
+    email: invitation.email,
+    operation: { kind: 'cancel', providerEventId: invitation.providerEventId, comment: 'This event has been cancelled.' },
+  })));
+}
+
+/**
+ * Summarize recipient outcomes as a CalendarResult
+ * Considered a success if at least one invitation was sent.
+ */
+function toCalendarResult(outcomes: CalendarRecipientOutcome[]): CalendarResult {
+  const failed = outcomes.filter((outcome) => outcome.status !== 'sent');
+  
+  return {
+    success: failed.length < outcomes.length,
+    sentTo: outcomes.filter((outcome) => outcome.status === 'sent').map((outcome) => outcome.email),
+    failed: failed.map((outcome) => outcome.email),
+    errors: failed.map((outcome) => ({
+      email: outcome.email,
+      error: outcome.error || 'Failed to send invitation',
+    })),
+    outcomes,
+  };
+}
+
+// ============================================================================
+// Sending
+// ============================================================================
+
 /**
  * Send calendar invitations to all TTU verified users
  * Handles partial failures by continuing to process all recipients
  * 
+ * Prefer queueCalendarSync(eventId, 'create'), which records the created
+ * provider events so later edits and cancellations reach them, and retries
+ * failures.
+ * 
  * @param event - Event to send invitations for
  * @param recipients - Optional array of recipient emails (defaults to all TTU verified users)
- * @returns CalendarResult with success status and error details
+ * @returns CalendarResult with success status, error details and per-recipient outcomes
  */
 export async function sendCalendarInvitation(
   event: Event,
@@ -195,24 +182,17 @@ export async function sendCalendarInvitation(
     sentTo: [],
     failed: [],
     errors: [],
+    outcomes: [],
   };
   
   try {
-    // Get access token
-    let accessToken: string;
-    try {
-      accessToken = await getAccessToken();
-    } catch (error) {
-      // If we can't get an access token, fail immediately
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error('Failed to get access token:', errorMessage);
-      
-      // Mark all recipients as failed
+    if (!isCalendarConfigured()) {
+      // Nothing can be sent; mark all recipients as failed
       const recipientList = recipients || [];
       result.failed = recipientList;
       result.errors = recipientList.map(email => ({
         email,
-        error: `Access token acquisition failed: ${errorMessage}`,
+        error: 'No calendar provider configured',
       }));
       
       return result;
@@ -235,32 +215,13 @@ export async function sendCalendarInvitation(
       return result;
     }
     
-    // Create Outlook event object
-    const outlookEvent = createOutlookEvent(event);
-    
-    // Send invitations to all recipients
-    // Process sequentially to avoid rate limiting
-    for (const email of recipientEmails) {
-      const invitationResult = await sendSingleInvitation(accessToken, outlookEvent, email);
-      
-      if (invitationResult.success) {
-        result.sentTo.push(email);
-      } else {
-        result.failed.push(email);
-        result.errors.push({
-          email,
-          error: invitationResult.error || 'Failed to send invitation',
-        });
-      }
-    }
-    
-    // Consider success if at least one invitation was sent
-    result.success = result.sentTo.length > 0;
+    const outcomes = await sendInvitations(toCalendarEventDetails(event), recipientEmails);
+    const sent = toCalendarResult(outcomes);
     
     // Log summary
-    console.log(`Calendar invitations sent: ${result.sentTo.length} succeeded, ${result.failed.length} failed`);
+    console.log(`Calendar invitations sent: ${sent.sentTo.length} succeeded, ${sent.failed.length} failed`);
     
-    return result;
+    return sent;
   } catch (error) {
     console.error('Error sending calendar invitations:', error);
     
@@ -274,3 +235,127 @@ export async function sendCalendarInvitation(
     return result;
   }
 }
+
+// ============================================================================
+// Invitation Sync
+// ============================================================================
+
+/**
+ * Build a sync outcome from the recipient outcomes of an attempt
+ * 
+ * @param provider - Provider the attempt used
+ * @param invitations - Invitations that exist after the attempt
+ * @param outcomes - What happened for each recipient
+ */
+function toSyncOutcome(
+  provider: string,
+  invitations: CalendarInvitation[],
+  outcomes: CalendarRecipientOutcome[]
+): CalendarSyncOutcome {
+  const failed = outcomes.filter((outcome) => outcome.status !== 'sent');
+  const retryAfter = failed
+    .map((outcome) => outcome.retryAfterMs)
+    .filter((ms): ms is number => ms !== undefined);
+  
+  return {
+    provider,
+    invitations,
+    failedRecipients: failed.map((outcome) => outcome.email),
+    error: failed.length > 0
+      ? `${failed.length} of ${outcomes.length} invitation(s) failed: ${failed[0].error}`
+      : undefined,
+    retryAfterMs: retryAfter.length > 0 ? Math.max(...retryAfter) : undefined,
+  };
+}
+
+/**
+ * Run a queued sync against the calendar provider
+ * 
+ * @param record - Claimed invitation record
+ * @param event - Current event (null if it was deleted)
+ * @returns Invitations that exist afterwards and recipients that failed
+ * @throws Error if the invitations were sent with a different provider
+ */
+async function runCalendarSyncAction(
+  record: CalendarInvitationRecord,
+  event: Event | null
+): Promise<CalendarSyncOutcome> {
+  const { pendingAction: action, invitations } = record;
+  const provider = getCalendarProvider().name;
+  
+  // Event IDs only mean something to the provider that created them
+  if (invitations.length > 0 && record.provider && record.provider !== provider) {
+    throw new Error(`Invitations were sent with ${record.provider}, but ${provider} is configured`);
+  }
+  
+  // Deleted and cancelled events are cancelled with the provider too
+  if (action === 'cancel' || !event || event.status === 'cancelled') {
+    const outcomes = await cancelInvitations(invitations);
+    const remaining = invitations.filter((_, index) => outcomes[index].status !== 'sent');
+    
+    return toSyncOutcome(provider, remaining, outcomes);
+  }
+  
+  const details = toCalendarEventDetails(event);
+  
+  if (action === 'create') {
+    // Bring invitations sent before an edit up to date
+    const updated = record.needsUpdate ? await updateInvitations(details, invitations) : [];
+    
+    // Only invite members who don't have the event yet, so retries never duplicate
+    const invited = new Set(invitations.map((invitation) => invitation.email));
+    const users = await getTTUVerifiedUsers();
+    const recipientEmails = users
+      .map((user) => user.email)
+      .filter((email) => !invited.has(email));
+    
+    const sent = await sendInvitations(details, recipientEmails);
+    const created = sent
+      .filter((outcome) => outcome.status === 'sent' && outcome.providerEventId)
+      .map((outcome) => ({ email: outcome.email, providerEventId: outcome.providerEventId! }));
+    
+    return toSyncOutcome(provider, [...invitations, ...created], [...updated, ...sent]);
+  }
+  
+  return toSyncOutcome(provider, invitations, await updateInvitations(details, invitations));
+}
+
+/**
+ * Push an event's queued invitation change to the calendar provider
+ * Runs as the calendar.sync job; the job queue retries it while it fails.
+ * 
+ * @param eventId - Event to sync
+ * @returns The attempt's outcome and whether the change is fully synced,
+ *   or null if nothing was pending
+ * @throws Error if another run is already syncing the event
+ */
+export async function syncEventCalendar(
+  eventId: string
+): Promise<{ synced: boolean; outcome: CalendarSyncOutcome } | null> {
+  const record = await claimCalendarSync(eventId);
+  
+  if (!record || !record.pendingAction) {
+    return null;
+  }
+  
+  let outcome: CalendarSyncOutcome;
+  
+  try {
+    const event = await getEvent(eventId);
+    outcome = await runCalendarSyncAction(record, event);
+  } catch (error) {
+    // Nothing was sent (e.g. no provider, or recipient lookup failed)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error syncing calendar invitations for ${eventId}:`, errorMessage);
+    outcome = {
+      provider: record.provider,
+      invitations: record.invitations,
+      failedRecipients: record.failedRecipients,
+      error: errorMessage,
+    };
+  }
+  
+  const synced = await completeCalendarSync(record, outcome);
+  
+  return { synced, outcome };
+}
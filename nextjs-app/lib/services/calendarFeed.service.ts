@@ -0,0 +1,196 @@
+import 'server-only';
+import { randomBytes } from 'crypto';
+import { getAdminFirestore } from '../firebase/admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { CHAPTER } from '../chapter';
+import { buildIcsCalendar } from '../ics';
+import { getEvent, getEvents } from './event.service';
+import type { Event } from './event.service';
+
+/**
+ * Calendar Feed Service
+ * 
+ * Server-side service for iCalendar feeds that work in any calendar app
+ * (Google, Apple, Outlook) without Microsoft Graph:
+ * - Public subscription feed of chapter events
+ * - Single-event .ics downloads
+ * - Private per-member feeds of the events they RSVP'd to, addressed by
+ *   an unguessable token that the member can reset
+ */
+
+export const CALENDAR_FEEDS_COLLECTION = 'calendarFeeds';
+
+/**
+ * How far back feeds include past events
+ */
+const FEED_HISTORY_DAYS = 90;
+
+/**
+ * Private feed tokens are this many random bytes (hex encoded)
+ */
+const FEED_TOKEN_BYTES = 24;
+
+const FEED_TOKEN_PATTERN = new RegExp(`^[a-f0-9]{${FEED_TOKEN_BYTES * 2}}$`);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Earliest start time included in feeds
+ */
+function getFeedStart(): Date {
+  return new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// ============================================================================
+// Feeds
+// ============================================================================
+
+/**
+ * Build the public feed of chapter events
+ * Includes upcoming events and those from the last FEED_HISTORY_DAYS;
+ * cancelled events stay in the feed so subscribers remove them.
+ * 
+ * @param siteUrl - Base URL of the site, used for event links
+ * @returns iCalendar text
+ */
+export async function getPublicCalendarFeed(siteUrl?: string): Promise<string> {
+  try {
+    const events = await getEvents({ startAfter: getFeedStart() });
+    
+    return buildIcsCalendar(events, {
+      name: `${CHAPTER.name} Events`,
+      description: `Events hosted by the ${CHAPTER.fullName}`,
+      url: siteUrl,
+    });
+  } catch (error) {
+    console.error('Error building public calendar feed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Build a member's private feed of the events they RSVP'd to
+ * 
+ * @param token - Private feed token
+ * @param siteUrl - Base URL of the site, used for event links
+ * @returns iCalendar text, or null if the token is unknown
+ */
+export async function getMemberCalendarFeed(token: string, siteUrl?: string): Promise<string | null> {
+  try {
+    if (!FEED_TOKEN_PATTERN.test(token)) {
+      return null;
+    }
+    
+    const db = getAdminFirestore();
+    const snapshot = await db.collection(CALENDAR_FEEDS_COLLECTION)
+      .where('token', '==', token)
+      .limit(1)
+      .get();
+    
+    if (snapshot.empty) {
+      return null;
+    }
+    
+    // Filtered in memory: array-contains plus a range needs a composite index
+    const feedStart = getFeedStart().getTime();
+    const events = (await getEvents({ rsvpedBy: snapshot.docs[0].id }))
+      .filter((event) => event.startTime.toMillis() >= feedStart);
+    
+    return buildIcsCalendar(events, {
+      name: `My ${CHAPTER.name} Events`,
+      description: `${CHAPTER.fullName} events you RSVP'd to`,
+      url: siteUrl,
+    });
+  } catch (error) {
+    console.error('Error building member calendar feed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Build a single-event calendar for download
+ * 
+ * @param eventId - Event to export
+ * @param siteUrl - Base URL of the site, used for the event link
+ * @returns The event and its iCalendar text, or null if the event doesn't exist
+ */
+export async function getEventCalendar(
+  eventId: string,
+  siteUrl?: string
+): Promise<{ event: Event; ics: string } | null> {
+  try {
+    const event = await getEvent(eventId);
+    
+    if (!event) {
+      return null;
+    }
+    
+    return {
+      event,
+      ics: buildIcsCalendar([event], { name: event.name, url: siteUrl }),
+    };
+  } catch (error) {
+    console.error('Error building event calendar:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Private Feed Tokens
+// ============================================================================
+
+/**
+ * Get a member's private feed token, creating one on first use
+ * 
+ * @param uid - Member UID
+ * @returns Feed token
+ */
+export async function getOrCreateCalendarFeedToken(uid: string): Promise<string> {
+  try {
+    const db = getAdminFirestore();
+    const feedRef = db.collection(CALENDAR_FEEDS_COLLECTION).doc(uid);
+    
+    return await db.runTransaction(async (transaction) => {
+      const feedDoc = await transaction.get(feedRef);
+      const existing = feedDoc.data()?.token;
+      
+      if (typeof existing === 'string') {
+        return existing;
+      }
+      
+      const token = randomBytes(FEED_TOKEN_BYTES).toString('hex');
+      transaction.set(feedRef, { token, createdAt: Timestamp.now() });
+      
+      return token;
+    });
+  } catch (error) {
+    console.error('Error getting calendar feed token:', error);
+    throw error;
+  }
+}
+
+/**
+ * Replace a member's private feed token
+ * The old feed URL stops working immediately.
+ * 
+ * @param uid - Member UID
+ * @returns New feed token
+ */
+export async function resetCalendarFeedToken(uid: string): Promise<string> {
+  try {
+    const db = getAdminFirestore();
+    const token = randomBytes(FEED_TOKEN_BYTES).toString('hex');
+    
+    await db.collection(CALENDAR_FEEDS_COLLECTION).doc(uid).set({
+      token,
+      createdAt: Timestamp.now(),
+    });
+    
+    return token;
+  } catch (error) {
+    console.error('Error resetting calendar feed token:', error);
+    throw error;
+  }
+}
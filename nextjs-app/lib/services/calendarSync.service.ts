@@ -0,0 +1,386 @@
+import 'server-only';
+import { getAdminFirestore } from '../firebase/admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { enqueueJob } from '../jobs';
+import type { CalendarSyncAction, CalendarSyncState, CalendarSyncStatus } from '../types';
+
+/**
+ * Calendar Sync Service
+ * 
+ * Server-side bookkeeping for calendar invitations sent through a provider:
+ * - Recording the provider event created for each recipient of an event
+ * - Queueing invitation creates, updates and cancellations for an event
+ * - Tracking attempts and errors while the job queue retries a sync
+ * 
+ * Each event has one document in calendarInvitations holding its provider
+ * event IDs and pending change. Every queued change also enqueues a
+ * calendar.sync job, which runs the sync (see calendar.service) and
+ * retries it with backoff; the record is marked failed when that job is
+ * dead-lettered.
+ */
+
+export const CALENDAR_INVITATIONS_COLLECTION = 'calendarInvitations';
+
+/**
+ * How long a sync holds its claim before another run may take over
+ */
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Provider event created for one recipient
+ */
+export interface CalendarInvitation {
+  email: string;
+  providerEventId: string;
+}
+
+/**
+ * Stored invitation record / queue entry for an event
+ */
+export interface CalendarInvitationRecord {
+  eventId: string;
+  provider: string | null;               // Provider the invitations were sent with
+  invitations: CalendarInvitation[];
+  failedRecipients: string[];            // Recipients the last attempt failed for
+  pendingAction: CalendarSyncAction | null;
+  needsUpdate: boolean;                  // Event changed while a create was pending; patch sent invitations
+  failed: boolean;                       // Retries ran out; waiting for an admin
+  attempts: number;                      // Failed attempts for the pending change
+  leaseUntil: Timestamp | null;          // Set while a sync is running
+  lastError: string | null;
+  lastSyncedAt: Timestamp | null;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Result of one sync attempt
+ */
+export interface CalendarSyncOutcome {
+  provider: string | null;               // Provider the attempt used
+  invitations: CalendarInvitation[];     // Invitations that still exist after the attempt
+  failedRecipients: string[];
+  error?: string;                        // Summary of what went wrong, if anything
+  retryAfterMs?: number;                 // Provider asked to wait at least this long
+}
+
+/**
+ * When two changes are queued before a sync runs, the stronger one wins:
+ * a cancellation supersedes everything, and a pending create sends the
+ * latest event details (patching any invitations it already sent).
+ */
+const ACTION_PRIORITY: Record<CalendarSyncAction, number> = {
+  update: 0,
+  create: 1,
+  cancel: 2,
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Convert Firestore data to a CalendarInvitationRecord
+ */
+function toRecord(eventId: string, data: FirebaseFirestore.DocumentData | undefined): CalendarInvitationRecord {
+  // Records written before providers were pluggable hold Graph event IDs
+  const invitations: CalendarInvitation[] = (data?.invitations ?? []).map(
+    (invitation: { email: string; providerEventId?: string; graphEventId?: string }) => ({
+      email: invitation.email,
+      providerEventId: invitation.providerEventId ?? invitation.graphEventId ?? '',
+    })
+  );
+  
+  return {
+    eventId,
+    provider: data?.provider ?? (invitations.length > 0 ? 'graph' : null),
+    invitations,
+    failedRecipients: data?.failedRecipients ?? [],
+    pendingAction: data?.pendingAction ?? null,
+    needsUpdate: data?.needsUpdate ?? false,
+    failed: data?.failed ?? false,
+    attempts: data?.attempts ?? 0,
+    leaseUntil: data?.leaseUntil ?? null,
+    lastError: data?.lastError ?? null,
+    lastSyncedAt: data?.lastSyncedAt ?? null,
+    updatedAt: data?.updatedAt ?? Timestamp.now(),
+  };
+}
+
+/**
+ * Derive the admin-facing state of a record
+ */
+function getSyncState(record: CalendarInvitationRecord): CalendarSyncState {
+  if (!record.pendingAction) {
+    return 'synced';
+  }
+  
+  return record.failed ? 'failed' : 'pending';
+}
+
+/**
+ * Enqueue the job that pushes an event's pending change
+ * Keyed by the change's time, so each change is enqueued once.
+ * 
+ * @returns The job ID
+ */
+async function enqueueCalendarSyncJob(eventId: string, queuedAt: Timestamp): Promise<string> {
+  const { id } = await enqueueJob('calendar.sync', { eventId }, {
+    idempotencyKey: `calendar-sync:${eventId}:${queuedAt.toMillis()}`,
+  });
+  
+  return id;
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+/**
+ * Queue a change to an event's calendar invitations
+ * Updates and cancellations are only queued for events that have
+ * invitations (or a pending create), so events never sent to a provider
+ * are left alone.
+ * 
+ * @param eventId - Event whose invitations should change
+ * @param action - Change to push
+ * @returns true if the change was queued
+ */
+export async function queueCalendarSync(eventId: string, action: CalendarSyncAction): Promise<boolean> {
+  try {
+    const db = getAdminFirestore();
+    const recordRef = db.collection(CALENDAR_INVITATIONS_COLLECTION).doc(eventId);
+    
+    const queuedAt = await db.runTransaction(async (transaction) => {
+      const recordDoc = await transaction.get(recordRef);
+      const record = toRecord(eventId, recordDoc.data());
+      
+      if (action !== 'create' && record.invitations.length === 0 && record.pendingAction !== 'create') {
+        return null;
+      }
+      
+      const pendingAction = record.pendingAction && ACTION_PRIORITY[record.pendingAction] > ACTION_PRIORITY[action]
+        ? record.pendingAction
+        : action;
+      const now = Timestamp.now();
+      
+      transaction.set(recordRef, {
+        eventId,
+        provider: record.provider,
+        invitations: record.invitations,
+        failedRecipients: record.failedRecipients,
+        pendingAction,
+        needsUpdate: record.needsUpdate || (pendingAction === 'create' && action === 'update'),
+        failed: false,
+        attempts: 0,
+        leaseUntil: record.leaseUntil,
+        lastError: null,
+        lastSyncedAt: record.lastSyncedAt,
+        updatedAt: now,
+      });
+      
+      return now;
+    });
+    
+    if (!queuedAt) {
+      return false;
+    }
+    
+    await enqueueCalendarSyncJob(eventId, queuedAt);
+    
+    return true;
+  } catch (error) {
+    console.error('Error queueing calendar sync:', error);
+    throw error;
+  }
+}
+
+/**
+ * Claim a queued sync so no other run pushes it at the same time
+ * 
+ * @param eventId - Event to claim
+ * @returns The record, or null if nothing is pending
+ * @throws Error if another run holds the claim (the job retries later)
+ */
+export async function claimCalendarSync(eventId: string): Promise<CalendarInvitationRecord | null> {
+  const db = getAdminFirestore();
+  const recordRef = db.collection(CALENDAR_INVITATIONS_COLLECTION).doc(eventId);
+  
+  return db.runTransaction(async (transaction) => {
+    const recordDoc = await transaction.get(recordRef);
+    
+    if (!recordDoc.exists) {
+      return null;
+    }
+    
+    const record = toRecord(eventId, recordDoc.data());
+    const nowMillis = Date.now();
+    
+    if (!record.pendingAction) {
+      return null;
+    }
+    
+    if (record.leaseUntil && record.leaseUntil.toMillis() > nowMillis) {
+      throw new Error('Calendar sync already running');
+    }
+    
+    transaction.update(recordRef, {
+      leaseUntil: Timestamp.fromMillis(nowMillis + CLAIM_LEASE_MS),
+    });
+    
+    return record;
+  });
+}
+
+/**
+ * Record the outcome of a sync attempt
+ * A fully successful attempt clears the pending action; otherwise the
+ * attempt is counted and the job queue retries it. If another change was
+ * queued while the attempt ran, that change stays pending for its own job.
+ * 
+ * @param claimed - Record as claimed before the attempt
+ * @param outcome - Invitations and failures after the attempt
+ * @returns true if the pending change is fully synced
+ */
+export async function completeCalendarSync(
+  claimed: CalendarInvitationRecord,
+  outcome: CalendarSyncOutcome
+): Promise<boolean> {
+  try {
+    const db = getAdminFirestore();
+    const recordRef = db.collection(CALENDAR_INVITATIONS_COLLECTION).doc(claimed.eventId);
+    
+    const succeeded = outcome.failedRecipients.length === 0 && !outcome.error;
+    
+    await db.runTransaction(async (transaction) => {
+      const recordDoc = await transaction.get(recordRef);
+      const record = toRecord(claimed.eventId, recordDoc.data());
+      
+      const update: Record<string, unknown> = {
+        eventId: claimed.eventId,
+        provider: outcome.provider,
+        invitations: outcome.invitations,
+        failedRecipients: outcome.failedRecipients,
+        leaseUntil: null,
+        lastError: outcome.error ?? null,
+      };
+      
+      // A change queued meanwhile stays pending (and keeps its updatedAt)
+      if (record.updatedAt.toMillis() === claimed.updatedAt.toMillis()) {
+        if (succeeded) {
+          update.pendingAction = null;
+          update.needsUpdate = false;
+          update.attempts = 0;
+          update.lastSyncedAt = Timestamp.now();
+        } else {
+          update.attempts = record.attempts + 1;
+        }
+      }
+      
+      transaction.set(recordRef, update, { merge: true });
+    });
+    
+    return succeeded;
+  } catch (error) {
+    console.error('Error recording calendar sync result:', error);
+    throw error;
+  }
+}
+
+/**
+ * Mark a sync failed once its job runs out of retries
+ * 
+ * @param eventId - Event whose sync failed
+ * @param error - Last error from the job
+ */
+export async function markCalendarSyncFailed(eventId: string, error: string): Promise<void> {
+  try {
+    const db = getAdminFirestore();
+    const recordRef = db.collection(CALENDAR_INVITATIONS_COLLECTION).doc(eventId);
+    
+    await db.runTransaction(async (transaction) => {
+      const recordDoc = await transaction.get(recordRef);
+      const record = toRecord(eventId, recordDoc.data());
+      
+      // Only if the change is still pending; a later change has its own job
+      if (record.pendingAction) {
+        transaction.update(recordRef, { failed: true, leaseUntil: null, lastError: error });
+      }
+    });
+  } catch (error) {
+    console.error('Error marking calendar sync failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Requeue a failed or pending sync with fresh attempts
+ * 
+ * @param eventId - Event to retry
+ * @returns ID of the calendar.sync job that will run it
+ * @throws Error if the event has nothing to sync
+ */
+export async function retryCalendarSync(eventId: string): Promise<string> {
+  try {
+    const db = getAdminFirestore();
+    const recordRef = db.collection(CALENDAR_INVITATIONS_COLLECTION).doc(eventId);
+    
+    const queuedAt = await db.runTransaction(async (transaction) => {
+      const recordDoc = await transaction.get(recordRef);
+      const record = toRecord(eventId, recordDoc.data());
+      
+      if (!recordDoc.exists || !record.pendingAction) {
+        throw new Error('Nothing to sync');
+      }
+      
+      const now = Timestamp.now();
+      transaction.update(recordRef, {
+        failed: false,
+        attempts: 0,
+        updatedAt: now,
+      });
+      
+      return now;
+    });
+    
+    return await enqueueCalendarSyncJob(eventId, queuedAt);
+  } catch (error) {
+    console.error('Error retrying calendar sync:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Status
+// ============================================================================
+
+/**
+ * Get calendar invitation sync status for every event that has invitations
+ * or a queued change
+ * 
+ * @returns Sync status per event
+ */
+export async function getCalendarSyncStatuses(): Promise<CalendarSyncStatus[]> {
+  try {
+    const db = getAdminFirestore();
+    const snapshot = await db.collection(CALENDAR_INVITATIONS_COLLECTION).get();
+    
+    return snapshot.docs.map((doc) => {
+      const record = toRecord(doc.id, doc.data());
+      
+      return {
+        eventId: record.eventId,
+        state: getSyncState(record),
+        pendingAction: record.pendingAction,
+        provider: record.provider,
+        invited: record.invitations.length,
+        failed: record.failedRecipients.length,
+        attempts: record.attempts,
+        lastError: record.lastError,
+        lastSyncedAt: record.lastSyncedAt?.toDate().toISOString() ?? null,
+      };
+    });
+  } catch (error) {
+    console.error('Error getting calendar sync statuses:', error);
+    throw new Error('Failed to get calendar sync statuses');
+  }
+}
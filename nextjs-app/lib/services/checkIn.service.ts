@@ -0,0 +1,165 @@
+import 'server-only';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { CheckInToken } from '../types';
+import { addAttendee } from './attendance.service';
+import { getUser } from './user.service';
+
+/**
+ * Check-In Service
+ * 
+ * Server-side service for QR check-in badges including:
+ * - Issuing signed, short-lived check-in tokens for members
+ * - Verifying tokens scanned by admins
+ * - Recording attendance through the addAttendee transaction
+ * 
+ * Token format: base64url(JSON payload) + "." + base64url(HMAC-SHA256 signature)
+ */
+
+/**
+ * How long an issued check-in token stays valid (milliseconds)
+ * Kept short so a screenshot of a badge can't be replayed later
+ */
+export const CHECK_IN_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+const TOKEN_VERSION = 1;
+
+/**
+ * Signed payload embedded in a check-in QR code
+ */
+interface CheckInTokenPayload {
+  v: number;                     // Token format version
+  uid: string;                   // Member UID the badge belongs to
+  iat: number;                   // Issued at (ms since epoch)
+  exp: number;                   // Expires at (ms since epoch)
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Get the secret used to sign check-in tokens
+ */
+function getSigningSecret(): string {
+  const secret = process.env.CHECK_IN_TOKEN_SECRET;
+  
+  if (!secret) {
+    throw new Error('Missing CHECK_IN_TOKEN_SECRET environment variable');
+  }
+  
+  return secret;
+}
+
+/**
+ * Sign an encoded payload with HMAC-SHA256
+ */
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(encodedPayload)
+    .digest('base64url');
+}
+
+// ============================================================================
+// Token Operations
+// ============================================================================
+
+/**
+ * Issue a signed check-in token for a member
+ * 
+ * @param userId - Member UID
+ * @returns Token string and its expiry
+ */
+export function issueCheckInToken(userId: string): CheckInToken {
+  const now = Date.now();
+  const payload: CheckInTokenPayload = {
+    v: TOKEN_VERSION,
+    uid: userId,
+    iat: now,
+    exp: now + CHECK_IN_TOKEN_TTL_MS,
+  };
+  
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  
+  return {
+    token: `${encodedPayload}.${sign(encodedPayload)}`,
+    expiresAt: new Date(payload.exp).toISOString(),
+  };
+}
+
+/**
+ * Verify a scanned check-in token
+ * 
+ * @param token - Token string read from the QR code
+ * @returns Member UID the token was issued to
+ * @throws Error if the token is malformed, tampered with, or expired
+ */
+export function verifyCheckInToken(token: string): string {
+  const parts = token.trim().split('.');
+  
+  if (parts.length !== 2 || !parts[0] || !parts[1]) {
+    throw new Error('Invalid check-in token');
+  }
+  
+  const [encodedPayload, signature] = parts;
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  
+  // Constant-time comparison of signatures
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new Error('Invalid check-in token');
+  }
+  
+  let payload: CheckInTokenPayload;
+  
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid check-in token');
+  }
+  
+  if (payload.v !== TOKEN_VERSION || typeof payload.uid !== 'string' || typeof payload.exp !== 'number') {
+    throw new Error('Invalid check-in token');
+  }
+  
+  if (Date.now() >= payload.exp) {
+    throw new Error('Check-in token expired');
+  }
+  
+  return payload.uid;
+}
+
+// ============================================================================
+// Check-In
+// ============================================================================
+
+/**
+ * Check a member in to an event by scanning their QR badge (admin only)
+ * Verifies the token and records attendance through addAttendee
+ * 
+ * @param eventId - Event ID
+ * @param token - Token string read from the member's QR code
+ * @param adminUid - Admin UID performing the scan
+ * @returns Checked-in member's UID and display name
+ * @throws Error if token is invalid/expired, or addAttendee fails
+ */
+export async function checkInWithToken(
+  eventId: string,
+  token: string,
+  adminUid: string
+): Promise<{ userId: string; displayName: string }> {
+  try {
+    const userId = verifyCheckInToken(token);
+    
+    await addAttendee(eventId, userId, adminUid);
+    
+    const user = await getUser(userId);
+    
+    return {
+      userId,
+      displayName: user?.displayName || user?.email || userId,
+    };
+  } catch (error) {
+    console.error('Error checking in with token:', error);
+    throw error;
+  }
+}
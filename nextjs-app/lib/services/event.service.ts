@@ -1,7 +1,22 @@
 import 'server-only';
 import { getAdminFirestore } from '../firebase/admin';
-import type { CreateEventInput, EventFilter, EventStatus } from '../types';
-import { Timestamp } from 'firebase-admin/firestore';
+import { CHAPTER } from '../chapter';
+import type {
+  AttendanceCodeMode,
+  CreateEventInput,
+  CurrentAttendanceCode,
+  EventCategory,
+  EventFilter,
+  EventStatus,
+  GenerateCodeOptions,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  SeriesEditScope,
+} from '../types';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { createHmac, randomBytes } from 'crypto';
+import { promoteFromWaitlist } from './rsvp.service';
+import { queueCalendarSync } from './calendarSync.service';
 
 /**
  * Server-side Event type using Firebase Admin SDK Timestamp
@@ -15,10 +30,20 @@ export interface Event {
   location: string;
   pointsValue: number;
   createdBy: string;
+  hostIds: string[];             // UIDs granted event-scoped access (edit, check-in)
   status: EventStatus;
   attendanceCode?: string;
   codeActive: boolean;
+  codeMode?: AttendanceCodeMode;
+  codeRotationSeconds?: number;
   attendees: string[];
+  category?: EventCategory;
+  capacity?: number | null;
+  rsvps: string[];
+  waitlist: string[];
+  seriesId?: string;
+  occurrenceIndex?: number;
+  sequence?: number;
   createdAt: Timestamp;
   updatedAt: Timestamp;
   cleanedUp?: boolean;
@@ -31,6 +56,8 @@ export interface Event {
  * - CRUD operations for events
  * - Attendance code generation and management
  * - Event status lifecycle management
+ * - Recurring event series with rolling materialization
+ * - Queueing calendar invitation updates when events change or are cancelled
  * - Time-based validation
  */
 
@@ -38,9 +65,22 @@ export interface Event {
 // CRUD Operations
 // ============================================================================
 
+/**
+ * Fields shown in calendar invitations; changing one queues an invitation update
+ */
+const OUTLOOK_FIELDS = ['name', 'description', 'location', 'pointsValue', 'startTime', 'endTime'] as const;
+
+/**
+ * Check that an RSVP capacity is a positive whole number
+ */
+function isValidCapacity(capacity: number): boolean {
+  return Number.isInteger(capacity) && capacity > 0;
+}
+
 /**
  * Create a new event
  * Initializes event with status="upcoming", empty attendees array, and codeActive=false
+ * When `recurrence` is set, creates a series and returns its first occurrence
  * 
  * @param eventInput - Event creation data
  * @param adminUid - UID of admin creating the event
@@ -67,6 +107,14 @@ export async function createEvent(
       throw new Error('Invalid points value');
     }
     
+    if (eventInput.capacity != null && !isValidCapacity(eventInput.capacity)) {
+      throw new Error('Invalid capacity');
+    }
+    
+    if (eventInput.recurrence) {
+      return await createEventSeries(eventInput, adminUid);
+    }
+    
     const now = Timestamp.now();
     const startTime = Timestamp.fromDate(eventInput.startTime);
     
@@ -78,9 +126,14 @@ export async function createEvent(
       location: eventInput.location,
       pointsValue: eventInput.pointsValue,
       createdBy: adminUid,
+      hostIds: eventInput.hostIds ?? [],
       status: 'upcoming' as EventStatus,
       codeActive: false,
       attendees: [],
+      category: eventInput.category ?? 'general',
+      capacity: eventInput.capacity ?? null,
+      rsvps: [] as string[],
+      waitlist: [] as string[],
       createdAt: now,
       updatedAt: now,
     };
@@ -141,6 +194,13 @@ export async function updateEvent(
     if (updates.description !== undefined) allowedUpdates.description = updates.description;
     if (updates.location !== undefined) allowedUpdates.location = updates.location;
     if (updates.pointsValue !== undefined) allowedUpdates.pointsValue = updates.pointsValue;
+    if (updates.category !== undefined) allowedUpdates.category = updates.category;
+    if (updates.capacity !== undefined) {
+      if (updates.capacity !== null && !isValidCapacity(updates.capacity)) {
+        throw new Error('Invalid capacity');
+      }
+      allowedUpdates.capacity = updates.capacity;
+    }
     
     // Handle time updates
     if (updates.startTime !== undefined) {
@@ -150,10 +210,22 @@ export async function updateEvent(
       allowedUpdates.endTime = updates.endTime;
     }
     
-    // Always update the updatedAt timestamp
+    // Always update the updatedAt timestamp, and bump the calendar
+    // sequence so subscribed calendars replace their copy
     allowedUpdates.updatedAt = Timestamp.now();
+    allowedUpdates.sequence = FieldValue.increment(1);
     
     await eventRef.update(allowedUpdates);
+    
+    // Fill any seats opened up by a capacity increase
+    if (updates.capacity !== undefined) {
+      await promoteFromWaitlist(eventId);
+    }
+    
+    // Push new details to calendar invitations that were already sent
+    if (OUTLOOK_FIELDS.some((field) => allowedUpdates[field] !== undefined)) {
+      await queueCalendarSync(eventId, 'update');
+    }
   } catch (error) {
     console.error('Error updating event:', error);
     throw error;
@@ -179,13 +251,47 @@ export async function deleteEvent(eventId: string): Promise<void> {
       throw new Error('Event not found');
     }
     
-    await eventRef.delete();
+    const batch = db.batch();
+    batch.delete(eventRef);
+    batch.delete(db.collection(EVENT_CODE_SECRETS_COLLECTION).doc(eventId));
+    await batch.commit();
+    
+    await queueCalendarSync(eventId, 'cancel');
   } catch (error) {
     console.error('Error deleting event:', error);
     throw error;
   }
 }
 
+/**
+ * Replace the hosts granted event-scoped access to an event
+ * 
+ * @param eventId - ID of event to update
+ * @param hostIds - UIDs of the event's hosts
+ * @returns void
+ * @throws Error if event doesn't exist
+ */
+export async function setEventHosts(eventId: string, hostIds: string[]): Promise<void> {
+  try {
+    const db = getAdminFirestore();
+    const eventRef = db.collection('events').doc(eventId);
+    
+    const eventDoc = await eventRef.get();
+    
+    if (!eventDoc.exists) {
+      throw new Error('Event not found');
+    }
+    
+    await eventRef.update({
+      hostIds: Array.from(new Set(hostIds)),
+      updatedAt: Timestamp.now(),
+    });
+  } catch (error) {
+    console.error('Error setting event hosts:', error);
+    throw error;
+  }
+}
+
 /**
  * Get a single event by ID
  * 
@@ -215,10 +321,20 @@ export async function getEvent(eventId: string): Promise<Event | null> {
       location: data.location,
       pointsValue: data.pointsValue,
       createdBy: data.createdBy,
+      hostIds: data.hostIds ?? [],
       status: data.status,
       attendanceCode: data.attendanceCode,
       codeActive: data.codeActive ?? false,
+      codeMode: data.codeMode ?? 'static',
+      codeRotationSeconds: data.codeRotationSeconds,
       attendees: data.attendees ?? [],
+      category: data.category ?? 'general',
+      capacity: data.capacity ?? null,
+      rsvps: data.rsvps ?? [],
+      waitlist: data.waitlist ?? [],
+      seriesId: data.seriesId,
+      occurrenceIndex: data.occurrenceIndex,
+      sequence: data.sequence ?? 0,
       createdAt: data.createdAt,
       updatedAt: data.updatedAt,
       cleanedUp: data.cleanedUp ?? false,
@@ -260,6 +376,10 @@ export async function getEvents(filter?: EventFilter): Promise<Event[]> {
       query = query.where('startTime', '<', timestamp);
     }
     
+    if (filter?.rsvpedBy) {
+      query = query.where('rsvps', 'array-contains', filter.rsvpedBy);
+    }
+    
     const snapshot = await query.get();
     
     const events: Event[] = [];
@@ -275,10 +395,20 @@ export async function getEvents(filter?: EventFilter): Promise<Event[]> {
         location: data.location,
         pointsValue: data.pointsValue,
         createdBy: data.createdBy,
+        hostIds: data.hostIds ?? [],
         status: data.status,
         attendanceCode: data.attendanceCode,
         codeActive: data.codeActive ?? false,
+        codeMode: data.codeMode ?? 'static',
+        codeRotationSeconds: data.codeRotationSeconds,
         attendees: data.attendees ?? [],
+        category: data.category ?? 'general',
+        capacity: data.capacity ?? null,
+        rsvps: data.rsvps ?? [],
+        waitlist: data.waitlist ?? [],
+        seriesId: data.seriesId,
+        occurrenceIndex: data.occurrenceIndex,
+        sequence: data.sequence ?? 0,
         createdAt: data.createdAt,
         updatedAt: data.updatedAt,
         cleanedUp: data.cleanedUp ?? false,
@@ -297,15 +427,150 @@ export async function getEvents(filter?: EventFilter): Promise<Event[]> {
 // ============================================================================
 
 /**
- * Generate a unique 6-digit attendance code for an event
+ * Default and allowed rotation periods for rotating attendance codes (seconds)
+ */
+export const DEFAULT_CODE_ROTATION_SECONDS = 30;
+export const MIN_CODE_ROTATION_SECONDS = 15;
+export const MAX_CODE_ROTATION_SECONDS = 300;
+
+/**
+ * Number of rotation steps accepted on either side of the current window
+ * to tolerate clock skew and slow typists
+ */
+export const CODE_SKEW_STEPS = 1;
+
+/**
+ * Rotating code secrets, one document per event (eventCodeSecrets/{eventId})
+ * Kept out of the event document, which every signed-in member can read;
+ * Firestore rules deny all client access to this collection.
+ */
+export const EVENT_CODE_SECRETS_COLLECTION = 'eventCodeSecrets';
+
+/**
+ * Derive the 6-digit code for a given time step (HOTP, RFC 4226)
+ * 
+ * @param secret - Hex-encoded per-event secret
+ * @param counter - Time step counter
+ * @returns 6-digit code (zero padded)
+ */
+function deriveCode(secret: string, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+  
+  const hmac = createHmac('sha1', Buffer.from(secret, 'hex')).update(counterBuffer).digest();
+  
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    ((hmac[offset + 1] & 0xff) << 16) |
+    ((hmac[offset + 2] & 0xff) << 8) |
+    (hmac[offset + 3] & 0xff);
+  
+  return (binary % 1000000).toString().padStart(6, '0');
+}
+
+/**
+ * Get the current time step for a rotation period
+ */
+function getTimeStep(rotationSeconds: number, atMillis: number = Date.now()): number {
+  return Math.floor(atMillis / (rotationSeconds * 1000));
+}
+
+/**
+ * Load the rotating code secrets of the given events
+ * 
+ * @param eventIds - Events to load secrets for
+ * @returns Secret by event ID (events without a secret are left out)
+ */
+export async function getRotatingCodeSecrets(eventIds: string[]): Promise<Map<string, string>> {
+  const secrets = new Map<string, string>();
+  
+  if (eventIds.length === 0) {
+    return secrets;
+  }
+  
+  const db = getAdminFirestore();
+  const secretDocs = await db.getAll(
+    ...eventIds.map((eventId) => db.collection(EVENT_CODE_SECRETS_COLLECTION).doc(eventId))
+  );
+  
+  for (const secretDoc of secretDocs) {
+    const secret = secretDoc.data()?.secret;
+    if (typeof secret === 'string') {
+      secrets.set(secretDoc.id, secret);
+    }
+  }
+  
+  return secrets;
+}
+
+/**
+ * Get the live code for an event using a rotating attendance code
+ * 
+ * @param event - Event with rotating code configuration
+ * @param secret - The event's rotating code secret
+ * @returns Current code with the time it rotates
+ * @throws Error if event does not use a rotating code
+ */
+export function getCurrentRotatingCode(event: Event, secret: string | undefined): CurrentAttendanceCode {
+  if (event.codeMode !== 'rotating' || !secret) {
+    throw new Error('Event does not use a rotating code');
+  }
+  
+  const rotationSeconds = event.codeRotationSeconds || DEFAULT_CODE_ROTATION_SECONDS;
+  const step = getTimeStep(rotationSeconds);
+  
+  return {
+    code: deriveCode(secret, step),
+    expiresAt: new Date((step + 1) * rotationSeconds * 1000).toISOString(),
+    rotationSeconds,
+  };
+}
+
+/**
+ * Check whether a submitted code matches an event's rotating code
+ * Accepts the current window plus CODE_SKEW_STEPS windows on either side
+ * 
+ * @param secret - Hex-encoded per-event secret
+ * @param rotationSeconds - Rotation period in seconds
+ * @param code - Submitted 6-digit code
+ * @returns True if the code is valid right now
+ */
+export function verifyRotatingCode(
+  secret: string,
+  rotationSeconds: number,
+  code: string
+): boolean {
+  const step = getTimeStep(rotationSeconds);
+  
+  for (let offset = -CODE_SKEW_STEPS; offset <= CODE_SKEW_STEPS; offset++) {
+    if (deriveCode(secret, step + offset) === code) {
+      return true;
+    }
+  }
+  
+  return false;
+}
+
+/**
+ * Generate an attendance code for an event
  * Only allows generation after event start time
  * Ensures each event has at most one attendance code
  * 
+ * In static mode a unique 6-digit code is stored on the event.
+ * In rotating mode a per-event secret is stored in eventCodeSecrets instead
+ * and the code changes every `rotationSeconds` seconds.
+ * 
  * @param eventId - ID of event to generate code for
- * @returns Generated 6-digit code
+ * @param options - Code mode and rotation period (defaults to static)
+ * @returns Generated 6-digit code (the current code in rotating mode)
  * @throws Error if event hasn't started or doesn't exist
  */
-export async function generateAttendanceCode(eventId: string): Promise<string> {
+export async function generateAttendanceCode(
+  eventId: string,
+  options: GenerateCodeOptions = {}
+): Promise<string> {
   try {
     const db = getAdminFirestore();
     const eventRef = db.collection('events').doc(eventId);
@@ -330,6 +595,38 @@ export async function generateAttendanceCode(eventId: string): Promise<string> {
       throw new Error('Event not started');
     }
     
+    if (options.mode === 'rotating') {
+      const rotationSeconds = options.rotationSeconds ?? DEFAULT_CODE_ROTATION_SECONDS;
+      
+      if (
+        !Number.isInteger(rotationSeconds) ||
+        rotationSeconds < MIN_CODE_ROTATION_SECONDS ||
+        rotationSeconds > MAX_CODE_ROTATION_SECONDS
+      ) {
+        throw new Error('Invalid rotation period');
+      }
+      
+      const codeSecret = randomBytes(20).toString('hex');
+      const batch = db.batch();
+      
+      batch.set(db.collection(EVENT_CODE_SECRETS_COLLECTION).doc(eventId), {
+        secret: codeSecret,
+        createdAt: Timestamp.now(),
+      });
+      batch.update(eventRef, {
+        attendanceCode: FieldValue.delete(),
+        codeMode: 'rotating',
+        codeSecret: FieldValue.delete(),   // Secret stored on the event by earlier versions
+        codeRotationSeconds: rotationSeconds,
+        codeActive: true,
+        updatedAt: Timestamp.now(),
+      });
+      
+      await batch.commit();
+      
+      return deriveCode(codeSecret, getTimeStep(rotationSeconds));
+    }
+    
     // Generate unique 6-digit code
     let code: string;
     let isUnique = false;
@@ -349,12 +646,20 @@ export async function generateAttendanceCode(eventId: string): Promise<string> {
       if (existingEvents.empty) {
         isUnique = true;
         
-        // Update event with the code
-        await eventRef.update({
+        // Update event with the code and drop any rotating code secret
+        const batch = db.batch();
+        
+        batch.update(eventRef, {
           attendanceCode: code,
+          codeMode: 'static',
+          codeSecret: FieldValue.delete(),
+          codeRotationSeconds: FieldValue.delete(),
           codeActive: true,
           updatedAt: Timestamp.now(),
         });
+        batch.delete(db.collection(EVENT_CODE_SECRETS_COLLECTION).doc(eventId));
+        
+        await batch.commit();
         
         return code;
       }
@@ -369,6 +674,30 @@ export async function generateAttendanceCode(eventId: string): Promise<string> {
   }
 }
 
+/**
+ * Get the live attendance code for an event using a rotating code
+ * 
+ * @param eventId - ID of event
+ * @returns Current code with its expiry
+ * @throws Error if event doesn't exist or doesn't use a rotating code
+ */
+export async function getCurrentAttendanceCode(eventId: string): Promise<CurrentAttendanceCode> {
+  try {
+    const event = await getEvent(eventId);
+    
+    if (!event) {
+      throw new Error('Event not found');
+    }
+    
+    const secrets = await getRotatingCodeSecrets([eventId]);
+    
+    return getCurrentRotatingCode(event, secrets.get(eventId));
+  } catch (error) {
+    console.error('Error getting current attendance code:', error);
+    throw error;
+  }
+}
+
 /**
  * Toggle attendance code active status
  * Allows admins to activate or deactivate attendance codes
@@ -398,8 +727,8 @@ export async function toggleAttendanceCode(
       throw new Error('Event data not found');
     }
     
-    // Check if event has an attendance code
-    if (!eventData.attendanceCode) {
+    // Check if event has an attendance code (static code or rotating secret)
+    if (!eventData.attendanceCode && eventData.codeMode !== 'rotating') {
       throw new Error('Event has no attendance code');
     }
     
@@ -506,6 +835,7 @@ export async function endEvent(eventId: string): Promise<void> {
       endTime: now,
       status: 'completed',
       codeActive: false,
+      sequence: FieldValue.increment(1),
       updatedAt: now,
     });
   } catch (error) {
@@ -536,8 +866,11 @@ export async function cancelEvent(eventId: string): Promise<void> {
     
     await eventRef.update({
       status: 'cancelled',
+      sequence: FieldValue.increment(1),
       updatedAt: Timestamp.now(),
     });
+    
+    await queueCalendarSync(eventId, 'cancel');
   } catch (error) {
     console.error('Error cancelling event:', error);
     throw error;
@@ -662,3 +995,561 @@ export async function batchUpdateEventsToCompleted(eventIds: string[]): Promise<
     throw error;
   }
 }
+
+// ============================================================================
+// Recurring Series
+// ============================================================================
+
+/**
+ * Time zone occurrences are scheduled in (the chapter's), so a 7 PM meeting
+ * stays at 7 PM across daylight saving changes
+ */
+export const SERIES_TIME_ZONE = CHAPTER.timeZone;
+
+/**
+ * How far ahead series occurrences are materialized as Event documents (days)
+ */
+export const SERIES_MATERIALIZE_WINDOW_DAYS = 56;
+
+/**
+ * Maximum number of occurrences a count-based series may schedule
+ */
+export const MAX_SERIES_OCCURRENCES = 100;
+
+const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['weekly', 'biweekly', 'monthly'];
+
+/**
+ * Fields copied from a series onto its occurrences
+ */
+const SERIES_TEMPLATE_FIELDS = ['name', 'description', 'location', 'pointsValue', 'category', 'capacity'] as const;
+
+/**
+ * Wall-clock time in SERIES_TIME_ZONE (month is 1-12)
+ */
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const wallTimeFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: SERIES_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric',
+});
+
+/**
+ * Convert an instant to wall-clock time in the series time zone
+ */
+function toWallTime(date: Date): WallTime {
+  const parts = wallTimeFormat.formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Convert wall-clock time in the series time zone to an instant
+ * The zone offset is looked up twice to settle across DST transitions
+ */
+function fromWallTime(wall: WallTime): Date {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  let result = asUtc;
+  
+  for (let i = 0; i < 2; i++) {
+    const actual = toWallTime(new Date(result));
+    const offset = Date.UTC(
+      actual.year, actual.month - 1, actual.day, actual.hour, actual.minute, actual.second
+    ) - result;
+    result = asUtc - offset;
+  }
+  
+  return new Date(result);
+}
+
+/**
+ * Format an instant as YYYY-MM-DD in the series time zone
+ */
+function toDateKey(date: Date): string {
+  const wall = toWallTime(date);
+  return `${wall.year}-${String(wall.month).padStart(2, '0')}-${String(wall.day).padStart(2, '0')}`;
+}
+
+/**
+ * Get the scheduled start of a series occurrence
+ * Monthly series clamp to the last day of shorter months (e.g. Jan 31 -> Feb 28)
+ * 
+ * @param anchor - Start of the first occurrence
+ * @param frequency - Series frequency
+ * @param index - 0-based occurrence index
+ * @returns Scheduled start time
+ */
+export function getOccurrenceStart(
+  anchor: Date,
+  frequency: RecurrenceFrequency,
+  index: number
+): Date {
+  const wall = toWallTime(anchor);
+  
+  if (frequency === 'monthly') {
+    const monthOffset = wall.month - 1 + index;
+    const year = wall.year + Math.floor(monthOffset / 12);
+    const month = (monthOffset % 12) + 1;
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    
+    return fromWallTime({ ...wall, year, month, day: Math.min(wall.day, daysInMonth) });
+  }
+  
+  const days = (frequency === 'weekly' ? 7 : 14) * index;
+  const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days));
+  
+  return fromWallTime({
+    ...wall,
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  });
+}
+
+/**
+ * Validate a recurrence rule against the first occurrence's start time
+ * 
+ * @throws Error prefixed with "Invalid recurrence" describing the problem
+ */
+function validateRecurrence(rule: RecurrenceRule, startTime: Date): void {
+  if (!RECURRENCE_FREQUENCIES.includes(rule.frequency)) {
+    throw new Error('Invalid recurrence: frequency must be weekly, biweekly, or monthly');
+  }
+  
+  const hasUntil = rule.until !== undefined && rule.until !== null;
+  const hasCount = rule.count !== undefined && rule.count !== null;
+  
+  if (hasUntil === hasCount) {
+    throw new Error('Invalid recurrence: provide either an end date or an occurrence count');
+  }
+  
+  if (hasCount && (!Number.isInteger(rule.count) || rule.count! < 1 || rule.count! > MAX_SERIES_OCCURRENCES)) {
+    throw new Error(`Invalid recurrence: count must be between 1 and ${MAX_SERIES_OCCURRENCES}`);
+  }
+  
+  if (hasUntil && (isNaN(rule.until!.getTime()) || rule.until!.getTime() < startTime.getTime())) {
+    throw new Error('Invalid recurrence: end date must be after the first occurrence');
+  }
+  
+  for (const skipDate of rule.skipDates ?? []) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(skipDate)) {
+      throw new Error('Invalid recurrence: skip dates must be formatted YYYY-MM-DD');
+    }
+  }
+  
+  if (rule.skipDates?.includes(toDateKey(startTime))) {
+    throw new Error('Invalid recurrence: the first occurrence cannot be skipped');
+  }
+}
+
+/**
+ * Create a recurring series and materialize its first window of occurrences
+ * 
+ * @param eventInput - Event creation data with a recurrence rule
+ * @param adminUid - UID of admin creating the series
+ * @returns First occurrence of the series
+ * @throws Error if the recurrence rule is invalid
+ */
+async function createEventSeries(
+  eventInput: CreateEventInput,
+  adminUid: string
+): Promise<Event> {
+  const rule = eventInput.recurrence!;
+  validateRecurrence(rule, eventInput.startTime);
+  
+  const db = getAdminFirestore();
+  const seriesRef = db.collection('eventSeries').doc();
+  const now = Timestamp.now();
+  
+  await seriesRef.set({
+    name: eventInput.name,
+    description: eventInput.description,
+    location: eventInput.location,
+    pointsValue: eventInput.pointsValue,
+    category: eventInput.category ?? 'general',
+    capacity: eventInput.capacity ?? null,
+    frequency: rule.frequency,
+    startTime: Timestamp.fromDate(eventInput.startTime),
+    until: rule.until ? Timestamp.fromDate(rule.until) : null,
+    count: rule.count ?? null,
+    skipDates: rule.skipDates ?? [],
+    nextIndex: 0,
+    completed: false,
+    createdBy: adminUid,
+    hostIds: eventInput.hostIds ?? [],
+    createdAt: now,
+    updatedAt: now,
+  });
+  
+  const createdIds = await materializeSeries(seriesRef.id);
+  const firstEvent = createdIds.length > 0 ? await getEvent(createdIds[0]) : null;
+  
+  if (!firstEvent) {
+    throw new Error('Failed to create series occurrences');
+  }
+  
+  return firstEvent;
+}
+
+/**
+ * Materialize a series' occurrences up to the rolling window
+ * Uses a transaction so overlapping lifecycle runs never duplicate occurrences.
+ * Occurrence IDs are derived from the series ID and index.
+ * 
+ * @param seriesId - Series to materialize
+ * @returns IDs of newly created events
+ * @throws Error if series doesn't exist
+ */
+export async function materializeSeries(seriesId: string): Promise<string[]> {
+  try {
+    const db = getAdminFirestore();
+    
+    return await db.runTransaction(async (transaction) => {
+      const seriesRef = db.collection('eventSeries').doc(seriesId);
+      const seriesSnapshot = await transaction.get(seriesRef);
+      
+      const series = seriesSnapshot.data();
+      if (!seriesSnapshot.exists || !series) {
+        throw new Error('Series not found');
+      }
+      
+      if (series.completed) {
+        return [];
+      }
+      
+      const anchor = (series.startTime as Timestamp).toDate();
+      const horizon = Math.max(Date.now(), anchor.getTime()) +
+        SERIES_MATERIALIZE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+      const until = series.until ? (series.until as Timestamp).toMillis() : null;
+      const skipDates = new Set<string>(series.skipDates || []);
+      const now = Timestamp.now();
+      
+      const createdIds: string[] = [];
+      let index: number = series.nextIndex ?? 0;
+      let completed = false;
+      
+      while (true) {
+        if (series.count !== null && index >= series.count) {
+          completed = true;
+          break;
+        }
+        
+        const start = getOccurrenceStart(anchor, series.frequency, index);
+        
+        if (until !== null && start.getTime() > until) {
+          completed = true;
+          break;
+        }
+        
+        if (start.getTime() > horizon) {
+          break;
+        }
+        
+        if (!skipDates.has(toDateKey(start))) {
+          const eventId = `${seriesId}_${index}`;
+          
+          transaction.set(db.collection('events').doc(eventId), {
+            name: series.name,
+            description: series.description,
+            startTime: Timestamp.fromDate(start),
+            location: series.location,
+            pointsValue: series.pointsValue,
+            createdBy: series.createdBy,
+            hostIds: series.hostIds ?? [],
+            status: 'upcoming' as EventStatus,
+            codeActive: false,
+            attendees: [],
+            category: series.category ?? 'general',
+            capacity: series.capacity ?? null,
+            rsvps: [],
+            waitlist: [],
+            seriesId,
+            occurrenceIndex: index,
+            createdAt: now,
+            updatedAt: now,
+          });
+          
+          createdIds.push(eventId);
+        }
+        
+        index++;
+      }
+      
+      transaction.update(seriesRef, {
+        nextIndex: index,
+        completed,
+        updatedAt: now,
+      });
+      
+      return createdIds;
+    });
+  } catch (error) {
+    console.error('Error materializing series:', error);
+    throw error;
+  }
+}
+
+/**
+ * Materialize upcoming occurrences for every series that still has any
+ * Called periodically by the lifecycle job to keep the rolling window filled
+ * 
+ * @returns Number of events created
+ */
+export async function materializeAllSeries(): Promise<number> {
+  try {
+    const db = getAdminFirestore();
+    const snapshot = await db.collection('eventSeries')
+      .where('completed', '==', false)
+      .get();
+    
+    let createdCount = 0;
+    
+    for (const doc of snapshot.docs) {
+      try {
+        const createdIds = await materializeSeries(doc.id);
+        createdCount += createdIds.length;
+      } catch (error) {
+        // Keep going so one bad series doesn't block the rest
+        console.error(`Error materializing series ${doc.id}:`, error);
+      }
+    }
+    
+    return createdCount;
+  } catch (error) {
+    console.error('Error materializing series:', error);
+    throw error;
+  }
+}
+
+/**
+ * Split a series at an occurrence so later edits don't touch earlier ones
+ * The original series ends just before the occurrence; the occurrence and
+ * everything after it move to a new series with the same schedule.
+ * 
+ * @param seriesId - Series to split
+ * @param splitIndex - Index of the first occurrence of the new series
+ * @returns ID of the new series
+ */
+async function splitSeries(seriesId: string, splitIndex: number): Promise<string> {
+  const db = getAdminFirestore();
+  
+  return db.runTransaction(async (transaction) => {
+    const seriesRef = db.collection('eventSeries').doc(seriesId);
+    const seriesSnapshot = await transaction.get(seriesRef);
+    
+    const series = seriesSnapshot.data();
+    if (!seriesSnapshot.exists || !series) {
+      throw new Error('Series not found');
+    }
+    
+    const followingSnapshot = await transaction.get(
+      db.collection('events')
+        .where('seriesId', '==', seriesId)
+        .where('occurrenceIndex', '>=', splitIndex)
+    );
+    
+    const now = Timestamp.now();
+    const newSeriesRef = db.collection('eventSeries').doc();
+    const anchor = (series.startTime as Timestamp).toDate();
+    
+    transaction.set(newSeriesRef, {
+      ...series,
+      startTime: Timestamp.fromDate(getOccurrenceStart(anchor, series.frequency, splitIndex)),
+      count: series.count !== null ? series.count - splitIndex : null,
+      nextIndex: Math.max(0, (series.nextIndex ?? 0) - splitIndex),
+      createdAt: now,
+      updatedAt: now,
+    });
+    
+    transaction.update(seriesRef, {
+      count: splitIndex,
+      until: null,
+      nextIndex: Math.min(series.nextIndex ?? 0, splitIndex),
+      completed: (series.nextIndex ?? 0) >= splitIndex,
+      updatedAt: now,
+    });
+    
+    followingSnapshot.forEach((doc) => {
+      transaction.update(doc.ref, {
+        seriesId: newSeriesRef.id,
+        occurrenceIndex: (doc.data().occurrenceIndex as number) - splitIndex,
+        updatedAt: now,
+      });
+    });
+    
+    return newSeriesRef.id;
+  });
+}
+
+/**
+ * Check whether a user hosts everything a series edit would touch
+ * Host access is granted per occurrence, so an edit to following or all
+ * occurrences needs host access to the series and to every occurrence in
+ * that scope.
+ * 
+ * @param eventId - Selected occurrence
+ * @param uid - UID of the host making the edit
+ * @param scope - Which occurrences the edit applies to
+ * @returns True if the user hosts the series and every affected occurrence
+ * @throws Error if event doesn't exist or isn't part of a series
+ */
+export async function hostsSeriesEdit(
+  eventId: string,
+  uid: string,
+  scope: Exclude<SeriesEditScope, 'this'>
+): Promise<boolean> {
+  try {
+    const event = await getEvent(eventId);
+    
+    if (!event) {
+      throw new Error('Event not found');
+    }
+    
+    if (!event.seriesId || event.occurrenceIndex === undefined) {
+      throw new Error('Event is not part of a series');
+    }
+    
+    const db = getAdminFirestore();
+    const [seriesDoc, occurrencesSnapshot] = await Promise.all([
+      db.collection('eventSeries').doc(event.seriesId).get(),
+      db.collection('events').where('seriesId', '==', event.seriesId).get(),
+    ]);
+    
+    if (!(seriesDoc.data()?.hostIds ?? []).includes(uid)) {
+      return false;
+    }
+    
+    return occurrencesSnapshot.docs
+      .filter((doc) => scope === 'all' || (doc.data().occurrenceIndex as number) >= event.occurrenceIndex!)
+      .every((doc) => (doc.data().hostIds ?? []).includes(uid));
+  } catch (error) {
+    console.error('Error checking series hosts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update an occurrence of a recurring series
+ * Only fields that differ from the selected occurrence are applied to other
+ * occurrences, so their own per-occurrence overrides are kept. A start time
+ * change shifts every affected occurrence by the same amount.
+ * Occurrences that have already started are never changed.
+ * 
+ * @param eventId - Selected occurrence
+ * @param updates - Partial event data to update
+ * @param scope - Which occurrences the change applies to
+ * @returns void
+ * @throws Error if event doesn't exist, has started, or isn't part of a series
+ */
+export async function updateEventSeries(
+  eventId: string,
+  updates: Partial<Event>,
+  scope: SeriesEditScope
+): Promise<void> {
+  try {
+    if (scope === 'this') {
+      await updateEvent(eventId, updates);
+      return;
+    }
+    
+    const event = await getEvent(eventId);
+    
+    if (!event) {
+      throw new Error('Event not found');
+    }
+    
+    if (!event.seriesId || event.occurrenceIndex === undefined) {
+      throw new Error('Event is not part of a series');
+    }
+    
+    const nowMillis = Date.now();
+    
+    if (nowMillis >= event.startTime.toMillis()) {
+      throw new Error('Cannot edit started event');
+    }
+    
+    // Template fields that actually changed on the selected occurrence
+    const changedFields: Partial<Event> = {};
+    for (const field of SERIES_TEMPLATE_FIELDS) {
+      if (updates[field] !== undefined && updates[field] !== (event[field] ?? null)) {
+        (changedFields as any)[field] = updates[field];
+      }
+    }
+    
+    const shiftMillis = updates.startTime
+      ? updates.startTime.toMillis() - event.startTime.toMillis()
+      : 0;
+    
+    // "This and following" from the first occurrence is the whole series
+    let seriesId = event.seriesId;
+    if (scope === 'following' && event.occurrenceIndex > 0) {
+      seriesId = await splitSeries(event.seriesId, event.occurrenceIndex);
+    }
+    
+    const db = getAdminFirestore();
+    const seriesRef = db.collection('eventSeries').doc(seriesId);
+    const seriesDoc = await seriesRef.get();
+    const series = seriesDoc.data();
+    
+    if (!seriesDoc.exists || !series) {
+      throw new Error('Series not found');
+    }
+    
+    // Update the template so future occurrences pick up the change
+    const seriesUpdates: any = { ...changedFields, updatedAt: Timestamp.now() };
+    if (shiftMillis !== 0) {
+      seriesUpdates.startTime = Timestamp.fromMillis(
+        (series.startTime as Timestamp).toMillis() + shiftMillis
+      );
+    }
+    await seriesRef.update(seriesUpdates);
+    
+    // Apply to materialized occurrences that haven't started
+    const occurrencesSnapshot = await db.collection('events')
+      .where('seriesId', '==', seriesId)
+      .get();
+    
+    for (const doc of occurrencesSnapshot.docs) {
+      const data = doc.data();
+      const startTime = data.startTime as Timestamp;
+      
+      if (startTime.toMillis() <= nowMillis || data.status !== 'upcoming') {
+        continue;
+      }
+      
+      const occurrenceUpdates: Partial<Event> = doc.id === eventId
+        ? { ...updates }
+        : { ...changedFields };
+      
+      if (doc.id !== eventId && shiftMillis !== 0) {
+        occurrenceUpdates.startTime = Timestamp.fromMillis(startTime.toMillis() + shiftMillis);
+      }
+      
+      await updateEvent(doc.id, occurrenceUpdates);
+    }
+  } catch (error) {
+    console.error('Error updating event series:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,479 @@
+import 'server-only';
+import { getAdminFirestore } from '../firebase/admin';
+import { FieldPath, Timestamp } from 'firebase-admin/firestore';
+import type { ExportOptions, ExportType } from '../types';
+import type { XlsxCell } from '../xlsx';
+import { getExportDefinition } from '../constants/exports';
+import { getRoleLabel, resolveRoles } from '../constants/roles';
+import { getMemberStatusLabel, resolveMemberStatus } from '../constants/memberStatuses';
+import { getSemester } from '../semester';
+import { POINTS_LEDGER_COLLECTION } from './pointsLedger.service';
+
+/**
+ * Export Service
+ * 
+ * Server-side service for member data exports including:
+ * - Member roster with profile fields
+ * - Per-event attendance matrices
+ * - Points ledger history
+ * - Semester participation summaries
+ * 
+ * Exports are produced as a header plus an async stream of rows, read from
+ * Firestore a page at a time, so the route can encode them as CSV or XLSX
+ * without holding the whole collection in memory.
+ */
+
+/**
+ * Documents read per Firestore page
+ */
+const EXPORT_PAGE_SIZE = 500;
+
+/**
+ * Export ready to be encoded
+ */
+export interface ExportTable {
+  sheetName: string;
+  header: string[];
+  rows: AsyncIterable<XlsxCell[]>;
+}
+
+type DocumentData = FirebaseFirestore.DocumentData;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Read every document a query matches, one page at a time
+ * The query must be ordered so pages can resume after the last document.
+ */
+async function* paginate(
+  query: FirebaseFirestore.Query
+): AsyncGenerator<FirebaseFirestore.QueryDocumentSnapshot> {
+  let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+  
+  while (true) {
+    const page = last ? query.startAfter(last) : query;
+    const snapshot = await page.limit(EXPORT_PAGE_SIZE).get();
+    
+    for (const doc of snapshot.docs) {
+      yield doc;
+    }
+    
+    if (snapshot.size < EXPORT_PAGE_SIZE) {
+      return;
+    }
+    
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
+
+/**
+ * Restrict a query to documents whose date field is within the export range
+ * Without a range the query is ordered by document ID, so documents missing
+ * the field are still exported.
+ */
+function applyDateRange(
+  query: FirebaseFirestore.Query,
+  field: string,
+  options: ExportOptions
+): FirebaseFirestore.Query {
+  if (!options.startDate && !options.endDate) {
+    return query.orderBy(FieldPath.documentId());
+  }
+  
+  let ranged = query;
+  if (options.startDate) {
+    ranged = ranged.where(field, '>=', Timestamp.fromDate(options.startDate));
+  }
+  if (options.endDate) {
+    ranged = ranged.where(field, '<', Timestamp.fromDate(options.endDate));
+  }
+  
+  return ranged.orderBy(field);
+}
+
+/**
+ * Convert a Firestore timestamp to a Date
+ */
+function toDate(value: unknown): Date | null {
+  return value instanceof Timestamp ? value.toDate() : null;
+}
+
+/**
+ * Format a Firestore timestamp for a cell
+ */
+function formatTimestamp(value: unknown): string {
+  return toDate(value)?.toISOString() ?? '';
+}
+
+/**
+ * Format a Firestore timestamp as a calendar date (YYYY-MM-DD)
+ */
+function formatDay(value: unknown): string {
+  return formatTimestamp(value).slice(0, 10);
+}
+
+/**
+ * Keep the requested columns that exist, falling back to the defaults
+ * Requested columns keep their order.
+ */
+export function resolveColumns(type: ExportType, requested: string[]): string[] {
+  const { columns } = getExportDefinition(type);
+  const valid = requested.filter((key, i) =>
+    columns.some((column) => column.key === key) && requested.indexOf(key) === i
+  );
+  
+  return valid.length > 0
+    ? valid
+    : columns.filter((column) => column.default).map((column) => column.key);
+}
+
+/**
+ * Get the header labels for column keys
+ */
+function columnLabels(type: ExportType, keys: string[]): string[] {
+  const { columns } = getExportDefinition(type);
+  return keys.map((key) => columns.find((column) => column.key === key)?.label ?? key);
+}
+
+// ============================================================================
+// Member Roster
+// ============================================================================
+
+const ROSTER_FIELDS: Record<string, (uid: string, data: DocumentData) => XlsxCell> = {
+  uid: (uid) => uid,
+  displayName: (_, data) => data.displayName,
+  firstName: (_, data) => data.firstName,
+  lastName: (_, data) => data.lastName,
+  email: (_, data) => data.email,
+  ttuEmail: (_, data) => data.ttuEmail,
+  ttuEmailVerified: (_, data) => data.ttuEmailVerified === true,
+  memberStatus: (_, data) => getMemberStatusLabel(resolveMemberStatus(data)),
+  studentVerifiedYear: (_, data) => data.studentVerifiedYear,
+  rNumber: (_, data) => data.rNumber,
+  major: (_, data) => data.major,
+  universityLevel: (_, data) => data.universityLevel,
+  aspiredPosition: (_, data) => data.aspiredPosition,
+  githubUrl: (_, data) => data.githubUrl,
+  linkedinUrl: (_, data) => data.linkedinUrl,
+  twitterUrl: (_, data) => data.twitterUrl,
+  points: (_, data) => data.points || 0,
+  eventsAttended: (_, data) => (data.attendedEvents || []).length,
+  roles: (_, data) => resolveRoles(data).map(getRoleLabel).join('; '),
+  createdAt: (_, data) => formatTimestamp(data.createdAt),
+};
+
+/**
+ * Build the member roster export
+ * The date range filters on when members joined.
+ */
+function exportRoster(options: ExportOptions): ExportTable {
+  const db = getAdminFirestore();
+  const keys = resolveColumns('roster', options.columns);
+  
+  async function* rows(): AsyncGenerator<XlsxCell[]> {
+    const query = applyDateRange(db.collection('users'), 'createdAt', options);
+    
+    for await (const doc of paginate(query)) {
+      const data = doc.data();
+      yield keys.map((key) => ROSTER_FIELDS[key](doc.id, data));
+    }
+  }
+  
+  return {
+    sheetName: 'Members',
+    header: columnLabels('roster', keys),
+    rows: rows(),
+  };
+}
+
+// ============================================================================
+// Attendance Matrix
+// ============================================================================
+
+const ATTENDANCE_FIELDS: Record<string, (uid: string, data: DocumentData) => XlsxCell> = {
+  uid: (uid) => uid,
+  displayName: (_, data) => data.displayName,
+  email: (_, data) => data.email,
+  ttuEmail: (_, data) => data.ttuEmail,
+};
+
+/**
+ * Build the attendance matrix export
+ * Columns are the non-cancelled events in the date range, oldest first;
+ * rows are the members who attended at least one of them.
+ */
+async function exportAttendance(options: ExportOptions): Promise<ExportTable> {
+  const db = getAdminFirestore();
+  const keys = resolveColumns('attendance', options.columns);
+  
+  let eventsQuery: FirebaseFirestore.Query = db.collection('events');
+  if (options.startDate) {
+    eventsQuery = eventsQuery.where('startTime', '>=', Timestamp.fromDate(options.startDate));
+  }
+  if (options.endDate) {
+    eventsQuery = eventsQuery.where('startTime', '<', Timestamp.fromDate(options.endDate));
+  }
+  
+  const eventsSnapshot = await eventsQuery.orderBy('startTime').get();
+  const events = eventsSnapshot.docs
+    .map((doc) => ({ id: doc.id, ...doc.data() }) as DocumentData)
+    .filter((event) => event.status !== 'cancelled');
+  const attendees = events.map((event) => new Set<string>(event.attendees || []));
+  const everyAttendee = new Set(attendees.flatMap((set) => Array.from(set)));
+  
+  const header: string[] = [];
+  keys.forEach((key) => {
+    if (key === 'events') {
+      events.forEach((event) => header.push(`${event.name} (${formatDay(event.startTime)})`));
+    } else {
+      header.push(...columnLabels('attendance', [key]));
+    }
+  });
+  
+  async function* rows(): AsyncGenerator<XlsxCell[]> {
+    for await (const doc of paginate(db.collection('users').orderBy(FieldPath.documentId()))) {
+      if (!everyAttendee.has(doc.id)) {
+        continue;
+      }
+      
+      const data = doc.data();
+      const attended = attendees.map((set) => set.has(doc.id));
+      const row: XlsxCell[] = [];
+      
+      keys.forEach((key) => {
+        if (key === 'events') {
+          row.push(...attended.map((present) => (present ? 1 : null)));
+        } else if (key === 'total') {
+          row.push(attended.filter(Boolean).length);
+        } else {
+          row.push(ATTENDANCE_FIELDS[key](doc.id, data));
+        }
+      });
+      
+      yield row;
+    }
+  }
+  
+  return {
+    sheetName: 'Attendance',
+    header,
+    rows: rows(),
+  };
+}
+
+// ============================================================================
+// Points History
+// ============================================================================
+
+/**
+ * Build the points history export
+ * The date range filters on when entries were recorded. Member names are
+ * looked up a page at a time and cached.
+ */
+function exportPoints(options: ExportOptions): ExportTable {
+  const db = getAdminFirestore();
+  const keys = resolveColumns('points', options.columns);
+  const needsMembers = keys.includes('displayName') || keys.includes('email');
+  const members = new Map<string, DocumentData>();
+  
+  async function* rows(): AsyncGenerator<XlsxCell[]> {
+    let query: FirebaseFirestore.Query = db.collection(POINTS_LEDGER_COLLECTION);
+    if (options.startDate) {
+      query = query.where('createdAt', '>=', Timestamp.fromDate(options.startDate));
+    }
+    if (options.endDate) {
+      query = query.where('createdAt', '<', Timestamp.fromDate(options.endDate));
+    }
+    query = query.orderBy('createdAt');
+    
+    let page: FirebaseFirestore.QueryDocumentSnapshot[] = [];
+    
+    const flush = async function* (): AsyncGenerator<XlsxCell[]> {
+      if (needsMembers) {
+        const missing = Array.from(new Set(page.map((doc) => doc.data().userId as string)))
+          .filter((uid) => uid && !members.has(uid));
+        
+        if (missing.length > 0) {
+          const userDocs = await db.getAll(...missing.map((uid) => db.collection('users').doc(uid)));
+          userDocs.forEach((userDoc) => members.set(userDoc.id, userDoc.data() || {}));
+        }
+      }
+      
+      for (const doc of page) {
+        const entry = doc.data();
+        const member = members.get(entry.userId) || {};
+        
+        yield keys.map((key) => {
+          switch (key) {
+            case 'createdAt':
+              return formatTimestamp(entry.createdAt);
+            case 'displayName':
+              return member.displayName;
+            case 'email':
+              return member.email;
+            default:
+              return entry[key];
+          }
+        });
+      }
+      
+      page = [];
+    };
+    
+    for await (const doc of paginate(query)) {
+      page.push(doc);
+      if (page.length >= EXPORT_PAGE_SIZE) {
+        yield* flush();
+      }
+    }
+    
+    yield* flush();
+  }
+  
+  return {
+    sheetName: 'Points History',
+    header: columnLabels('points', keys),
+    rows: rows(),
+  };
+}
+
+// ============================================================================
+// Semester Participation
+// ============================================================================
+
+interface SemesterSummary {
+  label: string;
+  start: Date;
+  events: number;
+  attendances: number;
+  activeMembers: Set<string>;
+  newMembers: number;
+  pointsAwarded: number;
+}
+
+/**
+ * Build the semester participation export
+ * Events, new members and points are each counted in the semester they
+ * fall in, restricted to the date range. Cancelled events are left out.
+ */
+async function exportParticipation(options: ExportOptions): Promise<ExportTable> {
+  const db = getAdminFirestore();
+  const keys = resolveColumns('participation', options.columns);
+  const semesters = new Map<string, SemesterSummary>();
+  
+  const summaryFor = (date: Date): SemesterSummary => {
+    const semester = getSemester(date);
+    let summary = semesters.get(semester.key);
+    
+    if (!summary) {
+      summary = {
+        label: semester.label,
+        start: semester.start,
+        events: 0,
+        attendances: 0,
+        activeMembers: new Set(),
+        newMembers: 0,
+        pointsAwarded: 0,
+      };
+      semesters.set(semester.key, summary);
+    }
+    
+    return summary;
+  };
+  
+  for await (const doc of paginate(applyDateRange(db.collection('events'), 'startTime', options))) {
+    const event = doc.data();
+    const startTime = toDate(event.startTime);
+    
+    if (!startTime || event.status === 'cancelled') {
+      continue;
+    }
+    
+    const summary = summaryFor(startTime);
+    const attendees: string[] = event.attendees || [];
+    summary.events++;
+    summary.attendances += attendees.length;
+    attendees.forEach((uid) => summary.activeMembers.add(uid));
+  }
+  
+  for await (const doc of paginate(applyDateRange(db.collection('users'), 'createdAt', options))) {
+    const createdAt = toDate(doc.data().createdAt);
+    if (createdAt) {
+      summaryFor(createdAt).newMembers++;
+    }
+  }
+  
+  if (keys.includes('pointsAwarded')) {
+    const ledgerQuery = applyDateRange(db.collection(POINTS_LEDGER_COLLECTION), 'createdAt', options);
+    
+    for await (const doc of paginate(ledgerQuery)) {
+      const entry = doc.data();
+      const createdAt = toDate(entry.createdAt);
+      if (createdAt) {
+        summaryFor(createdAt).pointsAwarded += entry.points || 0;
+      }
+    }
+  }
+  
+  const summaries = Array.from(semesters.values()).sort((a, b) => a.start.getTime() - b.start.getTime());
+  
+  async function* rows(): AsyncGenerator<XlsxCell[]> {
+    for (const summary of summaries) {
+      yield keys.map((key) => {
+        switch (key) {
+          case 'semester':
+            return summary.label;
+          case 'events':
+            return summary.events;
+          case 'attendances':
+            return summary.attendances;
+          case 'activeMembers':
+            return summary.activeMembers.size;
+          case 'averageAttendance':
+            return summary.events > 0 ? Math.round((summary.attendances / summary.events) * 10) / 10 : 0;
+          case 'newMembers':
+            return summary.newMembers;
+          default:
+            return summary.pointsAwarded;
+        }
+      });
+    }
+  }
+  
+  return {
+    sheetName: 'Participation',
+    header: columnLabels('participation', keys),
+    rows: rows(),
+  };
+}
+
+// ============================================================================
+// Exports
+// ============================================================================
+
+/**
+ * Build a member data export
+ * 
+ * @param type - Export to build
+ * @param options - Columns and date range
+ * @returns Header and row stream, read from Firestore as it is consumed
+ */
+export async function createExport(type: ExportType, options: ExportOptions): Promise<ExportTable> {
+  try {
+    switch (type) {
+      case 'roster':
+        return exportRoster(options);
+      case 'attendance':
+        return await exportAttendance(options);
+      case 'points':
+        return exportPoints(options);
+      case 'participation':
+        return await exportParticipation(options);
+    }
+  } catch (error) {
+    console.error('Error creating export:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,260 @@
+import 'server-only';
+import { getAdminFirestore } from '../firebase/admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import type { CronJobName, CronTrigger, JobRun } from '../types';
+
+/**
+ * Job Run Service
+ * 
+ * Server-side service for scheduled (cron) runs including:
+ * - A per-job lock, so overlapping cron calls never process the same work twice
+ * - Recording every run with its counts, duration and error in a job history
+ * - Querying and pruning the job history for the admin System page
+ * 
+ * Both collections are written by the server only.
+ */
+
+export const JOB_RUNS_COLLECTION = 'jobRuns';
+export const CRON_LOCKS_COLLECTION = 'cronLocks';
+
+/**
+ * How long a run holds its job's lock
+ * Longer than any serverless function may run; a run that dies without
+ * releasing the lock only blocks the job until then.
+ */
+const CRON_LOCK_LEASE_MS = 15 * 60 * 1000;
+
+/**
+ * Job history is kept this long
+ */
+const JOB_RUN_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+
+/**
+ * Page size limits for job history queries
+ */
+export const DEFAULT_JOB_RUN_LIMIT = 100;
+export const MAX_JOB_RUN_LIMIT = 500;
+
+const PRUNE_BATCH_SIZE = 400;
+
+/**
+ * Server-side job run using Firebase Admin SDK Timestamps
+ */
+export type JobRunRecord = Omit<JobRun, 'startedAt' | 'finishedAt'> & {
+  startedAt: Timestamp;
+  finishedAt: Timestamp;
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Keep the numeric and boolean fields of a run's result as its counts
+ * Nested objects are flattened one level (e.g. reverification.prompted).
+ * 
+ * @param result - Value returned by the run
+ * @returns Counts to store with the run
+ */
+export function toRunCounts(result: object | null | undefined): Record<string, number | boolean> {
+  const counts: Record<string, number | boolean> = {};
+  
+  for (const [key, value] of Object.entries(result ?? {})) {
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      counts[key] = value;
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [nestedKey, nested] of Object.entries(value)) {
+        if (typeof nested === 'number' || typeof nested === 'boolean') {
+          counts[`${key}.${nestedKey}`] = nested;
+        }
+      }
+    }
+  }
+  
+  return counts;
+}
+
+/**
+ * Take a job's lock unless another run holds an unexpired lease on it
+ * 
+ * @param name - Job to lock
+ * @param runId - Run taking the lock
+ * @param trigger - How the run was started
+ * @returns True if the lock was taken
+ */
+async function acquireCronLock(name: CronJobName, runId: string, trigger: CronTrigger): Promise<boolean> {
+  const db = getAdminFirestore();
+  const lockRef = db.collection(CRON_LOCKS_COLLECTION).doc(name);
+  
+  return db.runTransaction(async (transaction) => {
+    const lockDoc = await transaction.get(lockRef);
+    const lockedUntil = lockDoc.data()?.lockedUntil as Timestamp | undefined;
+    const now = Date.now();
+    
+    if (lockedUntil && lockedUntil.toMillis() > now) {
+      return false;
+    }
+    
+    transaction.set(lockRef, {
+      runId,
+      trigger,
+      acquiredAt: Timestamp.fromMillis(now),
+      lockedUntil: Timestamp.fromMillis(now + CRON_LOCK_LEASE_MS),
+    });
+    
+    return true;
+  });
+}
+
+/**
+ * Release a job's lock if the run still holds it
+ */
+async function releaseCronLock(name: CronJobName, runId: string): Promise<void> {
+  const db = getAdminFirestore();
+  const lockRef = db.collection(CRON_LOCKS_COLLECTION).doc(name);
+  
+  await db.runTransaction(async (transaction) => {
+    const lockDoc = await transaction.get(lockRef);
+    
+    if (lockDoc.data()?.runId === runId) {
+      transaction.delete(lockRef);
+    }
+  });
+}
+
+// ============================================================================
+// Running Jobs
+// ============================================================================
+
+/**
+ * Run a cron job under its lock and record the run in the job history
+ * If another run holds the lock, nothing is processed and the run is
+ * recorded as skipped. A failed history write is logged but never fails
+ * the run, which has already happened.
+ * 
+ * @param name - Job being run
+ * @param trigger - How the run was started
+ * @param run - Work to do; its numeric and boolean fields become the run's counts
+ * @returns The recorded run
+ * @throws Error if the lock cannot be read (errors from `run` are recorded, not thrown)
+ */
+export async function runCronJob(
+  name: CronJobName,
+  trigger: CronTrigger,
+  run: () => Promise<object | void>
+): Promise<JobRunRecord> {
+  const db = getAdminFirestore();
+  const runRef = db.collection(JOB_RUNS_COLLECTION).doc();
+  const startedAt = Timestamp.now();
+  let status: JobRunRecord['status'] = 'skipped';
+  let counts: Record<string, number | boolean> = {};
+  let error: string | null = null;
+  
+  if (await acquireCronLock(name, runRef.id, trigger)) {
+    try {
+      counts = toRunCounts((await run()) || null);
+      status = 'succeeded';
+    } catch (runError) {
+      console.error(`Error running ${name}:`, runError);
+      error = runError instanceof Error ? runError.message : String(runError);
+      status = 'failed';
+    }
+    
+    try {
+      await releaseCronLock(name, runRef.id);
+    } catch (releaseError) {
+      console.error(`Error releasing ${name} lock:`, releaseError);
+    }
+  }
+  
+  const finishedAt = Timestamp.now();
+  const data: Omit<JobRunRecord, 'id'> = {
+    name,
+    trigger,
+    status,
+    counts,
+    error,
+    durationMs: finishedAt.toMillis() - startedAt.toMillis(),
+    startedAt,
+    finishedAt,
+  };
+  
+  try {
+    await runRef.set(data);
+  } catch (recordError) {
+    console.error(`Error recording ${name} run:`, recordError);
+  }
+  
+  return { id: runRef.id, ...data };
+}
+
+// ============================================================================
+// Job History
+// ============================================================================
+
+/**
+ * Get recent job runs, newest first
+ * 
+ * @param options.name - Only runs of this job
+ * @param options.limit - Maximum number of runs
+ * @returns Job runs
+ * @throws Error if the history cannot be read
+ */
+export async function getJobRuns(
+  options: { name?: CronJobName; limit?: number } = {}
+): Promise<JobRunRecord[]> {
+  try {
+    const db = getAdminFirestore();
+    let query: FirebaseFirestore.Query = db.collection(JOB_RUNS_COLLECTION);
+    
+    if (options.name) {
+      query = query.where('name', '==', options.name);
+    }
+    
+    const snapshot = await query
+      .orderBy('startedAt', 'desc')
+      .limit(options.limit ?? DEFAULT_JOB_RUN_LIMIT)
+      .get();
+    
+    return snapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    }) as JobRunRecord);
+  } catch (error) {
+    console.error('Error getting job runs:', error);
+    throw new Error('Failed to get job runs');
+  }
+}
+
+/**
+ * Delete job runs past the retention period
+ * Called by the daily jobs.prune job.
+ * 
+ * @returns Number of runs deleted
+ */
+export async function pruneJobRuns(): Promise<number> {
+  try {
+    const db = getAdminFirestore();
+    const cutoff = Timestamp.fromMillis(Date.now() - JOB_RUN_RETENTION_MS);
+    let deleted = 0;
+    
+    while (true) {
+      const snapshot = await db.collection(JOB_RUNS_COLLECTION)
+        .where('startedAt', '<', cutoff)
+        .limit(PRUNE_BATCH_SIZE)
+        .get();
+      
+      if (snapshot.empty) {
+        return deleted;
+      }
+      
+      const batch = db.batch();
+      snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+      deleted += snapshot.size;
+    }
+  } catch (error) {
+    console.error('Error pruning job runs:', error);
+    throw error;
+  }
+}
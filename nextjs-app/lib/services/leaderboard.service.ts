@@ -0,0 +1,826 @@
+import 'server-only';
+import { getAdminFirestore, getAdminStorage } from '../firebase/admin';
+import type {
+  BadgeId,
+  LeaderboardEntry,
+  LeaderboardScope,
+  LeaderboardWindow,
+  SeasonScope,
+} from '../types';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getAcademicYear, getSemester } from '../semester';
+import { getLeagueWindows, type MonthKey } from '../major-league';
+import { POINTS_LEDGER_COLLECTION } from './pointsLedger.service';
+import { isActiveMember } from '../constants/memberStatuses';
+
+/**
+ * Leaderboard Service
+ * 
+ * Server-side service for leaderboards including:
+ * - Lifetime standings served from a materialized document, updated
+ *   incrementally on point changes and rebuilt periodically
+ * - Signed avatar URLs cached with their expiry
+ * - Time-scoped standings (semester, academic year, Major League month,
+ *   custom range) summed from points ledger entries in the window; season
+ *   standings are materialized per window and recomputed at most once a minute
+ * - End-of-season archives that freeze final standings
+ * 
+ * Opening balances carried over from before the ledger have no meaningful
+ * date, so they only count toward lifetime standings.
+ */
+
+export const LEADERBOARD_ARCHIVES_COLLECTION = 'leaderboardArchives';
+export const LEADERBOARDS_COLLECTION = 'leaderboards';
+const LIFETIME_LEADERBOARD_ID = 'lifetime';
+
+/**
+ * Members kept in the materialized lifetime leaderboard
+ * (signed avatar URLs are ~1 KB each, so this stays well under 1 MiB)
+ */
+const LIFETIME_LEADERBOARD_SIZE = 250;
+
+/**
+ * Largest page the leaderboard API serves
+ */
+export const MAX_LEADERBOARD_PAGE_SIZE = 50;
+
+/**
+ * How long materialized season standings are served before they are
+ * recomputed: a minute while the season runs, a day once it has ended
+ * (so cached avatar URLs never outlive their signatures)
+ */
+const SEASON_STANDINGS_TTL_MS = 60 * 1000;
+const ENDED_SEASON_STANDINGS_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Oldest season served, in years before now (bounds the windows that can be
+ * materialized)
+ */
+export const MAX_SEASON_LOOKBACK_YEARS = 5;
+
+/**
+ * Longest custom range, in days (each request sums the ledger over the range)
+ */
+export const MAX_CUSTOM_RANGE_DAYS = 366;
+
+/**
+ * How often the periodic job rebuilds the lifetime leaderboard from scratch
+ */
+const LEADERBOARD_REBUILD_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Signed avatar URLs are valid for 7 days and re-signed a day before expiry
+ */
+const AVATAR_URL_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const AVATAR_REFRESH_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Standings stored per archive (keeps the document well under 1 MiB)
+ */
+const ARCHIVE_STANDINGS_LIMIT = 100;
+
+/**
+ * Server-side archive type (uses Admin SDK Timestamp)
+ */
+export interface LeaderboardArchive {
+  id: string;
+  scope: SeasonScope;
+  key: string;
+  label: string;
+  start: Timestamp;
+  end: Timestamp;
+  standings: LeaderboardEntry[];
+  archivedAt: Timestamp;
+  archivedBy: string;
+}
+
+/**
+ * One page of standings
+ */
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  total: number;                 // Ranked members available across all pages
+}
+
+/**
+ * Window options for resolving a scope
+ */
+export interface LeaderboardWindowOptions {
+  date?: Date;                   // Any date inside the semester/academic year (default: now)
+  month?: MonthKey;              // Major League month
+  start?: Date;                  // Custom range start (inclusive)
+  end?: Date;                    // Custom range end (exclusive)
+}
+
+/**
+ * Points and attendance a member accumulated
+ */
+interface Tally {
+  points: number;
+  attendedEvents: number;
+}
+
+/**
+ * Entry stored in the materialized lifetime leaderboard (unranked)
+ */
+interface MaterializedEntry {
+  id: string;
+  firstName: string;
+  lastName: string;
+  points: number;
+  attendedEvents: number;
+  badges: BadgeId[];
+  photoURL: string | null;
+  photoExpiresAt: number | null;
+  profilePictureId: string | null;
+}
+
+// ============================================================================
+// Scope Resolution
+// ============================================================================
+
+/**
+ * Resolve a leaderboard scope to its date range
+ * 
+ * @param scope - Leaderboard scope (not 'lifetime')
+ * @param options - Date, month, or custom range depending on scope
+ * @returns The resolved window
+ * @throws Error if the scope or its options are invalid
+ */
+export function resolveLeaderboardWindow(
+  scope: LeaderboardScope,
+  options: LeaderboardWindowOptions = {}
+): LeaderboardWindow {
+  const date = options.date ?? new Date();
+  
+  switch (scope) {
+    case 'semester': {
+      const semester = getSemester(date);
+      return { scope, key: semester.key, label: semester.label, start: semester.start, end: semester.end };
+    }
+    case 'academic-year': {
+      const year = getAcademicYear(date);
+      return { scope, key: year.key, label: year.label, start: year.start, end: year.end };
+    }
+    case 'major-league': {
+      const windows = getLeagueWindows();
+      const league = options.month
+        ? windows.find((window) => window.month === options.month)
+        : windows.find((window) => window.start <= date && date < window.end) ??
+          [...windows].reverse().find((window) => window.start <= date) ??
+          windows[0];
+      
+      if (!league) {
+        throw new Error('Major League month not found');
+      }
+      
+      return {
+        scope,
+        key: `${league.start.getFullYear()}-${String(league.start.getMonth() + 1).padStart(2, '0')}`,
+        label: `Major League ${league.label}`,
+        start: league.start,
+        end: league.end,
+      };
+    }
+    case 'custom': {
+      if (
+        !options.start || !options.end ||
+        isNaN(options.start.getTime()) || isNaN(options.end.getTime()) ||
+        options.start >= options.end
+      ) {
+        throw new Error('Invalid date range');
+      }
+      
+      if (options.end.getTime() - options.start.getTime() > MAX_CUSTOM_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        throw new Error(`Date range cannot exceed ${MAX_CUSTOM_RANGE_DAYS} days`);
+      }
+      
+      const key = `${options.start.toISOString().slice(0, 10)}_${options.end.toISOString().slice(0, 10)}`;
+      return {
+        scope,
+        key,
+        label: `${options.start.toLocaleDateString('en-US')} – ${options.end.toLocaleDateString('en-US')}`,
+        start: options.start,
+        end: options.end,
+      };
+    }
+    default:
+      throw new Error('Invalid leaderboard scope');
+  }
+}
+
+// ============================================================================
+// Avatars
+// ============================================================================
+
+/**
+ * Photo URL cached alongside a leaderboard entry
+ * Signed Storage URLs expire, so the expiry is kept to know when to re-sign.
+ */
+interface CachedAvatar {
+  photoURL: string | null;
+  photoExpiresAt: number | null;     // Epoch millis, null for non-expiring (Google) photos
+  profilePictureId: string | null;   // Storage path the URL was signed for
+}
+
+/**
+ * Resolve the photo to show for a user, reusing a cached URL while it is fresh
+ * Prioritizes an uploaded profile picture over the Google photo
+ * 
+ * @param data - User document data
+ * @param cached - Previously resolved avatar (optional)
+ * @param sign - Whether to sign a new URL when the cached one is stale (default: true)
+ */
+async function resolveAvatar(
+  data: FirebaseFirestore.DocumentData,
+  cached?: CachedAvatar,
+  sign = true
+): Promise<CachedAvatar> {
+  const googleAvatar: CachedAvatar = {
+    photoURL: data.photoURL || null,
+    photoExpiresAt: null,
+    profilePictureId: null,
+  };
+  
+  if (!data.profilePictureId) {
+    return googleAvatar;
+  }
+  
+  if (
+    cached &&
+    cached.profilePictureId === data.profilePictureId &&
+    cached.photoExpiresAt !== null &&
+    cached.photoExpiresAt - Date.now() > AVATAR_REFRESH_MARGIN_MS
+  ) {
+    return cached;
+  }
+  
+  if (!sign) {
+    return googleAvatar;
+  }
+  
+  // If user uploaded a profile picture during onboarding, use that instead
+  try {
+    const expires = Date.now() + AVATAR_URL_TTL_MS;
+    const bucket = getAdminStorage().bucket();
+    const [url] = await bucket.file(data.profilePictureId).getSignedUrl({
+      action: 'read',
+      expires,
+    });
+    
+    return {
+      photoURL: url,
+      photoExpiresAt: expires,
+      profilePictureId: data.profilePictureId,
+    };
+  } catch (error) {
+    console.error('Error getting profile picture URL:', error);
+    // Fall back to Google photo if storage fetch fails
+    return googleAvatar;
+  }
+}
+
+// ============================================================================
+// Standings
+// ============================================================================
+
+/**
+ * Assign 1-based ranks to entries sorted by points (ties share a rank)
+ */
+function rankEntries<T extends { points: number }>(sorted: T[]): (T & { rank: number })[] {
+  let rank = 0;
+  let previousPoints: number | null = null;
+  
+  return sorted.map((entry, index) => {
+    if (entry.points !== previousPoints) {
+      rank = index + 1;
+      previousPoints = entry.points;
+    }
+    return { ...entry, rank };
+  });
+}
+
+/**
+ * Build a materialized entry from a user document and tally
+ */
+async function toMaterializedEntry(
+  id: string,
+  data: FirebaseFirestore.DocumentData,
+  tally: Tally,
+  cached?: CachedAvatar,
+  sign = true
+): Promise<MaterializedEntry> {
+  return {
+    id,
+    firstName: data.firstName || 'Anonymous',
+    lastName: data.lastName || '',
+    points: tally.points,
+    attendedEvents: tally.attendedEvents,
+    badges: (data.badges ?? []).map((badge: { id: BadgeId }) => badge.id),
+    ...(await resolveAvatar(data, cached, sign)),
+  };
+}
+
+/**
+ * Strip cache bookkeeping from a ranked materialized entry
+ */
+function toLeaderboardEntry(entry: MaterializedEntry & { rank: number }): LeaderboardEntry {
+  return {
+    id: entry.id,
+    rank: entry.rank,
+    firstName: entry.firstName,
+    lastName: entry.lastName,
+    photoURL: entry.photoURL,
+    points: entry.points,
+    attendedEvents: entry.attendedEvents,
+    badges: entry.badges,
+  };
+}
+
+/**
+ * Rebuild the materialized lifetime leaderboard from the users collection
+ * Cached avatar URLs are reused until they near expiry.
+ * 
+ * @returns Number of entries written
+ */
+export async function rebuildLifetimeLeaderboard(): Promise<number> {
+  try {
+    const db = getAdminFirestore();
+    const leaderboardRef = db.collection(LEADERBOARDS_COLLECTION).doc(LIFETIME_LEADERBOARD_ID);
+    
+    const [existing, usersSnapshot] = await Promise.all([
+      leaderboardRef.get(),
+      db.collection('users').where('hasCompletedOnboarding', '==', true).get(),
+    ]);
+    
+    const cache = new Map<string, MaterializedEntry>(
+      ((existing.data()?.entries ?? []) as MaterializedEntry[]).map((entry) => [entry.id, entry])
+    );
+    
+    const top = usersSnapshot.docs
+      .map((doc) => ({ doc, points: doc.data().points || 0 }))
+      .sort((a, b) => b.points - a.points)
+      .slice(0, LIFETIME_LEADERBOARD_SIZE);
+    
+    const entries = await Promise.all(top.map(({ doc }) => {
+      const data = doc.data();
+      return toMaterializedEntry(
+        doc.id,
+        data,
+        { points: data.points || 0, attendedEvents: data.attendedEvents?.length || 0 },
+        cache.get(doc.id)
+      );
+    }));
+    
+    const now = Timestamp.now();
+    await leaderboardRef.set({
+      entries,
+      updatedAt: now,
+      rebuiltAt: now,
+    });
+    
+    return entries.length;
+  } catch (error) {
+    console.error('Error rebuilding lifetime leaderboard:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rebuild the lifetime leaderboard if the last rebuild is older than the interval
+ * Called periodically by the lifecycle job
+ * 
+ * @returns True if a rebuild ran
+ */
+export async function rebuildLifetimeLeaderboardIfStale(): Promise<boolean> {
+  const db = getAdminFirestore();
+  const snapshot = await db.collection(LEADERBOARDS_COLLECTION).doc(LIFETIME_LEADERBOARD_ID).get();
+  const rebuiltAt = snapshot.data()?.rebuiltAt as Timestamp | undefined;
+  
+  if (rebuiltAt && Date.now() - rebuiltAt.toMillis() < LEADERBOARD_REBUILD_INTERVAL_MS) {
+    return false;
+  }
+  
+  await rebuildLifetimeLeaderboard();
+  return true;
+}
+
+/**
+ * Update a single member's entry in the materialized lifetime leaderboard
+ * Called after the member's points, badges or profile change.
+ * 
+ * A member pushed out of the stored top entries is only re-added by the
+ * next rebuild if they climb back, which the periodic rebuild covers.
+ * 
+ * @param userId - User UID
+ */
+export async function refreshLeaderboardEntry(userId: string): Promise<void> {
+  try {
+    const db = getAdminFirestore();
+    const leaderboardRef = db.collection(LEADERBOARDS_COLLECTION).doc(LIFETIME_LEADERBOARD_ID);
+    const userRef = db.collection('users').doc(userId);
+    
+    const existing = await leaderboardRef.get();
+    if (!existing.exists) {
+      await rebuildLifetimeLeaderboard();
+      return;
+    }
+    
+    // Sign the avatar outside the transaction so retries don't re-sign
+    const userDoc = await userRef.get();
+    const userData = userDoc.data();
+    const cached = ((existing.data()?.entries ?? []) as MaterializedEntry[]).find((entry) => entry.id === userId);
+    const avatar = userData?.hasCompletedOnboarding === true
+      ? await resolveAvatar(userData, cached)
+      : null;
+    
+    await db.runTransaction(async (transaction) => {
+      const [leaderboardSnapshot, userSnapshot] = await Promise.all([
+        transaction.get(leaderboardRef),
+        transaction.get(userRef),
+      ]);
+      
+      const data = userSnapshot.data();
+      const entries = ((leaderboardSnapshot.data()?.entries ?? []) as MaterializedEntry[])
+        .filter((entry) => entry.id !== userId);
+      
+      if (data && data.hasCompletedOnboarding === true && avatar) {
+        entries.push({
+          id: userId,
+          firstName: data.firstName || 'Anonymous',
+          lastName: data.lastName || '',
+          points: data.points || 0,
+          attendedEvents: data.attendedEvents?.length || 0,
+          badges: (data.badges ?? []).map((badge: { id: BadgeId }) => badge.id),
+          ...avatar,
+        });
+      }
+      
+      entries.sort((a, b) => b.points - a.points);
+      
+      transaction.update(leaderboardRef, {
+        entries: entries.slice(0, LIFETIME_LEADERBOARD_SIZE),
+        updatedAt: Timestamp.now(),
+      });
+    });
+  } catch (error) {
+    console.error('Error refreshing leaderboard entry:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a page of lifetime standings from the materialized leaderboard
+ * Builds the leaderboard on first use.
+ * 
+ * @param offset - Number of entries to skip
+ * @param limit - Number of entries to return
+ * @returns Page of top members by users.points
+ */
+export async function getLifetimeStandings(offset: number, limit: number): Promise<LeaderboardPage> {
+  try {
+    const db = getAdminFirestore();
+    const leaderboardRef = db.collection(LEADERBOARDS_COLLECTION).doc(LIFETIME_LEADERBOARD_ID);
+    
+    let snapshot = await leaderboardRef.get();
+    if (!snapshot.exists) {
+      await rebuildLifetimeLeaderboard();
+      snapshot = await leaderboardRef.get();
+    }
+    
+    const entries = rankEntries((snapshot.data()?.entries ?? []) as MaterializedEntry[]);
+    
+    return {
+      entries: entries.slice(offset, offset + limit).map(toLeaderboardEntry),
+      total: entries.length,
+    };
+  } catch (error) {
+    console.error('Error getting lifetime standings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Sum ledger entries per user within a window
+ * Attendance that was later reversed within the window is not counted
+ */
+async function tallyWindow(window: LeaderboardWindow): Promise<Map<string, Tally>> {
+  const db = getAdminFirestore();
+  const snapshot = await db.collection(POINTS_LEDGER_COLLECTION)
+    .where('createdAt', '>=', Timestamp.fromDate(window.start))
+    .where('createdAt', '<', Timestamp.fromDate(window.end))
+    .get();
+  
+  const reversedIds = new Set<string>();
+  snapshot.docs.forEach((doc) => {
+    const data = doc.data();
+    if (data.type === 'reversal' && data.reversesEntryId) {
+      reversedIds.add(data.reversesEntryId);
+    }
+  });
+  
+  const tallies = new Map<string, Tally>();
+  
+  snapshot.docs.forEach((doc) => {
+    const data = doc.data();
+    if (data.type === 'opening_balance') {
+      return;
+    }
+    
+    const tally = tallies.get(data.userId) ?? { points: 0, attendedEvents: 0 };
+    tally.points += data.points ?? 0;
+    if (data.type === 'attendance' && !reversedIds.has(doc.id)) {
+      tally.attendedEvents++;
+    }
+    tallies.set(data.userId, tally);
+  });
+  
+  return tallies;
+}
+
+/**
+ * Get a page of standings for a time-scoped window
+ * Only active members are ranked; alumni and inactive members keep their
+ * lifetime standing but drop out of seasonal leaderboards.
+ * Photos reuse the avatar URLs cached on the lifetime leaderboard; nothing
+ * is signed here, so members outside it fall back to their Google photo.
+ * 
+ * @param window - Resolved leaderboard window
+ * @param options.offset - Number of entries to skip (default: 0)
+ * @param options.limit - Number of entries to return
+ * @param options.withPhotos - Whether to resolve photo URLs (default: true)
+ * @returns Page of top members by points earned within the window
+ */
+export async function getScopedStandings(
+  window: LeaderboardWindow,
+  options: { offset?: number; limit: number; withPhotos?: boolean }
+): Promise<LeaderboardPage> {
+  try {
+    const db = getAdminFirestore();
+    const offset = options.offset ?? 0;
+    const withPhotos = options.withPhotos ?? true;
+    const tallies = await tallyWindow(window);
+    
+    const userIds = Array.from(tallies.keys()).filter((userId) => tallies.get(userId)!.points > 0);
+    if (userIds.length === 0) {
+      return { entries: [], total: 0 };
+    }
+    
+    const [userDocs, lifetime] = await Promise.all([
+      db.getAll(...userIds.map((userId) => db.collection('users').doc(userId))),
+      withPhotos
+        ? db.collection(LEADERBOARDS_COLLECTION).doc(LIFETIME_LEADERBOARD_ID).get()
+        : Promise.resolve(null),
+    ]);
+    
+    const cache = new Map<string, MaterializedEntry>(
+      ((lifetime?.data()?.entries ?? []) as MaterializedEntry[]).map((entry) => [entry.id, entry])
+    );
+    
+    const ranked = rankEntries(
+      userDocs
+        .filter((doc) => doc.exists && doc.data()?.hasCompletedOnboarding === true && isActiveMember(doc.data()!))
+        .map((doc) => ({ doc, points: tallies.get(doc.id)!.points }))
+        .sort((a, b) => b.points - a.points)
+    );
+    
+    const entries = await Promise.all(ranked.slice(offset, offset + options.limit).map(async ({ doc, rank }) => {
+      const entry = await toMaterializedEntry(
+        doc.id,
+        withPhotos ? doc.data()! : { ...doc.data(), photoURL: null, profilePictureId: null },
+        tallies.get(doc.id)!,
+        cache.get(doc.id),
+        false
+      );
+      return toLeaderboardEntry({ ...entry, rank });
+    }));
+    
+    return { entries, total: ranked.length };
+  } catch (error) {
+    console.error('Error getting scoped standings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a page of standings for a season (semester, academic year or Major
+ * League month)
+ * Standings are materialized per window, like the lifetime leaderboard, so
+ * public requests read one document instead of summing the ledger. Photos
+ * are taken from the lifetime leaderboard when it has a fresher one.
+ * 
+ * @param window - Resolved season window
+ * @param offset - Number of entries to skip
+ * @param limit - Number of entries to return
+ * @returns Page of top members by points earned within the season
+ * @throws Error if the window is not a season
+ */
+export async function getSeasonStandings(
+  window: LeaderboardWindow,
+  offset: number,
+  limit: number
+): Promise<LeaderboardPage> {
+  try {
+    if (window.scope !== 'semester' && window.scope !== 'academic-year' && window.scope !== 'major-league') {
+      throw new Error('Only seasons have materialized standings');
+    }
+    
+    const db = getAdminFirestore();
+    const standingsRef = db.collection(LEADERBOARDS_COLLECTION).doc(`${window.scope}_${window.key}`);
+    
+    const [snapshot, lifetime] = await Promise.all([
+      standingsRef.get(),
+      db.collection(LEADERBOARDS_COLLECTION).doc(LIFETIME_LEADERBOARD_ID).get(),
+    ]);
+    
+    const ttl = window.end.getTime() > Date.now() ? SEASON_STANDINGS_TTL_MS : ENDED_SEASON_STANDINGS_TTL_MS;
+    const rebuiltAt = snapshot.data()?.rebuiltAt as Timestamp | undefined;
+    let entries = snapshot.data()?.entries as LeaderboardEntry[] | undefined;
+    
+    if (!entries || !rebuiltAt || Date.now() - rebuiltAt.toMillis() >= ttl) {
+      ({ entries } = await getScopedStandings(window, { limit: LIFETIME_LEADERBOARD_SIZE }));
+      await standingsRef.set({
+        scope: window.scope,
+        key: window.key,
+        entries,
+        rebuiltAt: Timestamp.now(),
+      });
+    }
+    
+    const cache = new Map<string, MaterializedEntry>(
+      ((lifetime.data()?.entries ?? []) as MaterializedEntry[]).map((entry) => [entry.id, entry])
+    );
+    
+    return {
+      entries: entries.slice(offset, offset + limit).map((entry) => ({
+        ...entry,
+        photoURL: cache.get(entry.id)?.photoURL ?? entry.photoURL,
+      })),
+      total: entries.length,
+    };
+  } catch (error) {
+    console.error('Error getting season standings:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Season Archives
+// ============================================================================
+
+/**
+ * Freeze and archive the final standings of a finished season
+ * 
+ * @param window - Resolved window of a semester, academic year, or Major League month
+ * @param actor - Admin UID, or 'system' for the scheduled job
+ * @returns The archive
+ * @throws Error if the season is still running or was already archived
+ */
+export async function archiveSeason(
+  window: LeaderboardWindow,
+  actor: string
+): Promise<LeaderboardArchive> {
+  try {
+    if (window.scope !== 'semester' && window.scope !== 'academic-year' && window.scope !== 'major-league') {
+      throw new Error('Only seasons can be archived');
+    }
+    
+    if (window.end.getTime() > Date.now()) {
+      throw new Error('Season has not ended');
+    }
+    
+    const db = getAdminFirestore();
+    const id = `${window.scope}_${window.key}`;
+    const archiveRef = db.collection(LEADERBOARD_ARCHIVES_COLLECTION).doc(id);
+    
+    const existing = await archiveRef.get();
+    if (existing.exists) {
+      throw new Error('Season already archived');
+    }
+    
+    const { entries: standings } = await getScopedStandings(window, {
+      limit: ARCHIVE_STANDINGS_LIMIT,
+      withPhotos: false,
+    });
+    
+    const archiveData = {
+      scope: window.scope as SeasonScope,
+      key: window.key,
+      label: window.label,
+      start: Timestamp.fromDate(window.start),
+      end: Timestamp.fromDate(window.end),
+      standings,
+      archivedAt: Timestamp.now(),
+      archivedBy: actor,
+    };
+    
+    // create() fails if a concurrent run archived the season first
+    await archiveRef.create(archiveData);
+    
+    return { id, ...archiveData };
+  } catch (error) {
+    console.error('Error archiving season:', error);
+    throw error;
+  }
+}
+
+/**
+ * Archive every recently finished season that has no archive yet
+ * Called periodically by the lifecycle job
+ * 
+ * @returns Number of seasons archived
+ */
+export async function archiveEndedSeasons(): Promise<number> {
+  const db = getAdminFirestore();
+  const now = new Date();
+  
+  // The season before the current one, found by stepping back from its start
+  const currentSemester = getSemester(now);
+  const currentYear = getAcademicYear(now);
+  
+  const candidates: LeaderboardWindow[] = [
+    resolveLeaderboardWindow('semester', { date: new Date(currentSemester.start.getTime() - 1) }),
+    resolveLeaderboardWindow('academic-year', { date: new Date(currentYear.start.getTime() - 1) }),
+    ...getLeagueWindows()
+      .filter((league) => league.end <= now)
+      .map((league) => resolveLeaderboardWindow('major-league', { month: league.month })),
+  ];
+  
+  let archivedCount = 0;
+  
+  for (const window of candidates) {
+    const existing = await db.collection(LEADERBOARD_ARCHIVES_COLLECTION)
+      .doc(`${window.scope}_${window.key}`)
+      .get();
+    
+    if (existing.exists) {
+      continue;
+    }
+    
+    try {
+      await archiveSeason(window, 'system');
+      archivedCount++;
+    } catch (error: any) {
+      // Another run may have archived it in the meantime (6 = ALREADY_EXISTS)
+      if (error?.code !== 6 && error?.message !== 'Season already archived') {
+        throw error;
+      }
+    }
+  }
+  
+  return archivedCount;
+}
+
+/**
+ * List archived seasons, newest first (without standings)
+ * 
+ * @returns Archive summaries
+ */
+export async function getArchives(): Promise<Omit<LeaderboardArchive, 'standings'>[]> {
+  try {
+    const db = getAdminFirestore();
+    const snapshot = await db.collection(LEADERBOARD_ARCHIVES_COLLECTION)
+      .select('scope', 'key', 'label', 'start', 'end', 'archivedAt', 'archivedBy')
+      .orderBy('end', 'desc')
+      .get();
+    
+    return snapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        scope: data.scope,
+        key: data.key,
+        label: data.label,
+        start: data.start,
+        end: data.end,
+        archivedAt: data.archivedAt,
+        archivedBy: data.archivedBy,
+      };
+    });
+  } catch (error) {
+    console.error('Error getting leaderboard archives:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get an archived season with its standings
+ * 
+ * @param archiveId - Archive ID
+ * @returns The archive, or null if not found
+ */
+export async function getArchive(archiveId: string): Promise<LeaderboardArchive | null> {
+  try {
+    const db = getAdminFirestore();
+    const archiveDoc = await db.collection(LEADERBOARD_ARCHIVES_COLLECTION).doc(archiveId).get();
+    
+    if (!archiveDoc.exists) {
+      return null;
+    }
+    
+    return { id: archiveDoc.id, ...archiveDoc.data() } as LeaderboardArchive;
+  } catch (error) {
+    console.error('Error getting leaderboard archive:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,93 @@
+import 'server-only';
+import {
+  getEventsNeedingStatusUpdate,
+  batchUpdateEventsToCompleted,
+  getEventsForCleanup,
+  markEventsAsCleanedUp,
+  materializeAllSeries,
+} from './event.service';
+import { archiveEndedSeasons, rebuildLifetimeLeaderboardIfStale } from './leaderboard.service';
+import { rebuildAnalyticsIfStale } from './analytics.service';
+import { runReverificationSweepIfDue, type ReverificationSweepResult } from './membership.service';
+
+/**
+ * Lifecycle Service
+ * 
+ * Periodic maintenance run as the events.lifecycle job (every 5 minutes):
+ * 1. Updates events to "completed" status after their end time
+ * 2. Marks events as cleaned up 24 hours after completion (removes from admin page)
+ * 3. Materializes upcoming occurrences of recurring series on a rolling window
+ * 4. Archives final leaderboard standings of seasons that have ended
+ * 5. Rebuilds the materialized lifetime leaderboard (at most hourly)
+ * 6. Rebuilds the admin event analytics (at most hourly)
+ * 7. Runs the annual student re-verification sweep (at most daily)
+ * 
+ * Calendar invitation changes run as their own calendar.sync jobs.
+ */
+
+/**
+ * Counts from one lifecycle run
+ */
+export interface EventLifecycleResult {
+  completedCount: number;
+  cleanedUpCount: number;
+  materializedCount: number;
+  archivedCount: number;
+  leaderboardRebuilt: boolean;
+  analyticsRebuilt: boolean;
+  reverification: ReverificationSweepResult | null;
+}
+
+/**
+ * Run every lifecycle step in order
+ * Each step is idempotent, so a retried run only finishes what's left.
+ * 
+ * @returns Counts for each step
+ * @throws Error if a step fails (later steps are not run)
+ */
+export async function runEventLifecycle(): Promise<EventLifecycleResult> {
+  const result: EventLifecycleResult = {
+    completedCount: 0,
+    cleanedUpCount: 0,
+    materializedCount: 0,
+    archivedCount: 0,
+    leaderboardRebuilt: false,
+    analyticsRebuilt: false,
+    reverification: null,
+  };
+  
+  try {
+    // Step 1: Update events to "completed" status
+    const eventsNeedingUpdate = await getEventsNeedingStatusUpdate();
+    if (eventsNeedingUpdate.length > 0) {
+      result.completedCount = await batchUpdateEventsToCompleted(eventsNeedingUpdate);
+    }
+    
+    // Step 2: Mark events as cleaned up (24 hours after completion)
+    const eventsForCleanup = await getEventsForCleanup();
+    if (eventsForCleanup.length > 0) {
+      await markEventsAsCleanedUp(eventsForCleanup);
+      result.cleanedUpCount = eventsForCleanup.length;
+    }
+    
+    // Step 3: Keep recurring series materialized ahead of time
+    result.materializedCount = await materializeAllSeries();
+    
+    // Step 4: Freeze standings of finished semesters, years and Major League months
+    result.archivedCount = await archiveEndedSeasons();
+    
+    // Step 5: Catch anything incremental leaderboard updates missed
+    result.leaderboardRebuilt = await rebuildLifetimeLeaderboardIfStale();
+    
+    // Step 6: Refresh the aggregates behind the analytics dashboard
+    result.analyticsRebuilt = await rebuildAnalyticsIfStale();
+    
+    // Step 7: Prompt members to re-confirm student status; lapse those past the grace period
+    result.reverification = await runReverificationSweepIfDue();
+    
+    return result;
+  } catch (error) {
+    console.error('Error in event lifecycle run:', error);
+    throw error;
+  }
+}
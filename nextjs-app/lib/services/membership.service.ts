@@ -0,0 +1,209 @@
+import 'server-only';
+import { getAdminFirestore } from '../firebase/admin';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getAcademicYear } from '../semester';
+import { resolveMemberStatus } from '../constants/memberStatuses';
+import {
+  getNextUniversityLevel,
+  isGraduatingLevel,
+  isUniversityLevel,
+} from '../constants/universityLevels';
+import type { MemberStatus } from '../types';
+
+/**
+ * Membership Service
+ * 
+ * Server-side service for the annual student re-verification cycle:
+ * - Prompting members who haven't confirmed their school email this
+ *   academic year, with a grace period to do so
+ * - Advancing university levels when a member's cycle opens
+ * - Moving members who miss the deadline to alumni (seniors and graduate
+ *   students) or inactive (everyone else), judged by the level they had
+ *   before it was advanced
+ * 
+ * Confirming the school email (see ttuEmailVerification) closes a member's
+ * cycle and makes them active again.
+ */
+
+export const MEMBERSHIP_CYCLES_COLLECTION = 'membershipCycles';
+
+/**
+ * Days members have to re-confirm their school email once prompted
+ */
+export const REVERIFICATION_GRACE_DAYS = 45;
+
+/**
+ * How often the lifecycle job sweeps members (the sweep reads every member)
+ */
+const REVERIFICATION_SWEEP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Writes per batch (Firestore allows 500)
+ */
+const BATCH_LIMIT = 400;
+
+/**
+ * Result of a re-verification sweep
+ */
+export interface ReverificationSweepResult {
+  academicYear: string;          // e.g. "2026-2027"
+  prompted: number;              // Members whose cycle opened
+  advanced: number;              // Levels advanced when cycles opened
+  alumni: number;                // Members moved to alumni
+  inactive: number;              // Members moved to inactive
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Academic year a member last confirmed their school email in
+ * Members from before re-verification existed count from when they joined.
+ */
+function getVerifiedYear(data: FirebaseFirestore.DocumentData): string | null {
+  if (typeof data.studentVerifiedYear === 'string') {
+    return data.studentVerifiedYear;
+  }
+  
+  if (data.ttuEmailVerified === true && data.createdAt instanceof Timestamp) {
+    return getAcademicYear(data.createdAt.toDate()).key;
+  }
+  
+  return null;
+}
+
+/**
+ * Fields that record a confirmed school email for the current academic year
+ * Used when a member verifies their school email (onboarding or re-verification).
+ */
+export function getStudentVerifiedFields(now: Date = new Date()): Record<string, unknown> {
+  return {
+    memberStatus: 'active' satisfies MemberStatus,
+    studentVerifiedYear: getAcademicYear(now).key,
+    reverificationYear: FieldValue.delete(),
+    reverificationDueAt: FieldValue.delete(),
+    reverificationLevel: FieldValue.delete(),
+  };
+}
+
+// ============================================================================
+// Re-verification Cycle
+// ============================================================================
+
+/**
+ * Open, and close out, re-verification for every active member
+ * Members who haven't confirmed this academic year are prompted with a grace
+ * period (and their level advanced when it can be assumed); members whose
+ * grace period has passed become alumni or inactive.
+ * 
+ * @param now - Current time (default: now)
+ * @returns Counts of members prompted, advanced and moved
+ */
+export async function runReverificationSweep(now: Date = new Date()): Promise<ReverificationSweepResult> {
+  try {
+    const db = getAdminFirestore();
+    const academicYear = getAcademicYear(now).key;
+    const nowTimestamp = Timestamp.fromDate(now);
+    const dueAt = Timestamp.fromMillis(now.getTime() + REVERIFICATION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+    
+    const result: ReverificationSweepResult = { academicYear, prompted: 0, advanced: 0, alumni: 0, inactive: 0 };
+    const updates: { ref: FirebaseFirestore.DocumentReference; data: Record<string, unknown> }[] = [];
+    
+    const snapshot = await db.collection('users').where('hasCompletedOnboarding', '==', true).get();
+    
+    snapshot.forEach((doc) => {
+      const data = doc.data();
+      
+      if (resolveMemberStatus(data) !== 'active' || getVerifiedYear(data) === academicYear) {
+        return;
+      }
+      
+      // Open this year's cycle
+      if (data.reverificationYear !== academicYear || !(data.reverificationDueAt instanceof Timestamp)) {
+        const update: Record<string, unknown> = {
+          reverificationYear: academicYear,
+          reverificationDueAt: dueAt,
+          updatedAt: nowTimestamp,
+        };
+        
+        const nextLevel = isUniversityLevel(data.universityLevel)
+          ? getNextUniversityLevel(data.universityLevel)
+          : null;
+        if (nextLevel) {
+          // Remember the old level: a rising senior who misses the deadline
+          // is still enrolled, so becomes inactive rather than alumni
+          update.universityLevel = nextLevel;
+          update.reverificationLevel = data.universityLevel;
+          result.advanced++;
+        }
+        
+        updates.push({ ref: doc.ref, data: update });
+        result.prompted++;
+        return;
+      }
+      
+      // Grace period over
+      if (data.reverificationDueAt.toMillis() <= now.getTime()) {
+        const status: MemberStatus = isGraduatingLevel(data.reverificationLevel ?? data.universityLevel)
+          ? 'alumni'
+          : 'inactive';
+        
+        updates.push({
+          ref: doc.ref,
+          data: {
+            memberStatus: status,
+            memberStatusChangedAt: nowTimestamp,
+            reverificationYear: FieldValue.delete(),
+            reverificationDueAt: FieldValue.delete(),
+            reverificationLevel: FieldValue.delete(),
+            updatedAt: nowTimestamp,
+          },
+        });
+        result[status === 'alumni' ? 'alumni' : 'inactive']++;
+      }
+    });
+    
+    for (let i = 0; i < updates.length; i += BATCH_LIMIT) {
+      const batch = db.batch();
+      updates.slice(i, i + BATCH_LIMIT).forEach(({ ref, data }) => batch.update(ref, data));
+      await batch.commit();
+    }
+    
+    await db.collection(MEMBERSHIP_CYCLES_COLLECTION).doc(academicYear).set(
+      {
+        academicYear,
+        lastSweepAt: nowTimestamp,
+        prompted: FieldValue.increment(result.prompted),
+        advanced: FieldValue.increment(result.advanced),
+        alumni: FieldValue.increment(result.alumni),
+        inactive: FieldValue.increment(result.inactive),
+      },
+      { merge: true }
+    );
+    
+    return result;
+  } catch (error) {
+    console.error('Error running re-verification sweep:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run the re-verification sweep if the last one is older than the interval
+ * Called periodically by the lifecycle job
+ * 
+ * @returns The sweep result, or null if no sweep was due
+ */
+export async function runReverificationSweepIfDue(): Promise<ReverificationSweepResult | null> {
+  const db = getAdminFirestore();
+  const academicYear = getAcademicYear(new Date()).key;
+  const snapshot = await db.collection(MEMBERSHIP_CYCLES_COLLECTION).doc(academicYear).get();
+  const lastSweepAt = snapshot.data()?.lastSweepAt as Timestamp | undefined;
+  
+  if (lastSweepAt && Date.now() - lastSweepAt.toMillis() < REVERIFICATION_SWEEP_INTERVAL_MS) {
+    return null;
+  }
+  
+  return runReverificationSweep();
+}
@@ -0,0 +1,323 @@
+import 'server-only';
+import { getAdminFirestore } from '../firebase/admin';
+import type {
+  PointsLedgerEntry,
+  PointsMismatch,
+  PointsReconcileReport,
+} from '../types';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * Points Ledger Service
+ * 
+ * Server-side service for the append-only points ledger including:
+ * - Recording credits and debits inside existing transactions
+ * - Reversing earlier entries, standalone or inside a larger transaction
+ * - Ledger history retrieval
+ * - Recomputing and reconciling the users.points projection
+ * 
+ * Every point change is a ledger entry. users.points is only a cached
+ * sum of a user's entries, kept in step by recordLedgerEntry and rebuilt
+ * by reconcilePoints.
+ */
+
+export const POINTS_LEDGER_COLLECTION = 'pointsLedger';
+
+/**
+ * Data needed to record a ledger entry
+ */
+export type LedgerEntryInput = Omit<PointsLedgerEntry, 'id' | 'createdAt'>;
+
+// ============================================================================
+// Recording Entries
+// ============================================================================
+
+/**
+ * Record a ledger entry and apply it to the user's points projection
+ * Must be called inside the transaction making the related change, after
+ * all of that transaction's reads.
+ * 
+ * @param transaction - Active Firestore transaction
+ * @param entry - Ledger entry data
+ * @returns ID of the new ledger entry
+ */
+export function recordLedgerEntry(
+  transaction: FirebaseFirestore.Transaction,
+  entry: LedgerEntryInput
+): string {
+  const db = getAdminFirestore();
+  const entryRef = db.collection(POINTS_LEDGER_COLLECTION).doc();
+  
+  // Firestore rejects undefined fields
+  const data: Record<string, unknown> = { ...entry, createdAt: Timestamp.now() };
+  if (data.reversesEntryId === undefined) {
+    delete data.reversesEntryId;
+  }
+  
+  transaction.create(entryRef, data);
+  transaction.update(db.collection('users').doc(entry.userId), {
+    points: FieldValue.increment(entry.points),
+  });
+  
+  return entryRef.id;
+}
+
+/**
+ * Record the equal and opposite entry for an earlier ledger entry
+ * Must be called inside a transaction, after all of its reads, once the
+ * caller has checked the entry is not a reversal and not yet reversed.
+ * 
+ * @param transaction - Active Firestore transaction
+ * @param entryId - Entry to reverse
+ * @param entry - Data of the entry to reverse
+ * @param reason - Why the entry is being reversed
+ * @param actorUid - UID performing the reversal
+ * @returns ID of the reversal entry
+ */
+export function recordLedgerReversal(
+  transaction: FirebaseFirestore.Transaction,
+  entryId: string,
+  entry: { userId: string; points: number },
+  reason: string,
+  actorUid: string
+): string {
+  return recordLedgerEntry(transaction, {
+    userId: entry.userId,
+    points: -entry.points,
+    type: 'reversal',
+    sourceType: 'ledger',
+    sourceId: entryId,
+    description: reason,
+    reversesEntryId: entryId,
+    createdBy: actorUid,
+  });
+}
+
+/**
+ * Reverse a ledger entry by appending an equal and opposite entry
+ * 
+ * @param entryId - Entry to reverse
+ * @param reason - Why the entry is being reversed
+ * @param actorUid - UID performing the reversal
+ * @returns ID of the reversal entry
+ * @throws Error if entry not found, is itself a reversal, or was already reversed
+ */
+export async function reverseLedgerEntry(
+  entryId: string,
+  reason: string,
+  actorUid: string
+): Promise<string> {
+  try {
+    const db = getAdminFirestore();
+    
+    return await db.runTransaction(async (transaction) => {
+      const entryRef = db.collection(POINTS_LEDGER_COLLECTION).doc(entryId);
+      const entrySnapshot = await transaction.get(entryRef);
+      
+      const entry = entrySnapshot.data();
+      if (!entrySnapshot.exists || !entry) {
+        throw new Error('Ledger entry not found');
+      }
+      
+      if (entry.type === 'reversal') {
+        throw new Error('Cannot reverse a reversal');
+      }
+      
+      const existingReversal = await transaction.get(
+        db.collection(POINTS_LEDGER_COLLECTION)
+          .where('reversesEntryId', '==', entryId)
+          .limit(1)
+      );
+      
+      if (!existingReversal.empty) {
+        throw new Error('Ledger entry already reversed');
+      }
+      
+      return recordLedgerReversal(
+        transaction,
+        entryId,
+        { userId: entry.userId, points: entry.points },
+        reason,
+        actorUid
+      );
+    });
+  } catch (error) {
+    console.error('Error reversing ledger entry:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Ledger Retrieval
+// ============================================================================
+
+/**
+ * Get a user's ledger entries, newest first
+ * 
+ * @param userId - User UID
+ * @param limit - Maximum number of entries to return
+ * @returns Array of ledger entries
+ */
+export async function getLedgerEntries(
+  userId: string,
+  limit: number = 200
+): Promise<PointsLedgerEntry[]> {
+  try {
+    const db = getAdminFirestore();
+    const snapshot = await db.collection(POINTS_LEDGER_COLLECTION)
+      .where('userId', '==', userId)
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+    
+    return snapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    } as PointsLedgerEntry));
+  } catch (error) {
+    console.error('Error getting ledger entries:', error);
+    throw new Error('Failed to get ledger entries');
+  }
+}
+
+// ============================================================================
+// Projection Rebuild
+// ============================================================================
+
+/**
+ * Sum ledger entries per user
+ * 
+ * @param userId - Restrict to a single user (optional)
+ * @returns Map of user UID to ledger total, and the UIDs holding an opening_balance entry
+ */
+async function sumLedger(
+  userId?: string
+): Promise<{ totals: Map<string, number>; openingBalances: Set<string> }> {
+  const db = getAdminFirestore();
+  let query: FirebaseFirestore.Query = db.collection(POINTS_LEDGER_COLLECTION);
+  
+  if (userId) {
+    query = query.where('userId', '==', userId);
+  }
+  
+  const snapshot = await query.select('userId', 'points', 'type').get();
+  const totals = new Map<string, number>();
+  const openingBalances = new Set<string>();
+  
+  snapshot.forEach((doc) => {
+    const data = doc.data();
+    totals.set(data.userId, (totals.get(data.userId) ?? 0) + (data.points ?? 0));
+    
+    if (data.type === 'opening_balance') {
+      openingBalances.add(data.userId);
+    }
+  });
+  
+  return { totals, openingBalances };
+}
+
+/**
+ * Recompute one user's points from the ledger and store the result
+ * Runs in a transaction so concurrent ledger writes aren't lost
+ * 
+ * @param userId - User UID
+ * @returns Recomputed point total
+ * @throws Error if user not found
+ */
+export async function recomputeUserPoints(userId: string): Promise<number> {
+  try {
+    const db = getAdminFirestore();
+    
+    return await db.runTransaction(async (transaction) => {
+      const userRef = db.collection('users').doc(userId);
+      const userSnapshot = await transaction.get(userRef);
+      
+      if (!userSnapshot.exists) {
+        throw new Error('User not found');
+      }
+      
+      const entriesSnapshot = await transaction.get(
+        db.collection(POINTS_LEDGER_COLLECTION).where('userId', '==', userId)
+      );
+      
+      const total = entriesSnapshot.docs.reduce(
+        (sum, doc) => sum + (doc.data().points ?? 0),
+        0
+      );
+      
+      transaction.update(userRef, {
+        points: total,
+        updatedAt: Timestamp.now(),
+      });
+      
+      return total;
+    });
+  } catch (error) {
+    console.error('Error recomputing user points:', error);
+    throw error;
+  }
+}
+
+/**
+ * Compare every user's points projection with their ledger total
+ * When `apply` is set, mismatched users are recomputed from the ledger.
+ * Mismatched users without an opening_balance entry are reported as
+ * skipped and never recomputed: their legacy balance was never carried
+ * into the ledger, so recomputing would wipe it.
+ * 
+ * @param options.apply - Correct mismatches (default: report only)
+ * @param options.userId - Restrict to a single user (optional)
+ * @returns Reconciliation report
+ */
+export async function reconcilePoints(
+  options: { apply?: boolean; userId?: string } = {}
+): Promise<PointsReconcileReport> {
+  try {
+    const db = getAdminFirestore();
+    const { totals, openingBalances } = await sumLedger(options.userId);
+    
+    const userDocs = options.userId
+      ? [await db.collection('users').doc(options.userId).get()].filter((doc) => doc.exists)
+      : (await db.collection('users').select('displayName', 'points').get()).docs;
+    
+    const mismatches: PointsMismatch[] = [];
+    const skipped: PointsMismatch[] = [];
+    
+    for (const doc of userDocs) {
+      const data = doc.data() ?? {};
+      const projectedPoints = data.points ?? 0;
+      const ledgerPoints = totals.get(doc.id) ?? 0;
+      
+      if (projectedPoints !== ledgerPoints) {
+        const mismatch: PointsMismatch = {
+          userId: doc.id,
+          displayName: data.displayName || '',
+          projectedPoints,
+          ledgerPoints,
+        };
+        
+        if (openingBalances.has(doc.id)) {
+          mismatches.push(mismatch);
+        } else {
+          skipped.push(mismatch);
+        }
+      }
+    }
+    
+    if (options.apply) {
+      for (const mismatch of mismatches) {
+        mismatch.ledgerPoints = await recomputeUserPoints(mismatch.userId);
+      }
+    }
+    
+    return {
+      usersChecked: userDocs.length,
+      mismatches,
+      skipped,
+      applied: options.apply ?? false,
+    };
+  } catch (error) {
+    console.error('Error reconciling points:', error);
+    throw error;
+  }
+}
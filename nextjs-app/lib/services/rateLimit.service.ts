@@ -0,0 +1,280 @@
+import 'server-only';
+import { getAdminFirestore } from '../firebase/admin';
+import type { RateLimitPolicy, RateLimitResult } from '../types';
+import { Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * Rate Limit Service
+ * 
+ * Server-side service for request throttling including:
+ * - Sliding-window request counters stored in Firestore (rateLimits)
+ * - Temporary lockouts after repeated failed attempts
+ * - Logging suspicious bursts for admin review (suspiciousActivity)
+ * 
+ * Each subject (user or IP) gets its own document per policy so that
+ * limits hold across serverless instances.
+ */
+
+// ============================================================================
+// Policies
+// ============================================================================
+
+/**
+ * Attendance code submission: 10 attempts per user per minute, and a
+ * 15 minute lockout after 5 invalid codes within 10 minutes.
+ * IP limits are looser because a whole event shares the campus network.
+ */
+export const ATTENDANCE_SUBMIT_POLICY: RateLimitPolicy = {
+  name: 'attendance-submit',
+  limit: 10,
+  ipLimit: 200,
+  windowMs: 60 * 1000,
+  maxFailures: 5,
+  ipMaxFailures: 50,
+  failureWindowMs: 10 * 60 * 1000,
+  lockoutMs: 15 * 60 * 1000,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Subject a rate limit is keyed on
+ */
+export interface RateLimitSubject {
+  subject: 'user' | 'ip';
+  value: string;
+  userId?: string;
+  ip?: string;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Build the Firestore document ID for a policy and subject
+ */
+function getRateLimitDocId(policy: RateLimitPolicy, subject: RateLimitSubject): string {
+  // Document IDs cannot contain forward slashes
+  return `${policy.name}:${subject.subject}:${subject.value}`.replace(/\//g, '_');
+}
+
+/**
+ * Drop timestamps that have fallen out of a sliding window
+ */
+function pruneWindow(timestamps: number[] | undefined, windowMs: number, now: number): number[] {
+  return (timestamps || []).filter((timestamp) => timestamp > now - windowMs);
+}
+
+/**
+ * Record a suspicious activity entry for admin review
+ */
+function logSuspiciousActivity(
+  transaction: FirebaseFirestore.Transaction,
+  entry: Record<string, any>
+): void {
+  const db = getAdminFirestore();
+  const activityRef = db.collection('suspiciousActivity').doc();
+  
+  // Firestore rejects undefined values
+  const data = Object.fromEntries(
+    Object.entries(entry).filter(([, value]) => value !== undefined)
+  );
+  
+  transaction.set(activityRef, {
+    ...data,
+    createdAt: Timestamp.now(),
+  });
+}
+
+// ============================================================================
+// Rate Limit Operations
+// ============================================================================
+
+/**
+ * Check and consume one request from a subject's sliding window
+ * Blocked requests are not counted against the window
+ * 
+ * @param policy - Rate limit policy
+ * @param subject - User or IP being limited
+ * @returns RateLimitResult indicating whether the request may proceed
+ */
+export async function consumeRateLimit(
+  policy: RateLimitPolicy,
+  subject: RateLimitSubject
+): Promise<RateLimitResult> {
+  const db = getAdminFirestore();
+  const limitRef = db.collection('rateLimits').doc(getRateLimitDocId(policy, subject));
+  
+  return db.runTransaction(async (transaction) => {
+    const limitDoc = await transaction.get(limitRef);
+    const data = limitDoc.data() || {};
+    const now = Date.now();
+    
+    // Active lockout
+    const lockedUntil = data.lockedUntil as Timestamp | undefined;
+    if (lockedUntil && lockedUntil.toMillis() > now) {
+      return {
+        allowed: false,
+        reason: 'locked_out' as const,
+        retryAfterMs: lockedUntil.toMillis() - now,
+      };
+    }
+    
+    const hits = pruneWindow(data.hits, policy.windowMs, now);
+    const limit = subject.subject === 'ip' ? policy.ipLimit ?? policy.limit : policy.limit;
+    
+    if (hits.length >= limit) {
+      // Log the burst once per window
+      const burstLoggedAt = data.burstLoggedAt as number | undefined;
+      if (!burstLoggedAt || burstLoggedAt <= now - policy.windowMs) {
+        logSuspiciousActivity(transaction, {
+          type: 'submission_burst',
+          policy: policy.name,
+          subject: subject.subject,
+          userId: subject.userId,
+          ip: subject.ip,
+          count: hits.length + 1,
+          windowMs: policy.windowMs,
+        });
+        transaction.set(limitRef, { burstLoggedAt: now }, { merge: true });
+      }
+      
+      return {
+        allowed: false,
+        reason: 'rate_limited' as const,
+        retryAfterMs: hits[0] + policy.windowMs - now,
+      };
+    }
+    
+    transaction.set(
+      limitRef,
+      {
+        policy: policy.name,
+        subject: subject.subject,
+        hits: [...hits, now],
+        updatedAt: Timestamp.now(),
+      },
+      { merge: true }
+    );
+    
+    return { allowed: true };
+  });
+}
+
+/**
+ * Record a failed attempt (e.g. an invalid attendance code)
+ * Starts a temporary lockout once the policy's failure threshold is reached
+ * 
+ * @param policy - Rate limit policy (must define maxFailures)
+ * @param subject - User or IP that failed
+ * @returns True if this failure triggered a lockout
+ */
+export async function recordRateLimitFailure(
+  policy: RateLimitPolicy,
+  subject: RateLimitSubject
+): Promise<boolean> {
+  const maxFailures = subject.subject === 'ip'
+    ? policy.ipMaxFailures ?? policy.maxFailures
+    : policy.maxFailures;
+  const { failureWindowMs, lockoutMs } = policy;
+  
+  if (!maxFailures || !failureWindowMs || !lockoutMs) {
+    return false;
+  }
+  
+  const db = getAdminFirestore();
+  const limitRef = db.collection('rateLimits').doc(getRateLimitDocId(policy, subject));
+  
+  return db.runTransaction(async (transaction) => {
+    const limitDoc = await transaction.get(limitRef);
+    const data = limitDoc.data() || {};
+    const now = Date.now();
+    
+    const failures = [...pruneWindow(data.failures, failureWindowMs, now), now];
+    
+    if (failures.length >= maxFailures) {
+      const lockedUntil = Timestamp.fromMillis(now + lockoutMs);
+      
+      transaction.set(
+        limitRef,
+        {
+          failures: [],
+          lockedUntil,
+          updatedAt: Timestamp.now(),
+        },
+        { merge: true }
+      );
+      
+      logSuspiciousActivity(transaction, {
+        type: 'lockout',
+        policy: policy.name,
+        subject: subject.subject,
+        userId: subject.userId,
+        ip: subject.ip,
+        count: failures.length,
+        windowMs: failureWindowMs,
+        lockedUntil,
+      });
+      
+      return true;
+    }
+    
+    transaction.set(
+      limitRef,
+      {
+        failures,
+        updatedAt: Timestamp.now(),
+      },
+      { merge: true }
+    );
+    
+    return false;
+  });
+}
+
+/**
+ * Clear recorded failures after a successful attempt
+ * 
+ * @param policy - Rate limit policy
+ * @param subject - User or IP that succeeded
+ */
+export async function resetRateLimitFailures(
+  policy: RateLimitPolicy,
+  subject: RateLimitSubject
+): Promise<void> {
+  const db = getAdminFirestore();
+  const limitRef = db.collection('rateLimits').doc(getRateLimitDocId(policy, subject));
+  
+  await limitRef.set({ failures: [], updatedAt: Timestamp.now() }, { merge: true });
+}
+
+// ============================================================================
+// Suspicious Activity
+// ============================================================================
+
+/**
+ * Get the most recent suspicious activity entries (admin only)
+ * 
+ * @param limit - Maximum number of entries to return
+ * @returns Suspicious activity entries, newest first
+ */
+export async function getSuspiciousActivity(limit: number = 100): Promise<FirebaseFirestore.DocumentData[]> {
+  try {
+    const db = getAdminFirestore();
+    const snapshot = await db.collection('suspiciousActivity')
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+    
+    return snapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    }));
+  } catch (error) {
+    console.error('Error getting suspicious activity:', error);
+    throw new Error('Failed to get suspicious activity');
+  }
+}
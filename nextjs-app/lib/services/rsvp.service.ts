@@ -0,0 +1,284 @@
+import 'server-only';
+import { getAdminFirestore } from '../firebase/admin';
+import type { CancelRsvpResult, RsvpListEntry, RsvpResult } from '../types';
+import { Timestamp } from 'firebase-admin/firestore';
+
+/**
+ * RSVP Service
+ * 
+ * Server-side service for event RSVPs including:
+ * - Transactional RSVP with optional capacity limits
+ * - FIFO waitlist with automatic promotion when seats free up
+ * - RSVP list retrieval for admin export
+ */
+
+// ============================================================================
+// RSVP Operations
+// ============================================================================
+
+/**
+ * RSVP a user to an event
+ * Uses Firestore transaction to atomically:
+ * - Validate the event is still open for RSVPs
+ * - Check user hasn't already RSVPed or joined the waitlist
+ * - Confirm the RSVP if a seat is free, otherwise append to the waitlist
+ * 
+ * @param eventId - Event ID
+ * @param userId - User RSVPing
+ * @returns RsvpResult with confirmed/waitlisted status
+ * @throws Error if event not found, closed, or user already RSVPed
+ */
+export async function rsvpToEvent(
+  eventId: string,
+  userId: string
+): Promise<RsvpResult> {
+  try {
+    const db = getAdminFirestore();
+    
+    return await db.runTransaction(async (transaction) => {
+      const eventRef = db.collection('events').doc(eventId);
+      const eventSnapshot = await transaction.get(eventRef);
+      
+      if (!eventSnapshot.exists) {
+        throw new Error('Event not found');
+      }
+      
+      const eventData = eventSnapshot.data();
+      if (!eventData) {
+        throw new Error('Data not found');
+      }
+      
+      if (eventData.status === 'completed' || eventData.status === 'cancelled') {
+        throw new Error('Event is closed');
+      }
+      
+      const rsvps: string[] = eventData.rsvps || [];
+      const waitlist: string[] = eventData.waitlist || [];
+      
+      if (rsvps.includes(userId) || waitlist.includes(userId)) {
+        throw new Error('Already RSVPed');
+      }
+      
+      const capacity: number | null = eventData.capacity ?? null;
+      
+      if (capacity === null || rsvps.length < capacity) {
+        transaction.update(eventRef, {
+          rsvps: [...rsvps, userId],
+          updatedAt: Timestamp.now(),
+        });
+        
+        return { status: 'confirmed' };
+      }
+      
+      transaction.update(eventRef, {
+        waitlist: [...waitlist, userId],
+        updatedAt: Timestamp.now(),
+      });
+      
+      return { status: 'waitlisted', position: waitlist.length + 1 };
+    });
+  } catch (error) {
+    console.error('Error creating RSVP:', error);
+    throw error;
+  }
+}
+
+/**
+ * Cancel a user's RSVP or leave the waitlist
+ * Uses Firestore transaction so the freed seat is handed to the
+ * first waitlisted user in the same write
+ * 
+ * @param eventId - Event ID
+ * @param userId - User cancelling
+ * @returns CancelRsvpResult with the promoted user, if any
+ * @throws Error if event not found or user has no RSVP
+ */
+export async function cancelRsvp(
+  eventId: string,
+  userId: string
+): Promise<CancelRsvpResult> {
+  try {
+    const db = getAdminFirestore();
+    
+    return await db.runTransaction(async (transaction) => {
+      const eventRef = db.collection('events').doc(eventId);
+      const eventSnapshot = await transaction.get(eventRef);
+      
+      if (!eventSnapshot.exists) {
+        throw new Error('Event not found');
+      }
+      
+      const eventData = eventSnapshot.data();
+      if (!eventData) {
+        throw new Error('Data not found');
+      }
+      
+      const rsvps: string[] = eventData.rsvps || [];
+      const waitlist: string[] = eventData.waitlist || [];
+      
+      // Leaving the waitlist never frees a seat
+      if (waitlist.includes(userId)) {
+        transaction.update(eventRef, {
+          waitlist: waitlist.filter((id) => id !== userId),
+          updatedAt: Timestamp.now(),
+        });
+        
+        return {};
+      }
+      
+      if (!rsvps.includes(userId)) {
+        throw new Error('RSVP not found');
+      }
+      
+      const promotion = fillOpenSeats(
+        rsvps.filter((id) => id !== userId),
+        waitlist,
+        eventData.capacity ?? null
+      );
+      
+      transaction.update(eventRef, {
+        rsvps: promotion.rsvps,
+        waitlist: promotion.waitlist,
+        updatedAt: Timestamp.now(),
+      });
+      
+      return promotion.promoted.length > 0
+        ? { promotedUserId: promotion.promoted[0] }
+        : {};
+    });
+  } catch (error) {
+    console.error('Error cancelling RSVP:', error);
+    throw error;
+  }
+}
+
+/**
+ * Promote waitlisted users into any open seats
+ * Called after an event's capacity changes
+ * 
+ * @param eventId - Event ID
+ * @returns UIDs of promoted users, in promotion order
+ */
+export async function promoteFromWaitlist(eventId: string): Promise<string[]> {
+  try {
+    const db = getAdminFirestore();
+    
+    return await db.runTransaction(async (transaction) => {
+      const eventRef = db.collection('events').doc(eventId);
+      const eventSnapshot = await transaction.get(eventRef);
+      
+      const eventData = eventSnapshot.data();
+      if (!eventSnapshot.exists || !eventData) {
+        throw new Error('Event not found');
+      }
+      
+      const promotion = fillOpenSeats(
+        eventData.rsvps || [],
+        eventData.waitlist || [],
+        eventData.capacity ?? null
+      );
+      
+      if (promotion.promoted.length > 0) {
+        transaction.update(eventRef, {
+          rsvps: promotion.rsvps,
+          waitlist: promotion.waitlist,
+          updatedAt: Timestamp.now(),
+        });
+      }
+      
+      return promotion.promoted;
+    });
+  } catch (error) {
+    console.error('Error promoting from waitlist:', error);
+    throw error;
+  }
+}
+
+/**
+ * Move users from the head of the waitlist into free seats
+ * An unlimited capacity empties the waitlist entirely
+ */
+function fillOpenSeats(
+  rsvps: string[],
+  waitlist: string[],
+  capacity: number | null
+): { rsvps: string[]; waitlist: string[]; promoted: string[] } {
+  const openSeats = capacity === null
+    ? waitlist.length
+    : Math.max(0, capacity - rsvps.length);
+  const promoted = waitlist.slice(0, openSeats);
+  
+  return {
+    rsvps: [...rsvps, ...promoted],
+    waitlist: waitlist.slice(promoted.length),
+    promoted,
+  };
+}
+
+// ============================================================================
+// RSVP Lists
+// ============================================================================
+
+/**
+ * Get the full RSVP list for an event
+ * Confirmed RSVPs first, then the waitlist, each in order
+ * 
+ * @param eventId - Event ID
+ * @returns Array of RSVP entries with user details
+ * @throws Error if event not found
+ */
+export async function getRsvpList(eventId: string): Promise<RsvpListEntry[]> {
+  try {
+    const db = getAdminFirestore();
+    const eventDoc = await db.collection('events').doc(eventId).get();
+    
+    const eventData = eventDoc.data();
+    if (!eventDoc.exists || !eventData) {
+      throw new Error('Event not found');
+    }
+    
+    const rsvps: string[] = eventData.rsvps || [];
+    const waitlist: string[] = eventData.waitlist || [];
+    const attendees: string[] = eventData.attendees || [];
+    const userIds = [...rsvps, ...waitlist];
+    
+    // Firestore 'in' query supports up to 10 items, so batch if needed
+    const usersById = new Map<string, FirebaseFirestore.DocumentData>();
+    
+    for (let i = 0; i < userIds.length; i += 10) {
+      const batch = userIds.slice(i, i + 10);
+      const usersSnapshot = await db.collection('users')
+        .where('__name__', 'in', batch)
+        .get();
+      
+      usersSnapshot.forEach((doc) => {
+        usersById.set(doc.id, doc.data());
+      });
+    }
+    
+    const toEntry = (
+      userId: string,
+      status: RsvpListEntry['status'],
+      index: number
+    ): RsvpListEntry => {
+      const data = usersById.get(userId);
+      return {
+        userId,
+        displayName: data?.displayName || '',
+        email: data?.email || '',
+        ttuEmail: data?.ttuEmail,
+        status,
+        position: index + 1,
+        attended: attendees.includes(userId),
+      };
+    };
+    
+    return [
+      ...rsvps.map((userId, index) => toEntry(userId, 'confirmed', index)),
+      ...waitlist.map((userId, index) => toEntry(userId, 'waitlisted', index)),
+    ];
+  } catch (error) {
+    console.error('Error getting RSVP list:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,116 @@
+import 'server-only';
+import { getAdminAuth, getAdminFirestore } from '../firebase/admin';
+import {
+  ONBOARDED_CLAIM,
+  SESSION_MAX_AGE_SECONDS,
+  SESSION_ROTATE_AFTER_SECONDS,
+} from '../constants/session';
+
+/**
+ * Session Service
+ * 
+ * Server-side service for cookie sessions including:
+ * - Minting Firebase session cookies from ID tokens (Admin createSessionCookie)
+ * - Revocation checks when minting and rotating
+ * - Rotating sessions once they pass the rotation age
+ * - Keeping the onboarded custom claim in step with the user profile so the
+ *   edge middleware can gate onboarded-only pages without a database read
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Outcome of establishing a session
+ * - created: a new session cookie was minted
+ * - unchanged: the existing cookie is still fresh and matches the user
+ * - refresh-required: custom claims changed; the client must force-refresh
+ *   its ID token and try again
+ */
+export type SessionResult =
+  | { status: 'created'; sessionCookie: string }
+  | { status: 'unchanged' }
+  | { status: 'refresh-required' };
+
+// ============================================================================
+// Session Management
+// ============================================================================
+
+/**
+ * Sync the onboarded custom claim with the user's profile
+ * 
+ * @param uid - User UID
+ * @param tokenClaim - Claim value on the presented ID token
+ * @returns True if the claim changed (the token is now stale)
+ */
+async function syncOnboardedClaim(uid: string, tokenClaim: boolean): Promise<boolean> {
+  const db = getAdminFirestore();
+  const userDoc = await db.collection('users').doc(uid).get();
+  const onboarded = userDoc.data()?.hasCompletedOnboarding === true;
+  
+  if (onboarded === tokenClaim) {
+    return false;
+  }
+  
+  const auth = getAdminAuth();
+  const userRecord = await auth.getUser(uid);
+  await auth.setCustomUserClaims(uid, {
+    ...userRecord.customClaims,
+    [ONBOARDED_CLAIM]: onboarded,
+  });
+  
+  return true;
+}
+
+/**
+ * Establish (or rotate) a session from a fresh ID token
+ * 
+ * @param idToken - Firebase ID token from the client
+ * @param existingCookie - Current session cookie, if any
+ * @returns Session result
+ * @throws Error if the ID token is invalid or revoked
+ */
+export async function createSession(
+  idToken: string,
+  existingCookie?: string
+): Promise<SessionResult> {
+  try {
+    const auth = getAdminAuth();
+    
+    // checkRevoked rejects tokens issued before a sign-out or account disable
+    const decodedToken = await auth.verifyIdToken(idToken, true);
+    const tokenClaim = decodedToken[ONBOARDED_CLAIM] === true;
+    
+    if (await syncOnboardedClaim(decodedToken.uid, tokenClaim)) {
+      return { status: 'refresh-required' };
+    }
+    
+    // Keep a fresh, matching session instead of minting on every page load
+    if (existingCookie) {
+      try {
+        const session = await auth.verifySessionCookie(existingCookie, true);
+        const ageSeconds = Date.now() / 1000 - session.iat;
+        
+        if (
+          session.uid === decodedToken.uid &&
+          (session[ONBOARDED_CLAIM] === true) === tokenClaim &&
+          ageSeconds < SESSION_ROTATE_AFTER_SECONDS
+        ) {
+          return { status: 'unchanged' };
+        }
+      } catch {
+        // Expired, revoked or malformed - mint a new one below
+      }
+    }
+    
+    const sessionCookie = await auth.createSessionCookie(idToken, {
+      expiresIn: SESSION_MAX_AGE_SECONDS * 1000,
+    });
+    
+    return { status: 'created', sessionCookie };
+  } catch (error) {
+    console.error('Error creating session:', error);
+    throw error;
+  }
+}
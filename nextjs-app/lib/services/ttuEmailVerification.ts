@@ -1,114 +1,213 @@
 import 'server-only';
-import { Resend } from 'resend';
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
 import { getAdminFirestore, getAdminAuth } from '../firebase/admin';
-import { Timestamp } from 'firebase-admin/firestore';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { sendEmail } from '../email';
+import { enqueueJob, type JobPayloads } from '../jobs';
+import { getStudentVerifiedFields } from './membership.service';
+import type {
+  VerificationAttemptAction,
+  VerificationAttemptOutcome,
+  VerificationCheckResult,
+  VerificationSendResult,
+} from '../types';
 
-// Initialize Resend client
-const resend = new Resend(process.env.RESEND_API_KEY);
+/**
+ * TTU Email Verification Service
+ * 
+ * Server-side verification of members' TTU email addresses including:
+ * - 6-digit codes from a CSPRNG, stored only as salted hashes
+ * - Constant-time code comparison
+ * - Resend cooldowns and a daily send cap per user and per email address
+ * - A temporary lockout after too many wrong codes (the account is kept)
+ * - An attempt log of every send and verify step (verificationAttempts)
+ * - Code emails sent through the job queue, so failed sends are retried
+ * - Removal of accounts abandoned before verification
+ */
+
+// Minutes a code stays valid, and wrong entries allowed before a lockout
+const CODE_TTL_MINUTES = 10;
+const MAX_CODE_ATTEMPTS = 3;
+const LOCKOUT_MINUTES = 15;
 
-// Verification code interface
+// Minimum time between codes, and codes allowed per rolling day,
+// each enforced per user and per email address
+const RESEND_COOLDOWN_SECONDS = 60;
+const DAILY_SEND_LIMIT = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Accounts still not onboarded this long after sign-up are removed
+const ABANDONED_ACCOUNT_HOURS = 24;
+const CLEANUP_BATCH_SIZE = 100;
+
+const CODES_COLLECTION = 'verificationCodes';
+const SEND_LIMITS_COLLECTION = 'verificationSendLimits';
+const ATTEMPTS_COLLECTION = 'verificationAttempts';
+
+// Verification code document (verificationCodes/{uid})
 interface VerificationCode {
-  code: string;
+  codeHash?: string;             // Removed once the code is used up by a lockout
+  salt?: string;
   email: string;
   uid: string;
   createdAt: Timestamp;
   expiresAt: Timestamp;
   attempts: number;
+  lockedUntil?: Timestamp;
+  requestedAt?: number;          // Epoch ms of the request this code answers
+}
+
+/**
+ * Request details recorded in the attempt log
+ */
+export interface VerificationRequestMeta {
+  ip?: string | null;
+  userAgent?: string | null;
 }
 
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
 /**
  * Generate a random 6-digit verification code
  */
 function generateVerificationCode(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString();
+  return randomInt(100000, 1000000).toString();
+}
+
+/**
+ * Hash a code with its per-code salt
+ */
+function hashCode(code: string, salt: string): string {
+  return createHash('sha256').update(`${salt}:${code}`).digest('hex');
 }
 
 /**
- * Send verification code to TTU email address
- * Generates a 6-digit code, stores it in Firestore with 10-minute expiration,
- * and sends it via email using Resend
+ * Compare an entered code against a stored hash in constant time
+ */
+function codeMatches(code: string, salt: string, codeHash: string): boolean {
+  const expected = Buffer.from(codeHash, 'hex');
+  const actual = Buffer.from(hashCode(code, salt), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Normalize an email address for limits and logging
+ */
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Drop send timestamps older than a day
+ */
+function recentSends(sends: number[] | undefined, now: number): number[] {
+  return (sends || []).filter((timestamp) => timestamp > now - DAY_MS);
+}
+
+/**
+ * Record a step in the verification attempt log
+ * The log is best-effort and never fails the request.
+ */
+async function logVerificationAttempt(
+  uid: string,
+  email: string | undefined,
+  action: VerificationAttemptAction,
+  outcome: VerificationAttemptOutcome,
+  meta: VerificationRequestMeta
+): Promise<void> {
+  try {
+    const db = getAdminFirestore();
+    const entry = { uid, email, action, outcome, ip: meta.ip, userAgent: meta.userAgent };
+    
+    // Firestore rejects undefined values
+    const data = Object.fromEntries(
+      Object.entries(entry).filter(([, value]) => value !== undefined && value !== null)
+    );
+    
+    await db.collection(ATTEMPTS_COLLECTION).add({
+      ...data,
+      createdAt: Timestamp.now(),
+    });
+  } catch (error) {
+    console.error('Error logging verification attempt:', error);
+  }
+}
+
+// ============================================================================
+// Verification Operations
+// ============================================================================
+
+/**
+ * Request a verification code for a TTU email address
+ * Enforces the lockout, resend cooldowns and daily cap, then enqueues an
+ * email.verification-code job that creates and emails the code (see
+ * deliverVerificationCode). Callers may run the job right away.
  * 
  * @param ttuEmail - The TTU email address to send the code to
  * @param uid - The Firebase user ID
- * @throws Error if email sending fails or Firestore operation fails
+ * @param meta - Request details for the attempt log
+ * @returns Whether the code was requested (with the job sending it), and
+ *   when to retry if it was not
+ * @throws Error if the Firestore operation fails
  */
 export async function sendVerificationCode(
   ttuEmail: string,
-  uid: string
-): Promise<void> {
+  uid: string,
+  meta: VerificationRequestMeta = {}
+): Promise<VerificationSendResult> {
+  const email = normalizeEmail(ttuEmail);
+  let result: VerificationSendResult & { requestedAt?: number };
+  
   try {
     const db = getAdminFirestore();
-    const code = generateVerificationCode();
-    
-    // Calculate expiration time (10 minutes from now)
-    const now = Timestamp.now();
-    const expiresAt = Timestamp.fromMillis(now.toMillis() + 10 * 60 * 1000);
-    
-    // Store verification code in Firestore
-    const verificationData: VerificationCode = {
-      code,
-      email: ttuEmail,
-      uid,
-      createdAt: now,
-      expiresAt,
-      attempts: 0,
-    };
-    
-    console.log('Attempting to store verification code for UID:', uid);
-    
-    // Store in verificationCodes collection with UID as document ID
-    await db.collection('verificationCodes').doc(uid).set(verificationData);
-    
-    console.log('Verification code stored successfully');
-    
-    // Send email using Resend
-    console.log('Sending verification email to:', ttuEmail);
-    
-    const emailResult = await resend.emails.send({
-      from: 'MLH TTU <verify@mlhttu.org>',
-      to: ttuEmail,
-      subject: 'Verify your TTU Email - MLH TTU',
-      html: `
-        <!DOCTYPE html>
-        <html>
-          <head>
-            <meta charset="utf-8">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <title>Verify your TTU Email</title>
-          </head>
-          <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
-            <div style="background-color: #f8f9fa; border-radius: 10px; padding: 30px; margin-bottom: 20px;">
-              <h1 style="color: #cc0000; margin-top: 0;">Welcome to MLH TTU!</h1>
-              <p style="font-size: 16px; margin-bottom: 20px;">
-                Thank you for signing up. To complete your registration, please verify your TTU email address.
-              </p>
-              <div style="background-color: #fff; border: 2px solid #cc0000; border-radius: 8px; padding: 20px; text-align: center; margin: 30px 0;">
-                <p style="font-size: 14px; color: #666; margin-bottom: 10px;">Your verification code is:</p>
-                <p style="font-size: 36px; font-weight: bold; color: #cc0000; letter-spacing: 8px; margin: 10px 0;">
-                  ${code}
-                </p>
-              </div>
-              <p style="font-size: 14px; color: #666;">
-                This code will expire in <strong>10 minutes</strong>.
-              </p>
-              <p style="font-size: 14px; color: #666;">
-                You have <strong>3 attempts</strong> to enter the correct code. After 3 failed attempts, you'll need to wait a few minutes before trying again.
-              </p>
-            </div>
-            <div style="font-size: 12px; color: #999; text-align: center; margin-top: 20px;">
-              <p>If you didn't request this verification code, please ignore this email.</p>
-              <p>&copy; ${new Date().getFullYear()} MLH TTU. All rights reserved.</p>
-            </div>
-          </body>
-        </html>
-      `,
+    const codeRef = db.collection(CODES_COLLECTION).doc(uid);
+    const limitRefs = [
+      db.collection(SEND_LIMITS_COLLECTION).doc(`uid:${uid}`),
+      db.collection(SEND_LIMITS_COLLECTION).doc(`email:${email}`.replace(/\//g, '_')),
+    ];
+    
+    result = await db.runTransaction(async (transaction) => {
+      const [codeDoc, ...limitDocs] = await transaction.getAll(codeRef, ...limitRefs);
+      const now = Date.now();
+      
+      // Active lockout from wrong codes
+      const lockedUntil = (codeDoc.data() as VerificationCode | undefined)?.lockedUntil;
+      if (lockedUntil && lockedUntil.toMillis() > now) {
+        return { sent: false, reason: 'locked_out' as const, retryAfterMs: lockedUntil.toMillis() - now };
+      }
+      
+      const sends = limitDocs.map((limitDoc) => recentSends(limitDoc.data()?.sends, now));
+      
+      // Resend cooldown (per user and per email)
+      const lastSent = Math.max(0, ...sends.flat());
+      if (lastSent > now - RESEND_COOLDOWN_SECONDS * 1000) {
+        return {
+          sent: false,
+          reason: 'cooldown' as const,
+          retryAfterMs: lastSent + RESEND_COOLDOWN_SECONDS * 1000 - now,
+        };
+      }
+      
+      // Daily cap (per user and per email)
+      const capped = sends.filter((timestamps) => timestamps.length >= DAILY_SEND_LIMIT);
+      if (capped.length > 0) {
+        return {
+          sent: false,
+          reason: 'daily_limit' as const,
+          retryAfterMs: Math.max(...capped.map((timestamps) => timestamps[0] + DAY_MS - now)),
+        };
+      }
+      
+      limitRefs.forEach((limitRef, index) => {
+        transaction.set(limitRef, { sends: [...sends[index], now], updatedAt: Timestamp.fromMillis(now) });
+      });
+      
+      return { sent: true, requestedAt: now };
     });
-    
-    console.log('Verification email sent successfully:', emailResult);
   } catch (error: any) {
     console.error('Error in sendVerificationCode:', error);
-    console.error('Error code:', error.code);
-    console.error('Error message:', error.message);
     
     if (error.code === 'permission-denied' || error.message?.includes('permission')) {
       throw new Error('Database permission error. Please contact support.');
@@ -116,149 +215,212 @@ export async function sendVerificationCode(
     
     throw new Error('Failed to send verification code. Please try again.');
   }
+  
+  if (!result.sent || !result.requestedAt) {
+    await logVerificationAttempt(uid, email, 'send', result.reason ?? 'cooldown', meta);
+    return { sent: false, reason: result.reason, retryAfterMs: result.retryAfterMs };
+  }
+  
+  const { id: jobId } = await enqueueJob('email.verification-code', {
+    uid,
+    email: ttuEmail,
+    requestedAt: result.requestedAt,
+    ip: meta.ip ?? null,
+    userAgent: meta.userAgent ?? null,
+  }, {
+    idempotencyKey: `verification-code:${uid}:${result.requestedAt}`,
+  });
+  
+  return { sent: true, retryAfterMs: RESEND_COOLDOWN_SECONDS * 1000, jobId };
 }
 
 /**
- * Verify the entered code against the stored code
- * Checks if the code is correct and not expired
+ * Create a code and email it (the email.verification-code job)
+ * Stores a salted hash of a new 6-digit code with a 10-minute expiration,
+ * replacing any earlier code. Skipped if the user was locked out or asked
+ * for a newer code in the meantime; each retry sends a fresh code.
  * 
- * @param uid - The Firebase user ID
- * @param code - The verification code entered by the user
- * @returns true if code is correct and not expired, false otherwise
- * @throws Error if verification document not found or Firestore operation fails
+ * @param request - Job payload from sendVerificationCode
+ * @returns Whether an email was sent
+ * @throws Error if the email could not be sent (the job retries it)
  */
-export async function verifyCode(uid: string, code: string): Promise<boolean> {
+export async function deliverVerificationCode(
+  request: JobPayloads['email.verification-code']
+): Promise<{ delivered: boolean }> {
+  const { uid, email: ttuEmail, requestedAt } = request;
+  const email = normalizeEmail(ttuEmail);
+  const meta = { ip: request.ip, userAgent: request.userAgent };
   const db = getAdminFirestore();
+  const codeRef = db.collection(CODES_COLLECTION).doc(uid);
   
-  try {
-    const verificationDoc = await db.collection('verificationCodes').doc(uid).get();
+  const code = await db.runTransaction(async (transaction) => {
+    const codeDoc = await transaction.get(codeRef);
+    const existing = codeDoc.data() as VerificationCode | undefined;
+    const now = Date.now();
     
-    if (!verificationDoc.exists) {
-      throw new Error('Verification code not found. Please request a new code.');
+    if (existing?.lockedUntil && existing.lockedUntil.toMillis() > now) {
+      return null;
     }
     
-    const verificationData = verificationDoc.data() as VerificationCode;
-    
-    // Check if code has expired
-    const now = Timestamp.now();
-    if (now.toMillis() > verificationData.expiresAt.toMillis()) {
-      throw new Error('Verification code has expired. Please request a new code.');
+    if (existing?.requestedAt && existing.requestedAt > requestedAt) {
+      return null;
     }
     
-    // Check if code matches
-    if (verificationData.code !== code) {
-      return false;
-    }
+    const newCode = generateVerificationCode();
+    const salt = randomBytes(16).toString('hex');
     
-    // Code is correct - mark TTU email as verified in user profile
-    await db.collection('users').doc(uid).update({
-      ttuEmailVerified: true,
-      updatedAt: now,
-    });
+    const verificationData: VerificationCode = {
+      codeHash: hashCode(newCode, salt),
+      salt,
+      email,
+      uid,
+      createdAt: Timestamp.fromMillis(now),
+      expiresAt: Timestamp.fromMillis(now + CODE_TTL_MINUTES * 60 * 1000),
+      attempts: 0,
+      requestedAt,
+    };
     
-    // Delete verification code document after successful verification
-    await db.collection('verificationCodes').doc(uid).delete();
+    // Replaces any earlier code for the user
+    transaction.set(codeRef, verificationData);
     
-    return true;
-  } catch (error) {
-    console.error('Error verifying code:', error);
-    throw error;
+    return newCode;
+  });
+  
+  if (!code) {
+    return { delivered: false };
   }
-}
-
-/**
- * Increment the number of failed verification attempts
- * Returns the updated attempt count
- * 
- * @param uid - The Firebase user ID
- * @returns The updated number of attempts
- * @throws Error if verification document not found or Firestore operation fails
- */
-export async function incrementAttempts(uid: string): Promise<number> {
-  const db = getAdminFirestore();
   
   try {
-    const verificationDoc = await db.collection('verificationCodes').doc(uid).get();
-    
-    if (!verificationDoc.exists) {
-      throw new Error('Verification code not found.');
-    }
-    
-    const verificationData = verificationDoc.data() as VerificationCode;
-    const newAttempts = verificationData.attempts + 1;
-    
-    // Update attempts count
-    await db.collection('verificationCodes').doc(uid).update({
-      attempts: newAttempts,
-    });
-    
-    return newAttempts;
+    await sendEmail(
+      'verification-code',
+      ttuEmail,
+      { code, expiresInMinutes: CODE_TTL_MINUTES, maxAttempts: MAX_CODE_ATTEMPTS },
+      { context: { uid } }
+    );
   } catch (error) {
-    console.error('Error incrementing attempts:', error);
-    throw error;
+    console.error('Error sending verification email:', error);
+    await logVerificationAttempt(uid, email, 'send', 'send_failed', meta);
+    throw new Error('Failed to send verification code');
   }
+  
+  await logVerificationAttempt(uid, email, 'send', 'sent', meta);
+  return { delivered: true };
 }
 
 /**
- * Apply rate limiting after failed verification attempts
- * Sets a cooldown period of 5 minutes before user can try again
+ * Verify the entered code against the stored hash
+ * A correct, unexpired code marks the user's TTU email as verified (and
+ * their student status confirmed for the academic year) and is deleted.
+ * Each wrong code counts against the attempt limit; reaching it discards
+ * the code and locks the user out of verifying and requesting codes for
+ * 15 minutes.
  * 
  * @param uid - The Firebase user ID
+ * @param code - The verification code entered by the user
+ * @param meta - Request details for the attempt log
+ * @returns Whether the code was accepted, and why not if it was not
  * @throws Error if Firestore operation fails
  */
-export async function applyRateLimit(uid: string): Promise<void> {
+export async function verifyCode(
+  uid: string,
+  code: string,
+  meta: VerificationRequestMeta = {}
+): Promise<VerificationCheckResult> {
   const db = getAdminFirestore();
+  const codeRef = db.collection(CODES_COLLECTION).doc(uid);
   
   try {
-    const now = Timestamp.now();
-    const cooldownEnd = Timestamp.fromMillis(now.toMillis() + 5 * 60 * 1000); // 5 minutes
-    
-    // Update verification code document with cooldown
-    await db.collection('verificationCodes').doc(uid).update({
-      rateLimitedUntil: cooldownEnd,
-      attempts: 0, // Reset attempts after rate limit
+    const { result, email } = await db.runTransaction(async (transaction) => {
+      const verificationDoc = await transaction.get(codeRef);
+      const verificationData = verificationDoc.data() as VerificationCode | undefined;
+      const now = Date.now();
+      
+      const outcome = (checked: VerificationCheckResult) => ({ result: checked, email: verificationData?.email });
+      
+      // Active lockout
+      const lockedUntil = verificationData?.lockedUntil;
+      if (lockedUntil && lockedUntil.toMillis() > now) {
+        return outcome({
+          verified: false,
+          reason: 'locked_out',
+          remainingAttempts: 0,
+          retryAfterMs: lockedUntil.toMillis() - now,
+        });
+      }
+      
+      if (!verificationData?.codeHash || !verificationData.salt) {
+        return outcome({ verified: false, reason: 'not_found', remainingAttempts: MAX_CODE_ATTEMPTS });
+      }
+      
+      // Check if code has expired
+      if (now > verificationData.expiresAt.toMillis()) {
+        return outcome({
+          verified: false,
+          reason: 'expired',
+          remainingAttempts: MAX_CODE_ATTEMPTS - verificationData.attempts,
+        });
+      }
+      
+      if (codeMatches(code, verificationData.salt, verificationData.codeHash)) {
+        // Code is correct - mark TTU email as verified in user profile,
+        // which also confirms student status for this academic year
+        transaction.update(db.collection('users').doc(uid), {
+          ttuEmail: verificationData.email,
+          ttuEmailVerified: true,
+          ...getStudentVerifiedFields(new Date(now)),
+          updatedAt: Timestamp.fromMillis(now),
+        });
+        
+        // Delete verification code document after successful verification
+        transaction.delete(codeRef);
+        
+        return outcome({ verified: true, remainingAttempts: MAX_CODE_ATTEMPTS });
+      }
+      
+      const attempts = verificationData.attempts + 1;
+      
+      if (attempts >= MAX_CODE_ATTEMPTS) {
+        // Discard the code and lock the user out; a new code is needed afterwards
+        const lockoutEnd = Timestamp.fromMillis(now + LOCKOUT_MINUTES * 60 * 1000);
+        
+        transaction.update(codeRef, {
+          codeHash: FieldValue.delete(),
+          salt: FieldValue.delete(),
+          attempts: 0,
+          lockedUntil: lockoutEnd,
+        });
+        
+        console.log(`Locked out TTU email verification for user ${uid} until ${lockoutEnd.toDate()}`);
+        
+        return outcome({
+          verified: false,
+          reason: 'locked_out',
+          remainingAttempts: 0,
+          retryAfterMs: lockoutEnd.toMillis() - now,
+        });
+      }
+      
+      transaction.update(codeRef, { attempts });
+      
+      return outcome({
+        verified: false,
+        reason: 'invalid',
+        remainingAttempts: MAX_CODE_ATTEMPTS - attempts,
+      });
     });
     
-    console.log(`Applied rate limit for user ${uid} until ${cooldownEnd.toDate()}`);
-  } catch (error) {
-    console.error('Error applying rate limit:', error);
-    throw new Error('Failed to apply rate limit.');
-  }
-}
-
-/**
- * Check if user is currently rate limited
- * 
- * @param uid - The Firebase user ID
- * @returns true if user is rate limited, false otherwise
- */
-export async function isRateLimited(uid: string): Promise<boolean> {
-  const db = getAdminFirestore();
-  
-  try {
-    const verificationDoc = await db.collection('verificationCodes').doc(uid).get();
-    
-    if (!verificationDoc.exists) {
-      return false;
-    }
-    
-    const verificationData = verificationDoc.data() as VerificationCode & { rateLimitedUntil?: Timestamp };
+    await logVerificationAttempt(uid, email, 'verify', result.verified ? 'verified' : result.reason!, meta);
     
-    if (!verificationData.rateLimitedUntil) {
-      return false;
-    }
-    
-    const now = Timestamp.now();
-    return now.toMillis() < verificationData.rateLimitedUntil.toMillis();
+    return result;
   } catch (error) {
-    console.error('Error checking rate limit:', error);
-    return false;
+    console.error('Error verifying code:', error);
+    throw error;
   }
 }
 
 /**
  * Clean up failed verification by deleting Firebase account and user profile
- * Called after 3 failed verification attempts
+ * Called when a user leaves onboarding before verifying their TTU email
  * 
  * @param uid - The Firebase user ID
  * @throws Error if deletion fails
@@ -272,7 +434,7 @@ export async function cleanupFailedVerification(uid: string): Promise<void> {
     await db.collection('users').doc(uid).delete();
     
     // Delete verification code document
-    await db.collection('verificationCodes').doc(uid).delete();
+    await db.collection(CODES_COLLECTION).doc(uid).delete();
     
     // Delete Firebase Authentication account
     await auth.deleteUser(uid);
@@ -308,3 +470,48 @@ export async function hasCompletedOnboarding(uid: string): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Remove accounts abandoned before verification (the accounts.cleanup job)
+ * Members who close the onboarding page without finishing are normally
+ * removed right away (see cleanupFailedVerification); this catches the
+ * accounts that request never reached. Only accounts that have neither
+ * completed onboarding nor verified a TTU email, and were created more
+ * than a day ago, are removed.
+ * 
+ * @returns Number of accounts removed
+ * @throws Error if the query fails
+ */
+export async function cleanupExpiredAccounts(): Promise<number> {
+  const db = getAdminFirestore();
+  const cutoff = Timestamp.fromMillis(Date.now() - ABANDONED_ACCOUNT_HOURS * 60 * 60 * 1000);
+  
+  try {
+    const snapshot = await db.collection('users')
+      .where('hasCompletedOnboarding', '==', false)
+      .where('createdAt', '<', cutoff)
+      .limit(CLEANUP_BATCH_SIZE)
+      .get();
+    
+    let cleanedCount = 0;
+    
+    for (const userDoc of snapshot.docs) {
+      if (userDoc.data().ttuEmailVerified === true) {
+        continue;
+      }
+      
+      try {
+        await cleanupFailedVerification(userDoc.id);
+        cleanedCount++;
+      } catch (error) {
+        // Keep going; the next run tries again
+        console.error(`Error removing abandoned account ${userDoc.id}:`, error);
+      }
+    }
+    
+    return cleanedCount;
+  } catch (error) {
+    console.error('Error cleaning up expired accounts:', error);
+    throw error;
+  }
+}
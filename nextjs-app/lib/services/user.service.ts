@@ -2,6 +2,11 @@ import 'server-only';
 import { getAdminFirestore } from '../firebase/admin';
 import type { User, AttendedEvent } from '../types';
 import { Timestamp } from 'firebase-admin/firestore';
+import { resolveRoles } from '../constants/roles';
+import { isActiveMember, resolveMemberStatus } from '../constants/memberStatuses';
+import { recordLedgerEntry } from './pointsLedger.service';
+import { evaluateUserBadges } from './badge.service';
+import { refreshLeaderboardEntry } from './leaderboard.service';
 
 /**
  * User Service
@@ -42,7 +47,9 @@ export async function getUser(userId: string): Promise<User | null> {
       email: data.email || '',
       displayName: data.displayName || '',
       ttuVerified: data.ttuVerified ?? data.ttuEmailVerified ?? false,
+      memberStatus: resolveMemberStatus(data),
       isAdmin: data.isAdmin ?? false,
+      roles: resolveRoles(data),
       points: data.points ?? 0,
       attendedEvents: data.attendedEvents ?? [],
       createdAt: data.createdAt,
@@ -55,7 +62,8 @@ export async function getUser(userId: string): Promise<User | null> {
 }
 
 /**
- * Get all TTU verified users
+ * Get all TTU verified users who are active members
+ * Alumni and inactive members are left out (e.g. of calendar invitations).
  * @returns Array of TTU verified users
  */
 export async function getTTUVerifiedUsers(): Promise<User[]> {
@@ -70,12 +78,18 @@ export async function getTTUVerifiedUsers(): Promise<User[]> {
     
     snapshot.forEach((doc) => {
       const data = doc.data();
+      if (!isActiveMember(data)) {
+        return;
+      }
+      
       users.push({
         uid: doc.id,
         email: data.email || '',
         displayName: data.displayName || '',
         ttuVerified: data.ttuVerified ?? data.ttuEmailVerified ?? false,
+        memberStatus: resolveMemberStatus(data),
         isAdmin: data.isAdmin ?? false,
+        roles: resolveRoles(data),
         points: data.points ?? 0,
         attendedEvents: data.attendedEvents ?? [],
         createdAt: data.createdAt,
@@ -118,7 +132,9 @@ export async function searchUsers(query: string): Promise<User[]> {
           email: data.email || '',
           displayName: data.displayName || '',
           ttuVerified: data.ttuVerified ?? data.ttuEmailVerified ?? false,
+          memberStatus: resolveMemberStatus(data),
           isAdmin: data.isAdmin ?? false,
+          roles: resolveRoles(data),
           points: data.points ?? 0,
           attendedEvents: data.attendedEvents ?? [],
           createdAt: data.createdAt,
@@ -134,6 +150,33 @@ export async function searchUsers(query: string): Promise<User[]> {
   }
 }
 
+/**
+ * Find a user's UID by email address
+ * Matches the sign-in email first, then the verified TTU email.
+ * @param email - Email address (case-insensitive)
+ * @returns User UID or null if no user has this email
+ */
+export async function findUserIdByEmail(email: string): Promise<string | null> {
+  try {
+    const db = getAdminFirestore();
+    const usersRef = db.collection('users');
+    const normalized = email.trim().toLowerCase();
+    
+    for (const field of ['email', 'ttuEmail']) {
+      const snapshot = await usersRef.where(field, '==', normalized).limit(1).get();
+      
+      if (!snapshot.empty) {
+        return snapshot.docs[0].id;
+      }
+    }
+    
+    return null;
+  } catch (error) {
+    console.error('Error finding user by email:', error);
+    throw new Error('Failed to find user');
+  }
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -189,7 +232,7 @@ export async function getAttendanceHistory(userId: string): Promise<AttendedEven
 
 /**
  * Add points to a user with audit logging
- * Creates a PointAdjustment document and updates user's points atomically
+ * Creates a PointAdjustment document and a matching ledger entry atomically
  * 
  * @param userId - User receiving points
  * @param points - Points to add (can be negative)
@@ -217,11 +260,8 @@ export async function addPoints(
       
       const userData = userDoc.data();
       const currentPoints = userData?.points ?? 0;
-      const updatedPoints = currentPoints + points;
       
-      // Update user's points
       transaction.update(userRef, {
-        points: updatedPoints,
         updatedAt: Timestamp.now(),
       });
       
@@ -235,9 +275,24 @@ export async function addPoints(
         createdAt: Timestamp.now(),
       });
       
-      return updatedPoints;
+      // Apply the adjustment through the ledger
+      recordLedgerEntry(transaction, {
+        userId,
+        points,
+        type: 'manual_adjustment',
+        sourceType: 'pointAdjustment',
+        sourceId: adjustmentRef.id,
+        description: reason,
+        createdBy: adminUid,
+      });
+      
+      return currentPoints + points;
     });
     
+    // Badges and the materialized leaderboard are best-effort and never fail the adjustment itself
+    await evaluateUserBadges(userId).catch(() => undefined);
+    await refreshLeaderboardEntry(userId).catch(() => undefined);
+    
     return newPoints;
   } catch (error) {
     console.error('Error adding points:', error);
@@ -12,6 +12,7 @@ import {
   serverTimestamp
 } from 'firebase/firestore';
 import { firestore } from '../firebase/config';
+import type { BadgeId, MemberStatus, Role, UniversityLevel } from '../types';
 
 /**
  * Attended event metadata stored in user's attendedEvents array
@@ -25,6 +26,14 @@ export interface AttendedEvent {
   attendedAt: Timestamp;         // When attendance was recorded
 }
 
+/**
+ * Achievement badge stored in user's badges array
+ */
+export interface AwardedBadge {
+  id: BadgeId;                   // Badge definition ID
+  awardedAt: Timestamp;          // When the badge was earned
+}
+
 /**
  * User Profile interface matching Firestore schema
  */
@@ -45,7 +54,7 @@ export interface UserProfile {
   lastName?: string;
   major?: string;
   rNumber?: string;
-  universityLevel?: 'freshman' | 'sophomore' | 'junior' | 'senior' | 'graduate' | 'other';
+  universityLevel?: UniversityLevel;
   aspiredPosition?: string;
   
   // Social Links
@@ -58,9 +67,11 @@ export interface UserProfile {
   resumeId?: string;
   
   // Admin and Event Management
-  isAdmin: boolean;              // Admin role flag (default: false)
+  isAdmin: boolean;              // Has any admin role (default: false)
+  roles?: Role[];                // Admin roles (see lib/constants/roles)
   points: number;                // Total accumulated points (default: 0)
   attendedEvents: AttendedEvent[]; // Array of attended event details
+  badges?: AwardedBadge[];       // Earned achievement badges
   
   // Metadata
   createdAt: Timestamp;
@@ -69,6 +80,14 @@ export interface UserProfile {
   // Verification tracking
   verificationAttempts?: number;
   verificationExpiresAt?: Timestamp;
+  
+  // Annual re-verification
+  memberStatus?: MemberStatus;          // Default: 'active'
+  studentVerifiedYear?: string;         // Academic year of the last school email confirmation, e.g. "2026-2027"
+  reverificationYear?: string;          // Academic year of the open re-verification prompt
+  reverificationDueAt?: Timestamp;      // End of the grace period to re-confirm (while prompted)
+  reverificationLevel?: UniversityLevel; // Level before it was advanced for the prompt (decides alumni vs inactive)
+  memberStatusChangedAt?: Timestamp;    // When the member last became alumni, inactive or active again
 }
 
 /**
@@ -143,6 +162,13 @@ export async function updateUserProfile(
     delete (updateData as any).uid;
     delete (updateData as any).email;
     delete (updateData as any).isAdmin;  // Prevent role modification through app interface
+    delete (updateData as any).roles;
+    delete (updateData as any).memberStatus;  // Membership status is managed by re-verification
+    delete (updateData as any).studentVerifiedYear;
+    delete (updateData as any).reverificationYear;
+    delete (updateData as any).reverificationDueAt;
+    delete (updateData as any).reverificationLevel;
+    delete (updateData as any).memberStatusChangedAt;
     
     // Remove undefined values (Firestore doesn't support undefined)
     Object.keys(updateData).forEach(key => {
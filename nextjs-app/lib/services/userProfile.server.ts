@@ -1,6 +1,7 @@
 import 'server-only';
 import { getAdminFirestore, getAdminAuth } from '../firebase/admin';
 import type { Timestamp } from 'firebase-admin/firestore';
+import type { BadgeId, MemberStatus, Role, UniversityLevel } from '../types';
 
 /**
  * Attended event metadata stored in user's attendedEvents array
@@ -14,6 +15,14 @@ export interface AttendedEvent {
   attendedAt: Timestamp;         // When attendance was recorded
 }
 
+/**
+ * Achievement badge stored in user's badges array
+ */
+export interface AwardedBadge {
+  id: BadgeId;                   // Badge definition ID
+  awardedAt: Timestamp;          // When the badge was earned
+}
+
 /**
  * User Profile interface matching Firestore schema
  */
@@ -34,7 +43,7 @@ export interface UserProfile {
   lastName?: string;
   major?: string;
   rNumber?: string;
-  universityLevel?: 'freshman' | 'sophomore' | 'junior' | 'senior' | 'graduate' | 'other';
+  universityLevel?: UniversityLevel;
   aspiredPosition?: string;
   
   // Social Links
@@ -47,9 +56,11 @@ export interface UserProfile {
   resumeId?: string;
   
   // Admin and Event Management
-  isAdmin: boolean;              // Admin role flag (default: false)
+  isAdmin: boolean;              // Has any admin role (default: false)
+  roles?: Role[];                // Admin roles (see lib/constants/roles)
   points: number;                // Total accumulated points (default: 0)
   attendedEvents: AttendedEvent[]; // Array of attended event details
+  badges?: AwardedBadge[];       // Earned achievement badges
   
   // Metadata
   createdAt: Timestamp;
@@ -58,6 +69,14 @@ export interface UserProfile {
   // Verification tracking
   verificationAttempts?: number;
   verificationExpiresAt?: Timestamp;
+  
+  // Annual re-verification
+  memberStatus?: MemberStatus;          // Default: 'active'
+  studentVerifiedYear?: string;         // Academic year of the last school email confirmation, e.g. "2026-2027"
+  reverificationYear?: string;          // Academic year of the open re-verification prompt
+  reverificationDueAt?: Timestamp;      // End of the grace period to re-confirm (while prompted)
+  reverificationLevel?: UniversityLevel; // Level before it was advanced for the prompt (decides alumni vs inactive)
+  memberStatusChangedAt?: Timestamp;    // When the member last became alumni, inactive or active again
 }
 
 /**
@@ -137,6 +156,7 @@ export async function updateUserProfile(
     delete (updateData as any).uid;
     delete (updateData as any).email;
     delete (updateData as any).isAdmin;  // Prevent role modification through app interface
+    delete (updateData as any).roles;
     
     await userRef.update(updateData);
   } catch (error) {
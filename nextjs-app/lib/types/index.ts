@@ -16,6 +16,31 @@ import { Timestamp } from 'firebase/firestore';
  */
 export type EventStatus = 'upcoming' | 'active' | 'completed' | 'cancelled';
 
+/**
+ * Attendance code mode
+ * - static: a single 6-digit code stored on the event
+ * - rotating: a time-based code derived from a per-event secret (TOTP-style)
+ */
+export type AttendanceCodeMode = 'static' | 'rotating';
+
+/**
+ * Kind of event, used for filtering and category-based badges
+ */
+export type EventCategory = 'general' | 'workshop' | 'social' | 'hackathon';
+
+/**
+ * How often a recurring event series repeats
+ */
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+/**
+ * Which occurrences of a recurring series an edit applies to
+ * - this: only the selected occurrence
+ * - following: the selected occurrence and every later one
+ * - all: every occurrence that has not started yet
+ */
+export type SeriesEditScope = 'this' | 'following' | 'all';
+
 /**
  * Complete event document structure stored in Firestore
  */
@@ -27,16 +52,43 @@ export interface Event {
   endTime?: Timestamp;           // Event end time (set when admin manually ends event)
   location: string;              // Event location
   pointsValue: number;           // XP awarded for attendance
+  category?: EventCategory;      // Kind of event (default: general)
   createdBy: string;             // Admin UID who created event
+  hostIds?: string[];            // UIDs granted event-scoped access (edit, check-in)
   status: EventStatus;           // Current event status
   attendanceCode?: string;       // 6-digit code (optional, generated on demand)
   codeActive: boolean;           // Whether code is currently active
+  codeMode?: AttendanceCodeMode; // How the attendance code is produced (default: static)
+  codeRotationSeconds?: number;  // Seconds each rotating code stays valid (rotating mode only)
   attendees: string[];           // Array of user UIDs who attended
+  capacity?: number | null;      // Max confirmed RSVPs (null/undefined = unlimited)
+  rsvps: string[];               // Confirmed RSVP user UIDs, in RSVP order
+  waitlist: string[];            // Waitlisted user UIDs, FIFO
+  seriesId?: string;             // Recurring series this event belongs to
+  occurrenceIndex?: number;      // Position of this occurrence in its series (0-based)
+  sequence?: number;             // iCalendar SEQUENCE, bumped on every schedule change (default: 0)
   createdAt: Timestamp;          // Creation timestamp
   updatedAt: Timestamp;          // Last update timestamp
   cleanedUp?: boolean;           // Whether event has been cleaned up (24h after completion)
 }
 
+/**
+ * Options for generating an attendance code
+ */
+export interface GenerateCodeOptions {
+  mode?: AttendanceCodeMode;
+  rotationSeconds?: number;
+}
+
+/**
+ * Live rotating attendance code as shown to admins
+ */
+export interface CurrentAttendanceCode {
+  code: string;
+  expiresAt: string;             // ISO time when this code rotates
+  rotationSeconds: number;
+}
+
 /**
  * Input data for creating a new event
  */
@@ -46,6 +98,47 @@ export interface CreateEventInput {
   startTime: Date;
   location: string;
   pointsValue: number;
+  capacity?: number | null;
+  category?: EventCategory;
+  hostIds?: string[];            // Users granted event-scoped access
+  recurrence?: RecurrenceRule;   // Expand into a recurring series when set
+}
+
+/**
+ * Recurrence definition for an event series
+ * Ends on `until` or after `count` occurrences (exactly one is required).
+ * Skipped dates still count toward `count`.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  until?: Date;                  // Last date an occurrence may start on
+  count?: number;                // Total number of scheduled occurrences
+  skipDates?: string[];          // Dates (YYYY-MM-DD, chapter time zone) with no occurrence
+}
+
+/**
+ * Recurring event series definition stored in Firestore
+ * Occurrences are materialized as Event documents on a rolling window.
+ */
+export interface EventSeries {
+  id: string;                    // Firestore document ID
+  name: string;                  // Template fields copied onto new occurrences
+  description: string;
+  location: string;
+  pointsValue: number;
+  capacity: number | null;
+  category: EventCategory;
+  frequency: RecurrenceFrequency;
+  startTime: Timestamp;          // Start of the first occurrence (schedule anchor)
+  until: Timestamp | null;
+  count: number | null;
+  skipDates: string[];
+  nextIndex: number;             // Next occurrence index to materialize
+  completed: boolean;            // Whether every occurrence has been materialized
+  createdBy: string;
+  hostIds: string[];             // Hosts granted on every new occurrence
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
 }
 
 /**
@@ -55,12 +148,26 @@ export interface EventFilter {
   status?: EventStatus | EventStatus[];
   startAfter?: Date;
   startBefore?: Date;
+  rsvpedBy?: string;             // Only events this UID has a confirmed RSVP for
 }
 
 // ============================================================================
 // User Types
 // ============================================================================
 
+/**
+ * Member's year in school, as entered in their profile
+ */
+export type UniversityLevel = 'freshman' | 'sophomore' | 'junior' | 'senior' | 'graduate' | 'other';
+
+/**
+ * Membership status
+ * Members who don't re-confirm their school email each academic year become
+ * alumni or inactive; they keep their history but are left out of
+ * active-member counts and seasonal leaderboards.
+ */
+export type MemberStatus = 'active' | 'alumni' | 'inactive';
+
 /**
  * Extended user document structure stored in Firestore
  */
@@ -69,9 +176,12 @@ export interface User {
   email: string;                 // User email
   displayName: string;           // User display name
   ttuVerified: boolean;          // TTU email verification status
-  isAdmin: boolean;              // Admin role flag (default: false)
+  memberStatus: MemberStatus;    // Membership status (default: 'active')
+  isAdmin: boolean;              // Has any admin role (kept in sync with roles)
+  roles: Role[];                 // Admin roles granting permissions (default: [])
   points: number;                // Total accumulated points (default: 0)
   attendedEvents: AttendedEvent[]; // Array of attended event details
+  badges?: AwardedBadge[];       // Achievement badges earned so far
   createdAt: Timestamp;          // Account creation timestamp
   updatedAt: Timestamp;          // Last update timestamp
 }
@@ -88,6 +198,148 @@ export interface AttendedEvent {
   attendedAt: Timestamp;         // When attendance was recorded
 }
 
+// ============================================================================
+// Role Types
+// ============================================================================
+
+/**
+ * Named admin role
+ * - super-admin: full access, including deleting events and managing roles
+ * - officer: runs events day to day, but cannot delete events or adjust points
+ * - event-host: creates events and manages only the events they host
+ * - points-manager: adjusts points and maintains the ledger and leaderboards
+ * - viewer: read-only access to the admin area
+ */
+export type Role = 'super-admin' | 'officer' | 'event-host' | 'points-manager' | 'viewer';
+
+/**
+ * Action a role may perform
+ * Event-scoped permissions (events:edit, events:check-in) are also granted for
+ * a single event to the users listed in its hostIds.
+ */
+export type Permission =
+  | 'events:view'
+  | 'events:create'
+  | 'events:edit'
+  | 'events:delete'
+  | 'events:check-in'
+  | 'events:assign-hosts'
+  | 'users:view'
+  | 'points:adjust'
+  | 'points:reconcile'
+  | 'security:view'
+  | 'audit:view'
+  | 'analytics:view'
+  | 'members:export'
+  | 'system:view'
+  | 'roles:manage';
+
+// ============================================================================
+// Badge Types
+// ============================================================================
+
+/**
+ * Identifier of an achievement badge
+ */
+export type BadgeId =
+  | 'first-event'
+  | 'semester-regular'
+  | 'workshop-streak'
+  | 'top-ten'
+  | 'major-league-month';
+
+/**
+ * Declarative condition a member must meet to earn a badge
+ * - eventCount: attended at least `count` events in total
+ * - eventsInSemester: attended at least `count` events within one semester
+ * - categoryStreak: attended `count` consecutive events of a category
+ * - leaderboardRank: ranked `rank` or better on the all-time leaderboard
+ * - majorLeagueMonth: attended `minEvents` events during a Major League hackathon window
+ */
+export type BadgeCriteria =
+  | { type: 'eventCount'; count: number }
+  | { type: 'eventsInSemester'; count: number }
+  | { type: 'categoryStreak'; category: EventCategory; count: number }
+  | { type: 'leaderboardRank'; rank: number }
+  | { type: 'majorLeagueMonth'; minEvents: number };
+
+/**
+ * Badge definition (name, art, and the rule that awards it)
+ */
+export interface BadgeDefinition {
+  id: BadgeId;
+  name: string;
+  description: string;
+  icon: string;                  // Emoji shown on profile and leaderboard
+  criteria: BadgeCriteria;
+}
+
+/**
+ * Badge earned by a user, stored on the user document
+ */
+export interface AwardedBadge {
+  id: BadgeId;
+  awardedAt: Timestamp;
+}
+
+// ============================================================================
+// Leaderboard Types
+// ============================================================================
+
+/**
+ * Time range a leaderboard ranks points over
+ * - lifetime: total points (users.points)
+ * - semester / academic-year: the current (or given) term
+ * - major-league: one Major League hackathon window
+ * - custom: an arbitrary date range
+ */
+export type LeaderboardScope = 'lifetime' | 'semester' | 'academic-year' | 'major-league' | 'custom';
+
+/**
+ * Scopes that have a natural end and are archived when they finish
+ */
+export type SeasonScope = 'semester' | 'academic-year' | 'major-league';
+
+/**
+ * Resolved date range for a scoped leaderboard
+ */
+export interface LeaderboardWindow {
+  scope: LeaderboardScope;
+  key: string;                   // Stable identifier, e.g. "2026-fall"
+  label: string;                 // Display name, e.g. "Fall 2026"
+  start: Date;                   // Inclusive
+  end: Date;                     // Exclusive
+}
+
+/**
+ * A member's standing on a leaderboard
+ */
+export interface LeaderboardEntry {
+  id: string;
+  rank: number;                  // 1-based, ties share a rank
+  firstName: string;
+  lastName: string;
+  photoURL: string | null;
+  points: number;                // Points earned within the scope
+  attendedEvents: number;        // Events attended within the scope
+  badges: BadgeId[];
+}
+
+/**
+ * Frozen final standings of a finished season
+ */
+export interface LeaderboardArchive {
+  id: string;                    // `${scope}_${key}`
+  scope: SeasonScope;
+  key: string;
+  label: string;
+  start: Timestamp;
+  end: Timestamp;
+  standings: LeaderboardEntry[]; // Photo URLs are not archived (signed URLs expire)
+  archivedAt: Timestamp;
+  archivedBy: string;            // Admin UID or 'system'
+}
+
 // ============================================================================
 // Point Adjustment Types
 // ============================================================================
@@ -104,6 +356,448 @@ export interface PointAdjustment {
   createdAt: Timestamp;          // Adjustment timestamp
 }
 
+/**
+ * Kind of points ledger entry
+ * - attendance: credit for attending an event
+ * - manual_adjustment: admin credit or debit
+ * - reversal: undoes an earlier entry
+ * - opening_balance: points carried over from before the ledger existed
+ */
+export type PointsLedgerEntryType = 'attendance' | 'manual_adjustment' | 'reversal' | 'opening_balance';
+
+/**
+ * What a ledger entry was created from
+ */
+export type PointsLedgerSourceType = 'event' | 'pointAdjustment' | 'ledger' | 'migration';
+
+/**
+ * Append-only points ledger entry (source of truth for member points)
+ * users.points is a projection of the sum of a user's entries.
+ */
+export interface PointsLedgerEntry {
+  id: string;                    // Firestore document ID
+  userId: string;                // User credited or debited
+  points: number;                // Signed point change
+  type: PointsLedgerEntryType;
+  sourceType: PointsLedgerSourceType;
+  sourceId: string;              // Event, point adjustment, or ledger entry ID
+  description: string;           // Human readable summary (event name, reason)
+  reversesEntryId?: string;      // Entry undone by this reversal
+  createdBy: string;             // UID that caused the entry ('system' for jobs)
+  createdAt: Timestamp;
+}
+
+/**
+ * User whose points projection disagrees with their ledger
+ */
+export interface PointsMismatch {
+  userId: string;
+  displayName: string;
+  projectedPoints: number;       // Current users.points value
+  ledgerPoints: number;          // Sum of ledger entries
+}
+
+/**
+ * Result of reconciling users.points against the ledger
+ */
+export interface PointsReconcileReport {
+  usersChecked: number;
+  mismatches: PointsMismatch[];
+  skipped: PointsMismatch[];     // Mismatches left alone: no opening_balance entry
+  applied: boolean;              // Whether mismatches were corrected
+}
+
+// ============================================================================
+// Audit Log Types
+// ============================================================================
+
+/**
+ * Privileged action recorded in the audit log
+ */
+export type AuditAction =
+  | 'event.create'
+  | 'event.update'
+  | 'event.delete'
+  | 'event.end'
+  | 'event.generate-code'
+  | 'event.toggle-code'
+  | 'event.set-hosts'
+  | 'event.calendar-sync'
+  | 'attendance.add'
+  | 'attendance.revoke'
+  | 'attendance.import'
+  | 'attendance.check-in'
+  | 'points.adjust'
+  | 'points.reconcile'
+  | 'leaderboard.archive'
+  | 'leaderboard.rebuild'
+  | 'analytics.rebuild'
+  | 'data.export'
+  | 'role.grant'
+  | 'role.revoke';
+
+/**
+ * Kind of record an audited action targets
+ */
+export type AuditTargetType = 'event' | 'user' | 'leaderboard' | 'system';
+
+/**
+ * Record an audited action targets
+ */
+export interface AuditTarget {
+  type: AuditTargetType;
+  id: string;                    // Event ID, user UID, archive ID, or job name
+  label?: string;                // Human readable name at the time of the action
+}
+
+/**
+ * Single field changed by an audited action (null when absent)
+ */
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Request that performed an audited action
+ */
+export interface AuditRequestMeta {
+  method: string;
+  path: string;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Immutable audit log entry, written once by the server and never updated
+ */
+export interface AuditLogEntry {
+  id: string;                    // Firestore document ID
+  actorId: string;               // UID of the admin ('cli' for scripts)
+  actorEmail: string;
+  actorRoles: Role[];            // Roles held when acting
+  action: AuditAction;
+  target: AuditTarget;
+  changes: AuditChange[];        // Field-level before/after diff
+  reason?: string;               // Reason given by the admin, if any
+  context?: Record<string, string | number | boolean>; // Extra details (e.g. series edit scope)
+  request: AuditRequestMeta;
+  createdAt: Timestamp;
+}
+
+/**
+ * Filter options for querying the audit log
+ */
+export interface AuditLogFilter {
+  actorId?: string;
+  action?: AuditAction;
+  targetId?: string;
+  start?: Date;                  // Inclusive
+  end?: Date;                    // Exclusive
+}
+
+// ============================================================================
+// Rate Limiting Types
+// ============================================================================
+
+/**
+ * Sliding-window rate limit policy applied per user and per IP
+ */
+export interface RateLimitPolicy {
+  name: string;                  // Policy name (used as the key prefix)
+  limit: number;                 // Max requests per user per window
+  ipLimit?: number;              // Max requests per IP per window (default: limit)
+  windowMs: number;              // Sliding window length
+  maxFailures?: number;          // Failed attempts per user before a temporary lockout
+  ipMaxFailures?: number;        // Failed attempts per IP before a lockout (default: maxFailures)
+  failureWindowMs?: number;      // Window in which failures are counted
+  lockoutMs?: number;            // How long a lockout lasts
+}
+
+/**
+ * Result of a rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  reason?: 'rate_limited' | 'locked_out';
+  retryAfterMs?: number;
+}
+
+/**
+ * Suspicious activity record shown to admins
+ */
+export interface SuspiciousActivity {
+  id: string;                    // Firestore document ID
+  type: 'submission_burst' | 'lockout';
+  policy: string;                // Rate limit policy name
+  subject: 'user' | 'ip';        // What the limit was keyed on
+  userId?: string;               // User involved (if known)
+  ip?: string;                   // Client IP (if known)
+  count: number;                 // Requests or failures in the window
+  windowMs: number;              // Window the count covers
+  lockedUntil?: Timestamp;       // End of lockout (lockouts only)
+  createdAt: Timestamp;          // When the activity was recorded
+}
+
+// ============================================================================
+// Verification Types
+// ============================================================================
+
+/**
+ * Step in the TTU email verification flow
+ */
+export type VerificationAttemptAction = 'send' | 'verify';
+
+/**
+ * Outcome of a verification step
+ */
+export type VerificationAttemptOutcome =
+  | 'sent'                       // Code emailed
+  | 'send_failed'                // Code stored but the email could not be delivered
+  | 'cooldown'                   // Resend requested too soon
+  | 'daily_limit'                // Daily send cap reached for the user or email
+  | 'verified'                   // Correct code entered
+  | 'invalid'                    // Wrong code entered
+  | 'expired'                    // Code past its expiry
+  | 'not_found'                  // No active code for the user
+  | 'locked_out';                // Too many wrong codes; the user is locked out
+
+/**
+ * Verification attempt log entry (for abuse investigation)
+ */
+export interface VerificationAttempt {
+  id: string;                    // Firestore document ID
+  uid: string;                   // User who made the attempt
+  email?: string;                // TTU email involved (lowercased, if known)
+  action: VerificationAttemptAction;
+  outcome: VerificationAttemptOutcome;
+  ip?: string;                   // Client IP (if known)
+  userAgent?: string;            // Client user agent (if known)
+  createdAt: Timestamp;          // When the attempt was made
+}
+
+/**
+ * Result of requesting a verification code
+ */
+export interface VerificationSendResult {
+  sent: boolean;
+  reason?: Extract<VerificationAttemptOutcome, 'cooldown' | 'daily_limit' | 'locked_out'>;
+  retryAfterMs?: number;         // Time until another code may be requested
+  jobId?: string;                // email.verification-code job sending the code
+}
+
+/**
+ * Result of checking a verification code
+ */
+export interface VerificationCheckResult {
+  verified: boolean;
+  reason?: Extract<VerificationAttemptOutcome, 'invalid' | 'expired' | 'not_found' | 'locked_out'>;
+  remainingAttempts: number;     // Wrong entries left before a lockout
+  retryAfterMs?: number;         // Lockout remaining (locked out only)
+}
+
+// ============================================================================
+// Email Types
+// ============================================================================
+
+/**
+ * Delivery state of a logged email
+ */
+export type EmailSendStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * Single delivery attempt of a logged email
+ */
+export interface EmailSendAttempt {
+  at: Timestamp;
+  error?: string;                // Provider error (absent for the successful attempt)
+}
+
+/**
+ * Email send log entry (one per email sent)
+ * Message bodies are not stored, since they can contain verification codes.
+ */
+export interface EmailLogEntry {
+  id: string;                    // Firestore document ID
+  template: string;              // Email template ID
+  to: string[];
+  subject: string;
+  provider: string;              // Provider that handled the send ('resend', 'smtp', 'outbox')
+  status: EmailSendStatus;
+  attempts: EmailSendAttempt[];
+  providerMessageId?: string;    // ID returned by the provider on success
+  context?: Record<string, string | number | boolean>; // e.g. the UID the email was sent for
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// ============================================================================
+// Analytics Types
+// ============================================================================
+
+/**
+ * Turnout of a single past event
+ */
+export interface EventTurnout {
+  eventId: string;
+  name: string;
+  startTime: string;             // ISO start time
+  category: EventCategory;
+  attendees: number;
+  newAttendees: number;          // Attendees at their first event
+  returningAttendees: number;    // Attendees who had attended an earlier event
+  rsvps: number;                 // Confirmed RSVPs
+  noShows: number;               // Confirmed RSVPs who did not attend
+}
+
+/**
+ * Attendance across all events starting in a calendar month
+ */
+export interface MonthlyAttendance {
+  month: string;                 // e.g. "2026-09"
+  label: string;                 // e.g. "Sep 2026"
+  events: number;
+  attendances: number;           // Total check-ins
+  uniqueAttendees: number;
+  newAttendees: number;          // Members whose first event was this month
+  returningAttendees: number;    // Members active this month who started earlier
+}
+
+/**
+ * Members grouped by the month of their first event
+ */
+export interface RetentionCohort {
+  month: string;                 // e.g. "2026-09"
+  label: string;                 // e.g. "Sep 2026"
+  size: number;                  // Members whose first event was this month
+  retained: number[];            // Members attending in each month since (index 0 = first month)
+}
+
+/**
+ * Members and attendance for one value of a profile field
+ */
+export interface AttendanceBreakdown {
+  value: string;                 // Normalized field value ('' when not specified)
+  label: string;
+  members: number;               // Current onboarded members with this value
+  activeMembers: number;         // Current members with this value who attended any event
+  attendances: number;           // Check-ins by members with this value
+}
+
+/**
+ * RSVP follow-through across past events that took RSVPs
+ */
+export interface NoShowSummary {
+  events: number;                // Past events with at least one confirmed RSVP
+  rsvps: number;
+  attended: number;              // RSVPs who attended
+  noShows: number;
+  rate: number | null;           // noShows / rsvps (null without RSVPs)
+}
+
+/**
+ * Precomputed event analytics served to the admin dashboard
+ */
+export interface AnalyticsSummary {
+  generatedAt: string;           // ISO time the aggregates were computed
+  totals: {
+    members: number;             // Onboarded members (excluding alumni and inactive)
+    activeMembers: number;       // Members who attended any event (excluding alumni and inactive)
+    alumni: number;              // Members moved to alumni by re-verification
+    inactive: number;            // Members moved to inactive by re-verification
+    events: number;              // Past, non-cancelled events
+    attendances: number;
+    averageAttendance: number;   // Attendances per event
+  };
+  noShow: NoShowSummary;
+  events: EventTurnout[];        // Past events, oldest first
+  monthly: MonthlyAttendance[];  // Oldest first
+  cohorts: RetentionCohort[];    // Oldest first
+  byMajor: AttendanceBreakdown[];
+  byLevel: AttendanceBreakdown[];
+  topEvents: EventTurnout[];     // Highest turnout first
+}
+
+// ============================================================================
+// Export Types
+// ============================================================================
+
+/**
+ * Member data export offered to admins
+ * - roster: one row per member with their profile fields
+ * - attendance: members × events matrix of who attended
+ * - points: points ledger history
+ * - participation: per-semester participation summary
+ */
+export type ExportType = 'roster' | 'attendance' | 'points' | 'participation';
+
+/**
+ * File format of a member data export
+ */
+export type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Selectable column of a member data export
+ */
+export interface ExportColumn {
+  key: string;                   // Column key passed in the columns parameter
+  label: string;                 // Header shown in the file
+  default: boolean;              // Preselected in the export form
+}
+
+/**
+ * Options for generating a member data export
+ */
+export interface ExportOptions {
+  columns: string[];             // Column keys to include, in output order
+  startDate?: Date;              // Inclusive lower bound of the date filter
+  endDate?: Date;                // Exclusive upper bound of the date filter
+}
+
+// ============================================================================
+// System Types
+// ============================================================================
+
+/**
+ * Scheduled endpoint called by cron
+ * - events.lifecycle: /api/events/lifecycle
+ * - accounts.cleanup: /api/cleanup-expired-accounts
+ * - jobs.worker: /api/jobs/worker
+ */
+export type CronJobName = 'events.lifecycle' | 'accounts.cleanup' | 'jobs.worker';
+
+/**
+ * How a cron request was authenticated
+ * - vercel-cron: Vercel Cron, sending the CRON_SECRET bearer token
+ * - bearer: CRON_SECRET bearer token from another caller
+ * - signed: short-lived HMAC token signed with CRON_SECRET
+ * - cli: `npm run jobs:work`
+ * - local: no CRON_SECRET configured (development only)
+ */
+export type CronTrigger = 'vercel-cron' | 'bearer' | 'signed' | 'cli' | 'local';
+
+/**
+ * Outcome of a cron run
+ * - skipped: another run held the lock, so nothing was processed
+ */
+export type JobRunStatus = 'succeeded' | 'failed' | 'skipped';
+
+/**
+ * Recorded run of a cron endpoint (jobRuns collection)
+ */
+export interface JobRun {
+  id: string;                    // Firestore document ID
+  name: CronJobName;
+  trigger: CronTrigger;
+  status: JobRunStatus;
+  counts: Record<string, number | boolean>; // What the run processed (e.g. completedCount)
+  error: string | null;
+  durationMs: number;
+  startedAt: Timestamp;
+  finishedAt: Timestamp;
+}
+
 // ============================================================================
 // Service Response Types
 // ============================================================================
@@ -118,6 +812,98 @@ export interface AttendanceResult {
   eventName?: string;
 }
 
+/**
+ * Result of revoking a user's attendance at an event
+ */
+export interface AttendanceRevocation {
+  eventName: string;
+  pointsReversed: number;        // Points debited from the user (0 if already reversed)
+}
+
+/**
+ * Identifier an imported sign-in row was matched on
+ */
+export type AttendanceImportMatch = 'ttuEmail' | 'rNumber' | 'email';
+
+/**
+ * Outcome of an imported sign-in row
+ * Dry runs report matched rows; committed imports report them as added or failed.
+ */
+export type AttendanceImportStatus =
+  | 'matched'
+  | 'added'
+  | 'already-attended'
+  | 'duplicate'
+  | 'unknown'
+  | 'invalid'
+  | 'failed';
+
+/**
+ * Single row of an attendance import
+ */
+export interface AttendanceImportRow {
+  line: number;                  // 1-based line in the uploaded file
+  identifier: string;            // Email or R-number read from the row ('' if none)
+  name?: string;                 // Name from the sheet, if it has a name column
+  status: AttendanceImportStatus;
+  matchedBy?: AttendanceImportMatch;
+  userId?: string;
+  displayName?: string;          // Matched member's display name
+  message?: string;              // Why the row was skipped or failed
+}
+
+/**
+ * Result of previewing or committing an attendance import
+ */
+export interface AttendanceImportReport {
+  eventId: string;
+  eventName: string;
+  dryRun: boolean;
+  rows: AttendanceImportRow[];
+  counts: Record<AttendanceImportStatus, number>;
+}
+
+/**
+ * RSVP status of a user for an event
+ */
+export type RsvpStatus = 'confirmed' | 'waitlisted';
+
+/**
+ * Result of RSVPing to an event
+ */
+export interface RsvpResult {
+  status: RsvpStatus;
+  position?: number;             // 1-based waitlist position (waitlisted only)
+}
+
+/**
+ * Result of cancelling an RSVP
+ */
+export interface CancelRsvpResult {
+  promotedUserId?: string;       // Waitlisted user promoted into the freed seat
+}
+
+/**
+ * RSVP list entry for admin export
+ */
+export interface RsvpListEntry {
+  userId: string;
+  displayName: string;
+  email: string;
+  ttuEmail?: string;
+  status: RsvpStatus;
+  position: number;              // 1-based position within its list
+  attended: boolean;
+}
+
+/**
+ * Signed QR check-in token issued to a member
+ */
+export interface CheckInToken {
+  token: string;                 // Signed payload encoded in the QR code
+  expiresAt: string;             // ISO time after which the token is rejected
+}
+
 /**
  * Result of calendar invitation sending
  */
@@ -126,6 +912,23 @@ export interface CalendarResult {
   sentTo: string[];              // Successfully sent emails
   failed: string[];              // Failed emails
   errors: CalendarError[];       // Error details
+  outcomes: CalendarRecipientOutcome[]; // What happened for each recipient
+}
+
+/**
+ * Outcome of one recipient's invitation operation
+ * - sent: the provider accepted the create, update or cancellation
+ * - rate-limited: still throttled after retrying; retry after retryAfterMs
+ * - failed: the provider rejected it
+ */
+export interface CalendarRecipientOutcome {
+  email: string;
+  action: CalendarSyncAction;
+  status: 'sent' | 'rate-limited' | 'failed';
+  attempts: number;              // Requests made, including rate-limit retries
+  providerEventId?: string;      // Provider's event ID for created invitations
+  retryAfterMs?: number;
+  error?: string;
 }
 
 /**
@@ -137,7 +940,7 @@ export interface CalendarError {
 }
 
 /**
- * Microsoft Outlook calendar event structure
+ * Microsoft Outlook calendar event structure (Graph provider)
  */
 export interface OutlookEvent {
   subject: string;
@@ -165,6 +968,34 @@ export interface OutlookEvent {
   }>;
 }
 
+/**
+ * Change to push to the calendar invitations already sent for an event
+ */
+export type CalendarSyncAction = 'create' | 'update' | 'cancel';
+
+/**
+ * Where an event's calendar invitations stand
+ * - pending: a change is queued or its job is retrying it
+ * - synced: every invitation reflects the latest event details
+ * - failed: the job ran out of retries; an admin can retry manually
+ */
+export type CalendarSyncState = 'pending' | 'synced' | 'failed';
+
+/**
+ * Calendar invitation sync status for an event, as shown to admins
+ */
+export interface CalendarSyncStatus {
+  eventId: string;
+  state: CalendarSyncState;
+  pendingAction: CalendarSyncAction | null;
+  provider: string | null;       // Calendar provider the invitations were sent with
+  invited: number;               // Recipients with a provider event
+  failed: number;                // Recipients the last attempt failed for
+  attempts: number;              // Attempts for the pending action
+  lastError: string | null;
+  lastSyncedAt: string | null;   // ISO time invitations were last fully synced
+}
+
 // ============================================================================
 // API Response Types
 // ============================================================================
@@ -0,0 +1,309 @@
+/**
+ * Minimal streaming XLSX writer for admin exports
+ * 
+ * Writes a single-sheet workbook as an uncompressed zip. Rows are encoded
+ * as they arrive, so large exports stream without being held in memory.
+ * Strings are stored inline, numbers as numbers, booleans as TRUE/FALSE.
+ */
+
+export type XlsxCell = string | number | boolean | null | undefined;
+
+const encoder = new TextEncoder();
+
+// ============================================================================
+// Zip Container
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Update a running CRC-32 with another chunk
+ */
+function updateCrc(crc: number, chunk: Uint8Array): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < chunk.length; i++) {
+    c = CRC_TABLE[(c ^ chunk[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a little-endian binary record
+ */
+function record(fields: [number, 2 | 4][], name?: Uint8Array): Uint8Array {
+  const size = fields.reduce((sum, [, bytes]) => sum + bytes, 0);
+  const buffer = new Uint8Array(size + (name?.length ?? 0));
+  const view = new DataView(buffer.buffer);
+  let offset = 0;
+  
+  for (const [value, bytes] of fields) {
+    if (bytes === 2) {
+      view.setUint16(offset, value, true);
+    } else {
+      view.setUint32(offset, value, true);
+    }
+    offset += bytes;
+  }
+  
+  if (name) {
+    buffer.set(name, offset);
+  }
+  
+  return buffer;
+}
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+// Stored (uncompressed) entries with sizes in a trailing data descriptor and UTF-8 names
+const ZIP_FLAGS = 0x0808;
+const ZIP_VERSION = 20;
+
+/**
+ * Write zip entries as a stream of chunks
+ * Each entry's content may itself be streamed; sizes and CRCs are written
+ * after the data so nothing needs to be buffered.
+ */
+async function* zip(
+  files: { name: string; content: AsyncIterable<Uint8Array> | Uint8Array }[]
+): AsyncGenerator<Uint8Array> {
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const header = record(
+      [
+        [0x04034b50, 4], [ZIP_VERSION, 2], [ZIP_FLAGS, 2], [0, 2], [dosTime, 2], [dosDate, 2],
+        [0, 4], [0, 4], [0, 4], [name.length, 2], [0, 2],
+      ],
+      name
+    );
+    const entry: ZipEntry = { name, crc: 0, size: 0, offset };
+    
+    yield header;
+    offset += header.length;
+    
+    const chunks = file.content instanceof Uint8Array ? [file.content] : file.content;
+    for await (const chunk of chunks) {
+      entry.crc = updateCrc(entry.crc, chunk);
+      entry.size += chunk.length;
+      yield chunk;
+    }
+    offset += entry.size;
+    
+    const descriptor = record([[0x08074b50, 4], [entry.crc, 4], [entry.size, 4], [entry.size, 4]]);
+    yield descriptor;
+    offset += descriptor.length;
+    
+    entries.push(entry);
+  }
+  
+  const centralOffset = offset;
+  let centralSize = 0;
+  
+  for (const entry of entries) {
+    const header = record(
+      [
+        [0x02014b50, 4], [ZIP_VERSION, 2], [ZIP_VERSION, 2], [ZIP_FLAGS, 2], [0, 2], [dosTime, 2],
+        [dosDate, 2], [entry.crc, 4], [entry.size, 4], [entry.size, 4], [entry.name.length, 2],
+        [0, 2], [0, 2], [0, 2], [0, 2], [0, 4], [entry.offset, 4],
+      ],
+      entry.name
+    );
+    centralSize += header.length;
+    yield header;
+  }
+  
+  yield record([
+    [0x06054b50, 4], [0, 2], [0, 2], [entries.length, 2], [entries.length, 2],
+    [centralSize, 4], [centralOffset, 4], [0, 2],
+  ]);
+}
+
+// ============================================================================
+// Spreadsheet Parts
+// ============================================================================
+
+/**
+ * Escape text for XML, dropping characters XML cannot represent
+ */
+function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Get the column letters for a 0-based column index (0 → A, 26 → AA)
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Encode one row of cells (style 1 is the bold header style)
+ */
+function rowXml(cells: XlsxCell[], rowNumber: number, style = 0): string {
+  const styleAttr = style ? ` s="${style}"` : '';
+  const xml = cells.map((value, i) => {
+    const ref = `${columnName(i)}${rowNumber}`;
+    
+    if (value === null || value === undefined || value === '') {
+      return '';
+    }
+    
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`;
+    }
+    
+    if (typeof value === 'boolean') {
+      return `<c r="${ref}"${styleAttr} t="b"><v>${value ? 1 : 0}</v></c>`;
+    }
+    
+    return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+  });
+  
+  return `<row r="${rowNumber}">${xml.join('')}</row>`;
+}
+
+/**
+ * Stream the worksheet XML, batching rows into chunks
+ */
+async function* sheetXml(header: string[], rows: AsyncIterable<XlsxCell[]>): AsyncGenerator<Uint8Array> {
+  let batch =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    '<sheetData>' +
+    rowXml(header, 1, 1);
+  let rowNumber = 1;
+  
+  for await (const row of rows) {
+    rowNumber++;
+    batch += rowXml(row, rowNumber);
+    
+    if (batch.length > 64 * 1024) {
+      yield encoder.encode(batch);
+      batch = '';
+    }
+  }
+  
+  yield encoder.encode(`${batch}</sheetData></worksheet>`);
+}
+
+/**
+ * Create a streamed single-sheet XLSX workbook
+ * 
+ * @param sheetName - Worksheet tab name (truncated to Excel's 31 characters)
+ * @param header - Column headings, shown in bold on a frozen first row
+ * @param rows - Data rows, consumed as the stream is read
+ * @returns Byte stream of the .xlsx file
+ */
+export function createXlsxStream(
+  sheetName: string,
+  header: string[],
+  rows: AsyncIterable<XlsxCell[]>
+): ReadableStream<Uint8Array> {
+  const safeSheetName = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Sheet1');
+  
+  const parts = zip([
+    {
+      name: '[Content_Types].xml',
+      content: encoder.encode(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>'
+      ),
+    },
+    {
+      name: '_rels/.rels',
+      content: encoder.encode(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+      ),
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: encoder.encode(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>'
+      ),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: encoder.encode(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>'
+      ),
+    },
+    {
+      name: 'xl/styles.xml',
+      content: encoder.encode(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '</styleSheet>'
+      ),
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: sheetXml(header, rows),
+    },
+  ]);
+  
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await parts.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await parts.return(undefined);
+    },
+  });
+}
@@ -1,8 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { FirebaseTokenVerifier } from 'next-firebase-auth-edge/lib/auth/token-verifier';
+import { ONBOARDED_CLAIM, SESSION_COOKIE_NAME } from '@/lib/constants/session';
 
 // Define route patterns
 const PUBLIC_ROUTES = ['/', '/login', '/test-firebase', '/onboarding', '/clear-session'];
 
+// Routes that require a signed-in, onboarded member
+const PROTECTED_ROUTES = ['/profile', '/events', '/admin'];
+
+// Firebase session cookies are signed with these keys and this issuer (not the ID token ones)
+const SESSION_COOKIE_CERT_URL = 'https://www.googleapis.com/identitytoolkit/v3/relyingparty/publicKeys';
+const SESSION_COOKIE_ISSUER = 'https://session.firebase.google.com/';
+
+let sessionVerifier: FirebaseTokenVerifier | null = null;
+
+// Lazily create the verifier so public keys are cached across requests
+function getSessionVerifier(): FirebaseTokenVerifier {
+  if (!sessionVerifier) {
+    const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+    if (!projectId) {
+      throw new Error('FIREBASE_PROJECT_ID is not configured');
+    }
+    sessionVerifier = new FirebaseTokenVerifier(SESSION_COOKIE_CERT_URL, SESSION_COOKIE_ISSUER, projectId);
+  }
+  return sessionVerifier;
+}
+
 // Helper function to check if a path matches public routes
 function isPublicRoute(pathname: string): boolean {
   return PUBLIC_ROUTES.some(route => {
@@ -13,16 +36,49 @@ function isPublicRoute(pathname: string): boolean {
   });
 }
 
+// Helper function to check if a path matches protected routes (including sub-paths)
+function isProtectedRoute(pathname: string): boolean {
+  return PROTECTED_ROUTES.some(route => pathname === route || pathname.startsWith(`${route}/`));
+}
+
+// Send the user to login, remembering where they were going
+function redirectToLogin(request: NextRequest): NextResponse {
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('redirect', request.nextUrl.pathname);
+
+  const response = NextResponse.redirect(loginUrl);
+  // Drop an invalid or expired session so the client mints a fresh one
+  response.cookies.delete(SESSION_COOKIE_NAME);
+  return response;
+}
+
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
-  // Allow public routes without authentication
-  if (isPublicRoute(pathname)) {
+  // Allow public routes without authentication; only protected routes need a session
+  if (isPublicRoute(pathname) || !isProtectedRoute(pathname)) {
     return NextResponse.next();
   }
 
-  // For now, allow all routes (we'll handle auth client-side)
-  // TODO: Re-enable server-side auth checking after SSO is working
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!sessionCookie) {
+    return redirectToLogin(request);
+  }
+
+  // Verify signature, issuer and expiry at the edge; revocation is checked
+  // server-side whenever the session is minted or rotated
+  let session;
+  try {
+    session = await getSessionVerifier().verifyJWT(sessionCookie, {});
+  } catch (error) {
+    console.error('Invalid session cookie:', error);
+    return redirectToLogin(request);
+  }
+
+  if (session[ONBOARDED_CLAIM] !== true) {
+    return NextResponse.redirect(new URL('/onboarding', request.url));
+  }
+
   return NextResponse.next();
 }
 
@@ -40,4 +96,3 @@ export const config = {
     '/((?!_next/static|_next/image|favicon.ico|api|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
   ],
 };
-
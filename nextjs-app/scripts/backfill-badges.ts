@@ -0,0 +1,179 @@
+/**
+ * Migration Script: Backfill Achievement Badges
+ * 
+ * Evaluates the badge rules for every existing member and awards any
+ * badges they have already earned. Uses the same rule engine as the app,
+ * so results match what members would receive on their next check-in.
+ * 
+ * Badges are only added, never removed, so the script is safe to re-run.
+ * 
+ * Usage:
+ * npm run backfill:badges            (dry run, prints what would be awarded)
+ * npm run backfill:badges -- --apply
+ */
+
+import * as admin from 'firebase-admin';
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import {
+  evaluateBadges,
+  getStreakCategories,
+  type BadgeFacts,
+} from '../lib/badges';
+import { getLeagueWindows } from '../lib/major-league';
+
+// Load environment variables
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+const apply = process.argv.includes('--apply');
+
+interface BackfillStats {
+  total: number;
+  awardedUsers: number;
+  badges: number;
+  errors: number;
+}
+
+/**
+ * Get IDs of held (started, not cancelled) events per streak category, oldest first
+ */
+async function getEventsByCategory(): Promise<BadgeFacts['eventsByCategory']> {
+  const eventsByCategory: BadgeFacts['eventsByCategory'] = {};
+  const now = Date.now();
+  
+  for (const category of getStreakCategories()) {
+    const snapshot = await db.collection('events')
+      .where('category', '==', category)
+      .orderBy('startTime', 'asc')
+      .get();
+    
+    eventsByCategory[category] = snapshot.docs
+      .filter((doc) => {
+        const data = doc.data();
+        return data.status !== 'cancelled' && data.startTime.toMillis() <= now;
+      })
+      .map((doc) => doc.id);
+  }
+  
+  return eventsByCategory;
+}
+
+/**
+ * Get the all-time leaderboard rank of a points total (ties share a rank)
+ */
+function getRank(points: number, allPoints: number[]): number | null {
+  if (points <= 0) {
+    return null;
+  }
+  return allPoints.filter((other) => other > points).length + 1;
+}
+
+/**
+ * Main backfill function
+ */
+async function backfillBadges(): Promise<void> {
+  console.log('='.repeat(60));
+  console.log(`Backfilling Achievement Badges${apply ? '' : ' (dry run)'}`);
+  console.log('='.repeat(60));
+  console.log();
+
+  const stats: BackfillStats = {
+    total: 0,
+    awardedUsers: 0,
+    badges: 0,
+    errors: 0,
+  };
+
+  try {
+    console.log('Fetching events and users from Firestore...');
+    const eventsByCategory = await getEventsByCategory();
+    const majorLeagueWindows = getLeagueWindows();
+    
+    const usersSnapshot = await db.collection('users').get();
+    stats.total = usersSnapshot.size;
+    
+    const leaderboardPoints = usersSnapshot.docs
+      .filter((doc) => doc.data().hasCompletedOnboarding === true)
+      .map((doc) => doc.data().points ?? 0);
+
+    console.log(`Found ${stats.total} users to process`);
+    console.log();
+
+    for (const doc of usersSnapshot.docs) {
+      const userData = doc.data();
+      
+      try {
+        const earned = evaluateBadges({
+          attendance: (userData.attendedEvents ?? []).map((item: any) => ({
+            eventId: item.eventId,
+            date: item.eventDate.toDate(),
+          })),
+          eventsByCategory,
+          leaderboardRank: userData.hasCompletedOnboarding
+            ? getRank(userData.points ?? 0, leaderboardPoints)
+            : null,
+          majorLeagueWindows,
+        });
+        
+        const badges = userData.badges ?? [];
+        const owned = new Set(badges.map((badge: any) => badge.id));
+        const awarded = earned.filter((id) => !owned.has(id));
+        
+        if (awarded.length === 0) {
+          continue;
+        }
+        
+        console.log(`Processing user: ${doc.id} (${userData.email || 'no email'})`);
+        console.log(`  - ${awarded.join(', ')}`);
+        
+        if (apply) {
+          const now = admin.firestore.Timestamp.now();
+          await doc.ref.update({
+            badges: [...badges, ...awarded.map((id) => ({ id, awardedAt: now }))],
+          });
+        }
+        
+        stats.awardedUsers++;
+        stats.badges += awarded.length;
+      } catch (error) {
+        console.error(`✗ Error backfilling user ${doc.id}:`, error);
+        stats.errors++;
+      }
+    }
+
+    console.log();
+    console.log('='.repeat(60));
+    console.log('Backfill Complete');
+    console.log('='.repeat(60));
+    console.log(`Total users:    ${stats.total}`);
+    console.log(`Users awarded:  ${stats.awardedUsers}`);
+    console.log(`Badges:         ${stats.badges}`);
+    console.log(`Errors:         ${stats.errors}`);
+    console.log('='.repeat(60));
+
+    if (!apply) {
+      console.log();
+      console.log('Dry run only. Re-run with --apply to award badges.');
+    }
+
+    process.exit(stats.errors > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('Fatal error during backfill:', error);
+    process.exit(1);
+  }
+}
+
+// Run backfill
+backfillBadges();
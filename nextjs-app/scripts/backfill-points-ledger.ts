@@ -0,0 +1,220 @@
+/**
+ * Migration Script: Backfill the Points Ledger
+ * 
+ * Seeds the append-only pointsLedger collection from each user's history,
+ * so users.points can be rebuilt from the ledger:
+ * - One attendance entry per item in the user's attendedEvents array
+ * - One manual_adjustment entry per existing pointAdjustments record
+ * - An opening_balance entry for any remaining difference from users.points
+ * 
+ * Entries are only written for sources the user's ledger doesn't cover
+ * yet, so users who earned points after the ledger was deployed keep those
+ * entries and still get the rest of their history. The opening balance is
+ * users.points minus everything already in (or being added to) the ledger,
+ * so the ledger sums to users.points afterwards and the script is safe to
+ * re-run. Run it before reconciling points.
+ * 
+ * Usage:
+ * npm run backfill:ledger            (dry run, prints what would be written)
+ * npm run backfill:ledger -- --apply
+ */
+
+import * as admin from 'firebase-admin';
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+// Load environment variables
+dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
+
+// Initialize Firebase Admin SDK
+if (!admin.apps.length) {
+  admin.initializeApp({
+    credential: admin.credential.cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = admin.firestore();
+const apply = process.argv.includes('--apply');
+
+interface BackfillStats {
+  total: number;
+  backfilled: number;
+  skipped: number;
+  entries: number;
+  errors: number;
+}
+
+/**
+ * Key identifying the source an entry records
+ */
+function getSourceKey(entry: { type: string; sourceType: string; sourceId: string }): string {
+  return `${entry.type}:${entry.sourceType}:${entry.sourceId}`;
+}
+
+/**
+ * Build the missing ledger entries for a single user
+ * 
+ * @param existing - The user's current ledger entries
+ */
+async function buildEntries(userId: string, userData: any, existing: any[]): Promise<any[]> {
+  const candidates: any[] = [];
+  
+  for (const attended of userData.attendedEvents ?? []) {
+    candidates.push({
+      userId,
+      points: attended.pointsEarned ?? 0,
+      type: 'attendance',
+      sourceType: 'event',
+      sourceId: attended.eventId,
+      description: attended.eventName || 'Event attendance',
+      createdBy: 'system',
+      createdAt: attended.attendedAt ?? admin.firestore.Timestamp.now(),
+    });
+  }
+  
+  const adjustmentsSnapshot = await db.collection('pointAdjustments')
+    .where('userId', '==', userId)
+    .get();
+  
+  adjustmentsSnapshot.forEach((doc) => {
+    const adjustment = doc.data();
+    candidates.push({
+      userId,
+      points: adjustment.points ?? 0,
+      type: 'manual_adjustment',
+      sourceType: 'pointAdjustment',
+      sourceId: doc.id,
+      description: adjustment.reason || 'Manual adjustment',
+      createdBy: adjustment.adjustedBy || 'system',
+      createdAt: adjustment.createdAt ?? admin.firestore.Timestamp.now(),
+    });
+  });
+  
+  // Skip sources already in the ledger (e.g. attendance since the deploy)
+  const covered = new Set(existing.map(getSourceKey));
+  const entries = candidates.filter((entry) => !covered.has(getSourceKey(entry)));
+  
+  // Anything not explained by the ledger and history becomes an opening balance
+  const explained = [...existing, ...entries].reduce((sum, entry) => sum + (entry.points ?? 0), 0);
+  const difference = (userData.points ?? 0) - explained;
+  
+  if (difference !== 0) {
+    entries.push({
+      userId,
+      points: difference,
+      type: 'opening_balance',
+      sourceType: 'migration',
+      sourceId: userId,
+      description: 'Balance carried over from before the points ledger',
+      createdBy: 'system',
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+  }
+  
+  return entries;
+}
+
+/**
+ * Backfill a single user
+ */
+async function backfillUser(
+  userId: string,
+  userData: any,
+  stats: BackfillStats
+): Promise<void> {
+  try {
+    const existingSnapshot = await db.collection('pointsLedger')
+      .where('userId', '==', userId)
+      .get();
+    const existing = existingSnapshot.docs.map((doc) => doc.data());
+    
+    const entries = await buildEntries(userId, userData, existing);
+    
+    if (entries.length === 0) {
+      console.log(`✓ User ${userId} ledger already matches their history, skipping...`);
+      stats.skipped++;
+      return;
+    }
+    
+    for (const entry of entries) {
+      console.log(`  - ${entry.type}: ${entry.points > 0 ? '+' : ''}${entry.points} (${entry.description})`);
+    }
+    
+    if (apply) {
+      const batch = db.batch();
+      for (const entry of entries) {
+        batch.create(db.collection('pointsLedger').doc(), entry);
+      }
+      await batch.commit();
+    }
+    
+    console.log(`✓ ${apply ? 'Wrote' : 'Would write'} ${entries.length} entries for user ${userId}`);
+    stats.backfilled++;
+    stats.entries += entries.length;
+  } catch (error) {
+    console.error(`✗ Error backfilling user ${userId}:`, error);
+    stats.errors++;
+  }
+}
+
+/**
+ * Main backfill function
+ */
+async function backfillLedger(): Promise<void> {
+  console.log('='.repeat(60));
+  console.log(`Backfilling Points Ledger${apply ? '' : ' (dry run)'}`);
+  console.log('='.repeat(60));
+  console.log();
+
+  const stats: BackfillStats = {
+    total: 0,
+    backfilled: 0,
+    skipped: 0,
+    entries: 0,
+    errors: 0,
+  };
+
+  try {
+    console.log('Fetching all users from Firestore...');
+    const usersSnapshot = await db.collection('users').get();
+    stats.total = usersSnapshot.size;
+
+    console.log(`Found ${stats.total} users to process`);
+    console.log();
+
+    for (const doc of usersSnapshot.docs) {
+      const userData = doc.data();
+      
+      console.log(`Processing user: ${doc.id} (${userData.email || 'no email'})`);
+      await backfillUser(doc.id, userData, stats);
+      console.log();
+    }
+
+    console.log('='.repeat(60));
+    console.log('Backfill Complete');
+    console.log('='.repeat(60));
+    console.log(`Total users:    ${stats.total}`);
+    console.log(`Backfilled:     ${stats.backfilled}`);
+    console.log(`Skipped:        ${stats.skipped}`);
+    console.log(`Entries:        ${stats.entries}`);
+    console.log(`Errors:         ${stats.errors}`);
+    console.log('='.repeat(60));
+
+    if (!apply) {
+      console.log();
+      console.log('Dry run only. Re-run with --apply to write entries.');
+    }
+
+    process.exit(stats.errors > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('Fatal error during backfill:', error);
+    process.exit(1);
+  }
+}
+
+// Run backfill
+backfillLedger();
@@ -1,18 +1,33 @@
 /**
- * Make Admin Script
+ * Role Assignment Script
  * 
- * This script promotes a user to admin by setting their isAdmin flag to true.
+ * Grants and revokes admin roles, and assigns event hosts.
+ * Roles are checked on every API request, so changes apply immediately;
+ * the user only needs to reload the site to refresh their navigation.
+ * 
+ * Roles: super-admin, officer, event-host, points-manager, viewer
+ * (see lib/constants/roles.ts for what each role may do)
+ * Every change is recorded in the admin audit log.
  * 
  * Usage:
- * npm run make-admin <email>
+ * npm run make-admin grant <email> <role>
+ * npm run make-admin revoke <email> <role>
+ * npm run make-admin show <email>
+ * npm run make-admin list
+ * npm run make-admin host <email> <eventId>
+ * npm run make-admin unhost <email> <eventId>
+ * npm run make-admin migrate
  * 
  * Example:
- * npm run make-admin user@example.com
+ * npm run make-admin grant user@example.com officer
  */
 
 import * as admin from 'firebase-admin';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
+import * as os from 'os';
+import { ROLES, getRoleLabel, isRole, resolveRoles } from '../lib/constants/roles';
+import type { AuditAction, AuditTarget, Role } from '../lib/types';
 
 // Load environment variables
 dotenv.config({ path: path.resolve(__dirname, '../.env.local') });
@@ -31,150 +46,377 @@ if (!admin.apps.length) {
 const db = admin.firestore();
 
 /**
- * Make a user an admin
+ * Find a user document by email, exiting if it doesn't exist
+ */
+async function findUserByEmail(email: string): Promise<admin.firestore.QueryDocumentSnapshot> {
+  const usersSnapshot = await db.collection('users')
+    .where('email', '==', email)
+    .get();
+
+  if (usersSnapshot.empty) {
+    console.error(`✗ User with email ${email} not found`);
+    console.log();
+    console.log('Make sure the email is correct and the user has an account.');
+    process.exit(1);
+  }
+
+  return usersSnapshot.docs[0];
+}
+
+/**
+ * Format a role list for display
+ */
+function formatRoles(roles: Role[]): string {
+  return roles.length > 0 ? roles.map(getRoleLabel).join(', ') : 'none';
+}
+
+/**
+ * Save a user's roles, keeping the isAdmin flag in sync
+ */
+async function saveRoles(userId: string, roles: Role[]): Promise<void> {
+  await db.collection('users').doc(userId).update({
+    roles,
+    isAdmin: roles.length > 0,
+    updatedAt: admin.firestore.Timestamp.now(),
+  });
+}
+
+/**
+ * Append an entry to the admin audit log
+ * Mirrors recordAuditEvent in lib/services/audit.service.ts, which needs a
+ * request; the operator's OS account stands in for the admin.
+ */
+async function recordCliAudit(
+  action: AuditAction,
+  target: AuditTarget,
+  field: string,
+  before: unknown,
+  after: unknown
+): Promise<void> {
+  try {
+    const operator = os.userInfo().username;
+
+    await db.collection('auditLog').doc().create({
+      actorId: 'cli',
+      actorEmail: `cli:${operator}`,
+      actorRoles: [],
+      action,
+      // Firestore rejects undefined fields
+      target: target.label ? target : { type: target.type, id: target.id },
+      changes: [{ field, before, after }],
+      request: {
+        method: 'CLI',
+        path: 'scripts/make-admin.ts',
+        ip: null,
+        userAgent: `${os.hostname()} (${operator})`,
+      },
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+  } catch (error) {
+    console.error('✗ Failed to write audit log entry:', error);
+  }
+}
+
+/**
+ * Grant a role to a user
  */
-async function makeAdmin(email: string): Promise<void> {
+async function grantRole(email: string, role: Role): Promise<void> {
   try {
     console.log('='.repeat(60));
-    console.log('Make User Admin');
+    console.log('Grant Role');
     console.log('='.repeat(60));
     console.log();
-    console.log(`Looking for user with email: ${email}`);
-    console.log();
 
-    // Find user by email
-    const usersSnapshot = await db.collection('users')
-      .where('email', '==', email)
-      .get();
+    const userDoc = await findUserByEmail(email);
+    const roles = resolveRoles(userDoc.data());
 
-    if (usersSnapshot.empty) {
-      console.error(`✗ User with email ${email} not found`);
-      console.log();
-      console.log('Make sure the email is correct and the user has an account.');
-      process.exit(1);
-    }
-
-    const userDoc = usersSnapshot.docs[0];
-    const userId = userDoc.id;
-    const userData = userDoc.data();
-
-    console.log(`Found user: ${userId}`);
-    console.log(`Display Name: ${userData.displayName || 'N/A'}`);
-    console.log(`Current Admin Status: ${userData.isAdmin || false}`);
+    console.log(`Found user: ${userDoc.id}`);
+    console.log(`Display Name: ${userDoc.data().displayName || 'N/A'}`);
+    console.log(`Current Roles: ${formatRoles(roles)}`);
     console.log();
 
-    // Check if already admin
-    if (userData.isAdmin === true) {
-      console.log('✓ User is already an admin. No changes needed.');
+    if (roles.includes(role)) {
+      console.log(`✓ User already has the ${getRoleLabel(role)} role. No changes needed.`);
       process.exit(0);
     }
 
-    // Update user to admin
-    console.log('Updating user to admin...');
-    await db.collection('users').doc(userId).update({
-      isAdmin: true,
-      updatedAt: admin.firestore.Timestamp.now(),
-    });
+    const updatedRoles = [...roles, role];
+    await saveRoles(userDoc.id, updatedRoles);
+    await recordCliAudit('role.grant', { type: 'user', id: userDoc.id, label: email }, 'roles', roles, updatedRoles);
 
+    console.log(`✓ Granted ${getRoleLabel(role)} to ${email}`);
+    console.log(`Roles: ${formatRoles(updatedRoles)}`);
     console.log();
-    console.log('='.repeat(60));
-    console.log(`✓ Successfully made ${email} an admin!`);
-    console.log('='.repeat(60));
-    console.log();
-    console.log('Next steps:');
-    console.log('1. Have the user log out of the application');
-    console.log('2. Have the user log back in to refresh their session');
-    console.log('3. The user should now see admin navigation and features');
+    console.log('The user should reload the site to see the admin navigation.');
     console.log();
 
     process.exit(0);
   } catch (error) {
-    console.error('✗ Error making user admin:', error);
+    console.error('✗ Error granting role:', error);
     process.exit(1);
   }
 }
 
 /**
- * Remove admin privileges from a user
+ * Revoke a role from a user
  */
-async function removeAdmin(email: string): Promise<void> {
+async function revokeRole(email: string, role: Role): Promise<void> {
   try {
     console.log('='.repeat(60));
-    console.log('Remove Admin Privileges');
+    console.log('Revoke Role');
     console.log('='.repeat(60));
     console.log();
-    console.log(`Looking for user with email: ${email}`);
+
+    const userDoc = await findUserByEmail(email);
+    const roles = resolveRoles(userDoc.data());
+
+    console.log(`Found user: ${userDoc.id}`);
+    console.log(`Current Roles: ${formatRoles(roles)}`);
     console.log();
 
-    // Find user by email
-    const usersSnapshot = await db.collection('users')
-      .where('email', '==', email)
-      .get();
+    if (!roles.includes(role)) {
+      console.log(`✓ User does not have the ${getRoleLabel(role)} role. No changes needed.`);
+      process.exit(0);
+    }
 
-    if (usersSnapshot.empty) {
-      console.error(`✗ User with email ${email} not found`);
-      process.exit(1);
+    // Never leave the chapter without a super admin
+    if (role === 'super-admin') {
+      const superAdmins = await db.collection('users')
+        .where('roles', 'array-contains', 'super-admin')
+        .get();
+
+      if (superAdmins.size <= 1) {
+        console.error('✗ Cannot revoke the last super admin. Grant super-admin to someone else first.');
+        process.exit(1);
+      }
     }
 
-    const userDoc = usersSnapshot.docs[0];
-    const userId = userDoc.id;
-    const userData = userDoc.data();
+    const updatedRoles = roles.filter((existing) => existing !== role);
+    await saveRoles(userDoc.id, updatedRoles);
+    await recordCliAudit('role.revoke', { type: 'user', id: userDoc.id, label: email }, 'roles', roles, updatedRoles);
 
-    console.log(`Found user: ${userId}`);
-    console.log(`Display Name: ${userData.displayName || 'N/A'}`);
-    console.log(`Current Admin Status: ${userData.isAdmin || false}`);
+    console.log(`✓ Revoked ${getRoleLabel(role)} from ${email}`);
+    console.log(`Roles: ${formatRoles(updatedRoles)}`);
     console.log();
 
-    // Check if not admin
-    if (userData.isAdmin !== true) {
-      console.log('✓ User is not an admin. No changes needed.');
-      process.exit(0);
+    process.exit(0);
+  } catch (error) {
+    console.error('✗ Error revoking role:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Show a user's roles and the events they host
+ */
+async function showUser(email: string): Promise<void> {
+  try {
+    const userDoc = await findUserByEmail(email);
+    const hostedEvents = await db.collection('events')
+      .where('hostIds', 'array-contains', userDoc.id)
+      .get();
+
+    console.log(`User: ${email} (${userDoc.id})`);
+    console.log(`Roles: ${formatRoles(resolveRoles(userDoc.data()))}`);
+    console.log(`Hosts ${hostedEvents.size} event(s)`);
+    hostedEvents.forEach((eventDoc) => {
+      console.log(`  - ${eventDoc.id}: ${eventDoc.data().name}`);
+    });
+
+    process.exit(0);
+  } catch (error) {
+    console.error('✗ Error loading user:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * List every user with an admin role
+ */
+async function listRoles(): Promise<void> {
+  try {
+    // Role assignments keep isAdmin in sync, so this also finds legacy admins
+    const snapshot = await db.collection('users').where('isAdmin', '==', true).get();
+
+    console.log(`${snapshot.size} user(s) with admin roles:`);
+    console.log();
+    snapshot.forEach((doc) => {
+      const data = doc.data();
+      console.log(`${data.email || doc.id}: ${formatRoles(resolveRoles(data))}`);
+    });
+
+    process.exit(0);
+  } catch (error) {
+    console.error('✗ Error listing roles:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Add or remove a user as a host of an event
+ * Hosts need an admin role to reach the admin pages, so hosting grants
+ * event-host to users who have none.
+ */
+async function setHost(email: string, eventId: string, hosting: boolean): Promise<void> {
+  try {
+    const userDoc = await findUserByEmail(email);
+    const eventRef = db.collection('events').doc(eventId);
+    const eventDoc = await eventRef.get();
+
+    if (!eventDoc.exists) {
+      console.error(`✗ Event ${eventId} not found`);
+      process.exit(1);
     }
 
-    // Update user to remove admin
-    console.log('Removing admin privileges...');
-    await db.collection('users').doc(userId).update({
-      isAdmin: false,
+    const hostIds: string[] = eventDoc.data()?.hostIds ?? [];
+
+    await eventRef.update({
+      hostIds: hosting
+        ? admin.firestore.FieldValue.arrayUnion(userDoc.id)
+        : admin.firestore.FieldValue.arrayRemove(userDoc.id),
       updatedAt: admin.firestore.Timestamp.now(),
     });
+    await recordCliAudit(
+      'event.set-hosts',
+      { type: 'event', id: eventId, label: eventDoc.data()?.name },
+      'hostIds',
+      hostIds,
+      hosting
+        ? Array.from(new Set([...hostIds, userDoc.id]))
+        : hostIds.filter((hostId) => hostId !== userDoc.id)
+    );
 
-    console.log();
-    console.log('='.repeat(60));
-    console.log(`✓ Successfully removed admin privileges from ${email}`);
-    console.log('='.repeat(60));
-    console.log();
+    const roles = resolveRoles(userDoc.data());
+    if (hosting && roles.length === 0) {
+      await saveRoles(userDoc.id, ['event-host']);
+      await recordCliAudit('role.grant', { type: 'user', id: userDoc.id, label: email }, 'roles', roles, ['event-host']);
+      console.log(`Granted ${getRoleLabel('event-host')} to ${email}`);
+    }
+
+    console.log(
+      hosting
+        ? `✓ ${email} now hosts "${eventDoc.data()?.name}"`
+        : `✓ ${email} no longer hosts "${eventDoc.data()?.name}"`
+    );
 
     process.exit(0);
   } catch (error) {
-    console.error('✗ Error removing admin privileges:', error);
+    console.error('✗ Error updating event hosts:', error);
     process.exit(1);
   }
 }
 
-// Parse command line arguments
-const args = process.argv.slice(2);
-const command = args[0];
-const email = args[1];
+/**
+ * Convert admins promoted before roles existed to super admins
+ */
+async function migrateLegacyAdmins(): Promise<void> {
+  try {
+    const snapshot = await db.collection('users').where('isAdmin', '==', true).get();
+    let migrated = 0;
+
+    for (const doc of snapshot.docs) {
+      if (Array.isArray(doc.data().roles)) {
+        continue;
+      }
+
+      await saveRoles(doc.id, ['super-admin']);
+      await recordCliAudit(
+        'role.grant',
+        { type: 'user', id: doc.id, label: doc.data().email },
+        'roles',
+        [],
+        ['super-admin']
+      );
+      console.log(`✓ ${doc.data().email || doc.id} → ${getRoleLabel('super-admin')}`);
+      migrated++;
+    }
+
+    console.log();
+    console.log(`Migrated ${migrated} legacy admin(s).`);
+    console.log('Review the list with `npm run make-admin list` and narrow roles where needed.');
 
-// Show usage if no arguments
-if (!command || !email) {
+    process.exit(0);
+  } catch (error) {
+    console.error('✗ Error migrating admins:', error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Print usage and exit
+ */
+function printUsage(): never {
   console.log('Usage:');
-  console.log('  Make user admin:    npm run make-admin add <email>');
-  console.log('  Remove admin:       npm run make-admin remove <email>');
+  console.log('  Grant a role:         npm run make-admin grant <email> <role>');
+  console.log('  Revoke a role:        npm run make-admin revoke <email> <role>');
+  console.log('  Show a user:          npm run make-admin show <email>');
+  console.log('  List admins:          npm run make-admin list');
+  console.log('  Host an event:        npm run make-admin host <email> <eventId>');
+  console.log('  Stop hosting:         npm run make-admin unhost <email> <eventId>');
+  console.log('  Migrate old admins:   npm run make-admin migrate');
+  console.log();
+  console.log('Roles:');
+  ROLES.forEach((role) => {
+    console.log(`  ${role.value.padEnd(16)} ${role.description}`);
+  });
   console.log();
   console.log('Examples:');
-  console.log('  npm run make-admin add user@example.com');
-  console.log('  npm run make-admin remove user@example.com');
+  console.log('  npm run make-admin grant user@example.com officer');
+  console.log('  npm run make-admin host user@example.com abc123');
   process.exit(1);
 }
 
-// Execute command
-if (command === 'add') {
-  makeAdmin(email);
-} else if (command === 'remove') {
-  removeAdmin(email);
-} else {
-  console.error(`Unknown command: ${command}`);
-  console.log('Valid commands: add, remove');
-  process.exit(1);
+/**
+ * Validate a role argument
+ */
+function parseRole(value: string | undefined): Role {
+  if (!isRole(value)) {
+    console.error(`Unknown role: ${value ?? '(missing)'}`);
+    console.log(`Valid roles: ${ROLES.map((role) => role.value).join(', ')}`);
+    process.exit(1);
+  }
+
+  return value;
+}
+
+// Parse command line arguments
+const args = process.argv.slice(2);
+const command = args[0];
+const email = args[1];
+
+// Execute command ('add' and 'remove' are kept for the old make-admin usage)
+switch (command) {
+  case 'grant':
+    if (!email) printUsage();
+    grantRole(email, parseRole(args[2]));
+    break;
+  case 'add':
+    if (!email) printUsage();
+    grantRole(email, 'super-admin');
+    break;
+  case 'revoke':
+    if (!email) printUsage();
+    revokeRole(email, parseRole(args[2]));
+    break;
+  case 'remove':
+    if (!email) printUsage();
+    revokeRole(email, 'super-admin');
+    break;
+  case 'show':
+    if (!email) printUsage();
+    showUser(email);
+    break;
+  case 'list':
+    listRoles();
+    break;
+  case 'host':
+  case 'unhost':
+    if (!email || !args[2]) printUsage();
+    setHost(email, args[2], command === 'host');
+    break;
+  case 'migrate':
+    migrateLegacyAdmins();
+    break;
+  default:
+    printUsage();
 }
@@ -0,0 +1,86 @@
+/**
+ * Job Worker CLI
+ * 
+ * Drains the background job queue (calendar invitations, verification
+ * emails, event lifecycle, account cleanup) from the command line. Use it
+ * on a long-running host instead of calling /api/jobs/worker from cron,
+ * or to drain the queue by hand. Each drain takes the worker lock and is
+ * recorded in the job history, like a call to the endpoint.
+ * 
+ * Usage:
+ * npm run jobs:work                     (drain due jobs once)
+ * npm run jobs:work -- --watch          (keep draining every 30 seconds)
+ * npm run jobs:work -- --requeue <id>   (retry a dead-lettered job)
+ */
+
+import { drainJobs } from '../lib/jobs/worker';
+import { requeueJob } from '../lib/jobs';
+import { runCronJob } from '../lib/services/jobRun.service';
+
+const WATCH_INTERVAL_MS = 30 * 1000;
+
+const args = process.argv.slice(2);
+const watch = args.includes('--watch');
+const requeueIndex = args.indexOf('--requeue');
+const requeueId = requeueIndex >= 0 ? args[requeueIndex + 1] : undefined;
+
+async function drainOnce(): Promise<void> {
+  const run = await runCronJob('jobs.worker', 'cli', () => drainJobs());
+  const { counts } = run;
+
+  if (run.status === 'skipped') {
+    console.log(`[${new Date().toISOString()}] skipped, another worker is draining the queue`);
+    return;
+  }
+
+  if (run.status === 'failed') {
+    throw new Error(run.error ?? 'Failed to drain job queue');
+  }
+
+  console.log(
+    `[${new Date().toISOString()}] scheduled ${counts.scheduled}, processed ${counts.processed} ` +
+    `(${counts.succeeded} succeeded, ${counts.retried} retrying, ${counts.deadLettered} dead-lettered)`
+  );
+}
+
+async function runJobs() {
+  try {
+    if (requeueIndex >= 0) {
+      if (!requeueId) {
+        console.error('Usage: npm run jobs:work -- --requeue <id>');
+        process.exit(1);
+      }
+
+      await requeueJob(requeueId);
+      console.log(`Requeued job ${requeueId}`);
+    }
+
+    if (!watch) {
+      await drainOnce();
+      process.exit(0);
+    }
+
+    let stopping = false;
+    process.on('SIGINT', () => {
+      stopping = true;
+    });
+
+    while (!stopping) {
+      try {
+        await drainOnce();
+      } catch (error) {
+        console.error('Error draining job queue:', error);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, WATCH_INTERVAL_MS));
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Fatal error running jobs:', error);
+    process.exit(1);
+  }
+}
+
+// Run worker
+runJobs();